@@ -0,0 +1,131 @@
+require('dotenv').config({ path: '.env.development' });
+const mongoose = require('mongoose');
+
+/**
+ * Queue Position Recalculation Benchmark
+ *
+ * Compares the legacy per-patient update loop with the bulk, incremental
+ * Queue.recalculatePositions() for a busy walk-in queue.
+ *
+ * Usage (after `npm run build`):
+ *   node scripts/benchmark-recalculate.js [waitingEntries]
+ *
+ * Runs against BENCHMARK_MONGODB_URI (default: local clinic_queue_benchmark)
+ * and drops the benchmark queue collection when done.
+ */
+
+const ENTRY_COUNT = parseInt(process.argv[2] || '500', 10);
+const BENCHMARK_URI = process.env.BENCHMARK_MONGODB_URI || 'mongodb://localhost:27017/clinic_queue_benchmark';
+const PRIORITIES = ['high', 'medium', 'low'];
+
+const Queue = require('../dist/models/Queue').default;
+
+/**
+ * Legacy implementation: one findByIdAndUpdate per waiting patient
+ */
+async function legacyRecalculatePositions() {
+  const waitingPatients = await Queue.find({ status: 'waiting' }).sort({ priority: -1, checkInTime: 1 });
+
+  for (let i = 0; i < waitingPatients.length; i++) {
+    await Queue.findByIdAndUpdate(waitingPatients[i]._id, { position: i + 1 });
+  }
+
+  return waitingPatients.length;
+}
+
+/**
+ * Seeds waiting entries directly (skipping validators that need real visits)
+ */
+async function seedWaitingEntries() {
+  await Queue.collection.deleteMany({});
+
+  const now = Date.now();
+  const entries = Array.from({ length: ENTRY_COUNT }, (_, index) => ({
+    visit: new mongoose.Types.ObjectId(),
+    patient: new mongoose.Types.ObjectId(),
+    position: index + 1,
+    status: 'waiting',
+    priority: PRIORITIES[index % PRIORITIES.length],
+    checkInTime: new Date(now - (ENTRY_COUNT - index) * 60000),
+    estimatedWaitTime: 15
+  }));
+
+  await Queue.collection.insertMany(entries);
+  await Queue.recalculatePositions(); // Start from an ordered queue
+}
+
+/**
+ * Simulates the scenarios that trigger recalculation in production
+ */
+const scenarios = {
+  'call-next (head of queue leaves)': async () => {
+    const head = await Queue.findOne({ status: 'waiting' }).sort({ position: 1 });
+    await Queue.collection.updateOne({ _id: head._id }, { $set: { status: 'in-progress' } });
+  },
+  'low-priority arrival': () => insertArrival('low'),
+  'high-priority arrival': () => insertArrival('high')
+};
+
+/**
+ * Adds a patient who has just checked in at the back of the queue
+ */
+async function insertArrival(priority) {
+  await Queue.collection.insertOne({
+    visit: new mongoose.Types.ObjectId(),
+    patient: new mongoose.Types.ObjectId(),
+    position: ENTRY_COUNT + 1,
+    status: 'waiting',
+    priority,
+    checkInTime: new Date(),
+    estimatedWaitTime: 15
+  });
+}
+
+async function time(fn) {
+  const start = process.hrtime.bigint();
+  const result = await fn();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+async function runBenchmark() {
+  if (process.env.NODE_ENV === 'production') {
+    console.error('❌ Refusing to run the benchmark with NODE_ENV=production');
+    process.exit(1);
+  }
+
+  await mongoose.connect(BENCHMARK_URI);
+  console.log(`🔗 Connected to ${mongoose.connection.db.databaseName}`);
+  console.log(`📊 Benchmarking position recalculation for ${ENTRY_COUNT} waiting entries\n`);
+
+  const rows = [];
+
+  for (const [name, applyChange] of Object.entries(scenarios)) {
+    await seedWaitingEntries();
+    await applyChange();
+    const legacy = await time(legacyRecalculatePositions);
+
+    await seedWaitingEntries();
+    await applyChange();
+    const bulk = await time(() => Queue.recalculatePositions());
+
+    rows.push({
+      scenario: name,
+      'legacy writes': legacy.result,
+      'legacy ms': legacy.ms.toFixed(1),
+      'bulk writes': bulk.result.length > 0 ? `1 bulkWrite (${bulk.result.length} ops)` : 'none',
+      'bulk ms': bulk.ms.toFixed(1)
+    });
+  }
+
+  console.table(rows);
+
+  await Queue.collection.drop().catch(() => undefined);
+  await mongoose.disconnect();
+  console.log('🎉 Benchmark completed!');
+}
+
+runBenchmark().catch(async (error) => {
+  console.error('❌ Benchmark failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
\ No newline at end of file
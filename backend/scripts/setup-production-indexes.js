@@ -13,10 +13,84 @@ async function setupProductionIndexes() {
     await db.collection('staffs').createIndex({ email: 1 }, { unique: true });
     console.log('✅ Staff email index created');
     
+    // Clinics: unique codes and a single default clinic
+    await db.collection('clinics').createIndex({ code: 1 }, { unique: true });
+    await db.collection('clinics').createIndex(
+      { isDefault: 1 },
+      { unique: true, partialFilterExpression: { isDefault: true } }
+    );
+    await db.collection('staffs').createIndex({ clinics: 1, role: 1 });
+    console.log('✅ Clinic indexes created');
+    
+    // Rooms, tickets and daily summaries are now unique per clinic
+    const superseded = [
+      ['rooms', 'name_1'],
+      ['ticketcounters', 'date_1_prefix_1'],
+      ['dailyqueuesummaries', 'date_-1'],
+      ['queues', 'stage_1_status_1_position_1']
+    ];
+    for (const [collection, indexName] of superseded) {
+      try {
+        await db.collection(collection).dropIndex(indexName);
+        console.log(`✅ Index ${collection}.${indexName} dropped`);
+      } catch (error) {
+        // Not present
+      }
+    }
+    await db.collection('rooms').createIndex({ clinic: 1, name: 1 }, { unique: true });
+    await db.collection('ticketcounters').createIndex({ clinic: 1, date: 1, prefix: 1 }, { unique: true });
+    console.log('✅ Clinic room and ticket indexes created');
+    
+    // Returning patients are matched by date of birth at check-in
+    await db.collection('patients').createIndex({ dateOfBirth: 1 });
+    console.log('✅ Patient date of birth index created');
+    
     // Example: Create index for visits collection
     await db.collection('visits').createIndex({ patient: 1, checkInTime: -1 });
+    await db.collection('visits').createIndex({ clinic: 1, checkInTime: -1 });
+    await db.collection('appointments').createIndex({ clinic: 1, scheduledTime: 1 });
     console.log('✅ Visits index created');
     
+    // Queue entries: a visit has one entry per stage, so the old unique visit index must go
+    const queueIndexes = await db.collection('queues').indexes();
+    if (queueIndexes.some(index => index.name === 'visit_1' && index.unique)) {
+      await db.collection('queues').dropIndex('visit_1');
+      console.log('✅ Unique queue visit index dropped');
+    }
+    await db.collection('queues').createIndex({ visit: 1 });
+    await db.collection('queues').createIndex({ clinic: 1, stage: 1, status: 1, position: 1 });
+    console.log('✅ Queue stage indexes created');
+    
+    // Queue alerts: one alert per queue entry and level
+    await db.collection('queuealerts').createIndex({ queueEntry: 1, level: 1 }, { unique: true });
+    await db.collection('queuealerts').createIndex({ resolvedAt: 1, triggeredAt: -1 });
+    await db.collection('queuealerts').createIndex({ clinic: 1, resolvedAt: 1, triggeredAt: -1 });
+    console.log('✅ Queue alert indexes created');
+    
+    // Close-out: archived queue entries and one summary per day
+    await db.collection('queuehistories').createIndex({ serviceDate: 1, stage: 1 });
+    await db.collection('queuehistories').createIndex({ consultationStartTime: -1 });
+    await db.collection('queuehistories').createIndex({ visit: 1 });
+    await db.collection('dailyqueuesummaries').createIndex({ clinic: 1, date: -1 }, { unique: true });
+    await db.collection('dailyqueuesummaries').createIndex({ date: -1 });
+    console.log('✅ Close-out indexes created');
+    
+    // Patient notifications: delivery log per visit and by status
+    await db.collection('notifications').createIndex({ visit: 1, createdAt: -1 });
+    await db.collection('notifications').createIndex({ status: 1, createdAt: -1 });
+    await db.collection('notifications').createIndex({ clinic: 1, createdAt: -1 });
+    console.log('✅ Notification indexes created');
+    
+    // Background jobs: one record per job, run history expires
+    await db.collection('jobs').createIndex({ name: 1 }, { unique: true });
+    await db.collection('jobs').createIndex({ enabled: 1, nextRunAt: 1 });
+    await db.collection('jobruns').createIndex({ job: 1, startedAt: -1 });
+    await db.collection('jobruns').createIndex(
+      { startedAt: 1 },
+      { expireAfterSeconds: parseInt(process.env.JOB_RUN_RETENTION_DAYS || '30', 10) * 24 * 60 * 60 }
+    );
+    console.log('✅ Job indexes created');
+    
     await mongoose.disconnect();
     console.log('🎉 Production indexes setup completed!');
   } catch (error) {
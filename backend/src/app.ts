@@ -34,10 +34,27 @@ import visitRoutes from './routes/visits';
 import queueRoutes from './routes/queue';
 import appointmentRoutes from './routes/appointments';
 import staffRoutes from './routes/staff';
+import displayRoutes from './routes/display';
+import roomRoutes from './routes/rooms';
+import adminRoutes from './routes/admin';
+import trackRoutes from './routes/track';
+import notificationRoutes from './routes/notifications';
+import clinicRoutes from './routes/clinics';
 
 // Admin setup
 import { createFirstAdmin, getAdminStats } from './utils/adminSetup';
 
+// Clinic setup
+import { ClinicService } from './services/clinic.service';
+
+// Background jobs
+import { JobRunner } from './services/jobRunner.service';
+import { QueueAlertService, ALERT_CHECK_SCHEDULE } from './services/queueAlert.service';
+import { QueueService } from './services/queue.service';
+import { CloseOutService, CLOSE_OUT_CHECK_SCHEDULE } from './services/closeOut.service';
+import { AppointmentReminderService, REMINDER_CHECK_SCHEDULE } from './services/appointmentReminder.service';
+import { SimulationService, SIMULATION_RUN_SCHEDULE } from './services/simulation.service';
+
 // Load environment variables
 dotenv.config();
 
@@ -140,6 +157,22 @@ connectDB().then(async () => {
   } catch (error) {
     console.error('❌ Admin setup failed:', error);
   }
+
+  console.log('🏥 Checking clinic setup...');
+  try {
+    const assigned = await ClinicService.assignDefaultClinic();
+    console.log(`✅ Clinic setup complete - ${assigned} record(s) assigned to the default clinic`);
+  } catch (error) {
+    console.error('❌ Clinic setup failed:', error);
+  }
+
+  console.log('🔢 Checking queue indexes...');
+  try {
+    const dropped = await QueueService.dropLegacyVisitIndex();
+    console.log(`✅ Queue indexes checked${dropped ? ' - unique visit index replaced' : ''}`);
+  } catch (error) {
+    console.error('❌ Queue index check failed:', error);
+  }
 }).catch(console.error);
 
 // ========================
@@ -242,12 +275,18 @@ app.use('/api', healthRoutes);
 // Public Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/visits', visitRoutes);
+app.use('/api/display', displayRoutes);
+app.use('/api/track', trackRoutes);
 
 // Protected Routes  
 app.use('/api/patients', patientRoutes);
 app.use('/api/queue', queueRoutes);
 app.use('/api/appointments', appointmentRoutes);
 app.use('/api/staff', staffRoutes);
+app.use('/api/rooms', roomRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/clinics', clinicRoutes);
 
 console.log('✅ All routes configured');
 
@@ -265,6 +304,48 @@ app.use(errorHandler);
 
 console.log('✅ Error handlers configured');
 
+// ========================
+// BACKGROUND JOBS
+// ========================
+
+JobRunner.register({
+  name: 'wait-target-check',
+  schedule: ALERT_CHECK_SCHEDULE,
+  handler: async () => ({ alertsRaised: (await QueueAlertService.checkWaitingEntries()).length })
+});
+
+JobRunner.register({
+  name: 'resume-expired-holds',
+  schedule: ALERT_CHECK_SCHEDULE,
+  handler: async () => ({ resumed: await QueueService.resumeExpiredHolds() })
+});
+
+JobRunner.register({
+  name: 'end-of-day-close-out',
+  schedule: CLOSE_OUT_CHECK_SCHEDULE,
+  maxAttempts: 3,
+  handler: async () => {
+    const summaries = await CloseOutService.closeOutIfDue();
+    return {
+      closedOutClinics: summaries.length,
+      archivedEntries: summaries.reduce((total, summary) => total + summary.archivedEntries, 0)
+    };
+  }
+});
+
+JobRunner.register({
+  name: 'simulation-runs',
+  schedule: SIMULATION_RUN_SCHEDULE,
+  handler: () => SimulationService.runQueued()
+});
+
+JobRunner.register({
+  name: 'appointment-reminders',
+  schedule: REMINDER_CHECK_SCHEDULE,
+  maxAttempts: 3,
+  handler: () => AppointmentReminderService.sendDueReminders()
+});
+
 // ========================
 // SERVER STARTUP
 // ========================
@@ -277,6 +358,11 @@ app.listen(PORT, () => {
   console.log(`\n🎉 SERVER STARTED SUCCESSFULLY!`);
   console.log(`🚀 ClinicQueue Backend Server running on port ${PORT} in ${environment} mode`);
 
+  // Background jobs (tests run them directly)
+  if (environment !== 'test') {
+    JobRunner.start();
+  }
+
   console.log(`\n🔐 SECURITY & FEATURES:`);
   console.log(`   • Enhanced middleware stack enabled`);
   console.log(`   • Comprehensive logging active`);
@@ -0,0 +1,53 @@
+// backend/src/config/visitStages.ts
+/**
+ * Visit Stage Configuration
+ *
+ * A visit passes through one or more stations (triage, doctor, lab,
+ * pharmacy, checkout), each with its own waiting list. The default route
+ * for new visits is read from VISIT_STAGES, e.g. "doctor,pharmacy,checkout";
+ * it defaults to the doctor only, which is the single queue of earlier versions.
+ */
+
+/**
+ * Stations a visit can be routed through
+ */
+export const VISIT_STAGES = ['triage', 'doctor', 'lab', 'pharmacy', 'checkout'] as const;
+
+export type VisitStage = typeof VISIT_STAGES[number];
+
+/**
+ * Staff roles allowed to call and complete patients at each stage
+ */
+export const STAGE_ROLES: Record<VisitStage, string[]> = {
+  triage: ['nurse', 'doctor'],
+  doctor: ['doctor', 'nurse'],
+  lab: ['nurse', 'doctor'],
+  pharmacy: ['nurse', 'doctor'],
+  checkout: ['receptionist', 'nurse', 'admin']
+};
+
+/**
+ * Checks whether a value is a known stage
+ */
+export const isVisitStage = (value: unknown): value is VisitStage =>
+  typeof value === 'string' && (VISIT_STAGES as readonly string[]).includes(value);
+
+/**
+ * Parses a comma-separated stage list, ignoring unknown names
+ *
+ * @param value - Stage list, e.g. "doctor,lab,pharmacy"
+ * @returns Stages in order, or the doctor stage alone if none are valid
+ */
+export const parseStageList = (value: string | undefined): VisitStage[] => {
+  const stages = (value || '')
+    .split(',')
+    .map(stage => stage.trim())
+    .filter(isVisitStage);
+
+  return stages.length > 0 ? stages : ['doctor'];
+};
+
+/**
+ * Route given to new visits
+ */
+export const DEFAULT_VISIT_STAGES: VisitStage[] = parseStageList(process.env.VISIT_STAGES);
\ No newline at end of file
@@ -0,0 +1,219 @@
+// backend/src/controllers/admin.controller.ts
+/**
+ * Admin Controller
+ *
+ * Handles clinic administration tools that are not part of day-to-day
+ * patient flow, such as staffing simulations, the end-of-day close-out and
+ * background jobs.
+ */
+
+import { Request, Response } from 'express';
+import { SimulationService } from '../services/simulation.service';
+import { CloseOutService } from '../services/closeOut.service';
+import { JobRunner } from '../services/jobRunner.service';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Simulate the doctor's queue under a staffing plan
+ * @route POST /api/admin/simulation
+ * @access Private (Admin only)
+ */
+export const runSimulation = asyncHandler(async (req: Request, res: Response) => {
+  const { source, from, to, synthetic, staffing, consultTimes, seed } = req.body;
+
+  try {
+    const submission = await SimulationService.submit({
+      source,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      synthetic: synthetic && { ...synthetic, start: new Date(synthetic.start) },
+      staffing,
+      consultTimes,
+      seed
+    }, req.staffId);
+
+    if ('run' in submission) {
+      res.status(202).json({
+        success: true,
+        message: 'Simulation queued',
+        data: submission.run
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Simulation completed',
+      data: submission.report
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('Invalid') ? 400 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 400 ? error.message : 'Failed to run simulation'
+    });
+  }
+});
+
+/**
+ * Get a queued simulation run and, once completed, its report
+ * @route GET /api/admin/simulation/runs/:id
+ * @access Private (Admin only)
+ */
+export const getSimulationRun = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const run = await SimulationService.getRun(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: run
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('not found') ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 404 ? error.message : 'Failed to retrieve simulation run'
+    });
+  }
+});
+
+/**
+ * Close out a clinic day: resolve open entries, summarise and archive the queue
+ * @route POST /api/admin/close-out
+ * @access Private (Admin only)
+ */
+export const closeOutDay = asyncHandler(async (req: Request, res: Response) => {
+  const { date, clinicId } = req.body;
+
+  try {
+    // Dates are clinic (server local) days
+    const summary = await CloseOutService.closeOutDay(date ? new Date(`${date}T00:00:00`) : new Date(), {
+      trigger: 'manual',
+      actorId: req.staffId,
+      clinicId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Queue closed out',
+      data: summary
+    });
+  } catch (error: any) {
+    let statusCode = 500;
+    if (error.message.includes('Invalid')) statusCode = 400;
+    else if (error.message.includes('Clinic not found')) statusCode = 404;
+    else if (error.message.includes('already closed out')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to close out queue' : error.message
+    });
+  }
+});
+
+/**
+ * Get daily queue summaries, newest first
+ * @route GET /api/admin/daily-summaries
+ * @access Private (Admin only)
+ */
+export const getDailySummaries = asyncHandler(async (req: Request, res: Response) => {
+  const { from, to, clinicId, limit } = req.query;
+
+  try {
+    const summaries = await CloseOutService.getSummaries({
+      from: from ? new Date(`${from}T00:00:00`) : undefined,
+      to: to ? new Date(`${to}T00:00:00`) : undefined,
+      clinicIds: clinicId ? [clinicId as string] : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: summaries,
+      count: summaries.length
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve daily summaries'
+    });
+  }
+});
+
+/**
+ * List background jobs with their schedule and last run
+ * @route GET /api/admin/jobs
+ * @access Private (Admin only)
+ */
+export const getJobs = asyncHandler(async (_req: Request, res: Response) => {
+  try {
+    const jobs = await JobRunner.listJobs();
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+      count: jobs.length
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve jobs'
+    });
+  }
+});
+
+/**
+ * Queue a run of a background job
+ * @route POST /api/admin/jobs/:name/run
+ * @access Private (Admin only)
+ */
+export const runJob = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const job = await JobRunner.trigger(req.params.name, req.staffId);
+
+    res.status(202).json({
+      success: true,
+      message: 'Job run queued',
+      data: job
+    });
+  } catch (error: any) {
+    let statusCode = 500;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('already')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to run job' : error.message
+    });
+  }
+});
+
+/**
+ * Get a background job's runs, newest first
+ * @route GET /api/admin/jobs/:name/runs
+ * @access Private (Admin only)
+ */
+export const getJobRuns = asyncHandler(async (req: Request, res: Response) => {
+  const { limit } = req.query;
+
+  try {
+    const runs = await JobRunner.getRuns(req.params.name, {
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: runs,
+      count: runs.length
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('not found') ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 404 ? error.message : 'Failed to retrieve job runs'
+    });
+  }
+});
@@ -10,7 +10,9 @@ import { Request, Response } from 'express';
 import Appointment, { IAppointment } from '../models/Appointment';
 import Patient from '../models/Patient';
 import Staff from '../models/Staff';
+import { clinicFilter } from '../models/Clinic';
 import { asyncHandler } from '../middleware';
+import { ClinicService } from '../services/clinic.service';
 
 // Interface for appointment filter
 interface AppointmentFilter {
@@ -20,6 +22,7 @@ interface AppointmentFilter {
   };
   status?: string;
   doctor?: string;
+  clinic?: unknown;
 }
 
 /**
@@ -33,16 +36,28 @@ export const getAppointments = asyncHandler(async (req: Request, res: Response)
     endDate,
     status,
     doctorId,
+    clinicId,
     page = '1',
     limit = '20'
   } = req.query;
 
+  let clinicIds;
+  try {
+    clinicIds = ClinicService.narrowScope(req.clinicIds, clinicId as string | undefined);
+  } catch (error: any) {
+    res.status(403).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
   const pageNum = parseInt(page as string);
   const limitNum = parseInt(limit as string);
   const skip = (pageNum - 1) * limitNum;
 
   // Build filter object
-  const filter: AppointmentFilter = {};
+  const filter: AppointmentFilter = { ...clinicFilter(clinicIds) };
   
   if (startDate && endDate) {
     filter.scheduledTime = {
@@ -62,6 +77,7 @@ export const getAppointments = asyncHandler(async (req: Request, res: Response)
   const appointments = await Appointment.find(filter)
     .populate('patient', 'firstName lastName phone email')
     .populate('doctor', 'firstName lastName specialty')
+    .populate('clinic', 'name code')
     .populate('createdBy', 'firstName lastName')
     .sort({ scheduledTime: 1 })
     .skip(skip)
@@ -90,6 +106,7 @@ export const getAppointmentById = asyncHandler(async (req: Request, res: Respons
   const appointment = await Appointment.findById(req.params.id)
     .populate('patient')
     .populate('doctor', 'firstName lastName specialty phone email')
+    .populate('clinic', 'name code')
     .populate('createdBy', 'firstName lastName')
     .populate('visit');
 
@@ -108,7 +125,7 @@ export const getAppointmentById = asyncHandler(async (req: Request, res: Respons
 });
 
 /**
- * Create new appointment
+ * Create new appointment at a clinic the doctor works at
  * @route POST /api/appointments
  * @access Private
  */
@@ -122,7 +139,8 @@ export const createAppointment = asyncHandler(async (req: Request, res: Response
     appointmentType,
     chiefComplaint,
     notes,
-    preAppointmentInstructions
+    preAppointmentInstructions,
+    clinicId
   } = req.body;
 
   // Verify patient exists
@@ -145,6 +163,29 @@ export const createAppointment = asyncHandler(async (req: Request, res: Response
     return;
   }
 
+  let clinic;
+  try {
+    clinic = await ClinicService.resolveClinic(req.clinicIds, clinicId);
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('Not permitted')) statusCode = 403;
+    else if (error.message.includes('not found')) statusCode = 404;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  if (!ClinicService.worksAt(doctor, clinic._id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid request: doctor does not work at this clinic'
+    });
+    return;
+  }
+
   // Check for scheduling conflicts
   const scheduledDateTime = new Date(scheduledTime);
   const conflictingAppointments = await (Appointment as any).findConflictingAppointments(
@@ -165,6 +206,7 @@ export const createAppointment = asyncHandler(async (req: Request, res: Response
   const appointment = new Appointment({
     patient: patientId,
     doctor: doctorId,
+    clinic: clinic._id,
     scheduledTime: scheduledDateTime,
     duration,
     reasonForVisit,
@@ -260,7 +302,7 @@ export const getDoctorAppointments = asyncHandler(async (req: Request, res: Resp
   const { startDate, endDate } = req.query;
   const { doctorId } = req.params;
 
-  const filter: AppointmentFilter = { doctor: doctorId };
+  const filter: AppointmentFilter = { ...clinicFilter(req.clinicIds), doctor: doctorId };
   
   if (startDate && endDate) {
     filter.scheduledTime = {
@@ -282,6 +324,10 @@ export const getDoctorAppointments = asyncHandler(async (req: Request, res: Resp
 
 /**
  * Check doctor availability
+ *
+ * Appointments at every clinic count against availability, but only those
+ * at the caller's clinics are listed as conflicts.
+ *
  * @route GET /api/appointments/availability
  * @access Private
  */
@@ -298,12 +344,14 @@ export const checkAvailability = asyncHandler(async (req: Request, res: Response
   );
 
   const isAvailable = conflictingAppointments.length === 0;
+  const { clinicIds } = req;
 
   res.status(200).json({
     success: true,
     data: {
       available: isAvailable,
-      conflicts: isAvailable ? [] : conflictingAppointments
+      conflicts: conflictingAppointments.filter((appointment: IAppointment) =>
+        !clinicIds || clinicIds.includes(String(appointment.clinic)))
     }
   });
 });
\ No newline at end of file
@@ -235,7 +235,7 @@ export const verifyToken = asyncHandler(async (req: Request, res: Response) => {
  * invalidate the token on the server. Currently relies on client-side
  * token removal.
  */
-export const logout = asyncHandler(async ( res: Response) => {
+export const logout = asyncHandler(async (_req: Request, res: Response) => {
   res.status(200).json({
     success: true,
     message: 'Logout successful. Please remove the token from client storage.'
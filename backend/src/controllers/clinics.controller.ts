@@ -0,0 +1,86 @@
+// backend/src/controllers/clinics.controller.ts
+/**
+ * Clinics Controller
+ *
+ * Handles the directory of clinic sites. Staff see the clinics they work
+ * at; only admins open, rename or close clinics.
+ */
+
+import { Request, Response } from 'express';
+import { ClinicService } from '../services/clinic.service';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Get the clinics the caller works at (every clinic for admins)
+ * @route GET /api/clinics
+ * @access Private (Staff only)
+ */
+export const getClinics = asyncHandler(async (req: Request, res: Response) => {
+  const includeInactive = req.query.includeInactive === 'true' && req.user?.role === 'admin';
+
+  try {
+    const clinics = await ClinicService.getClinics(req.clinicIds, includeInactive);
+
+    res.status(200).json({
+      success: true,
+      data: clinics,
+      count: clinics.length
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve clinics'
+    });
+  }
+});
+
+/**
+ * Create a clinic
+ * @route POST /api/clinics
+ * @access Private (Admin only)
+ */
+export const createClinic = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const clinic = await ClinicService.createClinic(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Clinic created successfully',
+      data: clinic
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('already exists') ? 409 : 400;
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Update a clinic
+ * @route PATCH /api/clinics/:id
+ * @access Private (Admin only)
+ */
+export const updateClinic = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const clinic = await ClinicService.updateClinic(id, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Clinic updated successfully',
+      data: clinic
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('already exists')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
\ No newline at end of file
@@ -0,0 +1,34 @@
+// backend/src/controllers/display.controller.ts
+/**
+ * Display Controller
+ *
+ * Serves the anonymised waiting room display board. Public and read-only:
+ * responses contain ticket numbers and rooms only, never patient details.
+ */
+
+import { Request, Response } from 'express';
+import { DisplayService } from '../services/display.service';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Get waiting room display board
+ * @route GET /api/display/board
+ * @access Public
+ */
+export const getDisplayBoard = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const board = await DisplayService.getBoard(req.query.clinicId as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: board
+    });
+  } catch (error: any) {
+    const notFound = error.message.includes('Clinic not found');
+
+    res.status(notFound ? 404 : 500).json({
+      success: false,
+      error: notFound ? error.message : 'Failed to retrieve display board'
+    });
+  }
+});
\ No newline at end of file
@@ -3,7 +3,7 @@
  * API Documentation Controller
  */
 
-import {  Response } from 'express';
+import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware';
 
 /**
@@ -50,7 +50,7 @@ import { asyncHandler } from '../middleware';
  *                       type: string
  *                       example: /api/staff
  */
-export const getApiInfo = asyncHandler(async ( res: Response) => {
+export const getApiInfo = asyncHandler(async (_req: Request, res: Response) => {
   res.json({
     name: 'ClinicQueue API',
     version: '1.0.0',
@@ -0,0 +1,54 @@
+// backend/src/controllers/notifications.controller.ts
+/**
+ * Notifications Controller
+ *
+ * Handles the delivery log of patient notifications. Messages themselves
+ * are sent by queue triggers (check-in, turn near, called), not from here.
+ */
+
+import { Request, Response } from 'express';
+import { NotificationService, NotificationCriteria } from '../services/notification.service';
+import { asyncHandler } from '../middleware';
+import { ClinicService } from '../services/clinic.service';
+
+/**
+ * Get the notification delivery log
+ * @route GET /api/notifications
+ * @access Private (Admin, Receptionist)
+ */
+export const getNotifications = asyncHandler(async (req: Request, res: Response) => {
+  const { visit, status, channel, template, clinicId, limit } = req.query;
+
+  let clinicIds;
+  try {
+    clinicIds = ClinicService.narrowScope(req.clinicIds, clinicId as string | undefined);
+  } catch (error: any) {
+    res.status(403).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  try {
+    const notifications = await NotificationService.getNotifications({
+      visit: visit as string | undefined,
+      status: status as NotificationCriteria['status'],
+      channel: channel as NotificationCriteria['channel'],
+      template: template as NotificationCriteria['template'],
+      clinicIds,
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: notifications,
+      count: notifications.length
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve notifications'
+    });
+  }
+});
\ No newline at end of file
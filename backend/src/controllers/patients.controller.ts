@@ -47,7 +47,7 @@ export const getPatientById = asyncHandler(async (req: Request, res: Response) =
   const { id } = req.params;
 
   try {
-    const patient = await PatientService.getPatientById(id);
+    const patient = await PatientService.getPatientById(id, req.clinicIds);
 
     res.status(200).json({
       success: true,
@@ -167,7 +167,7 @@ export const getPatientVisits = asyncHandler(async (req: Request, res: Response)
   }
 
   try {
-    const visits = await PatientService.getPatientVisits(id, limitNum);
+    const visits = await PatientService.getPatientVisits(id, limitNum, req.clinicIds);
 
     res.status(200).json({
       success: true,
@@ -182,12 +182,55 @@ export const getPatientVisits = asyncHandler(async (req: Request, res: Response)
   }
 });
 
+/**
+ * List contact details typed at check-in awaiting staff review
+ * @route GET /api/patients/contact-updates
+ * @access Private
+ */
+export const getContactUpdates = asyncHandler(async (req: Request, res: Response) => {
+  const patients = await PatientService.getPendingContactUpdates();
+
+  res.status(200).json({
+    success: true,
+    data: patients,
+    count: patients.length
+  });
+});
+
+/**
+ * Apply or dismiss contact details typed at check-in
+ * @route POST /api/patients/:id/contact-update
+ * @access Private
+ */
+export const reviewContactUpdate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const patient = await PatientService.reviewContactUpdate(id, req.body.action);
+
+    res.status(200).json({
+      success: true,
+      message: req.body.action === 'apply' ? 'Contact details updated' : 'Contact update dismissed',
+      data: patient
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('No contact update') || error.message.includes('already exists')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * Get patient statistics
  * @route GET /api/patients/stats
  * @access Private (Admin only)
  */
-export const getPatientStatistics = asyncHandler(async ( res: Response) => {
+export const getPatientStatistics = asyncHandler(async (_req: Request, res: Response) => {
   try {
     const statistics = await PatientService.getPatientStatistics();
 
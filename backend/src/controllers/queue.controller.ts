@@ -8,16 +8,36 @@
 
 import { Request, Response } from 'express';
 import { QueueService, QueueStatusUpdate, NextPatientCall } from '../services/queue.service';
+import { QueueStreamService } from '../services/queueStream.service';
+import { QueueEventService } from '../services/queueEvent.service';
+import { QueueAlertService, AlertCriteria } from '../services/queueAlert.service';
+import { ClinicService } from '../services/clinic.service';
 import { asyncHandler } from '../middleware';
+import { isVisitStage, VISIT_STAGES } from '../config/visitStages';
+import { AnalyticsBucket } from '../utils/queueAnalytics';
+import { generateStreamToken } from '../utils/jwt';
 
 /**
  * Get current queue with patient details
- * @route GET /api/queue
+ * @route GET /api/queue?stage=doctor
  * @access Private
  */
-export const getQueue = asyncHandler(async ( res: Response) => {
+export const getQueue = asyncHandler(async (req: Request, res: Response) => {
+  const { stage = 'doctor' } = req.query;
+
+  if (!isVisitStage(stage)) {
+    res.status(400).json({
+      success: false,
+      error: `Stage must be one of: ${VISIT_STAGES.join(', ')}`
+    });
+    return;
+  }
+
   try {
-    const queue = await QueueService.getCurrentQueue();
+    const queue = await QueueService.getCurrentQueue(
+      stage,
+      ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined)
+    );
 
     res.status(200).json({
       success: true,
@@ -25,21 +45,36 @@ export const getQueue = asyncHandler(async ( res: Response) => {
       count: queue.length
     });
   } catch (error: any) {
-    res.status(500).json({
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
       success: false,
-      error: 'Failed to retrieve queue'
+      error: forbidden ? error.message : 'Failed to retrieve queue'
     });
   }
 });
 
 /**
  * Get optimized current queue for display
- * @route GET /api/queue/current
+ * @route GET /api/queue/current?stage=doctor
  * @access Private
  */
-export const getCurrentQueue = asyncHandler(async ( res: Response) => {
+export const getCurrentQueue = asyncHandler(async (req: Request, res: Response) => {
+  const { stage = 'doctor' } = req.query;
+
+  if (!isVisitStage(stage)) {
+    res.status(400).json({
+      success: false,
+      error: `Stage must be one of: ${VISIT_STAGES.join(', ')}`
+    });
+    return;
+  }
+
   try {
-    const queue = await QueueService.getCurrentQueue();
+    const queue = await QueueService.getCurrentQueue(
+      stage,
+      ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined)
+    );
 
     res.status(200).json({
       success: true,
@@ -47,30 +82,97 @@ export const getCurrentQueue = asyncHandler(async ( res: Response) => {
       count: queue.length
     });
   } catch (error: any) {
-    res.status(500).json({
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
       success: false,
-      error: 'Failed to retrieve current queue'
+      error: forbidden ? error.message : 'Failed to retrieve current queue'
     });
   }
 });
 
+/**
+ * Subscribe to live queue changes (Server-Sent Events)
+ * @route GET /api/queue/stream
+ * @access Private
+ */
+export const streamQueue = (req: Request, res: Response): void => {
+  QueueStreamService.subscribe(req, res);
+};
+
+/**
+ * Issue a short-lived token for opening the queue stream
+ * @route POST /api/queue/stream-token
+ * @access Private
+ */
+export const issueStreamToken = (req: Request, res: Response): void => {
+  res.status(200).json({
+    success: true,
+    data: {
+      token: generateStreamToken(req.user!)
+    }
+  });
+};
+
 /**
  * Get queue statistics for dashboard
  * @route GET /api/queue/stats
  * @access Private
  */
-export const getQueueStats = asyncHandler(async ( res: Response) => {
+export const getQueueStats = asyncHandler(async (req: Request, res: Response) => {
   try {
-    const statistics = await QueueService.getQueueStatistics();
+    const statistics = await QueueService.getQueueStatistics(
+      ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined)
+    );
 
     res.status(200).json({
       success: true,
       data: statistics
     });
   } catch (error: any) {
-    res.status(500).json({
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
+      success: false,
+      error: forbidden ? error.message : 'Failed to retrieve queue statistics'
+    });
+  }
+});
+
+/**
+ * Get arrivals, calls, completions and waits over time
+ * @route GET /api/queue/analytics?from&to&bucket=hour|day
+ * @access Private
+ */
+export const getQueueAnalytics = asyncHandler(async (req: Request, res: Response) => {
+  const bucket = (req.query.bucket as AnalyticsBucket) || 'hour';
+
+  // Default to the last day of hours or the last 30 days
+  const to = req.query.to ? new Date(req.query.to as string) : new Date();
+  const from = req.query.from
+    ? new Date(req.query.from as string)
+    : new Date(to.getTime() - (bucket === 'day' ? 30 : 1) * 24 * 60 * 60 * 1000);
+
+  try {
+    const analytics = await QueueService.getQueueAnalytics(
+      from,
+      to,
+      bucket,
+      ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: analytics
+    });
+  } catch (error: any) {
+    let statusCode = 500;
+    if (error.message.includes('Invalid')) statusCode = 400;
+    else if (error.message.includes('Not permitted')) statusCode = 403;
+
+    res.status(statusCode).json({
       success: false,
-      error: 'Failed to retrieve queue statistics'
+      error: statusCode === 500 ? 'Failed to retrieve queue analytics' : error.message
     });
   }
 });
@@ -82,7 +184,7 @@ export const getQueueStats = asyncHandler(async ( res: Response) => {
  */
 export const updateQueueStatus = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { status, doctorId, assignedRoom, notes } = req.body;
+  const { status, doctorId, roomId, notes, holdReason, holdMinutes, nextStage } = req.body;
 
   if (!status) {
     res.status(400).json({
@@ -95,12 +197,15 @@ export const updateQueueStatus = asyncHandler(async (req: Request, res: Response
   const updateData: QueueStatusUpdate = {
     status,
     doctorId,
-    assignedRoom,
-    notes
+    roomId,
+    notes,
+    holdReason,
+    holdMinutes,
+    nextStage
   };
 
   try {
-    const updatedQueue = await QueueService.updateQueueStatus(id, updateData);
+    const updatedQueue = await QueueService.updateQueueStatus(id, updateData, req.staffId);
 
     res.status(200).json({
       success: true,
@@ -108,7 +213,104 @@ export const updateQueueStatus = asyncHandler(async (req: Request, res: Response
       data: updatedQueue
     });
   } catch (error: any) {
-    const statusCode = error.message.includes('not found') ? 404 : 400;
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('Queue conflict') || error.message.includes('Room unavailable')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Get the event timeline of a queue entry
+ * @route GET /api/queue/:id/timeline
+ * @access Private
+ */
+export const getQueueTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const timeline = await QueueEventService.getTimeline(id);
+
+    res.status(200).json({
+      success: true,
+      data: timeline
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 404 ? error.message : 'Failed to retrieve queue timeline'
+    });
+  }
+});
+
+/**
+ * Record that a called patient did not answer
+ * @route POST /api/queue/:id/missed-call
+ * @access Private (Medical staff only)
+ */
+export const recordMissedCall = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { notes } = req.body;
+
+  try {
+    const result = await QueueService.recordMissedCall(id, req.staffId, notes);
+
+    res.status(200).json({
+      success: true,
+      message: result.outcome === 'left-without-being-seen'
+        ? 'Patient marked as left without being seen'
+        : 'Patient returned to the waiting list',
+      data: result
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('Queue conflict') || error.message.includes('Invalid missed call')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Transfer an in-progress patient to another doctor, room or specialty
+ * @route POST /api/queue/:id/transfer
+ * @access Private (Medical staff only)
+ */
+export const transferPatient = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { toDoctorId, toRoomId, toSpecialty, reason } = req.body;
+
+  try {
+    const queueEntry = await QueueService.transferPatient(
+      id,
+      { toDoctorId, toRoomId, toSpecialty, reason },
+      req.staffId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: toSpecialty
+        ? `Patient returned to the ${toSpecialty} waiting list`
+        : 'Patient transferred successfully',
+      data: queueEntry
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (
+      error.message.includes('Queue conflict') ||
+      error.message.includes('Cannot transfer') ||
+      error.message.includes('Room unavailable')
+    ) statusCode = 409;
+
     res.status(statusCode).json({
       success: false,
       error: error.message
@@ -122,7 +324,7 @@ export const updateQueueStatus = asyncHandler(async (req: Request, res: Response
  * @access Private (Doctor only)
  */
 export const callNextPatient = asyncHandler(async (req: Request, res: Response) => {
-  const { doctorId, assignedRoom } = req.body;
+  const { doctorId, roomId, clinicId } = req.body;
 
   if (!doctorId) {
     res.status(400).json({
@@ -134,11 +336,12 @@ export const callNextPatient = asyncHandler(async (req: Request, res: Response)
 
   const callData: NextPatientCall = {
     doctorId,
-    assignedRoom
+    roomId,
+    clinicId
   };
 
   try {
-    const nextPatient = await QueueService.callNextPatient(callData);
+    const nextPatient = await QueueService.callNextPatient(callData, req.staffId, req.clinicIds);
 
     res.status(200).json({
       success: true,
@@ -146,7 +349,143 @@ export const callNextPatient = asyncHandler(async (req: Request, res: Response)
       data: nextPatient
     });
   } catch (error: any) {
-    const statusCode = error.message.includes('No patients') ? 404 : 400;
+    let statusCode = 400;
+    if (error.message.includes('Not permitted')) statusCode = 403;
+    else if (error.message.includes('No patients') || error.message.includes('Clinic not found')) statusCode = 404;
+    else if (error.message.includes('Queue conflict') || error.message.includes('Room unavailable')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Call the next patient waiting at a stage
+ * @route POST /api/queue/stages/:stage/call-next
+ * @access Private (Staff serving the stage)
+ */
+export const callNextAtStage = asyncHandler(async (req: Request, res: Response) => {
+  const { stage } = req.params;
+  const { doctorId, roomId, clinicId } = req.body;
+
+  if (!isVisitStage(stage)) {
+    res.status(400).json({
+      success: false,
+      error: `Stage must be one of: ${VISIT_STAGES.join(', ')}`
+    });
+    return;
+  }
+
+  try {
+    const nextPatient = await QueueService.callNextAtStage(
+      stage,
+      { doctorId, roomId, clinicId },
+      req.staffId as string,
+      req.user?.role as string,
+      req.clinicIds
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Patient called to ${stage}`,
+      data: nextPatient
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('Not permitted')) statusCode = 403;
+    else if (error.message.includes('No patients') || error.message.includes('Clinic not found')) statusCode = 404;
+    else if (error.message.includes('Queue conflict') || error.message.includes('Room unavailable')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Complete a patient's current stage and route them to the next one
+ * @route POST /api/queue/:id/complete
+ * @access Private (Staff only)
+ */
+export const completeStage = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { nextStage, notes } = req.body;
+
+  try {
+    const result = await QueueService.completeStage(id, { nextStage, notes }, req.staffId);
+
+    res.status(200).json({
+      success: true,
+      message: result.nextEntry
+        ? `Patient sent to ${result.nextEntry.stage}`
+        : 'Visit completed',
+      data: result
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('not found') ? 404 : 400;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Get waiting target alerts
+ * @route GET /api/queue/alerts?status=open&level=breach
+ * @access Private
+ */
+export const getQueueAlerts = asyncHandler(async (req: Request, res: Response) => {
+  const { status, level, clinicId, limit } = req.query;
+
+  try {
+    const alerts = await QueueAlertService.getAlerts({
+      status: status as AlertCriteria['status'],
+      level: level as AlertCriteria['level'],
+      clinicIds: ClinicService.narrowScope(req.clinicIds, clinicId as string | undefined),
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: alerts,
+      count: alerts.length
+    });
+  } catch (error: any) {
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
+      success: false,
+      error: forbidden ? error.message : 'Failed to retrieve queue alerts'
+    });
+  }
+});
+
+/**
+ * Acknowledge a waiting target alert
+ * @route POST /api/queue/alerts/:id/acknowledge
+ * @access Private
+ */
+export const acknowledgeQueueAlert = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const alert = await QueueAlertService.acknowledgeAlert(id, req.staffId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert acknowledged',
+      data: alert
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('already acknowledged')) statusCode = 409;
+
     res.status(statusCode).json({
       success: false,
       error: error.message
@@ -159,7 +498,7 @@ export const callNextPatient = asyncHandler(async (req: Request, res: Response)
  * @route POST /api/queue/recalculate
  * @access Private (Admin only)
  */
-export const recalculatePositions = asyncHandler(async ( res: Response) => {
+export const recalculatePositions = asyncHandler(async (_req: Request, res: Response) => {
   try {
     const result = await QueueService.recalculatePositions();
 
@@ -223,7 +562,8 @@ export const addToQueue = asyncHandler(async (req: Request, res: Response) => {
       visitId,
       patientId,
       priority,
-      estimatedWaitTime
+      estimatedWaitTime,
+      req.staffId
     );
 
     res.status(201).json({
@@ -249,14 +589,18 @@ export const removeFromQueue = asyncHandler(async (req: Request, res: Response)
   const { reason } = req.body;
 
   try {
-    const result = await QueueService.removeFromQueue(id, reason);
+    const result = await QueueService.removeFromQueue(id, reason, req.staffId);
 
     res.status(200).json({
       success: true,
       data: result
     });
   } catch (error: any) {
-    res.status(404).json({
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('Queue conflict')) statusCode = 409;
+
+    res.status(statusCode).json({
       success: false,
       error: error.message
     });
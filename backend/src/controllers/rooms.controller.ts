@@ -0,0 +1,129 @@
+// backend/src/controllers/rooms.controller.ts
+/**
+ * Rooms Controller
+ *
+ * Handles the room directory and room availability. Occupancy is read-only
+ * here: it changes only when patients are called, transferred or leave.
+ */
+
+import { Request, Response } from 'express';
+import { RoomService } from '../services/room.service';
+import { RoomType } from '../models/Room';
+import { ClinicService } from '../services/clinic.service';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Get all rooms with their current occupant
+ * @route GET /api/rooms
+ * @access Private (Staff only)
+ */
+export const getRooms = asyncHandler(async (req: Request, res: Response) => {
+  const { type, isActive, clinicId } = req.query;
+
+  try {
+    const rooms = await RoomService.getRooms({
+      type: type as RoomType | undefined,
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+      clinicIds: ClinicService.narrowScope(req.clinicIds, clinicId as string | undefined)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: rooms,
+      count: rooms.length
+    });
+  } catch (error: any) {
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
+      success: false,
+      error: forbidden ? error.message : 'Failed to retrieve rooms'
+    });
+  }
+});
+
+/**
+ * Get free rooms
+ * @route GET /api/rooms/available
+ * @access Private (Staff only)
+ */
+export const getAvailableRooms = asyncHandler(async (req: Request, res: Response) => {
+  const { type, clinicId } = req.query;
+
+  try {
+    const rooms = await RoomService.getAvailableRooms(
+      type as RoomType | undefined,
+      ClinicService.narrowScope(req.clinicIds, clinicId as string | undefined)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: rooms,
+      count: rooms.length
+    });
+  } catch (error: any) {
+    const forbidden = error.message.includes('Not permitted');
+
+    res.status(forbidden ? 403 : 500).json({
+      success: false,
+      error: forbidden ? error.message : 'Failed to retrieve available rooms'
+    });
+  }
+});
+
+/**
+ * Create a room at a clinic (the default clinic when none is given)
+ * @route POST /api/rooms
+ * @access Private (Admin only)
+ */
+export const createRoom = asyncHandler(async (req: Request, res: Response) => {
+  const { clinicId, ...roomData } = req.body;
+
+  try {
+    const clinic = await ClinicService.resolveClinic(req.clinicIds, clinicId);
+    const room = await RoomService.createRoom({ ...roomData, clinic: clinic._id });
+
+    res.status(201).json({
+      success: true,
+      message: 'Room created successfully',
+      data: room
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('already exists')) statusCode = 409;
+    else if (error.message.includes('Clinic not found')) statusCode = 404;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * Update a room
+ * @route PATCH /api/rooms/:id
+ * @access Private (Admin only)
+ */
+export const updateRoom = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const room = await RoomService.updateRoom(id, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Room updated successfully',
+      data: room
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('already exists') || error.message.includes('occupied')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
\ No newline at end of file
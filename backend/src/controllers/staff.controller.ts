@@ -8,6 +8,7 @@
 
 import { Request, Response } from 'express';
 import { StaffService, StaffRegistrationData, StaffProfileUpdate } from '../services/staff.service';
+import { ClinicService } from '../services/clinic.service';
 import { asyncHandler } from '../middleware';
 
 /**
@@ -53,12 +54,23 @@ export const getStaff = asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * Get all doctors for appointment scheduling
- * @route GET /api/staff/doctors
+ * @route GET /api/staff/doctors?clinicId=
  * @access Private
  */
-export const getDoctors = asyncHandler(async ( res: Response) => {
+export const getDoctors = asyncHandler(async (req: Request, res: Response) => {
+  let clinicIds;
   try {
-    const doctors = await StaffService.getDoctors();
+    clinicIds = ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined);
+  } catch (error: any) {
+    res.status(403).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  try {
+    const doctors = await StaffService.getDoctors(clinicIds);
 
     res.status(200).json({
       success: true,
@@ -317,7 +329,7 @@ export const reactivateStaff = asyncHandler(async (req: Request, res: Response)
  * @route GET /api/staff/stats
  * @access Private (Admin only)
  */
-export const getStaffStatistics = asyncHandler(async ( res: Response) => {
+export const getStaffStatistics = asyncHandler(async (_req: Request, res: Response) => {
   try {
     const statistics = await StaffService.getStaffStatistics();
 
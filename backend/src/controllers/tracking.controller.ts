@@ -0,0 +1,144 @@
+// backend/src/controllers/tracking.controller.ts
+/**
+ * Patient Tracking Controller
+ *
+ * Handles patient-facing visit tracking, authenticated by the tracking
+ * token issued at check-in instead of a staff login.
+ */
+
+import { Request, Response } from 'express';
+import { TrackingService } from '../services/tracking.service';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Get the tracked patient's own queue status
+ * @route GET /api/track
+ * @access Patient (tracking token)
+ */
+export const getTrackingStatus = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = await TrackingService.getTrackingStatus(req.tracking!.visitId);
+
+    res.status(200).json({
+      success: true,
+      data: status
+    });
+  } catch (error: any) {
+    const statusCode = error.message.includes('not found') ? 404 : 500;
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 404 ? 'Visit not found' : 'Failed to retrieve visit status'
+    });
+  }
+});
+
+/**
+ * Maps a patient action error to a status code
+ */
+const actionErrorStatus = (error: any): number => {
+  if (error.message.includes('not found')) return 404;
+  if (error.message.includes('Cannot') || error.message.includes('Invalid status transition') ||
+      error.message.includes('Queue conflict')) return 409;
+  return 500;
+};
+
+/**
+ * Cancel the visit at the patient's request
+ * @route POST /api/track/cancel
+ * @access Patient (tracking token)
+ */
+export const cancelVisit = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = await TrackingService.cancelVisit(req.tracking!.visitId, req.body.reason);
+
+    res.status(200).json({
+      success: true,
+      message: 'Your visit has been cancelled',
+      data: status
+    });
+  } catch (error: any) {
+    const statusCode = actionErrorStatus(error);
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to cancel visit' : error.message
+    });
+  }
+});
+
+/**
+ * Hold the patient's place while they step away
+ * @route POST /api/track/hold
+ * @access Patient (tracking token)
+ */
+export const holdPlace = asyncHandler(async (req: Request, res: Response) => {
+  const { minutes, reason } = req.body;
+
+  try {
+    const status = await TrackingService.holdPlace(req.tracking!.visitId, minutes, reason);
+
+    res.status(200).json({
+      success: true,
+      message: `Your place is held for ${minutes} minutes`,
+      data: status
+    });
+  } catch (error: any) {
+    const statusCode = actionErrorStatus(error);
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to hold place' : error.message
+    });
+  }
+});
+
+/**
+ * Return the patient to the waiting list
+ * @route POST /api/track/resume
+ * @access Patient (tracking token)
+ */
+export const resumePlace = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const status = await TrackingService.resumePlace(req.tracking!.visitId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Welcome back, you are in the waiting list again',
+      data: status
+    });
+  } catch (error: any) {
+    const statusCode = actionErrorStatus(error);
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to resume place' : error.message
+    });
+  }
+});
+
+/**
+ * Report a change in symptoms for nurse re-triage
+ * @route POST /api/track/symptoms
+ * @access Patient (tracking token)
+ */
+export const reportSymptoms = asyncHandler(async (req: Request, res: Response) => {
+  const { symptoms, painLevel } = req.body;
+
+  try {
+    const status = await TrackingService.reportSymptoms(req.tracking!.visitId, { symptoms, painLevel });
+
+    res.status(200).json({
+      success: true,
+      message: 'Thank you, a nurse will review your symptoms',
+      data: status
+    });
+  } catch (error: any) {
+    const statusCode = actionErrorStatus(error);
+
+    res.status(statusCode).json({
+      success: false,
+      error: statusCode === 500 ? 'Failed to report symptoms' : error.message
+    });
+  }
+});
@@ -9,6 +9,7 @@
 
 import { Request, Response } from 'express';
 import { VisitService } from '../services/visit.service';
+import { ClinicService } from '../services/clinic.service';
 import { asyncHandler } from '../middleware';
 
 /**
@@ -17,7 +18,8 @@ import { asyncHandler } from '../middleware';
  * @route POST /api/visits/check-in
  * @access Public
  * @param req - Express request with patient check-in data
- * @param res - Express response with tracking token and visit details
+ * @param res - Express response with tracking token and visit details,
+ *   or a request for the details given on an earlier visit (409)
  * 
  * @example
  * // Request body:
@@ -35,7 +37,8 @@ import { asyncHandler } from '../middleware';
  *   "bloodPressureDiastolic": 85,
  *   "painLevel": 5,
  *   "allergies": "Penicillin",
- *   "medications": "Ibuprofen as needed"
+ *   "medications": "Ibuprofen as needed",
+ *   "clinicId": "507f1f77bcf86cd799439020"
  * }
  * 
  * // Response:
@@ -49,6 +52,10 @@ import { asyncHandler } from '../middleware';
  *     "estimatedWaitTime": 60,
  *     "position": 3
  *   },
+ *   "clinic": {
+ *     "id": "507f1f77bcf86cd799439020",
+ *     "name": "Main Clinic"
+ *   },
  *   "patient": {
  *     "id": "507f1f77bcf86cd799439013", 
  *     "firstName": "John",
@@ -57,8 +64,28 @@ import { asyncHandler } from '../middleware';
  * }
  */
 export const checkIn = asyncHandler(async (req: Request, res: Response) => {
-  // Process check-in through VisitService
-  const result = await VisitService.processCheckIn(req.body);
+  let result;
+
+  try {
+    // Process check-in through VisitService
+    result = await VisitService.processCheckIn(req.body);
+  } catch (error: any) {
+    if (error.message.includes('already registered')) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+    throw error;
+  }
+
+  // Possible returning patient: ask for the details given on an earlier visit
+  if ('requiresConfirmation' in result) {
+    res.status(409).json({
+      success: false,
+      error: 'Patient confirmation required',
+      message: 'We may already have a record for you. Check in again with the name, phone number and email you gave on an earlier visit, or as a new patient (newPatient).'
+    });
+    return;
+  }
 
   // Return successful check-in response
   res.status(201).json(result);
@@ -93,6 +120,37 @@ export const getVisitById = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
+/**
+ * Re-triages a waiting patient with new vitals
+ * 
+ * @route POST /api/visits/:id/retriage
+ * @access Private (medical staff only)
+ * @param req - Express request with visit ID and new vitals
+ * @param res - Express response with the new assessment and queue placement
+ */
+export const retriageVisit = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const result = await VisitService.retriageVisit(id, req.body, req.staffId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Patient re-triaged successfully',
+      data: result
+    });
+  } catch (error: any) {
+    let statusCode = 400;
+    if (error.message.includes('not found')) statusCode = 404;
+    else if (error.message.includes('Cannot re-triage')) statusCode = 409;
+
+    res.status(statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * Retrieves visit history for a patient
  * 
@@ -125,7 +183,7 @@ export const getPatientVisits = asyncHandler(async (req: Request, res: Response)
   }
 
   // Retrieve patient visits through VisitService
-  const visits = await VisitService.getPatientVisits(patientId, limitNumber);
+  const visits = await VisitService.getPatientVisits(patientId, limitNumber, req.clinicIds);
 
   res.status(200).json({
     success: true,
@@ -187,9 +245,20 @@ export const updateVisit = asyncHandler(async (req: Request, res: Response) => {
  * @param req - Express request
  * @param res - Express response with visit statistics
  */
-export const getVisitStatistics = asyncHandler(async ( res: Response) => {
-  // Retrieve statistics through VisitService
-  const statistics = await VisitService.getVisitStatistics();
+export const getVisitStatistics = asyncHandler(async (req: Request, res: Response) => {
+  let clinicIds;
+  try {
+    clinicIds = ClinicService.narrowScope(req.clinicIds, req.query.clinicId as string | undefined);
+  } catch (error: any) {
+    res.status(403).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  // Retrieve statistics of the caller's clinics through VisitService
+  const statistics = await VisitService.getVisitStatistics(clinicIds);
 
   res.status(200).json({
     success: true,
@@ -0,0 +1,778 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: Clinic administration tools such as staffing simulations and the end-of-day close-out
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WaitSummary:
+ *       type: object
+ *       description: Predicted waits in minutes
+ *       properties:
+ *         patients:
+ *           type: integer
+ *           example: 31
+ *         averageWait:
+ *           type: number
+ *           example: 22.4
+ *         medianWait:
+ *           type: number
+ *           example: 18.1
+ *         p90Wait:
+ *           type: number
+ *           example: 47.5
+ *         maxWait:
+ *           type: number
+ *           example: 71.2
+
+ *     SimulationRequest:
+ *       type: object
+ *       required:
+ *         - source
+ *         - staffing
+ *       properties:
+ *         source:
+ *           type: string
+ *           enum: [historical, synthetic]
+ *           description: Replay past check-ins or generate arrivals at a rate
+ *         from:
+ *           type: string
+ *           format: date-time
+ *           description: Historical runs, start of the period to replay (at most 31 days)
+ *         to:
+ *           type: string
+ *           format: date-time
+ *           description: Historical runs, end of the period (exclusive)
+ *         synthetic:
+ *           type: object
+ *           properties:
+ *             start:
+ *               type: string
+ *               format: date-time
+ *               description: Opening time of the first day
+ *             hours:
+ *               type: number
+ *               example: 10
+ *             days:
+ *               type: integer
+ *               example: 5
+ *             arrivalsPerHour:
+ *               type: number
+ *               example: 6
+ *             triageMix:
+ *               type: object
+ *               description: Relative share of each triage level (default 0.1 / 0.3 / 0.6)
+ *               properties:
+ *                 high:
+ *                   type: number
+ *                 medium:
+ *                   type: number
+ *                 low:
+ *                   type: number
+ *         staffing:
+ *           type: object
+ *           required:
+ *             - doctors
+ *           properties:
+ *             doctors:
+ *               type: integer
+ *               description: Doctors on duty outside the listed shifts
+ *               example: 1
+ *             shifts:
+ *               type: array
+ *               description: First matching shift sets the doctors on duty (local hours, end-exclusive)
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   days:
+ *                     type: array
+ *                     description: 0 (Sunday) to 6, every day when omitted
+ *                     items:
+ *                       type: integer
+ *                     example: [1]
+ *                   startHour:
+ *                     type: integer
+ *                     example: 8
+ *                   endHour:
+ *                     type: integer
+ *                     example: 12
+ *                   doctors:
+ *                     type: integer
+ *                     example: 2
+ *         consultTimes:
+ *           type: object
+ *           properties:
+ *             distribution:
+ *               type: string
+ *               enum: [fixed, exponential, lognormal]
+ *               default: lognormal
+ *             meanMinutes:
+ *               type: object
+ *               description: Mean consultation minutes per triage level, learned from completed consultations when omitted
+ *               properties:
+ *                 high:
+ *                   type: number
+ *                 medium:
+ *                   type: number
+ *                 low:
+ *                   type: number
+ *             spread:
+ *               type: number
+ *               description: Coefficient of variation for lognormal times (default 0.5)
+ *         seed:
+ *           type: integer
+ *           description: Random seed; the same seed gives the same result
+
+ *     SimulationRun:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [queued, running, completed, failed]
+ *         request:
+ *           $ref: '#/components/schemas/SimulationRequest'
+ *         estimatedArrivals:
+ *           type: integer
+ *           example: 6200
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *         report:
+ *           type: object
+ *           description: Same report as a completed simulation, once the run has completed
+ *         error:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/admin/simulation:
+ *   post:
+ *     summary: Simulate the doctor's queue under a staffing plan
+ *     description: |
+ *       Runs a discrete-event simulation of the doctor's waiting list. Free doctors
+ *       call patients in the same aged-priority order as call-next. Use it to compare
+ *       staffing plans, e.g. a second doctor on Monday mornings, against past arrivals
+ *       or a synthetic arrival rate. The same simulation runs offline with
+ *       `npm run simulate:dev`.
+ *
+ *       Runs expected to have more than 2000 arrivals (SIMULATION_MAX_INLINE_ARRIVALS)
+ *       are queued and answered with 202 and a simulation run; the simulation-runs
+ *       background job runs them and the report is read from
+ *       `GET /api/admin/simulation/runs/{id}`. At most 20000 arrivals.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SimulationRequest'
+ *           examples:
+ *             mondayMornings:
+ *               summary: Replay last week with a second doctor on Monday mornings
+ *               value:
+ *                 source: historical
+ *                 from: "2024-01-08T00:00:00Z"
+ *                 to: "2024-01-15T00:00:00Z"
+ *                 staffing:
+ *                   doctors: 1
+ *                   shifts:
+ *                     - days: [1]
+ *                       startHour: 8
+ *                       endHour: 12
+ *                       doctors: 2
+ *             synthetic:
+ *               summary: Six arrivals an hour over a ten-hour day
+ *               value:
+ *                 source: synthetic
+ *                 synthetic:
+ *                   start: "2024-01-15T08:00:00Z"
+ *                   hours: 10
+ *                   arrivalsPerHour: 6
+ *                 staffing:
+ *                   doctors: 2
+ *                 consultTimes:
+ *                   distribution: exponential
+ *                   meanMinutes:
+ *                     high: 25
+ *                     medium: 18
+ *                     low: 12
+ *     responses:
+ *       200:
+ *         description: Simulation completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     source:
+ *                       type: string
+ *                       example: "historical"
+ *                     arrivals:
+ *                       type: integer
+ *                       example: 212
+ *                     byTriageLevel:
+ *                       type: object
+ *                       properties:
+ *                         high:
+ *                           $ref: '#/components/schemas/WaitSummary'
+ *                         medium:
+ *                           $ref: '#/components/schemas/WaitSummary'
+ *                         low:
+ *                           $ref: '#/components/schemas/WaitSummary'
+ *                     overall:
+ *                       $ref: '#/components/schemas/WaitSummary'
+ *                     doctorUtilisation:
+ *                       type: number
+ *                       description: Percentage of on-duty doctor time spent in consultation while patients were in the clinic
+ *                       example: 83.5
+ *                     unserved:
+ *                       type: integer
+ *                       description: Patients still waiting when the simulation stopped
+ *                       example: 0
+ *                     staffing:
+ *                       type: object
+ *                     consultTimes:
+ *                       type: object
+ *                       description: Consultation times used, including learned means
+ *       202:
+ *         description: Simulation queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SimulationRun'
+ *       400:
+ *         description: Invalid simulation settings (missing period, period or arrivals over the limit, no doctors)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ */
+
+/**
+ * @swagger
+ * /api/admin/simulation/runs/{id}:
+ *   get:
+ *     summary: Get a queued simulation run
+ *     description: The report is included once the run has completed
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Simulation run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SimulationRun'
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Simulation run not found
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DailyQueueSummary:
+ *       type: object
+ *       description: |
+ *         Figures for one closed-out day. Completed, cancelled, left-without-being-seen
+ *         and resolved-at-close entries add up to the day's entries. Minute figures are
+ *         waits for the doctor unless given per stage.
+ *       properties:
+ *         clinic:
+ *           type: object
+ *           description: Clinic closed out
+ *           properties:
+ *             _id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             code:
+ *               type: string
+ *         date:
+ *           type: string
+ *           format: date-time
+ *           description: Start of the day (server local time)
+ *         visits:
+ *           type: integer
+ *           example: 42
+ *         entries:
+ *           type: integer
+ *           description: Queue entries of the day, all stages
+ *           example: 97
+ *         completed:
+ *           type: integer
+ *           example: 88
+ *         cancelled:
+ *           type: integer
+ *           description: Cancelled by staff
+ *           example: 2
+ *         leftWithoutBeingSeen:
+ *           type: integer
+ *           example: 3
+ *         resolvedAtClose:
+ *           type: object
+ *           properties:
+ *             notSeen:
+ *               type: integer
+ *               description: Still waiting or on hold, cancelled by the close-out
+ *               example: 3
+ *             consultationNotClosed:
+ *               type: integer
+ *               description: Left in consultation, completed by the close-out without an end time
+ *               example: 1
+ *         carriedOver:
+ *           type: integer
+ *           description: Open entries from earlier days resolved with this day
+ *           example: 0
+ *         averageWaitTime:
+ *           type: number
+ *           example: 24
+ *         longestWaitTime:
+ *           type: number
+ *           example: 81
+ *         byTriageLevel:
+ *           type: object
+ *           properties:
+ *             high:
+ *               $ref: '#/components/schemas/TriageDaySummary'
+ *             medium:
+ *               $ref: '#/components/schemas/TriageDaySummary'
+ *             low:
+ *               $ref: '#/components/schemas/TriageDaySummary'
+ *         byStage:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               stage:
+ *                 type: string
+ *                 example: "pharmacy"
+ *               entries:
+ *                 type: integer
+ *                 example: 30
+ *               completed:
+ *                 type: integer
+ *                 example: 29
+ *               averageWaitTime:
+ *                 type: number
+ *                 example: 8
+ *         archivedEntries:
+ *           type: integer
+ *           description: Entries moved from the live queue to the queue history
+ *           example: 97
+ *         trigger:
+ *           type: string
+ *           enum: [scheduled, manual]
+ *         closedBy:
+ *           type: object
+ *           description: Admin who ran a manual close-out
+ *         closedAt:
+ *           type: string
+ *           format: date-time
+ *     TriageDaySummary:
+ *       type: object
+ *       properties:
+ *         visits:
+ *           type: integer
+ *           example: 12
+ *         completed:
+ *           type: integer
+ *           description: Completed doctor consultations
+ *           example: 11
+ *         averageWaitTime:
+ *           type: number
+ *           example: 31
+ */
+
+/**
+ * @swagger
+ * /api/admin/close-out:
+ *   post:
+ *     summary: Close out a clinic day
+ *     description: |
+ *       Ends a clinic's day. Each clinic closes out separately; without `clinicId` the
+ *       default clinic is closed out. Entries checked in before the end of the day (or now, for
+ *       today) that are still waiting or on hold are cancelled, and consultations never
+ *       marked finished are completed; both are tagged with a `closeOutReason`. Their
+ *       visits are completed, linked appointments are completed (patient seen) or
+ *       cancelled (not seen), a daily summary is recorded and the entries are moved
+ *       from the live queue to the queue history. Open entries left from earlier days
+ *       are resolved at the same time.
+ *
+ *       The same close-out runs automatically at every open clinic for the previous day, and for the current
+ *       day from CLOSE_OUT_HOUR (default 23, server local time), checked by the
+ *       `end-of-day-close-out` job on the CLOSE_OUT_CHECK_SCHEDULE cron schedule
+ *       (default every 15 minutes). Dashboards are told on the queue stream with a
+ *       `queue.closed-out` event.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Day to close out (default today)
+ *                 example: "2024-01-15"
+ *               clinicId:
+ *                 type: string
+ *                 description: Clinic to close out (default clinic when omitted)
+ *     responses:
+ *       201:
+ *         description: Day closed out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Queue closed out"
+ *                 data:
+ *                   $ref: '#/components/schemas/DailyQueueSummary'
+ *       400:
+ *         description: The day has not started yet
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Clinic not found or inactive
+ *       409:
+ *         description: The day is already closed out at this clinic
+ */
+
+/**
+ * @swagger
+ * /api/admin/daily-summaries:
+ *   get:
+ *     summary: Get daily queue summaries
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day to include
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day to include
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's summaries (default every clinic)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 31
+ *     responses:
+ *       200:
+ *         description: Summaries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DailyQueueSummary'
+ *                 count:
+ *                   type: integer
+ *                   example: 7
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Job:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "appointment-reminders"
+ *         schedule:
+ *           type: string
+ *           description: Cron expression (server local time)
+ *           example: "*\/5 * * * *"
+ *         enabled:
+ *           type: boolean
+ *         nextRunAt:
+ *           type: string
+ *           format: date-time
+ *         running:
+ *           type: boolean
+ *           description: An instance holds the job's lock
+ *         lockedBy:
+ *           type: string
+ *           nullable: true
+ *           description: Host and process holding the lock
+ *           example: "api-1:4821"
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Renewed while the job runs
+ *         runRequestedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Manual run queued for the next poll
+ *         runRequestedBy:
+ *           type: string
+ *           nullable: true
+ *           description: Staff member who queued the manual run
+ *         attempt:
+ *           type: integer
+ *           description: Failed attempts of the current run, reset on success
+ *         maxAttempts:
+ *           type: integer
+ *           example: 3
+ *         lastRunAt:
+ *           type: string
+ *           format: date-time
+ *         lastStatus:
+ *           type: string
+ *           enum: [succeeded, failed]
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         lastDurationMs:
+ *           type: integer
+ *     JobRun:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         job:
+ *           type: string
+ *           example: "appointment-reminders"
+ *         trigger:
+ *           type: string
+ *           enum: [schedule, retry, manual]
+ *         attempt:
+ *           type: integer
+ *           example: 1
+ *         status:
+ *           type: string
+ *           enum: [running, succeeded, failed]
+ *         instance:
+ *           type: string
+ *           example: "api-1:4821"
+ *         triggeredBy:
+ *           type: object
+ *           description: Staff member for manual runs
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *         durationMs:
+ *           type: integer
+ *         result:
+ *           type: object
+ *           description: Summary returned by the job
+ *           example: { checked: 12, sent: 3, failed: 0 }
+ *         error:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: List background jobs
+ *     description: |
+ *       Background jobs run on cron schedules (server local time) from state kept in
+ *       MongoDB, so several API instances can run side by side: an instance locks a due
+ *       job before running it and renews the lock while the job runs, so the lock only
+ *       expires, after JOB_LOCK_MS (default 10 minutes), if the instance stops mid-run. Instances look for due jobs every
+ *       JOB_POLL_INTERVAL_MS (default 15 s). Jobs allowed several attempts are retried
+ *       after JOB_RETRY_DELAY_MS (default 1 minute), doubled for each further retry,
+ *       before waiting for their next scheduled time.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Jobs by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Job'
+ *                 count:
+ *                   type: integer
+ *                   example: 4
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ */
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/run:
+ *   post:
+ *     summary: Queue a run of a background job
+ *     description: |
+ *       Queues one run of the job, outside its schedule, and returns the job at once.
+ *       The next poll of any instance (within JOB_POLL_INTERVAL_MS) runs it; follow it in
+ *       the job's run history. A manual run is not retried and does not move the job's
+ *       next scheduled run.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "end-of-day-close-out"
+ *     responses:
+ *       202:
+ *         description: Job run queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Job run queued"
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: The job is already running or already has a run queued
+ */
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/runs:
+ *   get:
+ *     summary: Get a background job's runs
+ *     description: Run history, newest first. Runs are kept for JOB_RUN_RETENTION_DAYS (default 30).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Runs, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/JobRun'
+ *                 count:
+ *                   type: integer
+ *                   example: 20
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Job not found
+ */
@@ -50,6 +50,29 @@
  *         preAppointmentInstructions:
  *           type: string
  *           example: "Fast for 12 hours before appointment"
+ *         reminderSent:
+ *           type: boolean
+ *           description: Whether a reminder has been sent for the current time
+ *           example: true
+ *         reminders:
+ *           type: array
+ *           description: |
+ *             Reminders sent at the lead times in APPOINTMENT_REMINDER_LEAD_HOURS (default 24 and 2 hours).
+ *             Cleared when the appointment is rescheduled.
+ *           items:
+ *             type: object
+ *             properties:
+ *               leadMinutes:
+ *                 type: integer
+ *                 example: 1440
+ *               sentAt:
+ *                 type: string
+ *                 format: date-time
+ *               channels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [sms, email]
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -102,6 +125,10 @@
  *           type: string
  *           maxLength: 1000
  *           example: "Fast for 12 hours before appointment"
+ *         clinicId:
+ *           type: string
+ *           description: Clinic of the appointment. Defaults to the caller's only clinic, or the default clinic; the doctor must work there.
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
 
  *     AvailabilityCheckRequest:
  *       type: object
@@ -160,6 +187,11 @@
  *         description: Filter by doctor ID
  *         example: "64abc123def456789012346"
  *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's appointments (default every clinic the caller works at)
+ *       - in: query
  *         name: page
  *         schema:
  *           type: string
@@ -271,9 +303,11 @@
  *                     createdAt: "2024-01-15T08:30:00Z"
  *                     updatedAt: "2024-01-15T08:30:00Z"
  *       400:
- *         description: Validation error or scheduling conflict
+ *         description: Validation error, scheduling conflict, or the doctor does not work at the clinic
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: The caller does not work at the clinic
  *       409:
  *         description: Scheduling conflict detected
  */
@@ -283,6 +317,9 @@
  * /api/appointments/availability:
  *   get:
  *     summary: Check doctor availability for scheduling
+ *     description: |
+ *       Appointments at every clinic count against availability; only those at the
+ *       clinics the caller works at are listed as conflicts.
  *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
@@ -0,0 +1,164 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Clinics
+ *   description: Clinic sites, each with its own queues, rooms and statistics
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Clinic:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           example: "North Clinic"
+ *         code:
+ *           type: string
+ *           description: Short unique code, stored in upper case
+ *           example: "NORTH"
+ *         address:
+ *           type: string
+ *           example: "12 High Street"
+ *         phone:
+ *           type: string
+ *           example: "5551234567"
+ *         isActive:
+ *           type: boolean
+ *           example: true
+ *         isDefault:
+ *           type: boolean
+ *           description: Records created without a clinic, and records from before clinics existed, belong to the default clinic
+ *           example: false
+ */
+
+/**
+ * @swagger
+ * /api/clinics:
+ *   get:
+ *     summary: Get clinics
+ *     description: |
+ *       Lists the clinics the caller works at, default clinic first. Admins see
+ *       every clinic. Use a clinic's ID as `clinicId` at check-in, on the display
+ *       board and to filter queues, statistics, rooms and appointments.
+ *     tags: [Clinics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         description: Include closed clinics (admins only)
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Clinics retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Clinic'
+ *                 count:
+ *                   type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   post:
+ *     summary: Create a clinic
+ *     tags: [Clinics]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, code]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "North Clinic"
+ *               code:
+ *                 type: string
+ *                 pattern: '^[A-Za-z0-9-]{2,12}$'
+ *                 example: "NORTH"
+ *               address:
+ *                 type: string
+ *                 maxLength: 200
+ *               phone:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Clinic created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: A clinic with this code already exists
+ */
+
+/**
+ * @swagger
+ * /api/clinics/{id}:
+ *   patch:
+ *     summary: Update a clinic
+ *     description: Renames a clinic, changes its details or closes it. The default clinic cannot be closed.
+ *     tags: [Clinics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Clinic updated
+ *       400:
+ *         description: Validation failed, or the default clinic cannot be closed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Clinic not found
+ *       409:
+ *         description: A clinic with this code already exists
+ */
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Display
+ *   description: Public waiting room display board
+ */
+
+/**
+ * @swagger
+ * /api/display/board:
+ *   get:
+ *     summary: Get the waiting room display board
+ *     description: |
+ *       Public, read-only feed for the waiting room screen. Patients are identified
+ *       only by their daily ticket number (prefixed H, M or L by priority); no names
+ *       or clinical details are returned. Recent calls are fed by call-next. Each
+ *       clinic's screen passes its `clinicId`; without one the default clinic is shown.
+ *       Up next lists the tickets waiting for the doctor; `waitingCount` counts every
+ *       patient waiting, whatever the stage.
+ *     tags: [Display]
+ *     parameters:
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Clinic whose queue to show (default clinic when omitted)
+ *     responses:
+ *       200:
+ *         description: Display board retrieved
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   data:
+ *                     clinic:
+ *                       name: "Main Clinic"
+ *                     nowCalling:
+ *                       - ticketNumber: "H-002"
+ *                         room: "Exam-3"
+ *                         calledAt: "2024-01-15T09:02:00Z"
+ *                     recentCalls:
+ *                       - ticketNumber: "H-002"
+ *                         room: "Exam-3"
+ *                         calledAt: "2024-01-15T09:02:00Z"
+ *                       - ticketNumber: "M-011"
+ *                         room: "Exam-1"
+ *                         calledAt: "2024-01-15T08:55:00Z"
+ *                     upNext: ["M-012", "L-007", "L-008"]
+ *                     waitingCount: 3
+ *                     updatedAt: "2024-01-15T09:03:00Z"
+ *       404:
+ *         description: Clinic not found or inactive
+ *       500:
+ *         description: Failed to retrieve display board
+ */
+
+export const displayDocs = {};
\ No newline at end of file
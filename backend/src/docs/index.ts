@@ -9,6 +9,12 @@ import './patients.docs';
 import './queue.docs';
 import './staff.docs';
 import './visits.docs';
+import './display.docs';
+import './rooms.docs';
+import './admin.docs';
+import './track.docs';
+import './notifications.docs';
+import './clinics.docs';
 
 const options: swaggerJsdoc.Options = {
   definition: {
@@ -64,6 +70,30 @@ const options: swaggerJsdoc.Options = {
       {
         name: 'Staff',
         description: 'Staff management and profile operations'
+      },
+      {
+        name: 'Display',
+        description: 'Public waiting room display board'
+      },
+      {
+        name: 'Rooms',
+        description: 'Room directory and room availability'
+      },
+      {
+        name: 'Admin',
+        description: 'Clinic administration tools such as staffing simulations and the end-of-day close-out'
+      },
+      {
+        name: 'Tracking',
+        description: 'Patient self-tracking with the tracking token issued at check-in'
+      },
+      {
+        name: 'Notifications',
+        description: 'Delivery log of SMS and email notifications sent to patients'
+      },
+      {
+        name: 'Clinics',
+        description: 'Clinic sites, each with its own queues, rooms and statistics'
       }
     ],
     components: {
@@ -0,0 +1,139 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Notifications
+ *   description: Delivery log of SMS and email notifications sent to patients
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       description: |
+ *         One message sent to a patient. Messages are sent when a patient checks in,
+ *         when they reach the front of the line (NOTIFY_TURN_NEAR_POSITION, default 3)
+ *         and when they are called, and before appointments as reminders. Providers are configured per channel with
+ *         NOTIFICATION_SMS_PROVIDER (gateway | local) and NOTIFICATION_EMAIL_PROVIDER
+ *         (smtp | local); the local provider only logs messages.
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0f7"
+ *         patient:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e2"
+ *         visit:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e3"
+ *         queueEntry:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *         appointment:
+ *           type: string
+ *           description: Set on appointment reminders
+ *         channel:
+ *           type: string
+ *           enum: [sms, email]
+ *           example: "sms"
+ *         template:
+ *           type: string
+ *           enum: [checked-in, turn-near, called, appointment-reminder]
+ *           example: "turn-near"
+ *         recipient:
+ *           type: string
+ *           example: "5551234567"
+ *         subject:
+ *           type: string
+ *           description: Email only
+ *         body:
+ *           type: string
+ *           example: "ClinicQueue: Jane, you are now 3rd in line (ticket M-012). Please make your way back to the waiting area."
+ *         provider:
+ *           type: string
+ *           enum: [local, smtp, sms-gateway]
+ *           example: "sms-gateway"
+ *         status:
+ *           type: string
+ *           enum: [pending, sent, failed]
+ *           example: "sent"
+ *         providerMessageId:
+ *           type: string
+ *         error:
+ *           type: string
+ *           description: Provider error when delivery failed
+ *         sentAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: Get the notification delivery log
+ *     description: Lists notifications sent to patients, newest first.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: visit
+ *         schema:
+ *           type: string
+ *         description: Only notifications for this visit
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, sent, failed]
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [sms, email]
+ *       - in: query
+ *         name: template
+ *         schema:
+ *           type: string
+ *           enum: [checked-in, turn-near, called, appointment-reminder]
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only notifications of this clinic (default every clinic the caller works at)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 count:
+ *                   type: integer
+ *                   example: 12
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin or receptionist role required
+ */
\ No newline at end of file
@@ -418,6 +418,7 @@
  * /api/patients/{id}:
  *   get:
  *     summary: Get patient by ID with full details
+ *     description: Recent visits and upcoming appointments cover the clinics the caller works at (every clinic for admins)
  *     tags: [Patients]
  *     security:
  *       - bearerAuth: []
@@ -532,6 +533,7 @@
  * /api/patients/{id}/visits:
  *   get:
  *     summary: Get patient's visit history
+ *     description: Only visits at the clinics the caller works at are listed (every clinic for admins)
  *     tags: [Patients]
  *     security:
  *       - bearerAuth: []
@@ -578,4 +580,75 @@
  *         description: Patient not found
  */
 
+/**
+ * @swagger
+ * /api/patients/contact-updates:
+ *   get:
+ *     summary: List contact details typed at check-in awaiting review
+ *     description: |
+ *       Check-in never changes a returning patient's phone or email. Details
+ *       that differ from the record are kept here until staff apply or dismiss them.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Patients with a pending contact update, oldest first
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   count: 1
+ *                   data:
+ *                     - _id: "65a1b2c3d4e5f6a7b8c9d0b2"
+ *                       firstName: "David"
+ *                       lastName: "Wilson"
+ *                       email: "david.wilson@example.com"
+ *                       phone: "5554443333"
+ *                       pendingContactUpdate:
+ *                         email: "d.wilson@example.com"
+ *                         submittedAt: "2024-01-15T08:30:00Z"
+ *                         visit: "65a1b2c3d4e5f6a7b8c9d0c3"
+ *       401:
+ *         description: Unauthorized
+ */
+
+/**
+ * @swagger
+ * /api/patients/{id}/contact-update:
+ *   post:
+ *     summary: Apply or dismiss contact details typed at check-in
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [apply, dismiss]
+ *     responses:
+ *       200:
+ *         description: Contact update applied or dismissed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Patient not found
+ *       409:
+ *         description: No contact update pending, or the email belongs to another patient
+ */
+
 export const patientsDocs = {};
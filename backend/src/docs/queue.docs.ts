@@ -22,10 +22,16 @@
  *           $ref: '#/components/schemas/Patient'
  *         status:
  *           type: string
- *           enum: [waiting, in-progress, completed, cancelled]
+ *           enum: [waiting, on-hold, in-progress, completed, cancelled, left-without-being-seen]
  *           example: "waiting"
+ *         stage:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           description: Station this entry waits for; a visit has one entry per stage entered
+ *           example: "doctor"
  *         position:
  *           type: integer
+ *           description: Position within the stage's waiting list
  *           example: 3
  *         estimatedWaitTime:
  *           type: integer
@@ -33,11 +39,26 @@
  *         priority:
  *           type: integer
  *           example: 1
+ *         effectivePriority:
+ *           type: string
+ *           enum: [high, medium, low]
+ *           description: Priority the entry is currently treated with after aging (current queue only)
+ *           example: "medium"
+ *         agingReason:
+ *           type: string
+ *           nullable: true
+ *           description: Why the effective priority differs from triage, null when it does not
+ *           example: "Waited 75 min, raised from low to medium"
  *         doctorId:
  *           type: string
  *           example: "doc_123456"
+ *         room:
+ *           type: string
+ *           description: Room the patient was called into
+ *           example: "65a1b2c3d4e5f6a7b8c9d0f1"
  *         assignedRoom:
  *           type: string
+ *           description: Name of the room, kept for display and history
  *           example: "Room 101"
  *         checkInTime:
  *           type: string
@@ -51,6 +72,25 @@
  *         notes:
  *           type: string
  *           example: "Patient requires wheelchair access"
+ *         closeOutReason:
+ *           type: string
+ *           enum: [not-seen-by-close, consultation-not-closed]
+ *           description: Set when the end-of-day close-out resolved an entry left open
+ *         retriageRequest:
+ *           type: object
+ *           description: Symptom update sent by the patient, cleared when a nurse re-triages
+ *           properties:
+ *             symptoms:
+ *               type: string
+ *               example: "Chest pain is getting worse"
+ *             painLevel:
+ *               type: integer
+ *               minimum: 0
+ *               maximum: 10
+ *               example: 8
+ *             requestedAt:
+ *               type: string
+ *               format: date-time
 
  *     QueueStats:
  *       type: object
@@ -70,25 +110,155 @@
  *         doctorsActive:
  *           type: integer
  *           example: 8
+ *         leftWithoutBeingSeen:
+ *           type: object
+ *           properties:
+ *             today:
+ *               type: integer
+ *               example: 2
+ *             rate:
+ *               type: number
+ *               description: Percentage of today's closed queue entries that left without being seen
+ *               example: 4.3
+ *         byStage:
+ *           type: array
+ *           description: Waiting and service figures for every stage
+ *           items:
+ *             $ref: '#/components/schemas/StageStatistics'
+ *         slaBreaches:
+ *           type: object
+ *           description: Waiting target breaches (targets per triage level)
+ *           properties:
+ *             waitingOverTarget:
+ *               type: integer
+ *               description: Patients still waiting past their target
+ *               example: 1
+ *             today:
+ *               type: integer
+ *               description: Breaches raised today
+ *               example: 3
+
+ *     QueueAlert:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
+ *         queueEntry:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *         patient:
+ *           type: object
+ *           properties:
+ *             firstName:
+ *               type: string
+ *             lastName:
+ *               type: string
+ *         ticketNumber:
+ *           type: string
+ *           example: "H-004"
+ *         priority:
+ *           type: string
+ *           enum: [high, medium, low]
+ *         level:
+ *           type: string
+ *           enum: [warning, breach]
+ *           description: warning once the wait reaches SLA_WARNING_PERCENT of the target, breach once it passes it
+ *         targetMinutes:
+ *           type: integer
+ *           example: 15
+ *         waitedMinutes:
+ *           type: integer
+ *           description: Wait when the alert was raised, excluding time on hold
+ *           example: 16
+ *         triggeredAt:
+ *           type: string
+ *           format: date-time
+ *         acknowledgedAt:
+ *           type: string
+ *           format: date-time
+ *         acknowledgedBy:
+ *           type: object
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Set once the patient is no longer waiting
+
+ *     StageStatistics:
+ *       type: object
+ *       properties:
+ *         stage:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           example: "pharmacy"
+ *         waiting:
+ *           type: integer
+ *           example: 4
+ *         inProgress:
+ *           type: integer
+ *           example: 1
+ *         completedToday:
+ *           type: integer
+ *           example: 12
+ *         averageWaitTime:
+ *           type: integer
+ *           description: Minutes from entering the stage to being called, for patients called today
+ *           example: 9
+ *         longestCurrentWait:
+ *           type: integer
+ *           description: Minutes the longest-waiting patient at the stage has waited so far
+ *           example: 17
 
  *     UpdateQueueStatusRequest:
  *       type: object
  *       properties:
  *         status:
  *           type: string
- *           enum: [waiting, in-progress, completed, cancelled]
+ *           enum: [waiting, on-hold, in-progress, completed, cancelled, left-without-being-seen]
  *           example: "in-progress"
  *         doctorId:
  *           type: string
- *           example: "doc_123456"
- *         assignedRoom:
+ *           description: Active doctor of the entry's clinic, recorded as the patient's doctor
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *         roomId:
  *           type: string
- *           maxLength: 20
- *           example: "Exam-3"
+ *           description: |
+ *             Room to move the patient into when calling them in or changing room.
+ *             A free consultation room is picked when omitted.
+ *           example: "65a1b2c3d4e5f6a7b8c9d0f1"
  *         notes:
  *           type: string
  *           maxLength: 1000
  *           example: "Patient moved to consultation room"
+ *         holdReason:
+ *           type: string
+ *           enum: [restroom, test-result, interpreter, other]
+ *           description: Required when status is on-hold
+ *           example: "test-result"
+ *         holdMinutes:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 480
+ *           description: Resume the patient automatically after this many minutes on hold
+ *           example: 30
+ *         nextStage:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           description: On completion, route the visit to this stage instead of the next planned one
+ *           example: "lab"
+
+ *     CompleteStageRequest:
+ *       type: object
+ *       properties:
+ *         nextStage:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           description: Stage to send the patient to instead of the next planned one
+ *           example: "pharmacy"
+ *         notes:
+ *           type: string
+ *           maxLength: 1000
+ *           example: "Prescription sent to pharmacy"
 
  *     CallNextPatientRequest:
  *       type: object
@@ -98,10 +268,14 @@
  *         doctorId:
  *           type: string
  *           example: "doc_123456"
- *         assignedRoom:
+ *         roomId:
  *           type: string
- *           maxLength: 20
- *           example: "Exam-2"
+ *           description: Room to call the patient into. A free consultation room is picked when omitted.
+ *           example: "65a1b2c3d4e5f6a7b8c9d0f1"
+ *         clinicId:
+ *           type: string
+ *           description: Clinic to call from. Required when the doctor works at several clinics.
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
  */
 
 /**
@@ -112,6 +286,19 @@
  *     tags: [Queue]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: stage
+ *         schema:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           default: doctor
+ *         description: Stage whose waiting list to return
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's waiting list (default every clinic the caller works at; positions are per clinic)
  *     responses:
  *       200:
  *         description: Queue retrieved successfully
@@ -171,9 +358,27 @@
  * /api/queue/current:
  *   get:
  *     summary: Get optimized current queue (for display)
+ *     description: |
+ *       Waiting patients are ordered by effective priority: after waiting
+ *       QUEUE_AGING_LOW_MINUTES (default 60) a low-priority patient is treated as
+ *       medium, and after a further QUEUE_AGING_MEDIUM_MINUTES (default 90) as high.
+ *       Call-next applies the same ordering.
  *     tags: [Queue]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: stage
+ *         schema:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           default: doctor
+ *         description: Stage whose waiting list to return
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's waiting list (default every clinic the caller works at; positions are per clinic)
  *     responses:
  *       200:
  *         description: Current queue for display
@@ -210,7 +415,9 @@
  *                         status: "waiting"
  *                         position: 1
  *                         estimatedWaitTime: 15
- *                         priority: 1
+ *                         priority: "low"
+ *                         effectivePriority: "medium"
+ *                         agingReason: "Waited 75 min, raised from low to medium"
  *                         checkInTime: "2024-01-15T08:30:00Z"
  *                     inProgress:
  *                       - id: "que_789012"
@@ -235,6 +442,12 @@
  *     tags: [Queue]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic (default every clinic the caller works at)
  *     responses:
  *       200:
  *         description: Queue statistics retrieved
@@ -259,6 +472,25 @@
  *                     longestWaitTime: 45
  *                     doctorsActive: 5
  *                     visitsToday: 23
+ *                     leftWithoutBeingSeen:
+ *                       today: 1
+ *                       rate: 4.3
+ *                     byStage:
+ *                       - stage: "doctor"
+ *                         waiting: 8
+ *                         inProgress: 3
+ *                         completedToday: 15
+ *                         averageWaitTime: 25
+ *                         longestCurrentWait: 45
+ *                       - stage: "pharmacy"
+ *                         waiting: 2
+ *                         inProgress: 1
+ *                         completedToday: 9
+ *                         averageWaitTime: 7
+ *                         longestCurrentWait: 11
+ *                     slaBreaches:
+ *                       waitingOverTarget: 1
+ *                       today: 3
  *                     triageStats:
  *                       - _id: "high"
  *                         count: 1
@@ -270,11 +502,153 @@
  *         description: Unauthorized
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AnalyticsMetrics:
+ *       type: object
+ *       description: |
+ *         Figures for one bucket or triage level. Arrivals, waits and door-to-doctor
+ *         times belong to the bucket the patient checked in; calls and completions
+ *         to the bucket they happened in. Minute figures are null without data.
+ *       properties:
+ *         arrivals:
+ *           type: integer
+ *           example: 9
+ *         calls:
+ *           type: integer
+ *           description: Doctor calls
+ *           example: 7
+ *         completions:
+ *           type: integer
+ *           description: Completed doctor consultations
+ *           example: 6
+ *         medianWait:
+ *           type: number
+ *           nullable: true
+ *           description: Minutes waiting for the doctor, excluding holds
+ *           example: 21
+ *         p90Wait:
+ *           type: number
+ *           nullable: true
+ *           example: 48
+ *         medianDoorToDoctor:
+ *           type: number
+ *           nullable: true
+ *           description: Minutes from check-in to the first doctor call, all stages included
+ *           example: 27
+ *         p90DoorToDoctor:
+ *           type: number
+ *           nullable: true
+ *           example: 55
+ *     AnalyticsBucket:
+ *       allOf:
+ *         - $ref: '#/components/schemas/AnalyticsMetrics'
+ *         - type: object
+ *           properties:
+ *             start:
+ *               type: string
+ *               format: date-time
+ *               description: Start of the hour or day (server local time)
+ *             byTriageLevel:
+ *               type: object
+ *               properties:
+ *                 high:
+ *                   $ref: '#/components/schemas/AnalyticsMetrics'
+ *                 medium:
+ *                   $ref: '#/components/schemas/AnalyticsMetrics'
+ *                 low:
+ *                   $ref: '#/components/schemas/AnalyticsMetrics'
+ */
+
+/**
+ * @swagger
+ * /api/queue/analytics:
+ *   get:
+ *     summary: Get queue activity over time
+ *     description: |
+ *       Time series of arrivals, doctor calls, completions, median and p90 waits and
+ *       door-to-doctor times per hour or day, overall and per triage level. Every
+ *       bucket in the period is listed, including empty ones, so peak hours stand out.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (default one day, or 30 days for daily buckets, before `to`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period, exclusive (default now)
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [hour, day]
+ *           default: hour
+ *         description: Bucket size; hourly buckets cover at most 31 days, daily buckets 366 days
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic (default every clinic the caller works at)
+ *     responses:
+ *       200:
+ *         description: Queue analytics retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     from:
+ *                       type: string
+ *                       format: date-time
+ *                     to:
+ *                       type: string
+ *                       format: date-time
+ *                     bucket:
+ *                       type: string
+ *                       example: "hour"
+ *                     buckets:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AnalyticsBucket'
+ *                     totals:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AnalyticsMetrics'
+ *                         - type: object
+ *                           properties:
+ *                             byTriageLevel:
+ *                               type: object
+ *       400:
+ *         description: Invalid period (reversed, or too long for the bucket size)
+ *       401:
+ *         description: Unauthorized
+ */
+
 /**
  * @swagger
  * /api/queue/{id}:
  *   patch:
  *     summary: Update queue entry status
+ *     description: |
+ *       Waiting patients can be put `on-hold` (with a hold reason) when they step away.
+ *       They keep their place in the queue but are skipped by call-next until resumed
+ *       with status `waiting`, or automatically after `holdMinutes`. Time on hold is
+ *       excluded from the patient's actual wait time.
  *     tags: [Queue]
  *     security:
  *       - bearerAuth: []
@@ -296,8 +670,13 @@
  *               value:
  *                 status: "in-progress"
  *                 doctorId: "doc_123456"
- *                 assignedRoom: "Exam-3"
+ *                 roomId: "65a1b2c3d4e5f6a7b8c9d0f1"
  *                 notes: "Patient moved to consultation room"
+ *             putOnHold:
+ *               value:
+ *                 status: "on-hold"
+ *                 holdReason: "restroom"
+ *                 holdMinutes: 10
  *     responses:
  *       200:
  *         description: Queue entry updated successfully
@@ -312,6 +691,7 @@
  *                     id: "que_123456"
  *                     status: "in-progress"
  *                     doctorId: "doc_123456"
+ *                     room: "65a1b2c3d4e5f6a7b8c9d0f1"
  *                     assignedRoom: "Exam-3"
  *                     calledTime: "2024-01-15T09:00:00Z"
  *       400:
@@ -319,7 +699,332 @@
  *       401:
  *         description: Unauthorized
  *       404:
+ *         description: Queue entry or room not found
+ *       409:
+ *         description: |
+ *           The requested room is occupied, all consultation rooms are taken, or the
+ *           entry changed (e.g. was called) while it was being updated
+ */
+
+/**
+ * @swagger
+ * /api/queue/alerts:
+ *   get:
+ *     summary: Get waiting target alerts
+ *     description: |
+ *       Waiting patients are checked on the SLA_CHECK_SCHEDULE cron schedule (default
+ *       every minute) against the target for their triage level:
+ *       SLA_TARGET_HIGH_MINUTES (default 15), SLA_TARGET_MEDIUM_MINUTES (60) and SLA_TARGET_LOW_MINUTES (120). A warning is
+ *       raised at SLA_WARNING_PERCENT (80) of the target and a breach once it is passed,
+ *       each at most once per queue entry. New alerts are also pushed on the queue stream
+ *       as `queue.sla-warning` and `queue.sla-breached`.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, active, all]
+ *           default: open
+ *         description: open = not acknowledged and patient still waiting, active = patient still waiting
+ *       - in: query
+ *         name: level
+ *         schema:
+ *           type: string
+ *           enum: [warning, breach]
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic (default every clinic the caller works at)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Alerts, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QueueAlert'
+ *                 count:
+ *                   type: integer
+ *       401:
+ *         description: Unauthorized
+ */
+
+/**
+ * @swagger
+ * /api/queue/alerts/{id}/acknowledge:
+ *   post:
+ *     summary: Acknowledge a waiting target alert
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert acknowledged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/QueueAlert'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Alert not found
+ *       409:
+ *         description: Alert already acknowledged
+ */
+
+/**
+ * @swagger
+ * /api/queue/{id}/timeline:
+ *   get:
+ *     summary: Get the full event timeline of a queue entry
+ *     description: |
+ *       Returns every logged event for the entry (check-in, calls, room assignments,
+ *       returns to waiting, cancellation, completion, re-triage) with the acting staff
+ *       member. Entries created before the event log existed have their main steps
+ *       derived from stored timestamps and are flagged with `derived: true`.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *     responses:
+ *       200:
+ *         description: Queue entry timeline retrieved
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   data:
+ *                     queueId: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *                     visitId: "65a1b2c3d4e5f6a7b8c9d0e2"
+ *                     patientId: "65a1b2c3d4e5f6a7b8c9d0e3"
+ *                     status: "completed"
+ *                     priority: "medium"
+ *                     events:
+ *                       - type: "checked-in"
+ *                         occurredAt: "2024-01-15T08:30:00Z"
+ *                         actor: null
+ *                         toStatus: "waiting"
+ *                         details:
+ *                           source: "self-check-in"
+ *                         derived: false
+ *                       - type: "called"
+ *                         occurredAt: "2024-01-15T09:00:00Z"
+ *                         actor:
+ *                           id: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *                           name: "Sarah Johnson"
+ *                           role: "doctor"
+ *                         fromStatus: "waiting"
+ *                         toStatus: "in-progress"
+ *                         derived: false
+ *                       - type: "completed"
+ *                         occurredAt: "2024-01-15T09:20:00Z"
+ *                         fromStatus: "in-progress"
+ *                         toStatus: "completed"
+ *                         derived: false
+ *                     summary:
+ *                       waitTime: 30
+ *                       consultationDuration: 20
+ *                       timesReturnedToWaiting: 0
+ *                       totalMinutes: 50
+ *                       consultationByDoctor:
+ *                         - doctorId: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *                           minutes: 20
+ *                           ongoing: false
+ *       400:
+ *         description: Invalid ID format
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Queue entry not found
+ */
+
+/**
+ * @swagger
+ * /api/queue/{id}/missed-call:
+ *   post:
+ *     summary: Record that a called patient did not answer
+ *     description: |
+ *       Increments the entry's missed calls. The patient returns to the waiting list at
+ *       their original place until they have missed QUEUE_MAX_MISSED_CALLS calls
+ *       (default 3), after which they are marked `left-without-being-seen`.
+ *       Patients who are known to have left can be marked directly with
+ *       `PATCH /api/queue/{id}` and status `left-without-being-seen`.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 example: "Called twice in the waiting room, no answer"
+ *     responses:
+ *       200:
+ *         description: Missed call recorded
+ *         content:
+ *           application/json:
+ *             examples:
+ *               returned:
+ *                 value:
+ *                   success: true
+ *                   message: "Patient returned to the waiting list"
+ *                   data:
+ *                     missedCalls: 1
+ *                     maxMissedCalls: 3
+ *                     outcome: "returned-to-waiting"
+ *                     queueEntry:
+ *                       _id: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *                       status: "waiting"
+ *                       callAttempts: 1
+ *                       missedCalls: 1
+ *                       lastCallAttemptAt: "2024-01-15T09:00:00Z"
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
  *         description: Queue entry not found
+ *       409:
+ *         description: Patient is not currently called, or the entry changed concurrently
+ */
+
+/**
+ * @swagger
+ * /api/queue/{id}/transfer:
+ *   post:
+ *     summary: Transfer an in-progress patient
+ *     description: |
+ *       Hands a patient in consultation to another active doctor and/or room, or sends
+ *       them back to the waiting list for a specialty (`toSpecialty`), where only doctors
+ *       of that specialty can call them. Each handoff is recorded with its reason, and
+ *       consultation time is split into per-doctor segments.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               toDoctorId:
+ *                 type: string
+ *                 example: "65a1b2c3d4e5f6a7b8c9d0e5"
+ *               toRoomId:
+ *                 type: string
+ *                 description: Free room to move the patient into
+ *                 example: "65a1b2c3d4e5f6a7b8c9d0f2"
+ *               toSpecialty:
+ *                 type: string
+ *                 description: Cannot be combined with toDoctorId or toRoomId
+ *                 example: "Cardiology"
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Abnormal ECG, needs cardiology review"
+ *           examples:
+ *             toDoctor:
+ *               value:
+ *                 toDoctorId: "65a1b2c3d4e5f6a7b8c9d0e5"
+ *                 toRoomId: "65a1b2c3d4e5f6a7b8c9d0f2"
+ *                 reason: "Handover at end of shift"
+ *             toSpecialty:
+ *               value:
+ *                 toSpecialty: "Cardiology"
+ *                 reason: "Abnormal ECG, needs cardiology review"
+ *     responses:
+ *       200:
+ *         description: Patient transferred
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   message: "Patient transferred successfully"
+ *                   data:
+ *                     _id: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *                     status: "in-progress"
+ *                     assignedRoom: "Exam-4"
+ *                     consultationSegments:
+ *                       - doctor: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *                         room: "Exam-1"
+ *                         startedAt: "2024-01-15T09:00:00Z"
+ *                         endedAt: "2024-01-15T09:12:00Z"
+ *                         durationMinutes: 12
+ *                       - doctor: "65a1b2c3d4e5f6a7b8c9d0e5"
+ *                         room: "Exam-4"
+ *                         startedAt: "2024-01-15T09:12:00Z"
+ *                     handoffs:
+ *                       - fromDoctor: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *                         toDoctor: "65a1b2c3d4e5f6a7b8c9d0e5"
+ *                         fromRoom: "Exam-1"
+ *                         toRoom: "Exam-4"
+ *                         reason: "Handover at end of shift"
+ *                         transferredAt: "2024-01-15T09:12:00Z"
+ *       400:
+ *         description: Invalid transfer target
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Queue entry or target doctor not found
+ *       409:
+ *         description: Patient is not in consultation, the target room is occupied, or the entry changed concurrently
  */
 
 /**
@@ -340,7 +1045,7 @@
  *             callNext:
  *               value:
  *                 doctorId: "doc_123456"
- *                 assignedRoom: "Exam-2"
+ *                 roomId: "65a1b2c3d4e5f6a7b8c9d0f1"
  *     responses:
  *       200:
  *         description: Next patient called successfully
@@ -380,7 +1085,132 @@
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Insufficient permissions
+ *         description: Insufficient permissions, or the caller does not work at the clinic
+ *       409:
+ *         description: |
+ *           The requested room is occupied or no consultation room is free, or every waiting
+ *           candidate was claimed by other doctors at the same moment; retry the call
+ */
+
+/**
+ * @swagger
+ * /api/queue/stages/{stage}/call-next:
+ *   post:
+ *     summary: Call the next patient waiting at a stage
+ *     description: |
+ *       Each stage has its own waiting list, ordered like the doctor's queue. The
+ *       doctor stage behaves as `/api/queue/call-next`, for `doctorId` or the caller.
+ *       Roles per stage: triage, lab and pharmacy are served by nurses and doctors,
+ *       checkout by receptionists, nurses and admins.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stage
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *         example: "pharmacy"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               doctorId:
+ *                 type: string
+ *                 description: Doctor stage only, defaults to the caller
+ *               roomId:
+ *                 type: string
+ *                 description: Doctor stage only
+ *               clinicId:
+ *                 type: string
+ *                 description: Clinic to call from; required for staff of several clinics
+ *     responses:
+ *       200:
+ *         description: Patient called to the stage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Patient called to pharmacy"
+ *                 data:
+ *                   $ref: '#/components/schemas/QueueEntry'
+ *       400:
+ *         description: Unknown stage
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The caller's role does not serve this stage, or the caller does not work at the clinic
+ *       404:
+ *         description: No patients waiting at the stage
+ *       409:
+ *         description: Every waiting candidate was claimed by other staff at the same moment; retry the call
+ */
+
+/**
+ * @swagger
+ * /api/queue/{id}/complete:
+ *   post:
+ *     summary: Complete the patient's current stage
+ *     description: |
+ *       Marks the entry completed and routes the visit on. The patient joins the
+ *       back of the next planned stage's waiting list, or of `nextStage` when given,
+ *       keeping their ticket and priority. When no stage is left the visit is completed.
+ *       New visits follow the route in VISIT_STAGES (default `doctor` only).
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "que_123456"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CompleteStageRequest'
+ *     responses:
+ *       200:
+ *         description: Stage completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Patient sent to pharmacy"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     queueEntry:
+ *                       $ref: '#/components/schemas/QueueEntry'
+ *                     nextEntry:
+ *                       nullable: true
+ *                       description: Entry waiting at the next stage, null when the visit is complete
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/QueueEntry'
+ *       400:
+ *         description: Invalid status transition (the patient is not in progress)
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Queue entry not found
  */
 
 /**
@@ -410,4 +1240,87 @@
  *         description: Admin access required
  */
 
+/**
+ * @swagger
+ * /api/queue/stream:
+ *   get:
+ *     summary: Subscribe to live queue changes (Server-Sent Events)
+ *     description: |
+ *       Keeps the connection open and pushes an event whenever the queue changes
+ *       (check-in, call-next, status update, add, removal, position recalculation).
+ *       Browser EventSource clients cannot set the Authorization header: they pass a
+ *       stream token from `POST /api/queue/stream-token` as the `token` query
+ *       parameter instead. Staff JWTs are never accepted in the URL. Stream tokens
+ *       expire after 60 seconds, so fetch a new one for each connection. Reconnecting
+ *       clients send the last received event ID in the `Last-Event-ID` header (or the
+ *       `lastEventId` query parameter when opening a new EventSource) to replay missed
+ *       events; if those events are no longer available a `queue.resync` event is
+ *       sent instead.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Stream token for clients that cannot set the Authorization header
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         example: "lq3k9a-42"
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: string
+ *         description: Last received event ID, for clients that cannot set the header
+ *     responses:
+ *       200:
+ *         description: Event stream opened
+ *         content:
+ *           text/event-stream:
+ *             examples:
+ *               called:
+ *                 value: |
+ *                   id: lq3k9a-43
+ *                   event: queue.called
+ *                   data: {"queueId":"que_123456","status":"in-progress","doctorId":"doc_123456","assignedRoom":"Exam-2"}
+ *       401:
+ *         description: Unauthorized, or the stream token is invalid or expired
+ */
+
+/**
+ * @swagger
+ * /api/queue/stream-token:
+ *   post:
+ *     summary: Issue a queue stream token
+ *     description: |
+ *       Issues a token that only opens `GET /api/queue/stream` and expires after 60
+ *       seconds, for browser EventSource clients that must put their credentials in
+ *       the URL. It is refused everywhere else.
+ *     tags: [Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stream token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *       401:
+ *         description: Unauthorized
+ */
+
 export const queueDocs = {};
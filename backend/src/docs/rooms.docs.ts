@@ -0,0 +1,228 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Rooms
+ *   description: Room directory and room availability
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Room:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0f1"
+ *         name:
+ *           type: string
+ *           maxLength: 20
+ *           example: "Exam-1"
+ *         type:
+ *           type: string
+ *           enum: [consultation, treatment, procedure, triage]
+ *           example: "consultation"
+ *         equipment:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["ECG", "Otoscope"]
+ *         clinic:
+ *           type: string
+ *           description: Clinic the room is at; names are unique per clinic
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
+ *         isActive:
+ *           type: boolean
+ *           example: true
+ *         occupiedBy:
+ *           type: string
+ *           description: Queue entry currently in the room (absent when free)
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *         occupiedDoctor:
+ *           type: string
+ *           description: Doctor using the room (absent when free)
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e4"
+ *         occupiedSince:
+ *           type: string
+ *           format: date-time
+ *           description: When the room was taken (absent when free)
+ */
+
+/**
+ * @swagger
+ * /api/rooms:
+ *   get:
+ *     summary: Get all rooms
+ *     description: Lists rooms with the queue entry and doctor currently using each one.
+ *     tags: [Rooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [consultation, treatment, procedure, triage]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's rooms (default every clinic the caller works at)
+ *     responses:
+ *       200:
+ *         description: Rooms retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Room'
+ *                 count:
+ *                   type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   post:
+ *     summary: Create a room
+ *     tags: [Rooms]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 20
+ *                 example: "Exam-1"
+ *               type:
+ *                 type: string
+ *                 enum: [consultation, treatment, procedure, triage]
+ *                 default: consultation
+ *               equipment:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["ECG"]
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *               clinicId:
+ *                 type: string
+ *                 description: Clinic the room is at (default clinic when omitted)
+ *     responses:
+ *       201:
+ *         description: Room created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Clinic not found or inactive
+ *       409:
+ *         description: The clinic already has a room with this name
+ */
+
+/**
+ * @swagger
+ * /api/rooms/available:
+ *   get:
+ *     summary: Get free rooms
+ *     description: |
+ *       Active rooms nobody is using. Call-next takes the first free consultation
+ *       room when no room is requested, and refuses the call when all are occupied.
+ *     tags: [Rooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [consultation, treatment, procedure, triage]
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only this clinic's rooms (default every clinic the caller works at)
+ *     responses:
+ *       200:
+ *         description: Free rooms retrieved
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   data:
+ *                     - _id: "65a1b2c3d4e5f6a7b8c9d0f1"
+ *                       name: "Exam-1"
+ *                       type: "consultation"
+ *                       equipment: ["ECG"]
+ *                       isActive: true
+ *                   count: 1
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
+/**
+ * @swagger
+ * /api/rooms/{id}:
+ *   patch:
+ *     summary: Update a room
+ *     description: Renames a room, changes its type or equipment, or takes it out of service. Occupied rooms cannot be deactivated.
+ *     tags: [Rooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 20
+ *               type:
+ *                 type: string
+ *                 enum: [consultation, treatment, procedure, triage]
+ *               equipment:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Room updated
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Room not found
+ *       409:
+ *         description: Name already taken, or the room is occupied
+ */
\ No newline at end of file
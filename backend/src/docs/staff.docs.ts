@@ -35,6 +35,12 @@
  *         specialty:
  *           type: string
  *           example: "Cardiology"
+ *         clinics:
+ *           type: array
+ *           description: Clinics the staff member works at and sees the queues of (admins see every clinic)
+ *           items:
+ *             type: string
+ *           example: ["65a1b2c3d4e5f6a7b8c9d0a1"]
  *         isActive:
  *           type: boolean
  *           example: true
@@ -68,6 +74,13 @@
  *         isActive:
  *           type: boolean
  *           example: true
+ *         clinics:
+ *           type: array
+ *           description: Clinics the staff member works at (admins only)
+ *           minItems: 1
+ *           items:
+ *             type: string
+ *           example: ["65a1b2c3d4e5f6a7b8c9d0a1"]
  */
 
 /**
@@ -137,9 +150,16 @@
  * /api/staff/doctors:
  *   get:
  *     summary: Get all doctors for appointment scheduling
+ *     description: Lists the doctors of the clinics the caller works at (every clinic for admins)
  *     tags: [Staff]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: clinicId
+ *         schema:
+ *           type: string
+ *         description: Only doctors working at this clinic
  *     responses:
  *       200:
  *         description: Doctors list retrieved
@@ -178,6 +198,8 @@
  *                       isActive: true
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: No access to the requested clinic
  */
 
 /**
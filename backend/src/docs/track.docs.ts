@@ -0,0 +1,296 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Tracking
+ *   description: Patient self-tracking with the tracking token issued at check-in
+ */
+
+/**
+ * @swagger
+ * components:
+ *   securitySchemes:
+ *     trackingToken:
+ *       type: http
+ *       scheme: bearer
+ *       bearerFormat: JWT
+ *       description: Tracking token returned by check-in (also accepted as a `token` query parameter)
+ *   schemas:
+ *     TrackingStatus:
+ *       type: object
+ *       description: The patient's own queue status, without names or clinical details
+ *       properties:
+ *         visitId:
+ *           type: string
+ *           example: "65a1b2c3d4e5f6a7b8c9d0e1"
+ *         ticketNumber:
+ *           type: string
+ *           example: "M-012"
+ *         stage:
+ *           type: string
+ *           nullable: true
+ *           enum: [triage, doctor, lab, pharmacy, checkout]
+ *           description: Stage the patient is at, null once the visit is finished
+ *           example: "doctor"
+ *         status:
+ *           type: string
+ *           enum: [waiting, on-hold, in-progress, completed, cancelled, left-without-being-seen]
+ *           example: "waiting"
+ *         position:
+ *           type: integer
+ *           nullable: true
+ *           description: Place in the stage's waiting list, while waiting
+ *           example: 3
+ *         estimatedWaitTime:
+ *           type: integer
+ *           nullable: true
+ *           description: Minutes, while waiting
+ *           example: 25
+ *         estimatedWaitRange:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             low:
+ *               type: integer
+ *               example: 15
+ *             high:
+ *               type: integer
+ *               example: 40
+ *         assignedRoom:
+ *           type: string
+ *           nullable: true
+ *           description: Room to go to, once called
+ *           example: "Room 101"
+ *         visitCompleted:
+ *           type: boolean
+ *           example: false
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/track:
+ *   get:
+ *     summary: Track my visit
+ *     description: |
+ *       Returns the patient's own position, estimated wait, status and assigned room.
+ *       Authenticated by the tracking token issued at check-in, sent as a Bearer token
+ *       or as `?token=` in a tracking link. Staff tokens are not accepted, and tracking
+ *       tokens are not accepted on staff endpoints.
+ *     tags: [Tracking]
+ *     security:
+ *       - trackingToken: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Tracking token, when it cannot be sent in the Authorization header
+ *     responses:
+ *       200:
+ *         description: Visit status retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingStatus'
+ *       401:
+ *         description: Missing, invalid or expired tracking token
+ *       404:
+ *         description: Visit not found
+ */
+
+/**
+ * @swagger
+ * /api/track/cancel:
+ *   post:
+ *     summary: Cancel my visit
+ *     description: |
+ *       Tells the clinic the patient is leaving. The queue entry is cancelled and the
+ *       event is recorded with `source: patient`. Only possible while waiting or on hold.
+ *     tags: [Tracking]
+ *     security:
+ *       - trackingToken: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Feeling better, going home"
+ *     responses:
+ *       200:
+ *         description: Visit cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingStatus'
+ *       401:
+ *         description: Missing, invalid or expired tracking token
+ *       404:
+ *         description: Queue entry not found for visit
+ *       409:
+ *         description: The patient is no longer waiting
+ */
+
+/**
+ * @swagger
+ * /api/track/hold:
+ *   post:
+ *     summary: Hold my place
+ *     description: |
+ *       Puts the patient on hold while they step away. They are not called while on
+ *       hold and return to the waiting list automatically after `minutes`, or earlier
+ *       through `/api/track/resume`. Only possible while waiting. A place can be held
+ *       twice per stage, for up to 60 minutes in total (TRACKING_MAX_HOLDS,
+ *       TRACKING_MAX_HOLD_MINUTES).
+ *     tags: [Tracking]
+ *     security:
+ *       - trackingToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - minutes
+ *             properties:
+ *               minutes:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 60
+ *                 example: 10
+ *               reason:
+ *                 type: string
+ *                 enum: [restroom, test-result, interpreter, other]
+ *                 default: other
+ *     responses:
+ *       200:
+ *         description: Place held
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingStatus'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Missing, invalid or expired tracking token
+ *       404:
+ *         description: Queue entry not found for visit
+ *       409:
+ *         description: The patient is not waiting, or has used up their holds
+ */
+
+/**
+ * @swagger
+ * /api/track/resume:
+ *   post:
+ *     summary: I'm back
+ *     description: Returns a patient on hold to the waiting list before the hold runs out.
+ *     tags: [Tracking]
+ *     security:
+ *       - trackingToken: []
+ *     responses:
+ *       200:
+ *         description: Back in the waiting list
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingStatus'
+ *       401:
+ *         description: Missing, invalid or expired tracking token
+ *       404:
+ *         description: Queue entry not found for visit
+ *       409:
+ *         description: The patient is not on hold
+ */
+
+/**
+ * @swagger
+ * /api/track/symptoms:
+ *   post:
+ *     summary: Report a change in symptoms
+ *     description: |
+ *       Flags the queue entry for nurse re-triage (`retriageRequest`) and notifies staff
+ *       on the queue stream (`queue.retriage-requested`). The priority only changes once
+ *       a nurse re-triages the patient. Only possible while waiting or on hold.
+ *     tags: [Tracking]
+ *     security:
+ *       - trackingToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - symptoms
+ *             properties:
+ *               symptoms:
+ *                 type: string
+ *                 minLength: 3
+ *                 maxLength: 1000
+ *                 example: "Chest pain is getting worse"
+ *               painLevel:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 10
+ *                 example: 8
+ *     responses:
+ *       200:
+ *         description: Symptom update recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingStatus'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Missing, invalid or expired tracking token
+ *       404:
+ *         description: Queue entry not found for visit
+ *       409:
+ *         description: The patient is no longer waiting
+ */
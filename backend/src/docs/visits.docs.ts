@@ -145,6 +145,14 @@
  *         medications:
  *           type: string
  *           example: "Ibuprofen as needed"
+ *         clinicId:
+ *           type: string
+ *           description: Clinic the patient checks in at (default clinic when omitted); the patient joins that clinic's queue
+ *           example: "65a1b2c3d4e5f6a7b8c9d0a1"
+ *         newPatient:
+ *           type: boolean
+ *           description: Answer to a request for earlier details - none of the existing records is the patient's
+ *           example: true
 
  *     UpdateVisitRequest:
  *       type: object
@@ -183,6 +191,15 @@
  * /api/visits/check-in:
  *   post:
  *     summary: Process patient check-in with triage scoring
+ *     description: |
+ *       Returning patients are recognised by name, date of birth and the phone
+ *       number (formatting ignored) or email on file; an email alone never
+ *       identifies a patient. Contact details that differ from the record are
+ *       kept for staff review (see /api/patients/contact-updates) and never
+ *       change the record. When a record only partly matches, no visit is
+ *       created and a 409 asks the patient to check in again with the details
+ *       they gave before, or with `newPatient: true`. Nothing about the
+ *       existing record is returned.
  *     tags: [Visits]
  *     requestBody:
  *       required: true
@@ -242,8 +259,36 @@
  *                 estimatedWaitTime:
  *                   type: integer
  *                   example: 45
+ *                 estimatedWaitRange:
+ *                   type: object
+ *                   description: Confidence range learned from completed consultations
+ *                   properties:
+ *                     low:
+ *                       type: integer
+ *                       example: 32
+ *                     high:
+ *                       type: integer
+ *                       example: 58
+ *                 waitEstimateConfidence:
+ *                   type: string
+ *                   enum: [high, medium, low]
+ *                   example: "medium"
+ *                 ticketNumber:
+ *                   type: string
+ *                   description: Anonymised daily ticket shown on the waiting room display, numbered per clinic
+ *                   example: "M-012"
+ *                 clinic:
+ *                   type: object
+ *                   description: Clinic checked in at
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                       example: "Main Clinic"
  *                 trackingToken:
  *                   type: string
+ *                   description: Lets the patient follow their visit with GET /api/track (valid 8 hours)
  *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *             examples:
  *               success:
@@ -266,10 +311,26 @@
  *                     triageTime: "2024-01-15T08:35:00Z"
  *                   queuePosition: 3
  *                   estimatedWaitTime: 25
+ *                   ticketNumber: "M-012"
  *       400:
  *         description: Validation error
+ *       404:
+ *         description: Clinic not found or inactive
  *       409:
- *         description: Patient already checked in today
+ *         description: Details given before are needed to identify the patient, or the email belongs to another patient
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: string
+ *                   example: "Patient confirmation required"
+ *                 message:
+ *                   type: string
  */
 
 /**
@@ -277,7 +338,10 @@
  * /api/visits/{id}:
  *   get:
  *     summary: Get visit details by ID
+ *     description: Staff only. Patients follow their own visit with GET /api/track.
  *     tags: [Visits]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -324,6 +388,8 @@
  *                     checkInTime: "2024-01-15T08:30:00Z"
  *                     triageTime: "2024-01-15T08:35:00Z"
  *                     completedAt: "2024-01-15T10:15:00Z"
+ *       401:
+ *         description: Unauthorized (including patient tracking tokens)
  *       404:
  *         description: Visit not found
  *
@@ -373,11 +439,100 @@
  *         description: Visit not found
  */
 
+/**
+ * @swagger
+ * /api/visits/{id}/retriage:
+ *   post:
+ *     summary: Re-triage a waiting patient with new vitals
+ *     description: |
+ *       Records a new set of vitals, recalculates the triage score and level, and keeps
+ *       the previous assessment in the visit's triage history. The queue entry takes the
+ *       new priority and the waiting list is repositioned. Only patients still waiting
+ *       can be re-triaged. Re-triage answers any symptom update the patient sent through
+ *       tracking (`retriageRequest` on the queue entry is cleared).
+ *     tags: [Visits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439012"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [temperature, heartRate, bloodPressureSystolic, bloodPressureDiastolic, painLevel]
+ *             properties:
+ *               temperature:
+ *                 type: number
+ *                 example: 103.5
+ *               heartRate:
+ *                 type: integer
+ *                 example: 125
+ *               bloodPressureSystolic:
+ *                 type: integer
+ *                 example: 165
+ *               bloodPressureDiastolic:
+ *                 type: integer
+ *                 example: 100
+ *               painLevel:
+ *                 type: integer
+ *                 example: 8
+ *               symptoms:
+ *                 type: string
+ *                 description: Updated symptoms, keeps the current description when omitted
+ *                 example: "Headache now with confusion and chest pain"
+ *               notes:
+ *                 type: string
+ *                 example: "Patient reported feeling worse at the desk"
+ *     responses:
+ *       200:
+ *         description: Patient re-triaged
+ *         content:
+ *           application/json:
+ *             examples:
+ *               success:
+ *                 value:
+ *                   success: true
+ *                   message: "Patient re-triaged successfully"
+ *                   data:
+ *                     visit:
+ *                       id: "507f1f77bcf86cd799439012"
+ *                       triageLevel: "high"
+ *                       triageScore: 135
+ *                       triageFactors: ["Critical temperature: 103.5°F", "Critical heart rate: 125 BPM"]
+ *                       previousTriageLevel: "medium"
+ *                       previousTriageScore: 45
+ *                       triageHistoryCount: 1
+ *                     queue:
+ *                       id: "507f1f77bcf86cd799439020"
+ *                       priority: "high"
+ *                       position: 1
+ *                       previousPosition: 4
+ *                       estimatedWaitTime: 0
+ *       400:
+ *         description: Validation error or vitals out of range
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Medical staff only
+ *       404:
+ *         description: Visit or queue entry not found
+ *       409:
+ *         description: Patient is no longer waiting
+ */
+
 /**
  * @swagger
  * /api/visits/patient/{patientId}:
  *   get:
  *     summary: Get visit history for a patient
+ *     description: Only visits at the clinics the caller works at are listed (every clinic for admins)
  *     tags: [Visits]
  *     security:
  *       - bearerAuth: []
@@ -8,7 +8,14 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../utils/jwt';
+import {
+  verifyToken,
+  verifyTrackingToken,
+  verifyStreamToken,
+  isTrackingToken,
+  isStreamToken,
+  TrackingTokenPayload
+} from '../utils/jwt';
 
 /**
  * Extended Express Request interface to include user payload
@@ -25,6 +32,8 @@ declare global {
         exp?: number;
       };
       staffId?: string;
+      tracking?: TrackingTokenPayload;  // Set by authenticateTracking
+      clinicIds?: string[];             // Set by resolveClinicScope; absent for admins (every clinic)
     }
   }
 }
@@ -73,6 +82,24 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): v
       return;
     }
 
+    // Patient tracking tokens share the signing key but never grant staff access
+    if (isTrackingToken(decoded)) {
+      res.status(401).json({ 
+        error: 'Staff authentication required',
+        message: 'Tracking tokens can only be used to track a visit'
+      });
+      return;
+    }
+
+    // Stream tokens travel in URLs and only open the queue stream
+    if (isStreamToken(decoded)) {
+      res.status(401).json({ 
+        error: 'Staff authentication required',
+        message: 'Stream tokens can only be used to open the queue stream'
+      });
+      return;
+    }
+
     // Attach user information to request for use in route handlers
     req.user = decoded as any;
     req.staffId = decoded.id;
@@ -174,6 +201,79 @@ export const requireStaffManagement = requireRole(['admin', 'receptionist']);
  */
 export const requireMedicalStaff = requireRole(['admin', 'doctor', 'nurse']);
 
+/**
+ * Stream Authentication Middleware
+ * 
+ * Browser EventSource clients cannot send an Authorization header, so the
+ * queue stream also accepts a short-lived stream token (POST
+ * /api/queue/stream-token) as a `token` query parameter. Staff JWTs are
+ * only accepted in the header, never in the URL. An existing header
+ * always wins.
+ * 
+ * @throws {401} If the stream token is invalid or expired
+ */
+export const authenticateStream = (req: Request, res: Response, next: NextFunction): void => {
+  const { token } = req.query;
+
+  if (req.headers.authorization || typeof token !== 'string' || !token) {
+    authenticate(req, res, next);
+    return;
+  }
+
+  const stream = verifyStreamToken(token);
+
+  if (!stream) {
+    res.status(401).json({ 
+      error: 'Invalid or expired stream token',
+      message: 'Request a new stream token for each connection'
+    });
+    return;
+  }
+
+  req.user = { id: stream.id, email: stream.email, role: stream.role };
+  req.staffId = stream.id;
+  next();
+};
+
+/**
+ * Tracking Token Authentication Middleware
+ * 
+ * Authenticates a patient by the tracking token issued at check-in, sent
+ * as a Bearer token or a `token` query parameter (for tracking links).
+ * Attaches the tracked visit to the request. Staff tokens are refused.
+ * 
+ * @throws {401} If no token provided or it is not a valid tracking token
+ */
+export const authenticateTracking = (req: Request, res: Response, next: NextFunction): void => {
+  const { token: queryToken } = req.query;
+  const authHeader = req.headers.authorization;
+
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice(7)
+    : typeof queryToken === 'string' ? queryToken : '';
+
+  if (!token) {
+    res.status(401).json({ 
+      error: 'Tracking token required',
+      message: 'Use the tracking token issued at check-in'
+    });
+    return;
+  }
+
+  const tracking = verifyTrackingToken(token);
+
+  if (!tracking) {
+    res.status(401).json({ 
+      error: 'Invalid or expired tracking token',
+      message: 'Please ask reception for your visit status'
+    });
+    return;
+  }
+
+  req.tracking = tracking;
+  next();
+};
+
 /**
  * Optional Authentication Middleware
  * 
@@ -189,7 +289,7 @@ export const optionalAuth = (req: Request, _res: Response, next: NextFunction):
       const token = authHeader.slice(7);
       const decoded = verifyToken(token);
       
-      if (decoded) {
+      if (decoded && !isTrackingToken(decoded) && !isStreamToken(decoded)) {
         req.user = decoded as any;
         req.staffId = decoded.id;
       }
@@ -0,0 +1,74 @@
+// backend/src/middleware/clinicScope.ts
+/**
+ * Clinic Scoping Middleware
+ *
+ * Limits staff to the clinics they are assigned to. Routes that read or
+ * change clinic records resolve the caller's clinics after authentication;
+ * admins are not limited. Patient records are shared and never scoped.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Model } from 'mongoose';
+import { ClinicService } from '../services/clinic.service';
+
+/**
+ * Clinic Scope Middleware
+ *
+ * Sets `req.clinicIds` to the clinics of the authenticated staff member,
+ * or leaves it undefined for admins. Must be used after authenticate.
+ *
+ * @throws {500} If the staff member's clinics cannot be loaded
+ */
+export const resolveClinicScope = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    req.clinicIds = await ClinicService.getScope(req.staffId, req.user?.role);
+    next();
+  } catch (error) {
+    console.error('🏥 Clinic scope error:', error);
+
+    res.status(500).json({
+      error: 'Clinic access error',
+      message: 'Unable to determine clinic access'
+    });
+  }
+};
+
+/**
+ * Clinic Record Access Middleware Factory
+ *
+ * Creates middleware that hides records of other clinics on `:id` routes,
+ * answering as if the record did not exist. Records that are not found are
+ * left to the route handler. Must be used after resolveClinicScope.
+ *
+ * @param model - Model of the record named by `:id`
+ * @param notFoundMessage - Error returned for records of other clinics
+ * @returns Middleware function that checks the record's clinic
+ *
+ * @throws {404} If the record belongs to a clinic outside the caller's scope
+ */
+export const restrictToClinic = (model: Model<any>, notFoundMessage: string) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { clinicIds } = req;
+
+    if (!clinicIds) {
+      next();
+      return;
+    }
+
+    try {
+      const record = await model.findById(req.params.id, { clinic: 1 }).lean<{ clinic?: unknown }>();
+
+      if (record?.clinic && !clinicIds.includes(String(record.clinic))) {
+        res.status(404).json({
+          success: false,
+          error: notFoundMessage
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
\ No newline at end of file
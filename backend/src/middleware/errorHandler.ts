@@ -123,7 +123,7 @@ export const errorHandler = (
  * // Instead of try/catch in every route handler:
  * router.get('/route', asyncHandler(async (req, res) => { ... }));
  */
-export const asyncHandler = (fn: Function) => {
+export const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => unknown) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
@@ -8,12 +8,17 @@ export {
   authenticate, 
   authorize, 
   optionalAuth, 
+  authenticateStream, 
+  authenticateTracking,
   requireAdmin, 
   requireRole, 
   requireStaffManagement, 
   requireMedicalStaff 
 } from './auth';
 
+// Clinic Scoping
+export { resolveClinicScope, restrictToClinic } from './clinicScope';
+
 // Error Handling
 export { errorHandler, asyncHandler, notFoundHandler } from './errorHandler';
 
@@ -8,6 +8,16 @@
  */
 
 import mongoose, { Schema, Document, Types, Model } from 'mongoose';
+import { withDefaultClinic } from './Clinic';
+
+/**
+ * Reminder sent for one lead time
+ */
+export interface IAppointmentReminder {
+  leadMinutes: number;   // Lead time the reminder was sent for
+  sentAt: Date;
+  channels: string[];    // Channels the reminder was delivered on
+}
 
 /**
  * Interface representing an Appointment document in MongoDB
@@ -15,6 +25,7 @@ import mongoose, { Schema, Document, Types, Model } from 'mongoose';
 export interface IAppointment extends Document {
   patient: Types.ObjectId;
   doctor: Types.ObjectId;
+  clinic: Types.ObjectId;
 
   scheduledTime: Date;
   duration: number;
@@ -50,6 +61,7 @@ export interface IAppointment extends Document {
 
   visit?: Types.ObjectId;
   reminderSent: boolean;
+  reminders: IAppointmentReminder[];  // One per lead time, so a reminder is never sent twice
 
   endTime: Date;
   isUpcoming: boolean;
@@ -100,6 +112,12 @@ const AppointmentSchema = new Schema<IAppointment, IAppointmentModel>(
       index: true,
     },
 
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required'],
+    },
+
     scheduledTime: {
       type: Date,
       required: true,
@@ -179,6 +197,15 @@ const AppointmentSchema = new Schema<IAppointment, IAppointmentModel>(
 
     reminderSent: { type: Boolean, default: false },
 
+    reminders: [
+      {
+        _id: false,
+        leadMinutes: { type: Number, required: true },
+        sentAt: { type: Date, required: true },
+        channels: [{ type: String }],
+      },
+    ],
+
     cancelledAt: { type: Date, default: null },
 
     cancellationReason: {
@@ -207,6 +234,9 @@ AppointmentSchema.index({ doctor: 1, scheduledTime: 1 });
 AppointmentSchema.index({ patient: 1, scheduledTime: -1 });
 AppointmentSchema.index({ status: 1, scheduledTime: 1 });
 AppointmentSchema.index({ doctor: 1, status: 1, scheduledTime: 1 });
+AppointmentSchema.index({ clinic: 1, scheduledTime: 1 });
+
+withDefaultClinic(AppointmentSchema);
 
 /**
  * Virtuals
@@ -0,0 +1,147 @@
+// backend/src/models/Clinic.ts
+/**
+ * Clinic Data Model
+ *
+ * A site of the clinic group. Queue entries, visits, appointments and rooms
+ * belong to one clinic, and each clinic has its own queues, tickets, rooms
+ * and daily summaries. Patient records are shared by every clinic.
+ *
+ * One clinic is the default: records created without a clinic (and records
+ * from before clinics existed) belong to it.
+ */
+
+import mongoose, { Schema, Document, Types, Model } from 'mongoose';
+
+/**
+ * Default clinic created on first use
+ */
+const DEFAULT_CLINIC = {
+  name: process.env.CLINIC_NAME || 'Main Clinic',
+  code: 'MAIN'
+};
+
+/**
+ * Duplicate key error code raised when two first uses create the default clinic
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Clinics a request may see; undefined means every clinic
+ */
+export type ClinicScope = string[] | undefined;
+
+/**
+ * Interface representing a Clinic document in MongoDB
+ */
+export interface IClinic extends Document {
+  name: string;
+  code: string;       // Short unique code, e.g. "NORTH"
+  address?: string;
+  phone?: string;
+  isActive: boolean;
+  isDefault: boolean;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for Clinic Model Static Methods
+ */
+export interface IClinicModel extends Model<IClinic> {
+  getDefault(): Promise<IClinic>;
+}
+
+/**
+ * Mongoose Schema for Clinic collection
+ */
+const ClinicSchema = new Schema<IClinic, IClinicModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Clinic name is required'],
+      trim: true,
+      maxlength: [100, 'Clinic name cannot exceed 100 characters']
+    },
+    code: {
+      type: String,
+      required: [true, 'Clinic code is required'],
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z0-9-]{2,12}$/, 'Clinic code must be 2-12 letters, digits or dashes']
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Address cannot exceed 200 characters']
+    },
+    phone: {
+      type: String,
+      trim: true
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    isDefault: {
+      type: Boolean,
+      default: false
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: unique codes, and at most one default clinic
+ */
+ClinicSchema.index({ code: 1 }, { unique: true });
+ClinicSchema.index({ isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+/**
+ * Static Methods for Clinic Operations
+ */
+
+// Get the default clinic, creating it on first use
+ClinicSchema.statics.getDefault = async function(): Promise<IClinic> {
+  const existing = await this.findOne({ isDefault: true });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await this.create({ ...DEFAULT_CLINIC, isDefault: true });
+  } catch (error: any) {
+    // Created by a concurrent first use
+    if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+    return this.findOne({ isDefault: true }) as Promise<IClinic>;
+  }
+};
+
+const Clinic = mongoose.model<IClinic, IClinicModel>('Clinic', ClinicSchema);
+
+/**
+ * Query condition for the records of the clinics in scope
+ *
+ * @param clinicIds - Clinics to include, or undefined for every clinic
+ */
+export const clinicFilter = (clinicIds: ClinicScope) =>
+  clinicIds ? { clinic: { $in: clinicIds.map(id => new Types.ObjectId(id)) } } : {};
+
+/**
+ * Adds a `clinic` default to a schema: records saved without a clinic
+ * belong to the default clinic
+ *
+ * @param schema - Schema with a `clinic` path
+ */
+export const withDefaultClinic = <T extends Document>(schema: Schema<T, any>): void => {
+  schema.pre('validate', async function(this: Document) {
+    if (!this.get('clinic')) {
+      this.set('clinic', (await Clinic.getDefault())._id);
+    }
+  });
+};
+
+export default Clinic;
\ No newline at end of file
@@ -0,0 +1,158 @@
+// backend/src/models/DailyQueueSummary.ts
+/**
+ * Daily Queue Summary Data Model
+ *
+ * One record per clinic and closed-out day with the day's volumes, outcomes and
+ * waits, produced by the end-of-day close-out before the day's queue is
+ * archived. Its presence also marks the clinic's day as closed out.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { VISIT_STAGES, VisitStage } from '../config/visitStages';
+
+/**
+ * Ways a close-out can be started
+ */
+export const CLOSE_OUT_TRIGGERS = ['scheduled', 'manual'] as const;
+
+export type CloseOutTrigger = typeof CLOSE_OUT_TRIGGERS[number];
+
+/**
+ * Figures for one triage level
+ */
+export interface ITriageDaySummary {
+  visits: number;
+  completed: number;
+  averageWaitTime: number;  // Minutes waiting for the doctor
+}
+
+/**
+ * Figures for one stage
+ */
+export interface IStageDaySummary {
+  stage: VisitStage;
+  entries: number;
+  completed: number;
+  averageWaitTime: number;  // Minutes from entering the stage to being called
+}
+
+/**
+ * Interface representing a Daily Queue Summary document in MongoDB
+ */
+export interface IDailyQueueSummary extends Document {
+  clinic: Types.ObjectId;
+  date: Date;  // Start of the day (server local time)
+
+  // Volumes and outcomes of the day's queue entries
+  visits: number;
+  entries: number;
+  completed: number;
+  cancelled: number;
+  leftWithoutBeingSeen: number;
+
+  // Entries the close-out had to resolve
+  resolvedAtClose: {
+    notSeen: number;
+    consultationNotClosed: number;
+  };
+  carriedOver: number;  // Open entries from earlier days closed out with this day
+
+  averageWaitTime: number;  // Minutes waiting for the doctor
+  longestWaitTime: number;
+  byTriageLevel: {
+    high: ITriageDaySummary;
+    medium: ITriageDaySummary;
+    low: ITriageDaySummary;
+  };
+  byStage: IStageDaySummary[];
+
+  archivedEntries: number;
+  trigger: CloseOutTrigger;
+  closedBy?: Types.ObjectId;  // Staff member for manual close-outs
+  closedAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriageDaySummarySchema = new Schema<ITriageDaySummary>(
+  {
+    visits: { type: Number, default: 0 },
+    completed: { type: Number, default: 0 },
+    averageWaitTime: { type: Number, default: 0 }
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose Schema for DailyQueueSummary collection
+ */
+const DailyQueueSummarySchema = new Schema<IDailyQueueSummary>(
+  {
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
+    date: {
+      type: Date,
+      required: [true, 'Summary date is required']
+    },
+    visits: { type: Number, default: 0 },
+    entries: { type: Number, default: 0 },
+    completed: { type: Number, default: 0 },
+    cancelled: { type: Number, default: 0 },
+    leftWithoutBeingSeen: { type: Number, default: 0 },
+    resolvedAtClose: {
+      notSeen: { type: Number, default: 0 },
+      consultationNotClosed: { type: Number, default: 0 }
+    },
+    carriedOver: { type: Number, default: 0 },
+    averageWaitTime: { type: Number, default: 0 },
+    longestWaitTime: { type: Number, default: 0 },
+    byTriageLevel: {
+      high: { type: TriageDaySummarySchema, default: () => ({}) },
+      medium: { type: TriageDaySummarySchema, default: () => ({}) },
+      low: { type: TriageDaySummarySchema, default: () => ({}) }
+    },
+    byStage: [{
+      _id: false,
+      stage: {
+        type: String,
+        enum: VISIT_STAGES as unknown as string[],
+        required: true
+      },
+      entries: { type: Number, default: 0 },
+      completed: { type: Number, default: 0 },
+      averageWaitTime: { type: Number, default: 0 }
+    }],
+    archivedEntries: { type: Number, default: 0 },
+    trigger: {
+      type: String,
+      enum: {
+        values: CLOSE_OUT_TRIGGERS as unknown as string[],
+        message: 'Close-out trigger must be scheduled or manual'
+      },
+      required: true
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    closedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: one summary per clinic and day, and every clinic's summaries newest first
+ */
+DailyQueueSummarySchema.index({ clinic: 1, date: -1 }, { unique: true });
+DailyQueueSummarySchema.index({ date: -1 });
+
+export default mongoose.model<IDailyQueueSummary>('DailyQueueSummary', DailyQueueSummarySchema);
\ No newline at end of file
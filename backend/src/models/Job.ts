@@ -0,0 +1,123 @@
+// backend/src/models/Job.ts
+/**
+ * Job Data Model
+ *
+ * State of one scheduled background job (reminders, close-out, queue
+ * checks...), shared by every API instance: its cron schedule, when it is
+ * next due, which instance holds its lock, whether an admin has asked for
+ * a run, and how its last run went.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Outcomes of a finished run
+ */
+export const JOB_RESULT_STATUSES = ['succeeded', 'failed'] as const;
+
+export type JobResultStatus = typeof JOB_RESULT_STATUSES[number];
+
+/**
+ * Interface representing a Job document in MongoDB
+ */
+export interface IJob extends Document {
+  name: string;
+  schedule: string;            // Cron expression
+  enabled: boolean;
+  nextRunAt: Date;
+
+  // Lock held by the instance running the job
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+
+  // Manual run waiting for the next poll
+  runRequestedAt?: Date | null;
+  runRequestedBy?: Types.ObjectId | null;
+
+  attempt: number;             // Failed attempts of the current run, reset on success
+  maxAttempts: number;
+
+  lastRunAt?: Date;
+  lastStatus?: JobResultStatus;
+  lastError?: string | null;
+  lastDurationMs?: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose Schema for Job collection
+ */
+const JobSchema = new Schema<IJob>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Job name is required'],
+      trim: true
+    },
+    schedule: {
+      type: String,
+      required: [true, 'Job schedule is required']
+    },
+    enabled: {
+      type: Boolean,
+      default: true
+    },
+    nextRunAt: {
+      type: Date,
+      required: true
+    },
+    lockedBy: {
+      type: String,
+      default: null
+    },
+    lockedUntil: {
+      type: Date,
+      default: null
+    },
+    runRequestedAt: {
+      type: Date,
+      default: null
+    },
+    runRequestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff',
+      default: null
+    },
+    attempt: {
+      type: Number,
+      default: 0
+    },
+    maxAttempts: {
+      type: Number,
+      default: 1,
+      min: [1, 'A job needs at least one attempt']
+    },
+    lastRunAt: {
+      type: Date
+    },
+    lastStatus: {
+      type: String,
+      enum: JOB_RESULT_STATUSES as unknown as string[]
+    },
+    lastError: {
+      type: String,
+      default: null
+    },
+    lastDurationMs: {
+      type: Number
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: one record per job, and due jobs
+ */
+JobSchema.index({ name: 1 }, { unique: true });
+JobSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export default mongoose.model<IJob>('Job', JobSchema);
\ No newline at end of file
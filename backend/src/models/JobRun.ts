@@ -0,0 +1,108 @@
+// backend/src/models/JobRun.ts
+/**
+ * Job Run Data Model
+ *
+ * History of background job runs: what started each run, which instance
+ * ran it, how long it took, and its result or error. Runs are removed
+ * after JOB_RUN_RETENTION_DAYS (default 30).
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * What started a run
+ */
+export const JOB_RUN_TRIGGERS = ['schedule', 'retry', 'manual'] as const;
+
+export type JobRunTrigger = typeof JOB_RUN_TRIGGERS[number];
+
+/**
+ * Run states
+ */
+export const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'] as const;
+
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+/**
+ * How long run history is kept
+ */
+const RETENTION_DAYS = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '30', 10);
+
+/**
+ * Interface representing a Job Run document in MongoDB
+ */
+export interface IJobRun extends Document {
+  job: string;                  // Job name
+  trigger: JobRunTrigger;
+  attempt: number;              // 1 for the first attempt, 2 for the first retry...
+  status: JobRunStatus;
+  instance: string;             // Host and process that ran the job
+  triggeredBy?: Types.ObjectId; // Staff member for manual runs
+
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: unknown;             // Summary returned by the job
+  error?: string;
+}
+
+/**
+ * Mongoose Schema for JobRun collection
+ */
+const JobRunSchema = new Schema<IJobRun>(
+  {
+    job: {
+      type: String,
+      required: [true, 'Job name is required']
+    },
+    trigger: {
+      type: String,
+      enum: {
+        values: JOB_RUN_TRIGGERS as unknown as string[],
+        message: 'Run trigger must be schedule, retry or manual'
+      },
+      required: true
+    },
+    attempt: {
+      type: Number,
+      default: 1
+    },
+    status: {
+      type: String,
+      enum: JOB_RUN_STATUSES as unknown as string[],
+      default: 'running'
+    },
+    instance: {
+      type: String,
+      required: true
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now
+    },
+    finishedAt: {
+      type: Date
+    },
+    durationMs: {
+      type: Number
+    },
+    result: {
+      type: Schema.Types.Mixed
+    },
+    error: {
+      type: String
+    }
+  }
+);
+
+/**
+ * Indexes: a job's runs newest first, and expiry of old runs
+ */
+JobRunSchema.index({ job: 1, startedAt: -1 });
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export default mongoose.model<IJobRun>('JobRun', JobRunSchema);
\ No newline at end of file
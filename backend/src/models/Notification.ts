@@ -0,0 +1,133 @@
+// backend/src/models/Notification.ts
+/**
+ * Notification Data Model
+ *
+ * Delivery record of every message sent to a patient (SMS or email): what
+ * was sent, to whom, through which provider, and whether the provider
+ * accepted it. Queue messages refer to the queue entry, appointment
+ * reminders to the appointment.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TEMPLATES,
+  NotificationChannel,
+  NotificationTemplate
+} from '../utils/notificationTemplates';
+
+/**
+ * Delivery states
+ */
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+/**
+ * Interface representing a Notification document in MongoDB
+ */
+export interface INotification extends Document {
+  patient: Types.ObjectId;
+  visit?: Types.ObjectId;
+  queueEntry?: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  clinic?: Types.ObjectId;     // Clinic the message was sent for
+  channel: NotificationChannel;
+  template: NotificationTemplate;
+  recipient: string;           // Phone number or email address used
+  subject?: string;
+  body: string;
+
+  provider: string;
+  status: NotificationStatus;
+  providerMessageId?: string;
+  error?: string;              // Provider error when delivery failed
+  sentAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose Schema for Notification collection
+ */
+const NotificationSchema = new Schema<INotification>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient reference is required']
+    },
+    visit: {
+      type: Schema.Types.ObjectId,
+      ref: 'Visit'
+    },
+    queueEntry: {
+      type: Schema.Types.ObjectId,
+      ref: 'Queue'
+    },
+    appointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment'
+    },
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic'
+    },
+    channel: {
+      type: String,
+      enum: {
+        values: NOTIFICATION_CHANNELS as unknown as string[],
+        message: 'Channel must be sms or email'
+      },
+      required: true
+    },
+    template: {
+      type: String,
+      enum: NOTIFICATION_TEMPLATES as unknown as string[],
+      required: true
+    },
+    recipient: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      trim: true
+    },
+    subject: {
+      type: String
+    },
+    body: {
+      type: String,
+      required: [true, 'Message body is required']
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: NOTIFICATION_STATUSES as unknown as string[],
+      default: 'pending'
+    },
+    providerMessageId: {
+      type: String
+    },
+    error: {
+      type: String
+    },
+    sentAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: a visit's messages, and the delivery log by status and clinic
+ */
+NotificationSchema.index({ visit: 1, createdAt: -1 });
+NotificationSchema.index({ status: 1, createdAt: -1 });
+NotificationSchema.index({ clinic: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
\ No newline at end of file
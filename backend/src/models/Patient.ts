@@ -7,7 +7,7 @@
  * Used for patient registration, check-ins, and medical record keeping.
  */
 
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 
 /**
  * Interface representing a Patient document in MongoDB
@@ -40,6 +40,15 @@ export interface IPatient extends Document {
     relationship: string;
     phone: string;
   };
+
+  // Contact details typed at check-in that differ from the record; never
+  // applied from the kiosk, staff review them first
+  pendingContactUpdate?: {
+    phone?: string;
+    email?: string;
+    submittedAt: Date;
+    visit?: Types.ObjectId;
+  };
   
   // Timestamps (automatically managed by Mongoose)
   createdAt: Date;
@@ -152,6 +161,20 @@ const PatientSchema = new Schema<IPatient>(
         required: [true, 'Emergency contact phone is required'],
         trim: true
       }
+    },
+
+    // Contact details awaiting staff review
+    pendingContactUpdate: {
+      type: new Schema(
+        {
+          phone: { type: String, trim: true },
+          email: { type: String, lowercase: true, trim: true },
+          submittedAt: { type: Date, required: true },
+          visit: { type: Schema.Types.ObjectId, ref: 'Visit' }
+        },
+        { _id: false }
+      ),
+      default: undefined
     }
   },
   { 
@@ -166,6 +189,17 @@ const PatientSchema = new Schema<IPatient>(
  */
 PatientSchema.index({ lastName: 1, firstName: 1 });
 
+/**
+ * Index for recognising returning patients at check-in
+ * Candidate records are those sharing the date of birth
+ */
+PatientSchema.index({ dateOfBirth: 1 });
+
+/**
+ * Index for the staff review list of contact changes
+ */
+PatientSchema.index({ 'pendingContactUpdate.submittedAt': 1 }, { sparse: true });
+
 /**
  * Text index for full-text search across patient information
  * Useful for search functionality in staff dashboard
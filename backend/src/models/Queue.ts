@@ -9,6 +9,96 @@
  */
 
 import mongoose, { Schema, Document, Types, Model } from 'mongoose';
+import { planPositionUpdates, PositionChange, OrderableQueueEntry } from '../utils/queueOrdering';
+import { VISIT_STAGES, VisitStage } from '../config/visitStages';
+import { ClinicScope, clinicFilter, withDefaultClinic } from './Clinic';
+
+/**
+ * Queue entry statuses
+ *
+ * `left-without-being-seen` is the outcome for patients who walked out or
+ * did not answer repeated calls, kept distinct from staff cancellations.
+ * `on-hold` patients have stepped away: they keep their place in the queue
+ * but cannot be called until they resume.
+ */
+export const QUEUE_STATUSES = [
+  'waiting',
+  'on-hold',
+  'in-progress',
+  'completed',
+  'cancelled',
+  'left-without-being-seen'
+] as const;
+
+export type QueueStatus = typeof QUEUE_STATUSES[number];
+
+/**
+ * Statuses that hold a place in the waiting list
+ */
+export const QUEUED_STATUSES: QueueStatus[] = ['waiting', 'on-hold'];
+
+/**
+ * Reasons a patient can be put on hold
+ */
+export const HOLD_REASONS = ['restroom', 'test-result', 'interpreter', 'other'] as const;
+
+export type HoldReason = typeof HOLD_REASONS[number];
+
+/**
+ * Reasons the end-of-day close-out resolves an entry left open
+ *
+ * `not-seen-by-close` entries were still waiting (or on hold) and are
+ * cancelled; `consultation-not-closed` entries were never marked finished
+ * and are completed without a consultation end time.
+ */
+export const CLOSE_OUT_REASONS = ['not-seen-by-close', 'consultation-not-closed'] as const;
+
+export type CloseOutReason = typeof CLOSE_OUT_REASONS[number];
+
+/**
+ * Query condition for the entries of one stage
+ *
+ * Entries created before visits had stages have no stage and belong to
+ * the doctor's queue.
+ */
+export const stageFilter = (stage: VisitStage) =>
+  stage === 'doctor' ? { stage: { $in: [null, 'doctor'] } } : { stage };
+
+/**
+ * Time a patient spent with one doctor, so consultation time can be
+ * attributed per doctor when a patient is transferred
+ */
+export interface IConsultationSegment {
+  doctor?: Types.ObjectId;
+  room?: string;
+  startedAt: Date;
+  endedAt?: Date;           // Open while the consultation is ongoing
+  durationMinutes?: number;
+}
+
+/**
+ * Handoff of an in-progress patient to another doctor, room or
+ * specialty waiting list
+ */
+export interface IHandoff {
+  fromDoctor?: Types.ObjectId;
+  toDoctor?: Types.ObjectId;
+  fromRoom?: string;
+  toRoom?: string;
+  toSpecialty?: string;
+  reason: string;
+  transferredBy?: Types.ObjectId;
+  transferredAt: Date;
+}
+
+/**
+ * Symptom update sent by a waiting patient, awaiting nurse re-triage
+ */
+export interface IRetriageRequest {
+  symptoms: string;
+  painLevel?: number;
+  requestedAt: Date;
+}
 
 /**
  * Interface representing a Queue entry document in MongoDB
@@ -19,10 +109,13 @@ export interface IQueue extends Document {
   patient: Types.ObjectId;
   appointment?: Types.ObjectId;
   doctor?: Types.ObjectId;
+  clinic: Types.ObjectId;     // Clinic whose queue the entry is in
   
   // Queue Position & Status
-  position: number;
-  status: 'waiting' | 'in-progress' | 'completed' | 'cancelled';
+  stage: VisitStage;          // Station this entry waits for; one entry per stage visited
+  position: number;           // Position within the clinic's waiting list for the stage
+  ticketNumber?: string;
+  status: QueueStatus;
   priority: 'high' | 'medium' | 'low';
   
   // Timing Information
@@ -33,26 +126,61 @@ export interface IQueue extends Document {
   
   // Performance Metrics
   estimatedWaitTime: number;
+  estimatedWaitRange?: {
+    low: number;
+    high: number;
+  };
+  estimatedWaitAtCheckIn?: number;  // Estimate the patient was given, to calibrate against actualWaitTime
   actualWaitTime?: number;
   consultationDuration?: number;
+  doctorsOnDutyAtCall?: number;
+  
+  // Hold Tracking
+  holdReason?: HoldReason;
+  holdStartedAt?: Date;
+  holdUntil?: Date;          // Automatic resume time
+  totalHoldMinutes: number;  // Excluded from actualWaitTime
+  
+  // Call Tracking
+  callAttempts: number;
+  missedCalls: number;
+  lastCallAttemptAt?: Date;
+  turnNearNotifiedAt?: Date;  // Patient told their turn is near (at most once per entry)
+  
+  // Patient-reported changes
+  retriageRequest?: IRetriageRequest;  // Cleared when a nurse re-triages
+  
+  // Transfers
+  requiredSpecialty?: string; // Only doctors with this specialty can call the patient
+  consultationSegments: IConsultationSegment[];
+  handoffs: IHandoff[];
   
   // Administrative Fields
-  assignedRoom?: string;
+  room?: Types.ObjectId;
+  assignedRoom?: string;      // Name of the room, kept for display and history
   notes?: string;
+  closeOutReason?: CloseOutReason;  // Set when resolved by the end-of-day close-out
   
   // System Timestamps
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Position change of a queue entry, with the clinic whose list it is in
+ */
+export interface QueuePositionChange extends PositionChange {
+  clinicId: string;
+}
+
 /**
  * Interface for Queue Model Static Methods
  */
 export interface IQueueModel extends Model<IQueue> {
-  getCurrentQueue(): Promise<IQueue[]>;
-  getQueueStats(): Promise<any[]>;
-  getNextPosition(): Promise<number>;
-  recalculatePositions(): Promise<void>;
+  getCurrentQueue(stage?: VisitStage, clinicIds?: ClinicScope): Promise<IQueue[]>;
+  getQueueStats(clinicIds?: ClinicScope): Promise<any[]>;
+  getNextPosition(stage: VisitStage, clinic: Types.ObjectId | string): Promise<number>;
+  recalculatePositions(): Promise<QueuePositionChange[]>;
 }
 
 /**
@@ -65,7 +193,6 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
       type: Schema.Types.ObjectId, 
       ref: 'Visit', 
       required: [true, 'Visit reference is required'],
-      unique: true,
       index: true
     },
     patient: { 
@@ -93,19 +220,38 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
       },
       index: true
     },
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
     
     // Queue Position & Status
+    stage: {
+      type: String,
+      enum: {
+        values: VISIT_STAGES as unknown as string[],
+        message: `Stage must be one of: ${VISIT_STAGES.join(', ')}`
+      },
+      default: 'doctor'
+    },
     position: { 
       type: Number, 
       required: [true, 'Queue position is required'],
       min: [1, 'Queue position must be at least 1'],
       index: true
     },
+    ticketNumber: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]+-\d{3,}$/, 'Ticket number must look like H-007']
+    },
     status: {
       type: String,
       enum: {
-        values: ['waiting', 'in-progress', 'completed', 'cancelled'],
-        message: 'Status must be: waiting, in-progress, completed, or cancelled'
+        values: QUEUE_STATUSES as unknown as string[],
+        message: 'Status must be: waiting, on-hold, in-progress, completed, cancelled, or left-without-being-seen'
       },
       default: 'waiting',
       index: true
@@ -142,6 +288,14 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
       required: [true, 'Estimated wait time is required'],
       min: [0, 'Estimated wait time cannot be negative']
     },
+    estimatedWaitRange: {
+      low: { type: Number, min: 0 },
+      high: { type: Number, min: 0 }
+    },
+    estimatedWaitAtCheckIn: {
+      type: Number,
+      min: [0, 'Estimated wait time cannot be negative']
+    },
     actualWaitTime: { 
       type: Number, 
       min: [0, 'Actual wait time cannot be negative']
@@ -150,8 +304,98 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
       type: Number, 
       min: [0, 'Consultation duration cannot be negative']
     },
+    doctorsOnDutyAtCall: {
+      type: Number,
+      min: [1, 'Doctors on duty must be at least 1']
+    },
+    
+    // Hold Tracking
+    holdReason: {
+      type: String,
+      enum: {
+        values: HOLD_REASONS as unknown as string[],
+        message: 'Hold reason must be: restroom, test-result, interpreter, or other'
+      }
+    },
+    holdStartedAt: {
+      type: Date
+    },
+    holdUntil: {
+      type: Date
+    },
+    totalHoldMinutes: {
+      type: Number,
+      default: 0,
+      min: [0, 'Total hold time cannot be negative']
+    },
+    
+    // Call Tracking
+    callAttempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Call attempts cannot be negative']
+    },
+    missedCalls: {
+      type: Number,
+      default: 0,
+      min: [0, 'Missed calls cannot be negative']
+    },
+    lastCallAttemptAt: {
+      type: Date
+    },
+    turnNearNotifiedAt: {
+      type: Date
+    },
+    
+    // Patient-reported changes
+    retriageRequest: {
+      type: new Schema({
+        symptoms: {
+          type: String,
+          required: [true, 'Symptoms are required'],
+          trim: true,
+          maxlength: [1000, 'Symptoms cannot exceed 1000 characters']
+        },
+        painLevel: { type: Number, min: 0, max: 10 },
+        requestedAt: { type: Date, required: true }
+      }, { _id: false })
+    },
+    
+    // Transfers
+    requiredSpecialty: {
+      type: String,
+      trim: true
+    },
+    consultationSegments: [{
+      _id: false,
+      doctor: { type: Schema.Types.ObjectId, ref: 'Staff' },
+      room: { type: String, trim: true },
+      startedAt: { type: Date, required: true },
+      endedAt: { type: Date },
+      durationMinutes: { type: Number, min: 0 }
+    }],
+    handoffs: [{
+      _id: false,
+      fromDoctor: { type: Schema.Types.ObjectId, ref: 'Staff' },
+      toDoctor: { type: Schema.Types.ObjectId, ref: 'Staff' },
+      fromRoom: { type: String, trim: true },
+      toRoom: { type: String, trim: true },
+      toSpecialty: { type: String, trim: true },
+      reason: {
+        type: String,
+        required: [true, 'Transfer reason is required'],
+        trim: true,
+        maxlength: [500, 'Transfer reason cannot exceed 500 characters']
+      },
+      transferredBy: { type: Schema.Types.ObjectId, ref: 'Staff' },
+      transferredAt: { type: Date, required: true }
+    }],
     
     // Administrative Fields
+    room: {
+      type: Schema.Types.ObjectId,
+      ref: 'Room'
+    },
     assignedRoom: { 
       type: String, 
       trim: true,
@@ -161,6 +405,13 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
       type: String, 
       trim: true,
       maxlength: [1000, 'Queue notes cannot exceed 1000 characters']
+    },
+    closeOutReason: {
+      type: String,
+      enum: {
+        values: CLOSE_OUT_REASONS as unknown as string[],
+        message: 'Close-out reason must be: not-seen-by-close or consultation-not-closed'
+      }
     }
   },
   { 
@@ -168,31 +419,44 @@ const QueueSchema = new Schema<IQueue, IQueueModel>(
   }
 );
 
-// ... rest of your schema definitions (indexes, virtuals, etc.) remain the same ...
+/**
+ * Index for reading a clinic's waiting list of a stage in position order
+ * Used by call-next candidate lookup and the current queue view
+ */
+QueueSchema.index({ clinic: 1, stage: 1, status: 1, position: 1 });
+
+withDefaultClinic(QueueSchema);
 
 /**
  * Static Methods for Queue Operations
  */
 
-// Get current active queue (waiting and in-progress patients)
-QueueSchema.statics.getCurrentQueue = async function(): Promise<IQueue[]> {
+// Get current active queue of a stage (waiting and in-progress patients),
+// optionally limited to some clinics
+QueueSchema.statics.getCurrentQueue = async function(
+  stage: VisitStage = 'doctor',
+  clinicIds?: ClinicScope
+): Promise<IQueue[]> {
   return this.find({
-    status: { $in: ['waiting', 'in-progress'] }
+    ...stageFilter(stage),
+    ...clinicFilter(clinicIds),
+    status: { $in: [...QUEUED_STATUSES, 'in-progress'] }
   })
   .populate('patient', 'firstName lastName dateOfBirth gender')
   .populate('visit', 'symptoms triageLevel triageScore vitals')
   .populate('doctor', 'firstName lastName specialty')
   .populate('appointment', 'scheduledTime reasonForVisit')
+  .populate('clinic', 'name code')
   .sort({ 
     status: -1,
-    priority: -1,
-    position: 1
+    position: 1 // Positions already reflect priority and aging
   });
 };
 
 // Get queue statistics for dashboard
-QueueSchema.statics.getQueueStats = async function(): Promise<any[]> {
+QueueSchema.statics.getQueueStats = async function(clinicIds?: ClinicScope): Promise<any[]> {
   return this.aggregate([
+    { $match: clinicFilter(clinicIds) },
     {
       $group: {
         _id: '$status',
@@ -231,10 +495,13 @@ QueueSchema.statics.getQueueStats = async function(): Promise<any[]> {
   ]);
 };
 
-// Get next position in queue
-QueueSchema.statics.getNextPosition = async function(): Promise<number> {
+// Get next position in a clinic's queue for a stage
+QueueSchema.statics.getNextPosition = async function(
+  stage: VisitStage,
+  clinic: Types.ObjectId | string
+): Promise<number> {
   const lastQueueEntry = await this.findOne(
-    { status: 'waiting' },
+    { ...stageFilter(stage), clinic, status: { $in: QUEUED_STATUSES } },
     { position: 1 },
     { sort: { position: -1 } }
   );
@@ -243,20 +510,43 @@ QueueSchema.statics.getNextPosition = async function(): Promise<number> {
 };
 
 // Recalculate positions after queue changes
-QueueSchema.statics.recalculatePositions = async function(): Promise<void> {
+// Orders waiting entries in memory and writes only the positions that changed,
+// in a single bulkWrite round trip instead of one update per patient.
+// Patients on hold are ordered with everyone else so they keep their place.
+// Each clinic has its own waiting list for each stage, numbered from 1.
+QueueSchema.statics.recalculatePositions = async function(): Promise<QueuePositionChange[]> {
   const waitingPatients = await this.find(
-    { status: 'waiting' }
-  ).sort({ 
-    priority: -1, 
-    checkInTime: 1 
-  });
+    { status: { $in: QUEUED_STATUSES } },
+    { priority: 1, checkInTime: 1, position: 1, stage: 1, clinic: 1 }
+  ).lean<Array<OrderableQueueEntry & { stage?: VisitStage; clinic?: Types.ObjectId }>>();
+
+  const byList = new Map<string, { clinicId: string; entries: OrderableQueueEntry[] }>();
+  for (const entry of waitingPatients) {
+    const list = `${entry.clinic}:${entry.stage || 'doctor'}`;
+    let group = byList.get(list);
+    if (!group) {
+      group = { clinicId: String(entry.clinic), entries: [] };
+      byList.set(list, group);
+    }
+    group.entries.push(entry);
+  }
+
+  const changes = Array.from(byList.values()).flatMap(({ clinicId, entries }) =>
+    planPositionUpdates(entries).map(change => ({ ...change, clinicId })));
 
-  for (let i = 0; i < waitingPatients.length; i++) {
-    await this.findByIdAndUpdate(
-      waitingPatients[i]._id,
-      { position: i + 1 }
+  if (changes.length > 0) {
+    await this.bulkWrite(
+      changes.map(change => ({
+        updateOne: {
+          filter: { _id: change.id, status: { $in: QUEUED_STATUSES } },
+          update: { $set: { position: change.to } }
+        }
+      })),
+      { ordered: false }
     );
   }
+
+  return changes;
 };
 
 // ... rest of your middleware and virtuals remain the same ...
@@ -0,0 +1,116 @@
+// backend/src/models/QueueAlert.ts
+/**
+ * Queue Alert Data Model
+ *
+ * In-app notifications raised when a waiting patient is close to, or past,
+ * the waiting target for their triage level. Each queue entry is alerted at
+ * most once per level; alerts stay on record after the patient is called
+ * and are marked resolved.
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { WAIT_ALERT_LEVELS, WaitAlertLevel } from '../utils/waitTargets';
+
+/**
+ * Interface representing a Queue Alert document in MongoDB
+ */
+export interface IQueueAlert extends Document {
+  queueEntry: Types.ObjectId;
+  visit: Types.ObjectId;
+  patient: Types.ObjectId;
+  clinic: Types.ObjectId;      // Clinic of the queue entry
+  ticketNumber?: string;
+  priority: 'high' | 'medium' | 'low';
+  level: WaitAlertLevel;
+  targetMinutes: number;
+  waitedMinutes: number;       // Wait when the alert was raised
+  triggeredAt: Date;
+
+  // Set when staff have seen the alert
+  acknowledgedAt?: Date;
+  acknowledgedBy?: Types.ObjectId;
+
+  // Set once the patient is no longer waiting
+  resolvedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose Schema for QueueAlert collection
+ */
+const QueueAlertSchema = new Schema<IQueueAlert>(
+  {
+    queueEntry: {
+      type: Schema.Types.ObjectId,
+      ref: 'Queue',
+      required: [true, 'Queue entry reference is required']
+    },
+    visit: {
+      type: Schema.Types.ObjectId,
+      ref: 'Visit',
+      required: [true, 'Visit reference is required']
+    },
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient reference is required']
+    },
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
+    ticketNumber: {
+      type: String
+    },
+    priority: {
+      type: String,
+      enum: ['high', 'medium', 'low'],
+      required: true
+    },
+    level: {
+      type: String,
+      enum: {
+        values: WAIT_ALERT_LEVELS as unknown as string[],
+        message: 'Alert level must be warning or breach'
+      },
+      required: true
+    },
+    targetMinutes: {
+      type: Number,
+      required: true
+    },
+    waitedMinutes: {
+      type: Number,
+      required: true
+    },
+    triggeredAt: {
+      type: Date,
+      default: Date.now
+    },
+    acknowledgedAt: {
+      type: Date
+    },
+    acknowledgedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    resolvedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: one alert per entry and level, and the open alert list
+ */
+QueueAlertSchema.index({ queueEntry: 1, level: 1 }, { unique: true });
+QueueAlertSchema.index({ resolvedAt: 1, triggeredAt: -1 });
+QueueAlertSchema.index({ clinic: 1, resolvedAt: 1, triggeredAt: -1 });
+
+export default mongoose.model<IQueueAlert>('QueueAlert', QueueAlertSchema);
\ No newline at end of file
@@ -0,0 +1,145 @@
+// backend/src/models/QueueEvent.ts
+/**
+ * Queue Event Data Model
+ *
+ * Append-only log of everything that happens to a queue entry, from
+ * check-in to completion. The queue entry itself only keeps its latest
+ * status; this collection records who changed it and when, so the full
+ * patient journey can be reconstructed.
+ */
+
+import mongoose, { Schema, Document, Types, Model } from 'mongoose';
+
+/**
+ * Queue event types
+ */
+export const QUEUE_EVENT_TYPES = [
+  'checked-in',
+  'called',
+  'room-assigned',
+  'returned-to-waiting',
+  'cancelled',
+  'completed',
+  're-triaged',
+  'missed-call',
+  'left-without-being-seen',
+  'put-on-hold',
+  'resumed',
+  'transferred',
+  'symptoms-reported'
+] as const;
+
+export type QueueEventType = typeof QUEUE_EVENT_TYPES[number];
+
+/**
+ * Interface representing a Queue Event document in MongoDB
+ */
+export interface IQueueEvent extends Document {
+  queueEntry: Types.ObjectId;
+  visit: Types.ObjectId;
+  patient: Types.ObjectId;
+  type: QueueEventType;
+
+  // Acting staff member (absent for patient self check-in and system actions)
+  actor?: Types.ObjectId;
+
+  fromStatus?: string;
+  toStatus?: string;
+  details?: Record<string, any>;
+
+  occurredAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Interface for Queue Event Model Static Methods
+ */
+export interface IQueueEventModel extends Model<IQueueEvent> {
+  findTimeline(queueEntryId: string | Types.ObjectId): Promise<IQueueEvent[]>;
+}
+
+/**
+ * Mongoose Schema for QueueEvent collection
+ */
+const QueueEventSchema = new Schema<IQueueEvent, IQueueEventModel>(
+  {
+    queueEntry: {
+      type: Schema.Types.ObjectId,
+      ref: 'Queue',
+      required: [true, 'Queue entry reference is required']
+    },
+    visit: {
+      type: Schema.Types.ObjectId,
+      ref: 'Visit',
+      required: [true, 'Visit reference is required']
+    },
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: [true, 'Patient reference is required']
+    },
+    type: {
+      type: String,
+      enum: {
+        values: QUEUE_EVENT_TYPES as unknown as string[],
+        message: 'Invalid queue event type'
+      },
+      required: [true, 'Event type is required']
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    fromStatus: {
+      type: String
+    },
+    toStatus: {
+      type: String
+    },
+    details: {
+      type: Schema.Types.Mixed
+    },
+    occurredAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+/**
+ * Index for reading an entry's timeline in order
+ */
+QueueEventSchema.index({ queueEntry: 1, occurredAt: 1 });
+QueueEventSchema.index({ type: 1, occurredAt: -1 });
+
+/**
+ * Events are append-only: existing events can never be modified
+ */
+const rejectModification = function(next: (error?: Error) => void) {
+  next(new Error('Queue events are append-only and cannot be modified'));
+};
+
+QueueEventSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectModification(next);
+  }
+  next();
+});
+
+QueueEventSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectModification);
+
+/**
+ * Static Methods for Queue Event Operations
+ */
+
+// Get all events for a queue entry in the order they happened
+QueueEventSchema.statics.findTimeline = function(queueEntryId: string | Types.ObjectId): Promise<IQueueEvent[]> {
+  return this.find({ queueEntry: queueEntryId })
+    .populate('actor', 'firstName lastName role')
+    .sort({ occurredAt: 1, _id: 1 });
+};
+
+export default mongoose.model<IQueueEvent, IQueueEventModel>('QueueEvent', QueueEventSchema);
\ No newline at end of file
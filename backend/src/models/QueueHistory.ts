@@ -0,0 +1,47 @@
+// backend/src/models/QueueHistory.ts
+/**
+ * Queue History Data Model
+ *
+ * Archive of queue entries moved out of the live queue by the end-of-day
+ * close-out. Archived entries keep their original ID and fields, so events,
+ * alerts and timelines that refer to them still resolve, and reporting can
+ * read past days without scanning the live queue.
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import Queue, { IQueue } from './Queue';
+
+/**
+ * Interface representing an archived Queue entry in MongoDB
+ */
+export interface IQueueHistory extends IQueue {
+  serviceDate: Date;  // Start of the day that was closed out
+  archivedAt: Date;
+}
+
+/**
+ * Schema for QueueHistory collection: the queue schema plus archive fields
+ */
+const QueueHistorySchema: Schema = Queue.schema.clone();
+
+QueueHistorySchema.add({
+  serviceDate: {
+    type: Date,
+    required: [true, 'Service date is required']
+  },
+  archivedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Indexes for reading a day's archive and recent consultations
+ */
+QueueHistorySchema.index({ serviceDate: 1, stage: 1 });
+QueueHistorySchema.index({ consultationStartTime: -1 });
+
+export default mongoose.model<IQueueHistory, Model<IQueueHistory>>(
+  'QueueHistory',
+  QueueHistorySchema
+);
\ No newline at end of file
@@ -0,0 +1,122 @@
+// backend/src/models/Room.ts
+/**
+ * Room Data Model
+ *
+ * Defines each clinic's rooms and resources (consultation rooms, treatment
+ * bays, procedure rooms) and tracks which queue entry currently occupies
+ * each one. Occupancy is driven by queue transitions: a room is taken when
+ * a patient is called into it and freed when they leave consultation.
+ */
+
+import mongoose, { Schema, Document, Types, Model } from 'mongoose';
+import { ClinicScope, clinicFilter, withDefaultClinic } from './Clinic';
+
+/**
+ * Room types
+ */
+export const ROOM_TYPES = ['consultation', 'treatment', 'procedure', 'triage'] as const;
+
+export type RoomType = typeof ROOM_TYPES[number];
+
+/**
+ * Interface representing a Room document in MongoDB
+ */
+export interface IRoom extends Document {
+  name: string;                 // Unique within the clinic
+  clinic: Types.ObjectId;
+  type: RoomType;
+  equipment: string[];
+  isActive: boolean;
+
+  // Occupancy (set together, all absent when the room is free)
+  occupiedBy?: Types.ObjectId;  // Queue entry in the room
+  occupiedDoctor?: Types.ObjectId;
+  occupiedSince?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for Room Model Static Methods
+ */
+export interface IRoomModel extends Model<IRoom> {
+  findAvailable(type?: RoomType, clinicIds?: ClinicScope): Promise<IRoom[]>;
+}
+
+/**
+ * Mongoose Schema for Room collection
+ */
+const RoomSchema = new Schema<IRoom, IRoomModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Room name is required'],
+      trim: true,
+      maxlength: [20, 'Room name cannot exceed 20 characters']
+    },
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ROOM_TYPES as unknown as string[],
+        message: `Room type must be one of: ${ROOM_TYPES.join(', ')}`
+      },
+      default: 'consultation'
+    },
+    equipment: [{
+      type: String,
+      trim: true,
+      maxlength: [50, 'Equipment name cannot exceed 50 characters']
+    }],
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    occupiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Queue'
+    },
+    occupiedDoctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    occupiedSince: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: room names are unique within a clinic, and for finding free
+ * rooms and the room a patient is in
+ */
+RoomSchema.index({ clinic: 1, name: 1 }, { unique: true });
+RoomSchema.index({ clinic: 1, isActive: 1, type: 1, occupiedSince: 1 });
+RoomSchema.index({ occupiedBy: 1 });
+
+withDefaultClinic(RoomSchema);
+
+/**
+ * Static Methods for Room Operations
+ */
+
+// Get active rooms nobody is using, optionally of one type and in some clinics
+RoomSchema.statics.findAvailable = function(type?: RoomType, clinicIds?: ClinicScope): Promise<IRoom[]> {
+  return this.find({
+    isActive: true,
+    occupiedSince: null,
+    ...(type && { type }),
+    ...clinicFilter(clinicIds)
+  }).sort({ name: 1 });
+};
+
+export default mongoose.model<IRoom, IRoomModel>('Room', RoomSchema);
\ No newline at end of file
@@ -0,0 +1,89 @@
+// backend/src/models/SimulationRun.ts
+/**
+ * Simulation Run Data Model
+ *
+ * Staffing simulations too large to run while the admin waits. The request
+ * is queued here and run by the simulation-runs background job, which
+ * stores the report (or the error) on the run. Runs are removed after
+ * SIMULATION_RUN_RETENTION_DAYS (default 30).
+ */
+
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+/**
+ * Run states
+ */
+export const SIMULATION_RUN_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+
+export type SimulationRunStatus = typeof SIMULATION_RUN_STATUSES[number];
+
+/**
+ * How long runs are kept
+ */
+const RETENTION_DAYS = parseInt(process.env.SIMULATION_RUN_RETENTION_DAYS || '30', 10);
+
+/**
+ * Interface representing a Simulation Run document in MongoDB
+ */
+export interface ISimulationRun extends Document {
+  status: SimulationRunStatus;
+  request: unknown;               // Simulation request as submitted
+  requestedBy?: Types.ObjectId;   // Admin who submitted it
+  estimatedArrivals: number;
+
+  startedAt?: Date;
+  finishedAt?: Date;
+  report?: unknown;               // Simulation report once completed
+  error?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose Schema for SimulationRun collection
+ */
+const SimulationRunSchema = new Schema<ISimulationRun>(
+  {
+    status: {
+      type: String,
+      enum: SIMULATION_RUN_STATUSES as unknown as string[],
+      default: 'queued'
+    },
+    request: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Simulation request is required']
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    estimatedArrivals: {
+      type: Number,
+      default: 0
+    },
+    startedAt: {
+      type: Date
+    },
+    finishedAt: {
+      type: Date
+    },
+    report: {
+      type: Schema.Types.Mixed
+    },
+    error: {
+      type: String
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * Indexes: queued runs oldest first, and expiry of old runs
+ */
+SimulationRunSchema.index({ status: 1, createdAt: 1 });
+SimulationRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export default mongoose.model<ISimulationRun>('SimulationRun', SimulationRunSchema);
\ No newline at end of file
@@ -7,7 +7,8 @@
  * role-based access control for the ClinicQueue system.
  */
 
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import Clinic from './Clinic';
 
 /**
  * Interface representing a Staff member document in MongoDB
@@ -23,6 +24,9 @@ export interface IStaff extends Document {
   role: 'doctor' | 'nurse' | 'receptionist' | 'admin';
   specialty?: string; // Only required for doctors
   
+  // Clinics the staff member works at; admins work across every clinic
+  clinics: Types.ObjectId[];
+  
   // Authentication
   password: string;
   
@@ -78,6 +82,10 @@ const StaffSchema = new Schema<IStaff>(
       },
       trim: true
     },
+    clinics: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic'
+    }],
     password: { 
       type: String, 
       required: [true, 'Password is required'],
@@ -99,6 +107,21 @@ const StaffSchema = new Schema<IStaff>(
  */
 StaffSchema.index({ role: 1, specialty: 1 });
 
+/**
+ * Index for finding the staff of a clinic
+ */
+StaffSchema.index({ clinics: 1, role: 1 });
+
+/**
+ * Staff other than admins are assigned to the default clinic until
+ * assigned elsewhere
+ */
+StaffSchema.pre('validate', async function() {
+  if (this.role !== 'admin' && (!this.clinics || this.clinics.length === 0)) {
+    this.clinics = [(await Clinic.getDefault())._id as Types.ObjectId];
+  }
+});
+
 /**
  * Virtual field for full name (not stored in database)
  * Provides convenient access to staff member's full name
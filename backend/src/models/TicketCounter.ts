@@ -0,0 +1,93 @@
+// backend/src/models/TicketCounter.ts
+/**
+ * Ticket Counter Data Model
+ *
+ * Daily sequence per clinic and ticket prefix used to issue anonymised queue tickets
+ * (e.g. `H-007`). Each check-in increments its counter atomically, so
+ * concurrent check-ins never receive the same number.
+ */
+
+import mongoose, { Schema, Document, Model, ClientSession, Types } from 'mongoose';
+
+/**
+ * Interface representing a Ticket Counter document in MongoDB
+ */
+export interface ITicketCounter extends Document {
+  clinic: Types.ObjectId;
+  date: string;     // Local clinic date, YYYY-MM-DD
+  prefix: string;
+  sequence: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Interface for Ticket Counter Model Static Methods
+ */
+export interface ITicketCounterModel extends Model<ITicketCounter> {
+  nextSequence(
+    clinic: Types.ObjectId | string,
+    date: string,
+    prefix: string,
+    session?: ClientSession
+  ): Promise<number>;
+}
+
+/**
+ * Mongoose Schema for TicketCounter collection
+ */
+const TicketCounterSchema = new Schema<ITicketCounter, ITicketCounterModel>(
+  {
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
+    date: {
+      type: String,
+      required: [true, 'Counter date is required'],
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Counter date must be YYYY-MM-DD']
+    },
+    prefix: {
+      type: String,
+      required: [true, 'Ticket prefix is required'],
+      uppercase: true,
+      trim: true
+    },
+    sequence: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+/**
+ * One counter per clinic, prefix and day
+ */
+TicketCounterSchema.index({ clinic: 1, date: 1, prefix: 1 }, { unique: true });
+
+/**
+ * Static Methods for Ticket Counter Operations
+ */
+
+// Atomically increment and return the clinic's next sequence number for the day
+TicketCounterSchema.statics.nextSequence = async function(
+  clinic: Types.ObjectId | string,
+  date: string,
+  prefix: string,
+  session?: ClientSession
+): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { clinic, date, prefix },
+    { $inc: { sequence: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true, session }
+  );
+
+  return counter.sequence;
+};
+
+export default mongoose.model<ITicketCounter, ITicketCounterModel>('TicketCounter', TicketCounterSchema);
\ No newline at end of file
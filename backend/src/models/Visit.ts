@@ -8,6 +8,42 @@
  */
 
 import mongoose, { Schema, Document } from 'mongoose';
+import { VISIT_STAGES, VisitStage, DEFAULT_VISIT_STAGES } from '../config/visitStages';
+import { withDefaultClinic } from './Clinic';
+
+/**
+ * Vital signs recorded at a triage assessment
+ */
+export interface IVitals {
+  temperature: number;               // Fahrenheit
+  heartRate: number;                 // BPM
+  bloodPressureSystolic: number;     // mmHg
+  bloodPressureDiastolic: number;    // mmHg
+  painLevel: number;                 // 0-10 scale
+}
+
+/**
+ * Superseded triage assessment kept when a patient is re-triaged
+ */
+export interface ITriageAssessment {
+  symptoms: string;
+  vitals: IVitals;
+  triageLevel: 'high' | 'medium' | 'low';
+  triageScore: number;
+  assessedAt: Date;                     // When this assessment was made
+  assessedBy?: mongoose.Types.ObjectId; // Staff member (absent for self check-in)
+  supersededAt: Date;
+}
+
+/**
+ * A stage the visit has entered, with the queue entry that waited for it
+ */
+export interface IStageVisit {
+  stage: VisitStage;
+  queueEntry: mongoose.Types.ObjectId;
+  enteredAt: Date;
+  completedAt?: Date;
+}
 
 /**
  * Interface representing a Visit document in MongoDB
@@ -16,21 +52,24 @@ export interface IVisit extends Document {
   // References to related entities
   appointment: mongoose.Types.ObjectId; // Optional: link to scheduled appointment
   patient: mongoose.Types.ObjectId;     // Required: the patient being seen
+  clinic: mongoose.Types.ObjectId;      // Clinic the patient checked in at
   
   // Clinical Information
   symptoms: string;                     // Patient-reported symptoms
-  vitals: {                            // Collected vital signs
-    temperature: number;               // Fahrenheit
-    heartRate: number;                 // BPM
-    bloodPressureSystolic: number;     // mmHg
-    bloodPressureDiastolic: number;    // mmHg
-    painLevel: number;                 // 0-10 scale
-  };
+  vitals: IVitals;                      // Collected vital signs
   
   // Triage Assessment
   triageLevel: 'high' | 'medium' | 'low'; // Priority level
   triageScore: number;                   // Calculated score (0-100+)
   estimatedWaitTime: number;             // Minutes until consultation
+  triagedAt?: Date;                      // Latest assessment (check-in time if never re-triaged)
+  triagedBy?: mongoose.Types.ObjectId;   // Staff member who made the latest assessment
+  triageHistory: ITriageAssessment[];    // Previous assessments, oldest first
+  
+  // Stage Routing
+  plannedStages: VisitStage[];           // Route through the clinic, in order
+  currentStage?: VisitStage;             // Absent once the last stage is completed
+  stageHistory: IStageVisit[];           // Stages entered so far, in order
   
   // Visit Timeline
   checkInTime: Date;                    // When patient checked in
@@ -56,6 +95,11 @@ const VisitSchema = new Schema<IVisit>(
       ref: 'Patient', 
       required: true 
     },
+    clinic: {
+      type: Schema.Types.ObjectId,
+      ref: 'Clinic',
+      required: [true, 'Clinic is required']
+    },
     symptoms: { 
       type: String, 
       required: [true, 'Symptoms description is required'],
@@ -112,6 +156,48 @@ const VisitSchema = new Schema<IVisit>(
       required: true,
       min: [0, 'Wait time cannot be negative']
     },
+    triagedAt: {
+      type: Date
+    },
+    triagedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff'
+    },
+    triageHistory: [{
+      _id: false,
+      symptoms: { type: String, required: true },
+      vitals: {
+        temperature: { type: Number, required: true },
+        heartRate: { type: Number, required: true },
+        bloodPressureSystolic: { type: Number, required: true },
+        bloodPressureDiastolic: { type: Number, required: true },
+        painLevel: { type: Number, required: true }
+      },
+      triageLevel: {
+        type: String,
+        enum: ['high', 'medium', 'low'],
+        required: true
+      },
+      triageScore: { type: Number, required: true },
+      assessedAt: { type: Date, required: true },
+      assessedBy: { type: Schema.Types.ObjectId, ref: 'Staff' },
+      supersededAt: { type: Date, required: true }
+    }],
+    plannedStages: {
+      type: [{ type: String, enum: VISIT_STAGES as unknown as string[] }],
+      default: () => [...DEFAULT_VISIT_STAGES]
+    },
+    currentStage: {
+      type: String,
+      enum: VISIT_STAGES as unknown as string[]
+    },
+    stageHistory: [{
+      _id: false,
+      stage: { type: String, enum: VISIT_STAGES as unknown as string[], required: true },
+      queueEntry: { type: Schema.Types.ObjectId, ref: 'Queue', required: true },
+      enteredAt: { type: Date, required: true },
+      completedAt: { type: Date }
+    }],
     checkInTime: { 
       type: Date, 
       default: Date.now 
@@ -142,4 +228,11 @@ VisitSchema.index({ triageLevel: 1, checkInTime: 1 });
  */
 VisitSchema.index({ patient: 1, checkInTime: -1 });
 
+/**
+ * Index for a clinic's visits by date, used by statistics and the close-out
+ */
+VisitSchema.index({ clinic: 1, checkInTime: -1 });
+
+withDefaultClinic(VisitSchema);
+
 export default mongoose.model<IVisit>('Visit', VisitSchema);
\ No newline at end of file
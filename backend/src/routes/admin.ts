@@ -0,0 +1,153 @@
+// backend/src/routes/admin.ts
+/**
+ * Admin Routes
+ *
+ * Handles clinic administration tools such as staffing simulations, the
+ * end-of-day queue close-out and background jobs.
+ */
+
+import express, { Router } from 'express';
+import {
+  runSimulation,
+  getSimulationRun,
+  closeOutDay,
+  getDailySummaries,
+  getJobs,
+  runJob,
+  getJobRuns
+} from '../controllers/admin.controller';
+import { authenticate, authorize, validateObjectId } from '../middleware';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+import { CONSULT_DISTRIBUTIONS } from '../utils/clinicSimulation';
+import { SIMULATION_CONFIG } from '../services/simulation.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validation Schemas for Admin Routes
+ */
+const TriageMinutesSchema = z.object({
+  high: z.number().positive().max(480).optional(),
+  medium: z.number().positive().max(480).optional(),
+  low: z.number().positive().max(480).optional()
+});
+
+const StaffingShiftSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  startHour: z.number().int().min(0).max(23),
+  endHour: z.number().int().min(1).max(24),
+  doctors: z.number().int().min(0).max(50)
+}).refine(shift => shift.startHour < shift.endHour, {
+  message: 'Shift must end after it starts'
+});
+
+const SimulationSchema = z.object({
+  source: z.enum(['historical', 'synthetic']),
+  from: z.string().datetime('Invalid date format').optional(),
+  to: z.string().datetime('Invalid date format').optional(),
+  synthetic: z.object({
+    start: z.string().datetime('Invalid date format'),
+    hours: z.number().positive().max(24),
+    days: z.number().int().min(1).max(31).optional(),
+    arrivalsPerHour: z.number().positive().max(200),
+    triageMix: z.object({
+      high: z.number().min(0),
+      medium: z.number().min(0),
+      low: z.number().min(0)
+    }).optional()
+  }).optional(),
+  staffing: z.object({
+    doctors: z.number().int().min(0).max(50),
+    shifts: z.array(StaffingShiftSchema).max(50).optional()
+  }),
+  consultTimes: z.object({
+    distribution: z.enum(CONSULT_DISTRIBUTIONS).optional(),
+    meanMinutes: TriageMinutesSchema.optional(),
+    spread: z.number().min(0).max(3).optional()
+  }).optional(),
+  seed: z.number().int().optional()
+}).refine(data => data.source !== 'historical' || (data.from && data.to), {
+  message: 'A historical simulation needs from and to dates',
+  path: ['from']
+}).refine(data => data.source !== 'synthetic' || data.synthetic, {
+  message: 'A synthetic simulation needs arrival settings',
+  path: ['synthetic']
+}).refine(data => !data.from || !data.to ||
+  new Date(data.to).getTime() - new Date(data.from).getTime() <= SIMULATION_CONFIG.maxHistoricalDays * DAY_MS, {
+  message: `A historical simulation can cover at most ${SIMULATION_CONFIG.maxHistoricalDays} days`,
+  path: ['to']
+}).refine(data => !data.synthetic ||
+  data.synthetic.arrivalsPerHour * data.synthetic.hours * (data.synthetic.days || 1) <= SIMULATION_CONFIG.maxArrivals, {
+  message: `A synthetic simulation can generate at most ${SIMULATION_CONFIG.maxArrivals} arrivals`,
+  path: ['synthetic']
+});
+
+const CloseOutSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const DailySummaryQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional(),
+  limit: z.string().regex(/^\d+$/).optional()
+});
+
+const JobRunsQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/).optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   POST /api/admin/simulation
+ * @desc    Simulate the doctor's queue under a staffing plan and predict waits per triage level
+ * @access  Private (Admin only)
+ */
+router.post('/simulation', authenticate, authorize('admin'), validate(SimulationSchema), runSimulation);
+
+/**
+ * @route   GET /api/admin/simulation/runs/:id
+ * @desc    Get a queued simulation run and, once completed, its report
+ * @access  Private (Admin only)
+ */
+router.get('/simulation/runs/:id', authenticate, authorize('admin'), validateObjectId, getSimulationRun);
+
+/**
+ * @route   POST /api/admin/close-out
+ * @desc    Close out a clinic's day (default today, default clinic): resolve open entries, summarise and archive the queue
+ * @access  Private (Admin only)
+ */
+router.post('/close-out', authenticate, authorize('admin'), validate(CloseOutSchema), closeOutDay);
+
+/**
+ * @route   GET /api/admin/daily-summaries
+ * @desc    Get daily queue summaries produced by the close-out, newest first
+ * @access  Private (Admin only)
+ */
+router.get('/daily-summaries', authenticate, authorize('admin'), validate(DailySummaryQuerySchema, 'query'), getDailySummaries);
+
+/**
+ * @route   GET /api/admin/jobs
+ * @desc    List background jobs with their schedule, lock and last run
+ * @access  Private (Admin only)
+ */
+router.get('/jobs', authenticate, authorize('admin'), getJobs);
+
+/**
+ * @route   POST /api/admin/jobs/:name/run
+ * @desc    Queue a run of a background job, outside its schedule
+ * @access  Private (Admin only)
+ */
+router.post('/jobs/:name/run', authenticate, authorize('admin'), runJob);
+
+/**
+ * @route   GET /api/admin/jobs/:name/runs
+ * @desc    Get a background job's run history, newest first
+ * @access  Private (Admin only)
+ */
+router.get('/jobs/:name/runs', authenticate, authorize('admin'), validate(JobRunsQuerySchema, 'query'), getJobRuns);
+
+export default router;
\ No newline at end of file
@@ -17,7 +17,8 @@ import {
   getDoctorAppointments,
   checkAvailability
 } from '../controllers/appointments.controller';
-import { authenticate, } from '../middleware';
+import Appointment from '../models/Appointment';
+import { authenticate, resolveClinicScope, restrictToClinic } from '../middleware';
 import { validate } from '../utils/validation';
 import { z } from 'zod';
 
@@ -33,16 +34,18 @@ const CreateAppointmentSchema = z.object({
   appointmentType: z.enum(['checkup', 'follow-up', 'consultation', 'procedure', 'emergency']),
   chiefComplaint: z.string().max(1000).optional(),
   notes: z.string().max(2000).optional(),
-  preAppointmentInstructions: z.string().max(1000).optional()
+  preAppointmentInstructions: z.string().max(1000).optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
 });
 
-const UpdateAppointmentSchema = CreateAppointmentSchema.partial();
+const UpdateAppointmentSchema = CreateAppointmentSchema.omit({ clinicId: true }).partial();
 
 const GetAppointmentsSchema = z.object({
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   status: z.string().optional(),
   doctorId: z.string().optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional(),
   page: z.string().optional().default('1'),
   limit: z.string().optional().default('20')
 });
@@ -60,48 +63,48 @@ const router: Router = express.Router();
  * @desc    Get paginated list of appointments with filtering
  * @access  Private (Staff only)
  */
-router.get('/', authenticate, validate(GetAppointmentsSchema, 'query'), getAppointments);
+router.get('/', authenticate, resolveClinicScope, validate(GetAppointmentsSchema, 'query'), getAppointments);
 
 /**
  * @route   GET /api/appointments/availability
  * @desc    Check doctor availability for scheduling
  * @access  Private (Staff only)
  */
-router.get('/availability', authenticate, validate(CheckAvailabilitySchema, 'query'), checkAvailability);
+router.get('/availability', authenticate, resolveClinicScope, validate(CheckAvailabilitySchema, 'query'), checkAvailability);
 
 /**
  * @route   GET /api/appointments/doctor/:doctorId
  * @desc    Get appointments for specific doctor
  * @access  Private (Staff only)
  */
-router.get('/doctor/:doctorId', authenticate, getDoctorAppointments);
+router.get('/doctor/:doctorId', authenticate, resolveClinicScope, getDoctorAppointments);
 
 /**
  * @route   GET /api/appointments/:id
  * @desc    Get appointment by ID
  * @access  Private (Staff only)
  */
-router.get('/:id', authenticate, getAppointmentById);
+router.get('/:id', authenticate, resolveClinicScope, restrictToClinic(Appointment, 'Appointment not found'), getAppointmentById);
 
 /**
  * @route   POST /api/appointments
  * @desc    Create new appointment
  * @access  Private (Staff only)
  */
-router.post('/', authenticate, validate(CreateAppointmentSchema), createAppointment);
+router.post('/', authenticate, resolveClinicScope, validate(CreateAppointmentSchema), createAppointment);
 
 /**
  * @route   PATCH /api/appointments/:id
  * @desc    Update appointment details
  * @access  Private (Staff only)
  */
-router.patch('/:id', authenticate, validate(UpdateAppointmentSchema), updateAppointment);
+router.patch('/:id', authenticate, resolveClinicScope, restrictToClinic(Appointment, 'Appointment not found'), validate(UpdateAppointmentSchema), updateAppointment);
 
 /**
  * @route   DELETE /api/appointments/:id
  * @desc    Cancel appointment
  * @access  Private (Staff only)
  */
-router.delete('/:id', authenticate, cancelAppointment);
+router.delete('/:id', authenticate, resolveClinicScope, restrictToClinic(Appointment, 'Appointment not found'), cancelAppointment);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,59 @@
+// backend/src/routes/clinics.ts
+/**
+ * Clinic Routes
+ *
+ * Handles the directory of clinic sites. Queues, rooms, statistics and
+ * daily summaries are kept per clinic.
+ */
+
+import express, { Router } from 'express';
+import {
+  getClinics,
+  createClinic,
+  updateClinic
+} from '../controllers/clinics.controller';
+import { authenticate, authorize, validateObjectId, resolveClinicScope } from '../middleware';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+
+/**
+ * Validation Schemas for Clinic Routes
+ */
+const CreateClinicSchema = z.object({
+  name: z.string().min(1, 'Clinic name is required').max(100),
+  code: z.string().regex(/^[A-Za-z0-9-]{2,12}$/, 'Clinic code must be 2-12 letters, digits or dashes'),
+  address: z.string().max(200).optional(),
+  phone: z.string().min(1).optional(),
+  isActive: z.boolean().optional()
+});
+
+const UpdateClinicSchema = CreateClinicSchema.partial();
+
+const ClinicQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   GET /api/clinics
+ * @desc    Get the clinics the caller works at (every clinic for admins)
+ * @access  Private (Staff only)
+ */
+router.get('/', authenticate, resolveClinicScope, validate(ClinicQuerySchema, 'query'), getClinics);
+
+/**
+ * @route   POST /api/clinics
+ * @desc    Create a clinic
+ * @access  Private (Admin only)
+ */
+router.post('/', authenticate, authorize('admin'), validate(CreateClinicSchema), createClinic);
+
+/**
+ * @route   PATCH /api/clinics/:id
+ * @desc    Update a clinic's details or close it
+ * @access  Private (Admin only)
+ */
+router.patch('/:id', authenticate, authorize('admin'), validateObjectId, validate(UpdateClinicSchema), updateClinic);
+
+export default router;
\ No newline at end of file
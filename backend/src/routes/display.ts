@@ -0,0 +1,30 @@
+// backend/src/routes/display.ts
+/**
+ * Waiting Room Display Routes
+ *
+ * Public, read-only feed for the waiting room screen showing who is
+ * being called and who is next by anonymised ticket number.
+ */
+
+import express, { Router } from 'express';
+import { getDisplayBoard } from '../controllers/display.controller';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+
+/**
+ * Validation Schemas for Display Routes
+ */
+const DisplayBoardQuerySchema = z.object({
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   GET /api/display/board
+ * @desc    Now calling, recent calls and up-next ticket numbers of a clinic (default clinic when omitted)
+ * @access  Public
+ */
+router.get('/board', validate(DisplayBoardQuerySchema, 'query'), getDisplayBoard);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,45 @@
+// backend/src/routes/notifications.ts
+/**
+ * Notification Routes
+ *
+ * Exposes the delivery log of SMS and email notifications sent to
+ * patients, for checking that a patient was told about their turn.
+ */
+
+import express, { Router } from 'express';
+import { getNotifications } from '../controllers/notifications.controller';
+import { authenticate, authorize, resolveClinicScope } from '../middleware';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+import { NOTIFICATION_STATUSES } from '../models/Notification';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+
+/**
+ * Validation Schemas for Notification Routes
+ */
+const NotificationQuerySchema = z.object({
+  visit: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid visit ID').optional(),
+  status: z.enum(NOTIFICATION_STATUSES).optional(),
+  channel: z.enum(NOTIFICATION_CHANNELS).optional(),
+  template: z.enum(NOTIFICATION_TEMPLATES).optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional(),
+  limit: z.string().regex(/^\d+$/).optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Get sent and failed patient notifications, newest first
+ * @access  Private (Admin, Receptionist)
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin', 'receptionist'),
+  resolveClinicScope,
+  validate(NotificationQuerySchema, 'query'),
+  getNotifications
+);
+
+export default router;
\ No newline at end of file
@@ -14,9 +14,11 @@ import {
   createPatient,
   updatePatient,
   searchPatients,
-  getPatientVisits
+  getPatientVisits,
+  getContactUpdates,
+  reviewContactUpdate
 } from '../controllers/patients.controller';
-import { authenticate, } from '../middleware';
+import { authenticate, resolveClinicScope, validateObjectId } from '../middleware';
 import { validate } from '../utils/validation';
 import { z } from 'zod';
 
@@ -53,6 +55,10 @@ const SearchPatientsSchema = z.object({
   limit: z.string().optional().default('10')
 });
 
+const ContactUpdateReviewSchema = z.object({
+  action: z.enum(['apply', 'dismiss'])
+});
+
 const router: Router = express.Router();
 
 /**
@@ -69,19 +75,33 @@ router.get('/', authenticate, getPatients);
  */
 router.get('/search', authenticate, validate(SearchPatientsSchema, 'query'), searchPatients);
 
+/**
+ * @route   GET /api/patients/contact-updates
+ * @desc    Get contact details typed at check-in that await review
+ * @access  Private (Staff only)
+ */
+router.get('/contact-updates', authenticate, getContactUpdates);
+
+/**
+ * @route   POST /api/patients/:id/contact-update
+ * @desc    Apply or dismiss contact details typed at check-in
+ * @access  Private (Staff only)
+ */
+router.post('/:id/contact-update', authenticate, validateObjectId, validate(ContactUpdateReviewSchema), reviewContactUpdate);
+
 /**
  * @route   GET /api/patients/:id
  * @desc    Get patient by ID with full details
  * @access  Private (Staff only)
  */
-router.get('/:id', authenticate, getPatientById);
+router.get('/:id', authenticate, resolveClinicScope, getPatientById);
 
 /**
  * @route   GET /api/patients/:id/visits
- * @desc    Get patient's visit history
+ * @desc    Get patient's visit history at the caller's clinics
  * @access  Private (Staff only)
  */
-router.get('/:id/visits', authenticate, getPatientVisits);
+router.get('/:id/visits', authenticate, resolveClinicScope, getPatientVisits);
 
 /**
  * @route   POST /api/patients
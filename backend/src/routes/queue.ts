@@ -10,66 +10,218 @@ import express, { Router } from 'express';
 import {
   getQueue,
   getQueueStats,
+  getQueueAnalytics,
   updateQueueStatus,
   callNextPatient,
   getCurrentQueue,
-  recalculatePositions
+  recalculatePositions,
+  streamQueue,
+  issueStreamToken,
+  getQueueTimeline,
+  recordMissedCall,
+  transferPatient,
+  callNextAtStage,
+  completeStage,
+  getQueueAlerts,
+  acknowledgeQueueAlert
 } from '../controllers/queue.controller';
-import { authenticate, authorize } from '../middleware';
+import Queue, { QUEUE_STATUSES, HOLD_REASONS } from '../models/Queue';
+import QueueAlert from '../models/QueueAlert';
+import {
+  authenticate,
+  authorize,
+  authenticateStream,
+  validateObjectId,
+  resolveClinicScope,
+  restrictToClinic
+} from '../middleware';
 import { validate } from '../utils/validation';
 import { z } from 'zod';
+import { VISIT_STAGES } from '../config/visitStages';
+import { WAIT_ALERT_LEVELS } from '../utils/waitTargets';
+import { ANALYTICS_BUCKETS } from '../utils/queueAnalytics';
 
 /**
  * Validation Schemas for Queue Routes
  */
 const UpdateQueueStatusSchema = z.object({
-  status: z.enum(['waiting', 'in-progress', 'completed', 'cancelled']),
-  doctorId: z.string().optional(),
-  assignedRoom: z.string().max(20).optional(),
+  status: z.enum(QUEUE_STATUSES),
+  doctorId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid doctor ID').optional(),
+  roomId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid room ID').optional(),
+  notes: z.string().max(1000).optional(),
+  holdReason: z.enum(HOLD_REASONS).optional(),
+  holdMinutes: z.number().int().min(1).max(480).optional(),
+  nextStage: z.enum(VISIT_STAGES).optional()
+}).refine(data => data.status !== 'on-hold' || data.holdReason, {
+  message: 'Hold reason is required to put a patient on hold',
+  path: ['holdReason']
+});
+
+const MissedCallSchema = z.object({
   notes: z.string().max(1000).optional()
 });
 
+const TransferPatientSchema = z.object({
+  toDoctorId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid doctor ID').optional(),
+  toRoomId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid room ID').optional(),
+  toSpecialty: z.string().min(1).max(100).optional(),
+  reason: z.string().min(3, 'Transfer reason is required').max(500)
+}).refine(data => data.toDoctorId || data.toRoomId || data.toSpecialty, {
+  message: 'A target doctor, room or specialty is required'
+});
+
 const CallNextPatientSchema = z.object({
-  doctorId: z.string().min(1, 'Doctor ID is required'),
-  assignedRoom: z.string().max(20).optional()
+  doctorId: z.string().min(1, 'Doctor ID is required').regex(/^[0-9a-fA-F]{24}$/, 'Invalid doctor ID'),
+  roomId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid room ID').optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const CallNextAtStageSchema = CallNextPatientSchema.partial();
+
+const QueueListQuerySchema = z.object({
+  stage: z.string().optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const QueueStatsQuerySchema = z.object({
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const QueueAlertQuerySchema = z.object({
+  status: z.enum(['open', 'active', 'all']).optional(),
+  level: z.enum(WAIT_ALERT_LEVELS).optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional(),
+  limit: z.string().regex(/^\d+$/).optional()
+});
+
+const QueueAnalyticsQuerySchema = z.object({
+  from: z.string().datetime('Invalid date format').optional(),
+  to: z.string().datetime('Invalid date format').optional(),
+  bucket: z.enum(ANALYTICS_BUCKETS).optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const CompleteStageSchema = z.object({
+  nextStage: z.enum(VISIT_STAGES).optional(),
+  notes: z.string().max(1000).optional()
 });
 
 const router: Router = express.Router();
 
+const restrictEntry = restrictToClinic(Queue, 'Queue entry not found');
+
 /**
- * @route   GET /api/queue
- * @desc    Get current queue with patient details
+ * @route   GET /api/queue?stage=doctor&clinicId=
+ * @desc    Get current queue of a stage with patient details, for the caller's clinics
  * @access  Private (Staff only)
  */
-router.get('/', authenticate, getQueue);
+router.get('/', authenticate, resolveClinicScope, validate(QueueListQuerySchema, 'query'), getQueue);
 
 /**
- * @route   GET /api/queue/current
+ * @route   GET /api/queue/current?stage=doctor&clinicId=
  * @desc    Get optimized current queue (for display)
  * @access  Private (Staff only)
  */
-router.get('/current', authenticate, getCurrentQueue);
+router.get('/current', authenticate, resolveClinicScope, validate(QueueListQuerySchema, 'query'), getCurrentQueue);
+
+/**
+ * @route   POST /api/queue/stream-token
+ * @desc    Issue a short-lived token for opening the queue stream from a browser EventSource
+ * @access  Private (Staff only)
+ */
+router.post('/stream-token', authenticate, issueStreamToken);
+
+/**
+ * @route   GET /api/queue/stream
+ * @desc    Live queue change events of the caller's clinics (Server-Sent Events, resumable via Last-Event-ID)
+ * @access  Private (Staff only; Bearer token or ?token= stream token)
+ */
+router.get('/stream', authenticateStream, resolveClinicScope, streamQueue);
+
+/**
+ * @route   GET /api/queue/stats?clinicId=
+ * @desc    Get queue statistics for dashboard, for the caller's clinics
+ * @access  Private (Staff only)
+ */
+router.get('/stats', authenticate, resolveClinicScope, validate(QueueStatsQuerySchema, 'query'), getQueueStats);
+
+/**
+ * @route   GET /api/queue/analytics?from&to&bucket=hour|day&clinicId=
+ * @desc    Get arrivals, calls, completions and waits per hour or day
+ * @access  Private (Staff only)
+ */
+router.get('/analytics', authenticate, resolveClinicScope, validate(QueueAnalyticsQuerySchema, 'query'), getQueueAnalytics);
+
+/**
+ * @route   GET /api/queue/alerts
+ * @desc    Get waiting target alerts (open by default)
+ * @access  Private (Staff only)
+ */
+router.get('/alerts', authenticate, resolveClinicScope, validate(QueueAlertQuerySchema, 'query'), getQueueAlerts);
+
+/**
+ * @route   POST /api/queue/alerts/:id/acknowledge
+ * @desc    Acknowledge a waiting target alert
+ * @access  Private (Staff only)
+ */
+router.post(
+  '/alerts/:id/acknowledge',
+  authenticate,
+  validateObjectId,
+  resolveClinicScope,
+  restrictToClinic(QueueAlert, 'Alert not found'),
+  acknowledgeQueueAlert
+);
 
 /**
- * @route   GET /api/queue/stats
- * @desc    Get queue statistics for dashboard
+ * @route   GET /api/queue/:id/timeline
+ * @desc    Get the full event timeline of a queue entry
  * @access  Private (Staff only)
  */
-router.get('/stats', authenticate, getQueueStats);
+router.get('/:id/timeline', authenticate, validateObjectId, resolveClinicScope, restrictEntry, getQueueTimeline);
 
 /**
  * @route   PATCH /api/queue/:id
  * @desc    Update queue entry status
  * @access  Private (Staff only)
  */
-router.patch('/:id', authenticate, validate(UpdateQueueStatusSchema), updateQueueStatus);
+router.patch('/:id', authenticate, validateObjectId, resolveClinicScope, restrictEntry, validate(UpdateQueueStatusSchema), updateQueueStatus);
+
+/**
+ * @route   POST /api/queue/:id/complete
+ * @desc    Complete the patient's current stage and route them to the next one
+ * @access  Private (Staff only)
+ */
+router.post('/:id/complete', authenticate, validateObjectId, resolveClinicScope, restrictEntry, validate(CompleteStageSchema), completeStage);
+
+/**
+ * @route   POST /api/queue/:id/missed-call
+ * @desc    Record that a called patient did not answer (returns them to waiting,
+ *          or marks them left without being seen after QUEUE_MAX_MISSED_CALLS misses)
+ * @access  Private (Medical staff only)
+ */
+router.post('/:id/missed-call', authenticate, authorize('doctor', 'nurse'), validateObjectId, resolveClinicScope, restrictEntry, validate(MissedCallSchema), recordMissedCall);
+
+/**
+ * @route   POST /api/queue/:id/transfer
+ * @desc    Hand an in-progress patient to another doctor or room, or back to a specialty waiting list
+ * @access  Private (Medical staff only)
+ */
+router.post('/:id/transfer', authenticate, authorize('doctor', 'nurse'), validateObjectId, resolveClinicScope, restrictEntry, validate(TransferPatientSchema), transferPatient);
 
 /**
  * @route   POST /api/queue/call-next
  * @desc    Call next patient for consultation
  * @access  Private (Doctor only)
  */
-router.post('/call-next', authenticate, authorize('doctor', 'nurse'), validate(CallNextPatientSchema), callNextPatient);
+router.post('/call-next', authenticate, authorize('doctor', 'nurse'), resolveClinicScope, validate(CallNextPatientSchema), callNextPatient);
+
+/**
+ * @route   POST /api/queue/stages/:stage/call-next
+ * @desc    Call the next patient waiting at a stage (triage, doctor, lab, pharmacy, checkout)
+ * @access  Private (Staff serving the stage)
+ */
+router.post('/stages/:stage/call-next', authenticate, resolveClinicScope, validate(CallNextAtStageSchema), callNextAtStage);
 
 /**
  * @route   POST /api/queue/recalculate
@@ -0,0 +1,71 @@
+// backend/src/routes/rooms.ts
+/**
+ * Room Management Routes
+ *
+ * Handles the clinic's room directory and the list of free rooms used
+ * when calling patients into consultation.
+ */
+
+import express, { Router } from 'express';
+import {
+  getRooms,
+  getAvailableRooms,
+  createRoom,
+  updateRoom
+} from '../controllers/rooms.controller';
+import { authenticate, authorize, validateObjectId, resolveClinicScope } from '../middleware';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+import { ROOM_TYPES } from '../models/Room';
+
+/**
+ * Validation Schemas for Room Routes
+ */
+const CreateRoomSchema = z.object({
+  name: z.string().min(1, 'Room name is required').max(20),
+  type: z.enum(ROOM_TYPES).optional(),
+  equipment: z.array(z.string().min(1).max(50)).max(50).optional(),
+  isActive: z.boolean().optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+// Rooms do not move between clinics
+const UpdateRoomSchema = CreateRoomSchema.omit({ clinicId: true }).partial();
+
+const RoomQuerySchema = z.object({
+  type: z.enum(ROOM_TYPES).optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   GET /api/rooms
+ * @desc    Get all rooms with their current occupant
+ * @access  Private (Staff only)
+ */
+router.get('/', authenticate, resolveClinicScope, validate(RoomQuerySchema, 'query'), getRooms);
+
+/**
+ * @route   GET /api/rooms/available
+ * @desc    Get active rooms that are currently free
+ * @access  Private (Staff only)
+ */
+router.get('/available', authenticate, resolveClinicScope, validate(RoomQuerySchema, 'query'), getAvailableRooms);
+
+/**
+ * @route   POST /api/rooms
+ * @desc    Create a room at a clinic (default clinic when clinicId is omitted)
+ * @access  Private (Admin only)
+ */
+router.post('/', authenticate, authorize('admin'), resolveClinicScope, validate(CreateRoomSchema), createRoom);
+
+/**
+ * @route   PATCH /api/rooms/:id
+ * @desc    Update a room's details or take it out of service
+ * @access  Private (Admin only)
+ */
+router.patch('/:id', authenticate, authorize('admin'), validateObjectId, validate(UpdateRoomSchema), updateRoom);
+
+export default router;
\ No newline at end of file
@@ -15,7 +15,7 @@ import {
   getDoctors,
   deactivateStaff
 } from '../controllers/staff.controller';
-import { authenticate, authorize } from '../middleware';
+import { authenticate, authorize, resolveClinicScope } from '../middleware';
 import { validate } from '../utils/validation';
 import { z } from 'zod';
 
@@ -27,7 +27,12 @@ const UpdateStaffSchema = z.object({
   lastName: z.string().min(1).max(50).optional(),
   phone: z.string().min(1).optional(),
   specialty: z.string().max(100).optional(),
-  isActive: z.boolean().optional()
+  isActive: z.boolean().optional(),
+  clinics: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID')).min(1).optional()
+});
+
+const DoctorsQuerySchema = z.object({
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
 });
 
 const router: Router = express.Router();
@@ -40,11 +45,11 @@ const router: Router = express.Router();
 router.get('/', authenticate, authorize('admin'), getStaff);
 
 /**
- * @route   GET /api/staff/doctors
- * @desc    Get all doctors for appointment scheduling
+ * @route   GET /api/staff/doctors?clinicId=
+ * @desc    Get the doctors of the caller's clinics for appointment scheduling
  * @access  Private (Staff only)
  */
-router.get('/doctors', authenticate, getDoctors);
+router.get('/doctors', authenticate, resolveClinicScope, validate(DoctorsQuerySchema, 'query'), getDoctors);
 
 /**
  * @route   GET /api/staff/me
@@ -69,7 +74,7 @@ router.patch('/me', authenticate, validate(UpdateStaffSchema), updateStaffProfil
 
 /**
  * @route   PATCH /api/staff/:id
- * @desc    Update staff member (Admin only)
+ * @desc    Update staff member, including the clinics they work at (Admin only)
  * @access  Private (Admin only)
  */
 router.patch('/:id', authenticate, authorize('admin'), validate(UpdateStaffSchema), updateStaffProfile);
@@ -0,0 +1,77 @@
+// backend/src/routes/track.ts
+/**
+ * Patient Tracking Routes
+ *
+ * Lets checked-in patients follow their place in the queue with the
+ * tracking token issued at check-in, and tell the clinic when they leave,
+ * step away or feel worse.
+ */
+
+import express, { Router } from 'express';
+import {
+  getTrackingStatus,
+  cancelVisit,
+  holdPlace,
+  resumePlace,
+  reportSymptoms
+} from '../controllers/tracking.controller';
+import { authenticateTracking } from '../middleware';
+import { validate } from '../utils/validation';
+import { z } from 'zod';
+import { HOLD_REASONS } from '../models/Queue';
+
+/**
+ * Validation Schemas for Tracking Routes
+ */
+const CancelVisitSchema = z.object({
+  reason: z.string().max(500).optional()
+});
+
+const HoldPlaceSchema = z.object({
+  minutes: z.number().int().min(1).max(60, 'A place can be held for at most 60 minutes'),
+  reason: z.enum(HOLD_REASONS).optional()
+});
+
+const SymptomReportSchema = z.object({
+  symptoms: z.string().min(3, 'Please describe your symptoms').max(1000),
+  painLevel: z.number().int().min(0).max(10).optional()
+});
+
+const router: Router = express.Router();
+
+/**
+ * @route   GET /api/track
+ * @desc    Get the patient's own position, estimated wait, status and room
+ * @access  Patient (tracking token as Bearer token or ?token=)
+ */
+router.get('/', authenticateTracking, getTrackingStatus);
+
+/**
+ * @route   POST /api/track/cancel
+ * @desc    Cancel the visit ("I'm leaving")
+ * @access  Patient (tracking token)
+ */
+router.post('/cancel', authenticateTracking, validate(CancelVisitSchema), cancelVisit);
+
+/**
+ * @route   POST /api/track/hold
+ * @desc    Hold the patient's place while they step away; resumes automatically (limited holds per stage)
+ * @access  Patient (tracking token)
+ */
+router.post('/hold', authenticateTracking, validate(HoldPlaceSchema), holdPlace);
+
+/**
+ * @route   POST /api/track/resume
+ * @desc    Return to the waiting list before the hold runs out
+ * @access  Patient (tracking token)
+ */
+router.post('/resume', authenticateTracking, resumePlace);
+
+/**
+ * @route   POST /api/track/symptoms
+ * @desc    Report worse symptoms; flags the entry for nurse re-triage
+ * @access  Patient (tracking token)
+ */
+router.post('/symptoms', authenticateTracking, validate(SymptomReportSchema), reportSymptoms);
+
+export default router;
@@ -13,9 +13,17 @@ import {
   getVisitById,
   getPatientVisits,
   updateVisit,
-  getVisitStatistics
+  getVisitStatistics,
+  retriageVisit
 } from '../controllers/visits.controller';
-import { authenticate, } from '../middleware';
+import Visit from '../models/Visit';
+import {
+  authenticate,
+  requireMedicalStaff,
+  validateObjectId,
+  resolveClinicScope,
+  restrictToClinic
+} from '../middleware';
 import { validate } from '../utils/validation';
 
 // Import validation schemas (to be created in shared schemas)
@@ -38,7 +46,9 @@ const CheckInSchema = z.object({
   bloodPressureDiastolic: z.number().min(40).max(150),
   painLevel: z.number().min(0).max(10),
   allergies: z.string().optional(),
-  medications: z.string().optional()
+  medications: z.string().optional(),
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional(),
+  newPatient: z.boolean().optional()
 });
 
 const UpdateVisitSchema = z.object({
@@ -46,50 +56,74 @@ const UpdateVisitSchema = z.object({
   completedAt: z.string().datetime('Invalid date format').optional()
 });
 
+const RetriageSchema = z.object({
+  temperature: z.number().min(90).max(110),
+  heartRate: z.number().min(30).max(200),
+  bloodPressureSystolic: z.number().min(70).max(250),
+  bloodPressureDiastolic: z.number().min(40).max(150),
+  painLevel: z.number().min(0).max(10),
+  symptoms: z.string().min(5, 'Symptoms description must be at least 5 characters').optional(),
+  notes: z.string().max(1000, 'Notes too long').optional()
+});
+
+const VisitStatsQuerySchema = z.object({
+  clinicId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid clinic ID').optional()
+});
+
 // Initialize Express router
 const router: Router = express.Router();
 
+const restrictVisit = restrictToClinic(Visit, 'Visit not found');
+
 /**
  * Public Routes - No authentication required
  */
 
 /**
  * @route   POST /api/visits/check-in
- * @desc    Process patient check-in with triage scoring
+ * @desc    Process patient check-in with triage scoring, at the given clinic or the default clinic;
+ *          possible returning patients are asked for their earlier details (409)
  * @access  Public
  */
 router.post('/check-in', validate(CheckInSchema), checkIn);
 
 /**
- * @route   GET /api/visits/:id
- * @desc    Get visit details by ID
- * @access  Public (consider what data should be publicly accessible)
+ * Protected Routes - Require authentication
  */
-router.get('/:id', getVisitById);
 
 /**
- * Protected Routes - Require authentication
+ * @route   GET /api/visits/:id
+ * @desc    Get visit details by ID (patients track their visit via GET /api/track)
+ * @access  Private (staff only)
  */
+router.get('/:id', authenticate, validateObjectId, resolveClinicScope, restrictVisit, getVisitById);
 
 /**
  * @route   GET /api/visits/patient/:patientId
- * @desc    Get visit history for a patient
+ * @desc    Get visit history for a patient at the caller's clinics
  * @access  Private (staff only)
  */
-router.get('/patient/:patientId', authenticate, getPatientVisits);
+router.get('/patient/:patientId', authenticate, resolveClinicScope, getPatientVisits);
 
 /**
  * @route   PATCH /api/visits/:id
  * @desc    Update visit information (notes, completion status)
  * @access  Private (staff only)
  */
-router.patch('/:id', authenticate, validate(UpdateVisitSchema), updateVisit);
+router.patch('/:id', authenticate, resolveClinicScope, restrictVisit, validate(UpdateVisitSchema), updateVisit);
+
+/**
+ * @route   POST /api/visits/:id/retriage
+ * @desc    Re-triage a waiting patient with new vitals and reposition them in the queue
+ * @access  Private (medical staff only)
+ */
+router.post('/:id/retriage', authenticate, requireMedicalStaff, validateObjectId, resolveClinicScope, restrictVisit, validate(RetriageSchema), retriageVisit);
 
 /**
  * @route   GET /api/visits/stats/overview
  * @desc    Get visit statistics for dashboard
  * @access  Private (staff only)
  */
-router.get('/stats/overview', authenticate, getVisitStatistics);
+router.get('/stats/overview', authenticate, resolveClinicScope, validate(VisitStatsQuerySchema, 'query'), getVisitStatistics);
 
 export default router;
\ No newline at end of file
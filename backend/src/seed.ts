@@ -14,6 +14,7 @@ import Patient from './models/Patient';
 import Appointment from './models/Appointment';
 import Visit from './models/Visit';
 import Queue from './models/Queue';
+import Room from './models/Room';
 import { hashPassword } from './utils/password';
 import { calculateTriageScore, calculateEstimatedWaitTime } from './utils/triage';
 import { createFirstAdmin, hasExistingAdmin } from './utils/adminSetup';
@@ -58,8 +59,12 @@ async function seedDatabase(): Promise<void> {
     const appointments = await seedAppointments(staffMembers, patients);
     console.log(`✅ Seeded ${appointments.length} appointments`);
 
+    // Seed clinic rooms
+    const rooms = await seedRooms();
+    console.log(`✅ Seeded ${rooms.length} rooms`);
+
     // Seed demo visits with queue entries
-    const visits = await seedVisitsAndQueue(staffMembers, patients);
+    const visits = await seedVisitsAndQueue(staffMembers, patients, rooms);
     console.log(`✅ Seeded ${visits.length} visits with queue entries`);
 
     console.log('🎉 Database seeding completed successfully!');
@@ -84,7 +89,7 @@ async function clearExistingData(): Promise<void> {
   console.log('🧹 Clearing existing data...');
   
   // Define collections to clear (in correct order for foreign key constraints)
-  const collections = ['Queue', 'Appointment', 'Visit', 'Patient', 'Staff'];
+  const collections = ['JobRun', 'Job', 'Notification', 'DailyQueueSummary', 'QueueHistory', 'QueueAlert', 'Queue', 'Room', 'Appointment', 'Visit', 'Patient', 'Staff', 'Clinic'];
   
   for (const modelName of collections) {
     try {
@@ -388,10 +393,25 @@ async function seedAppointments(staffMembers: any[], patients: any[]): Promise<a
   return appointments;
 }
 
+/**
+ * Seeds the clinic's rooms
+ */
+async function seedRooms(): Promise<any[]> {
+  const roomData = [
+    { name: 'ER-1', type: 'treatment' as const, equipment: ['ECG', 'Defibrillator', 'Oxygen'] },
+    { name: 'Exam-1', type: 'consultation' as const, equipment: ['Otoscope'] },
+    { name: 'Exam-2', type: 'consultation' as const, equipment: ['Otoscope'] },
+    { name: 'Exam-3', type: 'consultation' as const, equipment: ['ECG'] },
+    { name: 'Proc-1', type: 'procedure' as const, equipment: ['Suture kit', 'Splints'] }
+  ];
+
+  return Room.insertMany(roomData);
+}
+
 /**
  * Seeds demo visits with queue entries to simulate real clinic activity
  */
-async function seedVisitsAndQueue(staffMembers: any[], patients: any[]): Promise<any[]> {
+async function seedVisitsAndQueue(staffMembers: any[], patients: any[], rooms: any[]): Promise<any[]> {
   const visits = [];
   const now = new Date();
   
@@ -493,6 +513,10 @@ async function seedVisitsAndQueue(staffMembers: any[], patients: any[]): Promise
     const savedVisit = await visit.save();
     visits.push(savedVisit);
 
+    const room = scenario.status === 'in-progress'
+      ? rooms.find(candidate => candidate.name === scenario.room)
+      : undefined;
+
     // Create corresponding queue entry
     const queueEntry = new Queue({
       visit: savedVisit._id,
@@ -505,6 +529,7 @@ async function seedVisitsAndQueue(staffMembers: any[], patients: any[]): Promise
       // For in-progress visits, assign doctor and room
       ...(scenario.status === 'in-progress' && {
         doctor: doctors[0]._id,
+        room: room?._id,
         assignedRoom: scenario.room,
         calledTime: new Date(now.getTime() - 10 * 60 * 1000), // Called 10 minutes ago
         consultationStartTime: new Date(now.getTime() - 5 * 60 * 1000) // Started 5 minutes ago
@@ -512,6 +537,15 @@ async function seedVisitsAndQueue(staffMembers: any[], patients: any[]): Promise
     });
 
     await queueEntry.save();
+
+    // The room stays occupied while the patient is in consultation
+    if (room) {
+      await Room.updateOne(
+        { _id: room._id },
+        { occupiedBy: queueEntry._id, occupiedDoctor: doctors[0]._id, occupiedSince: queueEntry.calledTime }
+      );
+    }
+
     position++;
   }
 
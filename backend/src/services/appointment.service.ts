@@ -11,6 +11,8 @@ import Appointment, { IAppointment } from '../models/Appointment';
 import Patient from '../models/Patient';
 import Staff from '../models/Staff';
 import Visit from '../models/Visit';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
+import { ClinicService } from './clinic.service';
 
 /**
  * Appointment creation data interface
@@ -26,6 +28,7 @@ export interface CreateAppointmentData {
   notes?: string;
   preAppointmentInstructions?: string;
   createdBy: string;
+  clinicId?: string;  // Needed when the requester works at several clinics
 }
 
 /**
@@ -56,10 +59,11 @@ export class AppointmentService {
    * Creates a new appointment with conflict detection
    * 
    * @param data - Appointment creation data
+   * @param clinicIds - Clinics the requester may book at (undefined for every clinic)
    * @returns Appointment response with created appointment
-   * @throws {Error} If validation fails or conflicts detected
+   * @throws {Error} If validation fails, the doctor does not work at the clinic or conflicts detected
    */
-  static async createAppointment(data: CreateAppointmentData): Promise<AppointmentResponse> {
+  static async createAppointment(data: CreateAppointmentData, clinicIds?: ClinicScope): Promise<AppointmentResponse> {
     const {
       patientId,
       doctorId,
@@ -70,7 +74,8 @@ export class AppointmentService {
       chiefComplaint,
       notes,
       preAppointmentInstructions,
-      createdBy
+      createdBy,
+      clinicId
     } = data;
 
     // Verify patient exists
@@ -89,6 +94,11 @@ export class AppointmentService {
       throw new Error('Doctor not found or inactive');
     }
 
+    const clinic = await ClinicService.resolveClinic(clinicIds, clinicId);
+    if (!ClinicService.worksAt(doctor, clinic._id)) {
+      throw new Error('Invalid request: doctor does not work at this clinic');
+    }
+
     const scheduledDateTime = new Date(scheduledTime);
 
     // Check for scheduling conflicts
@@ -109,6 +119,7 @@ export class AppointmentService {
     const appointment = new Appointment({
       patient: patientId,
       doctor: doctorId,
+      clinic: clinic._id,
       scheduledTime: scheduledDateTime,
       duration,
       reasonForVisit,
@@ -170,9 +181,13 @@ export class AppointmentService {
       }
     }
 
+    // A new time needs new reminders
+    const rescheduled = updates.scheduledTime &&
+      new Date(updates.scheduledTime).getTime() !== appointment.scheduledTime.getTime();
+
     const updatedAppointment = await Appointment.findByIdAndUpdate(
       appointmentId,
-      updates,
+      { ...updates, ...(rescheduled && { reminders: [], reminderSent: false }) },
       { new: true, runValidators: true }
     ).populate('patient doctor');
 
@@ -275,6 +290,7 @@ static async checkDoctorAvailability(
       status?: string;
       doctorId?: string;
       patientId?: string;
+      clinicIds?: ClinicScope;
     } = {},
     page: number = 1,
     limit: number = 20
@@ -287,7 +303,7 @@ static async checkDoctorAvailability(
     const skip = (page - 1) * limit;
     
     // Build filter object
-    const filter: any = {};
+    const filter: any = { ...clinicFilter(filters.clinicIds) };
     
     if (filters.startDate && filters.endDate) {
       filter.scheduledTime = {
@@ -362,6 +378,7 @@ static async checkDoctorAvailability(
     const visit = new Visit({
       appointment: appointmentId,
       patient: appointment.patient._id,
+      clinic: appointment.clinic,
       symptoms,
       vitals,
       checkInTime: new Date()
@@ -0,0 +1,129 @@
+// backend/src/services/appointmentReminder.service.ts
+/**
+ * Appointment Reminder Service
+ *
+ * Reminds patients of upcoming appointments at configurable lead times
+ * before the appointment (APPOINTMENT_REMINDER_LEAD_HOURS, default "24,2").
+ * Each reminder is claimed on the appointment before it is sent, so a
+ * reminder is never sent twice, whether by overlapping runs, several
+ * API instances or a restart. A reminder that could not be delivered on
+ * any channel is released and retried on the next run.
+ */
+
+import Appointment, { IAppointmentReminder } from '../models/Appointment';
+import Staff from '../models/Staff';
+import { NotificationService, NOTIFICATION_CONFIG } from './notification.service';
+import { dueReminderLead, parseLeadTimes } from '../utils/appointmentReminders';
+
+/**
+ * Cron schedule of the check of upcoming appointments for due reminders
+ */
+export const REMINDER_CHECK_SCHEDULE = process.env.REMINDER_CHECK_SCHEDULE || '*/5 * * * *';
+
+/**
+ * Reminder configuration
+ */
+export const REMINDER_CONFIG = {
+  leadMinutes: parseLeadTimes(process.env.APPOINTMENT_REMINDER_LEAD_HOURS)
+};
+
+/**
+ * Appointments that can still be reminded of
+ */
+const REMINDABLE_STATUSES = ['scheduled', 'confirmed'];
+
+/**
+ * Outcome of a reminder run
+ */
+export interface ReminderRunResult {
+  checked: number;  // Upcoming appointments looked at
+  sent: number;     // Reminders delivered on at least one channel
+  failed: number;   // Reminders released for a retry
+}
+
+/**
+ * Appointment Reminder Service Class
+ *
+ * Encapsulates finding, claiming and sending due reminders
+ */
+export class AppointmentReminderService {
+  /**
+   * Sends the reminders that are due
+   *
+   * @param now - Time of the run
+   * @returns Counts of the run
+   */
+  static async sendDueReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+    const result: ReminderRunResult = { checked: 0, sent: 0, failed: 0 };
+    const { leadMinutes } = REMINDER_CONFIG;
+
+    if (!NOTIFICATION_CONFIG.enabled || leadMinutes.length === 0) {
+      return result;
+    }
+
+    const horizon = new Date(now.getTime() + Math.max(...leadMinutes) * 60000);
+
+    const upcoming = await Appointment.find(
+      {
+        status: { $in: REMINDABLE_STATUSES },
+        scheduledTime: { $gt: now, $lte: horizon }
+      },
+      { patient: 1, doctor: 1, scheduledTime: 1, reminders: 1 }
+    ).lean();
+
+    result.checked = upcoming.length;
+
+    for (const appointment of upcoming) {
+      const sentLeads = (appointment.reminders || []).map(reminder => reminder.leadMinutes);
+      const lead = dueReminderLead(appointment.scheduledTime, now, leadMinutes, sentLeads);
+
+      if (lead === null) continue;
+
+      // Claim the reminder; loses to a concurrent run or a reschedule
+      const reminder: IAppointmentReminder = { leadMinutes: lead, sentAt: now, channels: [] };
+      const claimed = await Appointment.findOneAndUpdate(
+        {
+          _id: appointment._id,
+          status: { $in: REMINDABLE_STATUSES },
+          scheduledTime: appointment.scheduledTime,
+          'reminders.leadMinutes': { $ne: lead }
+        },
+        { $push: { reminders: reminder }, $set: { reminderSent: true } },
+        { new: true }
+      );
+
+      if (!claimed) continue;
+
+      const doctor = await Staff.findById(appointment.doctor, { lastName: 1 }).lean();
+      const notifications = await NotificationService.notifyAppointmentReminder(
+        claimed,
+        doctor ? `Dr. ${doctor.lastName}` : undefined
+      );
+
+      const channels = notifications
+        .filter(notification => notification.status === 'sent')
+        .map(notification => notification.channel);
+
+      if (notifications.length > 0 && channels.length === 0) {
+        // Nothing was delivered: release the claim so the next run retries
+        await Appointment.updateOne(
+          { _id: appointment._id },
+          {
+            $pull: { reminders: { leadMinutes: lead } },
+            $set: { reminderSent: sentLeads.length > 0 }
+          }
+        );
+        result.failed++;
+        continue;
+      }
+
+      await Appointment.updateOne(
+        { _id: appointment._id, 'reminders.leadMinutes': lead },
+        { $set: { 'reminders.$.channels': channels } }
+      );
+      result.sent++;
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
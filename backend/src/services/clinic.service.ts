@@ -0,0 +1,248 @@
+// backend/src/services/clinic.service.ts
+/**
+ * Clinic Management Service
+ *
+ * Handles the clinic directory and which clinics each request may see.
+ * Staff see the clinics they are assigned to and admins see every clinic;
+ * patient records are shared and never scoped.
+ */
+
+import mongoose, { Model } from 'mongoose';
+import Clinic, { IClinic, ClinicScope } from '../models/Clinic';
+import Staff from '../models/Staff';
+import Visit from '../models/Visit';
+import Queue from '../models/Queue';
+import QueueHistory from '../models/QueueHistory';
+import QueueAlert from '../models/QueueAlert';
+import Appointment from '../models/Appointment';
+import Room from '../models/Room';
+import TicketCounter from '../models/TicketCounter';
+import DailyQueueSummary from '../models/DailyQueueSummary';
+import Notification from '../models/Notification';
+
+/**
+ * Clinic creation data interface
+ */
+export interface ClinicData {
+  name: string;
+  code: string;
+  address?: string;
+  phone?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Collections whose records belong to a clinic, filled with the default
+ * clinic for records created before clinics existed
+ */
+const CLINIC_OWNED_MODELS: Model<any>[] = [
+  Visit,
+  Queue,
+  QueueHistory,
+  QueueAlert,
+  Appointment,
+  Room,
+  TicketCounter,
+  DailyQueueSummary,
+  Notification
+];
+
+/**
+ * Clinic Service Class
+ *
+ * Encapsulates the clinic directory and request scoping
+ */
+export class ClinicService {
+  /**
+   * Lists clinics, default clinic first
+   *
+   * @param clinicIds - Clinics the requester may see (undefined for every clinic)
+   * @param includeInactive - Whether to include closed clinics
+   * @returns Clinics sorted by name
+   */
+  static async getClinics(clinicIds?: ClinicScope, includeInactive: boolean = false): Promise<IClinic[]> {
+    await Clinic.getDefault();
+
+    return Clinic.find({
+      ...(clinicIds && { _id: { $in: clinicIds } }),
+      ...(!includeInactive && { isActive: true })
+    }).sort({ isDefault: -1, name: 1 });
+  }
+
+  /**
+   * Creates a clinic
+   *
+   * @param data - Clinic details
+   * @returns Created clinic
+   * @throws {Error} If a clinic with the same code exists
+   */
+  static async createClinic(data: ClinicData): Promise<IClinic> {
+    await Clinic.getDefault();
+
+    const existing = await Clinic.exists({ code: data.code.trim().toUpperCase() });
+    if (existing) {
+      throw new Error('Clinic code already exists');
+    }
+
+    return Clinic.create(data);
+  }
+
+  /**
+   * Updates a clinic's details
+   *
+   * @param clinicId - Clinic ID
+   * @param data - Fields to change
+   * @returns Updated clinic
+   * @throws {Error} If not found, the code is taken, or the default clinic is closed
+   */
+  static async updateClinic(clinicId: string, data: Partial<ClinicData>): Promise<IClinic> {
+    const clinic = await Clinic.findById(clinicId);
+
+    if (!clinic) {
+      throw new Error('Clinic not found');
+    }
+
+    if (data.code && data.code.trim().toUpperCase() !== clinic.code) {
+      const existing = await Clinic.exists({ code: data.code.trim().toUpperCase() });
+      if (existing) {
+        throw new Error('Clinic code already exists');
+      }
+    }
+
+    if (data.isActive === false && clinic.isDefault) {
+      throw new Error('Cannot deactivate the default clinic');
+    }
+
+    clinic.set(data);
+    await clinic.save();
+
+    return clinic;
+  }
+
+  /**
+   * Gets the clinics a staff member may see
+   *
+   * @param staffId - Staff member
+   * @param role - Staff member's role
+   * @returns Assigned clinic IDs, or undefined for admins who see every clinic
+   */
+  static async getScope(staffId: string | undefined, role: string | undefined): Promise<ClinicScope> {
+    if (role === 'admin') {
+      return undefined;
+    }
+
+    const staff = staffId ? await Staff.findById(staffId, { clinics: 1 }) : null;
+    if (!staff) {
+      return [];
+    }
+
+    // Not yet assigned: the default clinic
+    if (staff.clinics.length === 0) {
+      return [String((await Clinic.getDefault())._id)];
+    }
+
+    return staff.clinics.map(clinicId => String(clinicId));
+  }
+
+  /**
+   * Picks the clinic a request acts at
+   *
+   * A requested clinic must be in scope and open. Without one, staff
+   * assigned to a single clinic act there and otherwise the default clinic
+   * is used when it is in scope.
+   *
+   * @param clinicIds - Clinics the requester may see (undefined for every clinic)
+   * @param requestedId - Clinic named in the request, if any
+   * @returns Clinic to act at
+   * @throws {Error} If the clinic is out of scope, closed, or cannot be chosen
+   */
+  static async resolveClinic(clinicIds: ClinicScope, requestedId?: string): Promise<IClinic> {
+    if (requestedId) {
+      if (clinicIds && !clinicIds.includes(requestedId)) {
+        throw new Error('Not permitted: no access to this clinic');
+      }
+
+      const clinic = mongoose.isValidObjectId(requestedId)
+        ? await Clinic.findOne({ _id: requestedId, isActive: true })
+        : null;
+      if (!clinic) {
+        throw new Error('Clinic not found or inactive');
+      }
+
+      return clinic;
+    }
+
+    if (clinicIds && clinicIds.length === 1) {
+      return this.resolveClinic(clinicIds, clinicIds[0]);
+    }
+
+    const defaultClinic = await Clinic.getDefault();
+    if (!clinicIds || clinicIds.includes(String(defaultClinic._id))) {
+      return defaultClinic;
+    }
+
+    throw new Error('Invalid request: clinicId is required for staff of several clinics');
+  }
+
+  /**
+   * Narrows a request's scope to one clinic when a clinic is requested
+   *
+   * Used by lists and statistics, which cover every clinic in scope unless
+   * asked for one.
+   *
+   * @param clinicIds - Clinics the requester may see (undefined for every clinic)
+   * @param requestedId - Clinic named in the request, if any
+   * @returns Clinics to read
+   * @throws {Error} If the requested clinic is out of scope
+   */
+  static narrowScope(clinicIds: ClinicScope, requestedId?: string): ClinicScope {
+    if (!requestedId) {
+      return clinicIds;
+    }
+
+    if (clinicIds && !clinicIds.includes(requestedId)) {
+      throw new Error('Not permitted: no access to this clinic');
+    }
+
+    return [requestedId];
+  }
+
+  /**
+   * Checks whether a staff member works at a clinic
+   *
+   * @param staff - Staff member with their clinics
+   * @param clinicId - Clinic
+   */
+  static worksAt(staff: { role: string; clinics?: unknown[] }, clinicId: unknown): boolean {
+    return staff.role === 'admin' ||
+      (staff.clinics || []).some(assigned => String(assigned) === String(clinicId));
+  }
+
+  /**
+   * Assigns records created before clinics existed to the default clinic
+   *
+   * Staff other than admins without a clinic are assigned to it as well.
+   * Safe to run on every startup: only records without a clinic change.
+   *
+   * @returns Number of records updated
+   */
+  static async assignDefaultClinic(): Promise<number> {
+    const defaultClinic = await Clinic.getDefault();
+    let updated = 0;
+
+    for (const model of CLINIC_OWNED_MODELS) {
+      const result = await model.updateMany(
+        { clinic: null },
+        { $set: { clinic: defaultClinic._id } }
+      );
+      updated += result.modifiedCount;
+    }
+
+    const staff = await Staff.updateMany(
+      { role: { $ne: 'admin' }, $or: [{ clinics: null }, { clinics: { $size: 0 } }] },
+      { $set: { clinics: [defaultClinic._id] } }
+    );
+
+    return updated + staff.modifiedCount;
+  }
+}
\ No newline at end of file
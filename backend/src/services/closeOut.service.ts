@@ -0,0 +1,389 @@
+// backend/src/services/closeOut.service.ts
+/**
+ * Queue Close-Out Service
+ *
+ * Ends a clinic day: resolves queue entries left waiting or in consultation,
+ * completes their visits and appointments, moves the day's entries from the
+ * live queue into the queue history and records a daily summary, so the next
+ * day starts from an empty queue with positions numbered from 1. Each clinic
+ * closes out its own day.
+ */
+
+import { Types } from 'mongoose';
+import Queue, { IQueue, QUEUED_STATUSES, CloseOutReason } from '../models/Queue';
+import QueueHistory, { IQueueHistory } from '../models/QueueHistory';
+import QueueAlert from '../models/QueueAlert';
+import Visit from '../models/Visit';
+import Appointment from '../models/Appointment';
+import DailyQueueSummary, { IDailyQueueSummary, CloseOutTrigger } from '../models/DailyQueueSummary';
+import Clinic, { ClinicScope, clinicFilter } from '../models/Clinic';
+import { ClinicService } from './clinic.service';
+import { QueueService } from './queue.service';
+import { QueueEventService } from './queueEvent.service';
+import { QueueStreamService } from './queueStream.service';
+import { RoomService } from './room.service';
+import { summariseQueueDay } from '../utils/dailySummary';
+
+/**
+ * Cron schedule of the job that checks whether a close-out is due
+ */
+export const CLOSE_OUT_CHECK_SCHEDULE = process.env.CLOSE_OUT_CHECK_SCHEDULE || '*/15 * * * *';
+
+/**
+ * Close-out configuration
+ */
+const CLOSE_OUT_CONFIG = {
+  // Local hour from which the scheduled job closes out the current day
+  hour: parseInt(process.env.CLOSE_OUT_HOUR || '23', 10),
+  unseenAppointmentReason: 'Not seen before the end-of-day close-out'
+};
+
+/**
+ * Statuses of entries still open at the end of the day
+ */
+const OPEN_STATUSES = [...QUEUED_STATUSES, 'in-progress'];
+
+/**
+ * Duplicate key error code: the day already has a summary
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Close-out options interface
+ */
+export interface CloseOutOptions {
+  trigger?: CloseOutTrigger;
+  actorId?: string;   // Staff member running a manual close-out
+  clinicId?: string;  // Defaults to the default clinic
+}
+
+/**
+ * Daily summary list criteria interface
+ */
+export interface SummaryCriteria {
+  from?: Date;
+  to?: Date;
+  clinicIds?: ClinicScope;
+  limit?: number;
+}
+
+/**
+ * Start of the local day a time falls in
+ */
+const startOfDay = (time: Date): Date => {
+  const start = new Date(time);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Local date as YYYY-MM-DD
+ */
+const formatDay = (day: Date): string =>
+  [day.getFullYear(), day.getMonth() + 1, day.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('-');
+
+/**
+ * Queue Close-Out Service Class
+ *
+ * Encapsulates the end-of-day close-out and daily summaries
+ */
+export class CloseOutService {
+  /**
+   * Closes out a clinic day
+   *
+   * Entries of the clinic checked in before the end of the day (or now, for
+   * the current day) are resolved and archived, including any left open on
+   * earlier days that were never closed out. The summary covers the day's
+   * own entries.
+   *
+   * The summary is written last and marks the day as closed out. A close-out
+   * interrupted before it can be run again: it picks up the entries still in
+   * the live queue and summarises them with those already archived.
+   *
+   * @param day - Any time on the day to close out
+   * @param options - Trigger, acting staff member and clinic
+   * @returns Daily summary
+   * @throws {Error} If the clinic is not found, the day has not started or is already closed out
+   */
+  static async closeOutDay(day: Date, options: CloseOutOptions = {}): Promise<IDailyQueueSummary> {
+    const now = new Date();
+    const dayStart = startOfDay(day);
+
+    if (dayStart > now) {
+      throw new Error('Invalid close-out date: the day has not started yet');
+    }
+
+    const clinic = await ClinicService.resolveClinic(undefined, options.clinicId);
+    const clinicId = clinic._id as Types.ObjectId;
+
+    if (await DailyQueueSummary.exists({ clinic: clinicId, date: dayStart })) {
+      throw new Error(`Queue already closed out for ${formatDay(dayStart)}`);
+    }
+
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+    const cutoff = dayEnd < now ? dayEnd : now;
+
+    const resolved = await this.resolveOpenEntries(clinicId, cutoff, options.actorId);
+    await this.completeVisits(clinicId, cutoff, now);
+
+    const entries = await Queue.find({
+      clinic: clinicId,
+      checkInTime: { $lt: cutoff },
+      status: { $nin: OPEN_STATUSES }
+    }).lean<IQueue[]>();
+    await this.settleAppointments(entries, now);
+
+    await this.archiveEntries(entries, dayStart, now);
+
+    // Everything archived for the day, including by an interrupted earlier run
+    const archived = await QueueHistory.find({ clinic: clinicId, serviceDate: dayStart })
+      .lean<IQueueHistory[]>();
+    const dayEntries = archived.filter(entry => entry.checkInTime >= dayStart);
+    const visits = await Visit.find(
+      { clinic: clinicId, checkInTime: { $gte: dayStart, $lt: cutoff } },
+      { triageLevel: 1 }
+    ).lean();
+
+    let summary: IDailyQueueSummary;
+    try {
+      summary = await DailyQueueSummary.create({
+        clinic: clinicId,
+        date: dayStart,
+        ...summariseQueueDay(dayEntries, visits),
+        carriedOver: archived.filter(entry => entry.checkInTime < dayStart && entry.closeOutReason).length,
+        archivedEntries: archived.length,
+        trigger: options.trigger || 'manual',
+        ...(options.actorId && { closedBy: options.actorId }),
+        closedAt: now
+      });
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new Error(`Queue already closed out for ${formatDay(dayStart)}`);
+      }
+      throw error;
+    }
+
+    await QueueService.refreshQueue();
+
+    QueueStreamService.publish('queue.closed-out', {
+      clinicId: String(clinicId),
+      date: formatDay(dayStart),
+      resolved: resolved.length,
+      archived: archived.length
+    });
+
+    return summary;
+  }
+
+  /**
+   * Closes out the latest day whose close-out time has passed at every
+   * open clinic that has not done so yet
+   *
+   * Before the configured hour this is the previous day, so entries left
+   * open overnight are cleared before the next day's patients arrive.
+   *
+   * @param now - Time of the check
+   * @returns Summaries of the clinics closed out, empty when nothing was due
+   */
+  static async closeOutIfDue(now: Date = new Date()): Promise<IDailyQueueSummary[]> {
+    const due = startOfDay(now);
+    if (now.getHours() < CLOSE_OUT_CONFIG.hour) {
+      due.setDate(due.getDate() - 1);
+    }
+
+    await Clinic.getDefault();
+    const clinics = await Clinic.find({ isActive: true }, { _id: 1 });
+    const summaries: IDailyQueueSummary[] = [];
+
+    for (const clinic of clinics) {
+      if (await DailyQueueSummary.exists({ clinic: clinic._id, date: due })) continue;
+
+      summaries.push(await this.closeOutDay(due, { trigger: 'scheduled', clinicId: String(clinic._id) }));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Lists daily summaries, newest first
+   *
+   * @param criteria - Period, clinics and limit
+   * @returns Daily summaries
+   */
+  static async getSummaries(criteria: SummaryCriteria = {}): Promise<IDailyQueueSummary[]> {
+    const filter: any = { ...clinicFilter(criteria.clinicIds) };
+
+    if (criteria.from || criteria.to) {
+      filter.date = {
+        ...(criteria.from && { $gte: startOfDay(criteria.from) }),
+        ...(criteria.to && { $lte: criteria.to })
+      };
+    }
+
+    return DailyQueueSummary.find(filter)
+      .populate('clinic', 'name code')
+      .populate('closedBy', 'firstName lastName')
+      .sort({ date: -1 })
+      .limit(criteria.limit || 31);
+  }
+
+  /**
+   * Resolves entries still waiting, on hold or in consultation
+   *
+   * Waiting patients are cancelled; consultations never marked finished are
+   * completed without an end time, so they do not skew consultation times.
+   *
+   * @param clinicId - Clinic closing out
+   * @param cutoff - Entries checked in before this time are resolved
+   * @param actorId - Staff member running the close-out
+   * @returns Resolved entries
+   */
+  private static async resolveOpenEntries(
+    clinicId: Types.ObjectId,
+    cutoff: Date,
+    actorId?: string
+  ): Promise<IQueue[]> {
+    const openEntries = await Queue.find({
+      clinic: clinicId,
+      checkInTime: { $lt: cutoff },
+      status: { $in: OPEN_STATUSES }
+    });
+
+    const resolved: IQueue[] = [];
+
+    for (const entry of openEntries) {
+      const inConsultation = entry.status === 'in-progress';
+      const toStatus = inConsultation ? 'completed' : 'cancelled';
+      const reason: CloseOutReason = inConsultation ? 'consultation-not-closed' : 'not-seen-by-close';
+
+      // Guarded on the status read above, in case staff closed it meanwhile
+      const updated = await Queue.findOneAndUpdate(
+        { _id: entry._id, status: entry.status },
+        {
+          $set: { status: toStatus, closeOutReason: reason },
+          $unset: { holdUntil: 1, holdStartedAt: 1 }
+        },
+        { new: true }
+      );
+
+      if (!updated) continue;
+
+      if (inConsultation) {
+        await RoomService.releaseForEntry(updated._id as Types.ObjectId);
+      }
+
+      await QueueEventService.record(updated, toStatus, {
+        actorId,
+        fromStatus: entry.status,
+        toStatus,
+        details: { source: 'close-out', reason }
+      });
+
+      resolved.push(updated);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Completes the clinic's visits checked in before the cutoff that have no
+   * open entry
+   *
+   * @param clinicId - Clinic closing out
+   * @param cutoff - Visits checked in before this time are completed
+   * @param now - Completion time
+   */
+  private static async completeVisits(clinicId: Types.ObjectId, cutoff: Date, now: Date): Promise<void> {
+    const activeVisits = await Queue.distinct('visit', { clinic: clinicId, status: { $in: OPEN_STATUSES } });
+
+    await Visit.updateMany(
+      {
+        clinic: clinicId,
+        _id: { $nin: activeVisits },
+        checkInTime: { $lt: cutoff },
+        completedAt: null
+      },
+      {
+        $set: { completedAt: now, 'stageHistory.$[open].completedAt': now },
+        $unset: { currentStage: 1 }
+      },
+      { arrayFilters: [{ 'open.completedAt': null }] }
+    );
+  }
+
+  /**
+   * Completes checked-in appointments whose patient was seen, and cancels
+   * those whose patient was not
+   *
+   * @param entries - Entries being closed out
+   * @param now - Cancellation time
+   */
+  private static async settleAppointments(entries: IQueue[], now: Date): Promise<void> {
+    const seenByAppointment = new Map<string, boolean>();
+
+    for (const entry of entries) {
+      if (!entry.appointment) continue;
+
+      const appointmentId = String(entry.appointment);
+      seenByAppointment.set(appointmentId, seenByAppointment.get(appointmentId) || !!entry.calledTime);
+    }
+
+    const appointmentIds = (seen: boolean) =>
+      [...seenByAppointment.entries()].filter(([, wasSeen]) => wasSeen === seen).map(([id]) => id);
+
+    const checkedIn = { $in: ['checked-in', 'in-progress'] };
+
+    await Appointment.updateMany(
+      { _id: { $in: appointmentIds(true) }, status: checkedIn },
+      { $set: { status: 'completed' } }
+    );
+
+    await Appointment.updateMany(
+      { _id: { $in: appointmentIds(false) }, status: checkedIn },
+      {
+        $set: {
+          status: 'cancelled',
+          cancelledAt: now,
+          cancellationReason: CLOSE_OUT_CONFIG.unseenAppointmentReason
+        }
+      }
+    );
+  }
+
+  /**
+   * Moves closed entries into the queue history and resolves their alerts
+   *
+   * Copies are upserted by ID first, so a close-out interrupted between
+   * copying and deleting can be repeated without duplicates.
+   *
+   * @param entries - Closed entries
+   * @param serviceDate - Day being closed out
+   * @param now - Archive time
+   */
+  private static async archiveEntries(entries: IQueue[], serviceDate: Date, now: Date): Promise<void> {
+    if (entries.length === 0) return;
+
+    await QueueHistory.bulkWrite(
+      entries.map(entry => ({
+        replaceOne: {
+          filter: { _id: entry._id },
+          replacement: { ...entry, serviceDate, archivedAt: now },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+
+    const ids = entries.map(entry => entry._id);
+
+    await Queue.deleteMany({ _id: { $in: ids }, status: { $nin: OPEN_STATUSES } });
+
+    await QueueAlert.updateMany(
+      { queueEntry: { $in: ids }, resolvedAt: null },
+      { $set: { resolvedAt: now } }
+    );
+  }
+}
\ No newline at end of file
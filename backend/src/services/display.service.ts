@@ -0,0 +1,105 @@
+// backend/src/services/display.service.ts
+/**
+ * Waiting Room Display Service
+ *
+ * Builds the public display board feed for the waiting room screen.
+ * Only ticket numbers, rooms and call times leave this service: no
+ * patient names or clinical details are ever included. Each clinic's
+ * screen shows its own queue.
+ */
+
+import { Types } from 'mongoose';
+import Queue, { stageFilter } from '../models/Queue';
+import { ClinicService } from './clinic.service';
+
+/**
+ * Display board configuration
+ */
+const DISPLAY_CONFIG = {
+  recentCallLimit: parseInt(process.env.DISPLAY_RECENT_CALLS || '5', 10),
+  upNextLimit: parseInt(process.env.DISPLAY_UP_NEXT || '10', 10)
+};
+
+/**
+ * Display board interface
+ */
+export interface DisplayBoard {
+  clinic: {
+    name: string;
+  };
+  nowCalling: Array<{
+    ticketNumber: string;
+    room: string | null;
+    calledAt: Date;
+  }>;
+  recentCalls: Array<{
+    ticketNumber: string;
+    room: string | null;
+    calledAt: Date;
+  }>;
+  upNext: string[];       // Next for consultation, in queue order
+  waitingCount: number;   // Waiting at any stage
+  updatedAt: Date;
+}
+
+/**
+ * Display Service Class
+ *
+ * Encapsulates the anonymised waiting room feed
+ */
+export class DisplayService {
+  /**
+   * Gets the current display board
+   *
+   * Recent calls come from the call time set by call-next; the most recent
+   * call of each patient still in consultation is shown as "now calling".
+   * Up next lists the consultation queue only: positions are numbered per
+   * stage, so tickets of different stages cannot be put in one order.
+   *
+   * @param clinicId - Clinic whose screen to build (defaults to the default clinic)
+   * @returns Anonymised display board
+   * @throws {Error} If the clinic is not found or inactive
+   */
+  static async getBoard(clinicId?: string): Promise<DisplayBoard> {
+    const clinic = await ClinicService.resolveClinic(undefined, clinicId);
+    const atClinic = { clinic: clinic._id as Types.ObjectId };
+
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const [calledEntries, waitingEntries, waitingCount] = await Promise.all([
+      Queue.find(
+        { ...atClinic, calledTime: { $gte: startOfDay }, ticketNumber: { $exists: true } },
+        { ticketNumber: 1, assignedRoom: 1, calledTime: 1, status: 1 }
+      )
+      .sort({ calledTime: -1 })
+      .limit(DISPLAY_CONFIG.recentCallLimit)
+      .lean(),
+      Queue.find(
+        { ...atClinic, ...stageFilter('doctor'), status: 'waiting', ticketNumber: { $exists: true } },
+        { ticketNumber: 1 }
+      )
+      .sort({ position: 1 })
+      .limit(DISPLAY_CONFIG.upNextLimit)
+      .lean(),
+      Queue.countDocuments({ ...atClinic, status: 'waiting' })
+    ]);
+
+    const toCall = (entry: typeof calledEntries[number]) => ({
+      ticketNumber: entry.ticketNumber as string,
+      room: entry.assignedRoom || null,
+      calledAt: entry.calledTime as Date
+    });
+
+    return {
+      clinic: { name: clinic.name },
+      nowCalling: calledEntries
+        .filter(entry => entry.status === 'in-progress')
+        .map(toCall),
+      recentCalls: calledEntries.map(toCall),
+      upNext: waitingEntries.map(entry => entry.ticketNumber as string),
+      waitingCount,
+      updatedAt: new Date()
+    };
+  }
+}
\ No newline at end of file
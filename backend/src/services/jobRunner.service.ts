@@ -0,0 +1,386 @@
+// backend/src/services/jobRunner.service.ts
+/**
+ * Job Runner Service
+ *
+ * Runs scheduled background jobs from MongoDB so they behave the same with
+ * one API instance or several. Jobs are registered in code with a cron
+ * schedule; their state lives in the jobs collection. Before running a due
+ * job an instance takes its lock and keeps renewing it while the job runs,
+ * so a job never runs twice at once, and a lock left by a crashed instance
+ * expires. Manual runs are queued on the job and picked up by the next poll
+ * like a due job. Failed runs are retried with an exponential backoff up to
+ * the job's attempt limit, and every run is recorded in the job run history.
+ */
+
+import os from 'os';
+import { Types } from 'mongoose';
+import Job, { IJob } from '../models/Job';
+import JobRun, { IJobRun, JobRunTrigger } from '../models/JobRun';
+import { nextCronTime, parseCron } from '../utils/cron';
+
+/**
+ * Job runner configuration
+ */
+export const JOB_RUNNER_CONFIG = {
+  // How often each instance looks for due jobs
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '15000', 10),
+  // Default time a lock lasts without renewal; running jobs renew it every third of that
+  lockMs: parseInt(process.env.JOB_LOCK_MS || '600000', 10),
+  // Default delay before the first retry; doubled for each further retry
+  retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS || '60000', 10)
+};
+
+/**
+ * Duplicate key error code: another instance created the job first
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Matches jobs whose lock is free or has expired
+ */
+const lockFree = (now: Date) => ({
+  $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+});
+
+/**
+ * Job definition registered in code
+ */
+export interface JobDefinition {
+  name: string;
+  schedule: string;                    // Cron expression
+  handler: () => Promise<unknown>;     // Resolves to a summary kept with the run
+  maxAttempts?: number;                // Default 1 (no retries)
+  retryDelayMs?: number;
+  lockMs?: number;
+}
+
+/**
+ * Job state as listed to admins
+ */
+export type JobStatus = IJob & { running: boolean };
+
+/**
+ * Job run list criteria
+ */
+export interface JobRunCriteria {
+  limit?: number;
+}
+
+/**
+ * Job Runner Class
+ *
+ * Encapsulates job registration, scheduling, locking and run history
+ */
+export class JobRunner {
+  /**
+   * Identifies this instance in locks and run history
+   */
+  static readonly instanceId = `${os.hostname()}:${process.pid}`;
+
+  private static definitions = new Map<string, Required<JobDefinition>>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static polling = false;
+
+  /**
+   * Registers a job
+   *
+   * @param definition - Name, cron schedule, handler and retry settings
+   * @throws {Error} If the schedule is invalid or the name is taken
+   */
+  static register(definition: JobDefinition): void {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Job already registered: ${definition.name}`);
+    }
+
+    parseCron(definition.schedule);
+
+    this.definitions.set(definition.name, {
+      maxAttempts: 1,
+      retryDelayMs: JOB_RUNNER_CONFIG.retryDelayMs,
+      lockMs: JOB_RUNNER_CONFIG.lockMs,
+      ...definition
+    });
+  }
+
+  /**
+   * Starts looking for due jobs every poll interval
+   */
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(async () => {
+      if (this.polling) return; // Previous poll still in progress
+
+      this.polling = true;
+      try {
+        await this.runDueJobs();
+      } catch (error: any) {
+        console.error('❌ Job runner poll failed:', error.message);
+      } finally {
+        this.polling = false;
+      }
+    }, JOB_RUNNER_CONFIG.pollIntervalMs);
+
+    // Do not keep the process alive just for background jobs
+    this.timer.unref();
+  }
+
+  /**
+   * Stops looking for due jobs; runs in progress finish
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs every registered job that is due or has a manual run queued, and
+   * is not locked elsewhere
+   *
+   * @param now - Time of the poll
+   * @returns Runs started by this instance
+   */
+  static async runDueJobs(now: Date = new Date()): Promise<IJobRun[]> {
+    await this.syncJobs(now);
+
+    const runs: IJobRun[] = [];
+
+    for (const definition of this.definitions.values()) {
+      const job = await this.lock(definition, now, {
+        $or: [{ enabled: true, nextRunAt: { $lte: now } }, { runRequestedAt: { $ne: null } }]
+      });
+      if (!job) continue;
+
+      if (job.runRequestedAt) {
+        runs.push(await this.execute(definition, job, 'manual', job.runRequestedBy?.toString()));
+        continue;
+      }
+
+      const trigger: JobRunTrigger = job.attempt > 0 ? 'retry' : 'schedule';
+      runs.push(await this.execute(definition, job, trigger));
+    }
+
+    return runs;
+  }
+
+  /**
+   * Queues a run of a job outside its schedule
+   *
+   * The next poll of any instance runs it. A manual run is a single
+   * attempt and does not move the job's next scheduled run.
+   *
+   * @param name - Job name
+   * @param actorId - Staff member asking for the run
+   * @returns The job with its queued run
+   * @throws {Error} If the job does not exist, is already running or already has a run queued
+   */
+  static async trigger(name: string, actorId?: string): Promise<IJob> {
+    if (!this.definitions.has(name)) {
+      throw new Error('Job not found');
+    }
+
+    await this.syncJobs();
+
+    const now = new Date();
+    const job = await Job.findOneAndUpdate(
+      { name, runRequestedAt: null, ...lockFree(now) },
+      {
+        $set: {
+          runRequestedAt: now,
+          runRequestedBy: actorId ? new Types.ObjectId(actorId) : null
+        }
+      },
+      { new: true }
+    );
+
+    if (!job) {
+      const current = await Job.findOne({ name }, { lockedUntil: 1 }).lean();
+      if (current?.lockedUntil && current.lockedUntil > now) {
+        throw new Error(`Job ${name} is already running`);
+      }
+      throw new Error(`Job ${name} already has a run queued`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Lists registered jobs with their schedule and last run
+   */
+  static async listJobs(): Promise<JobStatus[]> {
+    await this.syncJobs();
+
+    const now = new Date();
+    const jobs = await Job.find({ name: { $in: [...this.definitions.keys()] } })
+      .sort({ name: 1 })
+      .lean();
+
+    return jobs.map(job => ({
+      ...job,
+      running: Boolean(job.lockedUntil && job.lockedUntil > now)
+    })) as unknown as JobStatus[];
+  }
+
+  /**
+   * Gets a job's runs, newest first
+   *
+   * @param name - Job name
+   * @param criteria - Number of runs to return (default 20, at most 100)
+   * @throws {Error} If the job does not exist
+   */
+  static async getRuns(name: string, criteria: JobRunCriteria = {}): Promise<IJobRun[]> {
+    if (!this.definitions.has(name)) {
+      throw new Error('Job not found');
+    }
+
+    const limit = Math.min(Math.max(criteria.limit || 20, 1), 100);
+
+    return JobRun.find({ job: name })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .populate('triggeredBy', 'firstName lastName role')
+      .lean() as unknown as IJobRun[];
+  }
+
+  /**
+   * Creates the records of newly registered jobs and picks up changed
+   * schedules and attempt limits
+   */
+  private static async syncJobs(now: Date = new Date()): Promise<void> {
+    for (const definition of this.definitions.values()) {
+      const existing = await Job.findOne({ name: definition.name }, { schedule: 1, maxAttempts: 1 }).lean();
+
+      if (!existing) {
+        try {
+          await Job.create({
+            name: definition.name,
+            schedule: definition.schedule,
+            maxAttempts: definition.maxAttempts,
+            nextRunAt: nextCronTime(definition.schedule, now)
+          });
+        } catch (error: any) {
+          if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+        }
+      } else if (existing.schedule !== definition.schedule || existing.maxAttempts !== definition.maxAttempts) {
+        await Job.updateOne(
+          { _id: existing._id },
+          {
+            $set: {
+              schedule: definition.schedule,
+              maxAttempts: definition.maxAttempts,
+              ...(existing.schedule !== definition.schedule && {
+                nextRunAt: nextCronTime(definition.schedule, now),
+                attempt: 0
+              })
+            }
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Takes a job's lock if it is free or has expired
+   *
+   * @returns The locked job, or null if another run holds the lock
+   */
+  private static async lock(
+    definition: Required<JobDefinition>,
+    now: Date,
+    filter: Record<string, unknown> = {}
+  ): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      {
+        name: definition.name,
+        $and: [filter, lockFree(now)]
+      },
+      {
+        $set: {
+          lockedBy: this.instanceId,
+          lockedUntil: new Date(now.getTime() + definition.lockMs)
+        }
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Runs a locked job, renewing the lock until it finishes, records the
+   * run and releases the lock
+   */
+  private static async execute(
+    definition: Required<JobDefinition>,
+    job: IJob,
+    trigger: JobRunTrigger,
+    actorId?: string
+  ): Promise<IJobRun> {
+    // Runs still open hold no lock any more: their instance stopped mid-run
+    await JobRun.updateMany(
+      { job: job.name, status: 'running' },
+      { $set: { status: 'failed', error: 'Interrupted: lock expired', finishedAt: new Date() } }
+    );
+
+    const run = await JobRun.create({
+      job: job.name,
+      trigger,
+      attempt: trigger === 'manual' ? 1 : job.attempt + 1,
+      instance: this.instanceId,
+      ...(actorId && { triggeredBy: new Types.ObjectId(actorId) }),
+      startedAt: new Date()
+    });
+
+    // Long runs (large simulations, close-out) must not lose the lock mid-run
+    const renewal = setInterval(() => {
+      Job.updateOne(
+        { _id: job._id, lockedBy: this.instanceId },
+        { $set: { lockedUntil: new Date(Date.now() + definition.lockMs) } }
+      ).catch((err: any) => console.error(`❌ Job ${job.name} lock renewal failed:`, err.message));
+    }, Math.max(Math.floor(definition.lockMs / 3), 1));
+    renewal.unref();
+
+    let error: string | undefined;
+    try {
+      run.result = await definition.handler();
+      run.status = 'succeeded';
+    } catch (err: any) {
+      error = err?.message || String(err);
+      run.status = 'failed';
+      run.error = error;
+      console.error(`❌ Job ${job.name} failed (attempt ${run.attempt}):`, error);
+    } finally {
+      clearInterval(renewal);
+    }
+
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    run.markModified('result');
+    await run.save();
+
+    const update: Record<string, unknown> = {
+      lockedBy: null,
+      lockedUntil: null,
+      lastRunAt: run.startedAt,
+      lastStatus: run.status,
+      lastError: error ?? null,
+      lastDurationMs: run.durationMs
+    };
+
+    // Manual runs leave the schedule alone
+    if (trigger === 'manual') {
+      update.runRequestedAt = null;
+      update.runRequestedBy = null;
+    } else if (error && job.attempt + 1 < definition.maxAttempts) {
+      update.attempt = job.attempt + 1;
+      update.nextRunAt = new Date(run.finishedAt.getTime() + definition.retryDelayMs * 2 ** job.attempt);
+    } else {
+      update.attempt = 0;
+      update.nextRunAt = nextCronTime(definition.schedule, run.finishedAt);
+    }
+
+    await Job.updateOne({ _id: job._id, lockedBy: this.instanceId }, { $set: update });
+
+    return run;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,357 @@
+// backend/src/services/notification.service.ts
+/**
+ * Patient Notification Service
+ *
+ * Tells waiting patients about their place in the queue by SMS and email:
+ * when they check in, when they are close to the front of the line, and
+ * when they are called; and reminds patients of upcoming appointments.
+ * Every message is kept as a delivery record and signed with the name of
+ * the clinic the patient attends.
+ * Queue operations hand their notifications to dispatch() and do not wait
+ * for SMS gateways or mail servers: the delivery record is updated when
+ * the send completes. Notification failures are recorded and logged but
+ * never fail the queue operation that triggered them.
+ */
+
+import { Types } from 'mongoose';
+import Notification, { INotification, NotificationStatus } from '../models/Notification';
+import Patient from '../models/Patient';
+import Queue, { IQueue } from '../models/Queue';
+import { IAppointment } from '../models/Appointment';
+import Clinic, { ClinicScope, clinicFilter } from '../models/Clinic';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationTemplate,
+  NotificationVariables,
+  renderNotification
+} from '../utils/notificationTemplates';
+import { NotificationProvider, createProvider } from './notificationProviders';
+
+/**
+ * Notification configuration
+ */
+export const NOTIFICATION_CONFIG = {
+  enabled: process.env.NOTIFICATIONS_ENABLED !== 'false',
+  // Channels used for every patient, e.g. "sms" or "sms,email"
+  channels: (process.env.NOTIFICATION_CHANNELS || 'sms,email')
+    .split(',')
+    .map(channel => channel.trim())
+    .filter((channel): channel is NotificationChannel =>
+      (NOTIFICATION_CHANNELS as readonly string[]).includes(channel)),
+  // Patients are told their turn is near once they reach this position
+  turnNearPosition: parseInt(process.env.NOTIFY_TURN_NEAR_POSITION || '3', 10),
+  clinicName: process.env.CLINIC_NAME || 'ClinicQueue'
+};
+
+/**
+ * Delivery log criteria interface
+ */
+export interface NotificationCriteria {
+  visit?: string;
+  status?: NotificationStatus;
+  channel?: NotificationChannel;
+  template?: NotificationTemplate;
+  clinicIds?: ClinicScope;
+  limit?: number;
+}
+
+/**
+ * Queue entry fields used to address and fill a notification
+ */
+type NotifiableEntry = Pick<IQueue, '_id' | 'visit' | 'patient' | 'clinic' | 'stage' | 'ticketNumber' |
+  'position' | 'estimatedWaitTime' | 'assignedRoom'>;
+
+/**
+ * Records a notification is about
+ */
+interface NotificationRefs {
+  clinic?: unknown;
+  visit?: unknown;
+  queueEntry?: unknown;
+  appointment?: unknown;
+}
+
+/**
+ * Id of a reference that may be populated
+ */
+const refId = (value: any): Types.ObjectId => (value && value._id) || value;
+
+/**
+ * Patient Notification Service Class
+ *
+ * Encapsulates notification triggers, delivery and the delivery log
+ */
+export class NotificationService {
+  private static providers = new Map<NotificationChannel, NotificationProvider>();
+  private static inFlight = new Set<Promise<unknown>>();
+
+  /**
+   * Replaces the provider for a channel (e.g. a different SMS gateway)
+   *
+   * @param channel - Channel the provider sends on
+   * @param provider - Provider to use from now on
+   */
+  static setProvider(channel: NotificationChannel, provider: NotificationProvider): void {
+    this.providers.set(channel, provider);
+  }
+
+  /**
+   * Gets the provider for a channel, creating the configured one on first use
+   */
+  static getProvider(channel: NotificationChannel): NotificationProvider {
+    let provider = this.providers.get(channel);
+    if (!provider) {
+      provider = createProvider(channel);
+      this.providers.set(channel, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Sends notifications in the background
+   *
+   * The caller carries on straight away; errors are logged.
+   *
+   * @param send - Notification trigger to run, e.g. () => notifyCalled(entry)
+   */
+  static dispatch(send: () => Promise<unknown>): void {
+    const task: Promise<unknown> = send()
+      .catch((error: Error) => console.error('❌ Background notification failed:', error.message))
+      .finally(() => this.inFlight.delete(task));
+
+    this.inFlight.add(task);
+  }
+
+  /**
+   * Waits for notifications sent in the background to finish
+   */
+  static async settle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  /**
+   * Confirms a check-in with the ticket, place in line and estimated wait
+   *
+   * @param entry - Queue entry created at check-in
+   * @returns Delivery records
+   */
+  static async notifyCheckedIn(entry: NotifiableEntry): Promise<INotification[]> {
+    return this.notify('checked-in', entry);
+  }
+
+  /**
+   * Tells waiting patients who have moved up to the front that their turn is near
+   *
+   * Each entry is claimed before sending, so a patient is told once even
+   * when several queue refreshes run at the same time.
+   *
+   * @returns Delivery records
+   */
+  static async notifyTurnNear(): Promise<INotification[]> {
+    if (!NOTIFICATION_CONFIG.enabled || NOTIFICATION_CONFIG.channels.length === 0) {
+      return [];
+    }
+
+    const sent: INotification[] = [];
+
+    try {
+      const candidates = await Queue.find(
+        {
+          status: 'waiting',
+          position: { $lte: NOTIFICATION_CONFIG.turnNearPosition },
+          turnNearNotifiedAt: { $exists: false }
+        },
+        { _id: 1 }
+      ).lean();
+
+      for (const candidate of candidates) {
+        const entry = await Queue.findOneAndUpdate(
+          { _id: candidate._id, status: 'waiting', turnNearNotifiedAt: { $exists: false } },
+          { turnNearNotifiedAt: new Date() },
+          { new: true }
+        );
+
+        if (entry) {
+          sent.push(...await this.notify('turn-near', entry));
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to send turn-near notifications:', error.message);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Tells a patient they have been called and where to go
+   *
+   * @param entry - Called queue entry
+   * @returns Delivery records
+   */
+  static async notifyCalled(entry: NotifiableEntry): Promise<INotification[]> {
+    const stage = entry.stage || 'doctor';
+
+    return this.notify('called', entry, {
+      location: entry.assignedRoom || (stage === 'doctor' ? undefined : `the ${stage} desk`)
+    });
+  }
+
+  /**
+   * Gets the delivery log, newest first
+   *
+   * @param criteria - Visit, status, channel, template and clinic filters
+   * @returns Delivery records
+   */
+  static async getNotifications(criteria: NotificationCriteria = {}): Promise<INotification[]> {
+    const query: Record<string, unknown> = { ...clinicFilter(criteria.clinicIds) };
+
+    if (criteria.visit) query.visit = criteria.visit;
+    if (criteria.status) query.status = criteria.status;
+    if (criteria.channel) query.channel = criteria.channel;
+    if (criteria.template) query.template = criteria.template;
+
+    return Notification.find(query)
+      .sort({ createdAt: -1 })
+      .limit(Math.min(criteria.limit || 50, 200))
+      .lean<INotification[]>();
+  }
+
+  /**
+   * Reminds a patient of an upcoming appointment
+   *
+   * @param appointment - Appointment to remind of
+   * @param doctorName - Name of the doctor, as shown to the patient
+   * @returns Delivery records
+   */
+  static async notifyAppointmentReminder(
+    appointment: Pick<IAppointment, '_id' | 'patient' | 'clinic' | 'scheduledTime'>,
+    doctorName?: string
+  ): Promise<INotification[]> {
+    return this.notifyPatient(
+      'appointment-reminder',
+      refId(appointment.patient),
+      { appointmentTime: appointment.scheduledTime, doctorName },
+      { appointment: appointment._id, clinic: refId(appointment.clinic) }
+    );
+  }
+
+  /**
+   * Renders and sends a queue notification on every configured channel
+   *
+   * @returns Delivery records, including failed deliveries
+   */
+  private static async notify(
+    template: NotificationTemplate,
+    entry: NotifiableEntry,
+    extra: Partial<NotificationVariables> = {}
+  ): Promise<INotification[]> {
+    return this.notifyPatient(
+      template,
+      refId(entry.patient),
+      {
+        ticketNumber: entry.ticketNumber,
+        position: entry.position,
+        estimatedWaitTime: entry.estimatedWaitTime,
+        ...extra
+      },
+      { visit: refId(entry.visit), queueEntry: entry._id, clinic: refId(entry.clinic) }
+    );
+  }
+
+  /**
+   * Renders and sends a notification to a patient on every configured channel
+   *
+   * Messages about the default clinic are signed with the configured clinic
+   * name, and messages about other clinics with that clinic's name.
+   *
+   * @returns Delivery records, including failed deliveries
+   */
+  private static async notifyPatient(
+    template: NotificationTemplate,
+    patientId: Types.ObjectId,
+    variables: Partial<NotificationVariables>,
+    refs: NotificationRefs
+  ): Promise<INotification[]> {
+    if (!NOTIFICATION_CONFIG.enabled) {
+      return [];
+    }
+
+    try {
+      const patient = await Patient.findById(patientId, { firstName: 1, email: 1, phone: 1 }).lean();
+
+      if (!patient) {
+        return [];
+      }
+
+      const clinic = refs.clinic
+        ? await Clinic.findById(refs.clinic, { name: 1, isDefault: 1 }).lean()
+        : null;
+
+      const values: NotificationVariables = {
+        clinicName: clinic && !clinic.isDefault ? clinic.name : NOTIFICATION_CONFIG.clinicName,
+        firstName: patient.firstName,
+        ...variables
+      };
+
+      const records: INotification[] = [];
+
+      for (const channel of NOTIFICATION_CONFIG.channels) {
+        const recipient = channel === 'email' ? patient.email : patient.phone;
+        if (!recipient) continue;
+
+        records.push(await this.deliver(channel, recipient, template, values, {
+          patient: patient._id,
+          ...refs
+        }));
+      }
+
+      return records;
+    } catch (error: any) {
+      console.error(`❌ Failed to send ${template} notification:`, error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Sends one message and records the outcome
+   */
+  private static async deliver(
+    channel: NotificationChannel,
+    recipient: string,
+    template: NotificationTemplate,
+    variables: NotificationVariables,
+    refs: NotificationRefs & { patient: unknown }
+  ): Promise<INotification> {
+    const provider = this.getProvider(channel);
+    const message = renderNotification(template, channel, variables);
+
+    const record = await Notification.create({
+      ...refs,
+      channel,
+      template,
+      recipient,
+      subject: message.subject,
+      body: message.body,
+      provider: provider.name,
+      status: 'pending'
+    });
+
+    try {
+      const receipt = await provider.send({ channel, to: recipient, ...message });
+
+      record.status = 'sent';
+      record.sentAt = new Date();
+      record.providerMessageId = receipt.providerMessageId;
+    } catch (error: any) {
+      record.status = 'failed';
+      record.error = error.message;
+      console.warn(`⚠️ ${channel} notification to patient ${refs.patient} failed:`, error.message);
+    }
+
+    await record.save();
+    return record;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,175 @@
+// backend/src/services/notificationProviders.ts
+/**
+ * Notification Providers
+ *
+ * Delivery back-ends for patient notifications. Each provider sends on one
+ * channel: SMTP for email, an HTTP SMS gateway for text messages, and a
+ * local provider that logs messages (to the console or a file) for
+ * development and tests. Providers are chosen per channel from the
+ * environment and can be replaced at runtime.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { NotificationChannel } from '../utils/notificationTemplates';
+import { sendSmtpMail } from '../utils/smtpClient';
+
+/**
+ * Message handed to a provider
+ */
+export interface OutgoingNotification {
+  channel: NotificationChannel;
+  to: string;          // Phone number or email address
+  subject?: string;    // Email only
+  body: string;
+}
+
+/**
+ * Provider's receipt for an accepted message
+ */
+export interface DeliveryReceipt {
+  providerMessageId?: string;
+}
+
+/**
+ * Notification provider interface
+ */
+export interface NotificationProvider {
+  readonly name: string;
+  send(message: OutgoingNotification): Promise<DeliveryReceipt>;
+}
+
+/**
+ * Sends email through an SMTP server
+ */
+export class SmtpEmailProvider implements NotificationProvider {
+  readonly name = 'smtp';
+
+  async send(message: OutgoingNotification): Promise<DeliveryReceipt> {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.SMTP_FROM;
+
+    if (!host || !from) {
+      throw new Error('SMTP is not configured: SMTP_HOST and SMTP_FROM are required');
+    }
+
+    const messageId = await sendSmtpMail(
+      {
+        host,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from,
+        ...(process.env.SMTP_CA_FILE && { ca: fs.readFileSync(process.env.SMTP_CA_FILE, 'utf8') })
+      },
+      { to: message.to, subject: message.subject || '', text: message.body }
+    );
+
+    return { providerMessageId: messageId };
+  }
+}
+
+/**
+ * Body of an SMS gateway's reply to an accepted message
+ */
+const SmsGatewayResponseSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  messageId: z.union([z.string(), z.number()]).optional()
+});
+
+/**
+ * Sends text messages through an HTTP SMS gateway
+ *
+ * Posts `{ to, from, message }` as JSON to SMS_GATEWAY_URL with the API key
+ * as a Bearer token; an `id` or `messageId` in the response is kept.
+ */
+export class HttpSmsProvider implements NotificationProvider {
+  readonly name = 'sms-gateway';
+
+  async send(message: OutgoingNotification): Promise<DeliveryReceipt> {
+    const url = process.env.SMS_GATEWAY_URL;
+
+    if (!url) {
+      throw new Error('SMS gateway is not configured: SMS_GATEWAY_URL is required');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.SMS_GATEWAY_API_KEY && { Authorization: `Bearer ${process.env.SMS_GATEWAY_API_KEY}` })
+      },
+      body: JSON.stringify({
+        to: message.to,
+        from: process.env.SMS_SENDER_ID || 'ClinicQueue',
+        message: message.body
+      }),
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway error: ${response.status} ${response.statusText}`);
+    }
+
+    // The message is accepted either way; an unexpected body only loses its id
+    const result = SmsGatewayResponseSchema.safeParse(await response.json().catch(() => ({})));
+    if (!result.success) {
+      console.warn('⚠️ Unexpected SMS gateway response:', result.error.issues[0]?.message);
+      return {};
+    }
+
+    const providerMessageId = result.data.id ?? result.data.messageId;
+    return providerMessageId != null ? { providerMessageId: String(providerMessageId) } : {};
+  }
+}
+
+/**
+ * Logs messages instead of sending them
+ *
+ * Appends one JSON line per message to NOTIFICATION_LOG_FILE when set,
+ * otherwise prints to the console (except in tests). The latest messages
+ * are also kept in memory for inspection.
+ */
+export class LocalNotificationProvider implements NotificationProvider {
+  readonly name = 'local';
+  readonly outbox: Array<OutgoingNotification & { sentAt: Date }> = [];
+
+  private static readonly OUTBOX_LIMIT = 100;
+
+  async send(message: OutgoingNotification): Promise<DeliveryReceipt> {
+    const record = { ...message, sentAt: new Date() };
+
+    this.outbox.push(record);
+    if (this.outbox.length > LocalNotificationProvider.OUTBOX_LIMIT) {
+      this.outbox.shift();
+    }
+
+    const logFile = process.env.NOTIFICATION_LOG_FILE;
+    if (logFile) {
+      await fs.promises.appendFile(logFile, `${JSON.stringify(record)}\n`);
+    } else if (process.env.NODE_ENV !== 'test') {
+      console.log(`📨 [${message.channel} → ${message.to}] ${message.subject ? `${message.subject}: ` : ''}${message.body}`);
+    }
+
+    return { providerMessageId: `local-${record.sentAt.getTime()}-${this.outbox.length}` };
+  }
+}
+
+/**
+ * Creates the provider configured for a channel
+ *
+ * NOTIFICATION_EMAIL_PROVIDER: smtp | local (default local)
+ * NOTIFICATION_SMS_PROVIDER: gateway | local (default local)
+ */
+export function createProvider(channel: NotificationChannel): NotificationProvider {
+  if (channel === 'email' && process.env.NOTIFICATION_EMAIL_PROVIDER === 'smtp') {
+    return new SmtpEmailProvider();
+  }
+
+  if (channel === 'sms' && process.env.NOTIFICATION_SMS_PROVIDER === 'gateway') {
+    return new HttpSmsProvider();
+  }
+
+  return new LocalNotificationProvider();
+}
\ No newline at end of file
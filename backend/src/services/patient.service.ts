@@ -10,6 +10,7 @@
 import Patient, { IPatient } from '../models/Patient';
 import Visit from '../models/Visit';
 import Appointment from '../models/Appointment';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
 
 /**
  * Patient registration data interface
@@ -201,10 +202,11 @@ export class PatientService {
    * Gets patient by ID with full details
    * 
    * @param patientId - Patient ID
+   * @param clinicIds - Clinics whose visits and appointments are included (undefined for every clinic)
    * @returns Patient record with populated data
    * @throws {Error} If patient not found
    */
-  static async getPatientById(patientId: string): Promise<any> {
+  static async getPatientById(patientId: string, clinicIds?: ClinicScope): Promise<any> {
     const patient = await Patient.findById(patientId)
       .populate('emergencyContact');
 
@@ -214,6 +216,7 @@ export class PatientService {
 
     // Get recent visits count
     const recentVisits = await Visit.countDocuments({
+      ...clinicFilter(clinicIds),
       patient: patientId,
       checkInTime: { 
         $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
@@ -222,6 +225,7 @@ export class PatientService {
 
     // Get upcoming appointments
     const upcomingAppointments = await Appointment.find({
+      ...clinicFilter(clinicIds),
       patient: patientId,
       status: 'scheduled',
       scheduledTime: { $gte: new Date() }
@@ -242,10 +246,11 @@ export class PatientService {
    * 
    * @param patientId - Patient ID
    * @param limit - Maximum number of visits to return
+   * @param clinicIds - Clinics whose visits are included (undefined for every clinic)
    * @returns Patient's visit history
    */
-  static async getPatientVisits(patientId: string, limit: number = 10): Promise<any[]> {
-    const visits = await Visit.find({ patient: patientId })
+  static async getPatientVisits(patientId: string, limit: number = 10, clinicIds?: ClinicScope): Promise<any[]> {
+    const visits = await Visit.find({ ...clinicFilter(clinicIds), patient: patientId })
       .populate('appointment')
       .sort({ checkInTime: -1 })
       .limit(limit);
@@ -260,6 +265,56 @@ export class PatientService {
     }));
   }
 
+  /**
+   * Lists patients with contact details typed at check-in awaiting review
+   *
+   * @returns Patients with their current and submitted contact details, oldest first
+   */
+  static async getPendingContactUpdates(): Promise<IPatient[]> {
+    return Patient.find({ pendingContactUpdate: { $exists: true } })
+      .select('firstName lastName email phone dateOfBirth pendingContactUpdate')
+      .sort({ 'pendingContactUpdate.submittedAt': 1 });
+  }
+
+  /**
+   * Applies or dismisses contact details typed at check-in
+   *
+   * @param patientId - Patient ID
+   * @param action - Apply the submitted details to the record, or discard them
+   * @returns Updated patient record
+   * @throws {Error} If the patient is not found, nothing is pending, or the email belongs to another patient
+   */
+  static async reviewContactUpdate(patientId: string, action: 'apply' | 'dismiss'): Promise<IPatient> {
+    const patient = await Patient.findById(patientId);
+
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const update = patient.pendingContactUpdate;
+    if (!update) {
+      throw new Error('No contact update pending for this patient');
+    }
+
+    if (action === 'apply') {
+      if (update.email) {
+        const conflictingPatient = await Patient.exists({ email: update.email, _id: { $ne: patient._id } });
+        if (conflictingPatient) {
+          throw new Error('Another patient already exists with this email');
+        }
+        patient.email = update.email;
+      }
+      if (update.phone) {
+        patient.phone = update.phone;
+      }
+    }
+
+    patient.pendingContactUpdate = undefined;
+    await patient.save();
+
+    return patient;
+  }
+
   /**
    * Gets patient statistics for dashboard
    * 
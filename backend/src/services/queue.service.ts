@@ -7,18 +7,56 @@
  * Separates queue-related business logic from route handlers.
  */
 
-import Queue, { IQueue } from '../models/Queue';
+import { Types, UpdateQuery } from 'mongoose';
+import Queue, {
+  IQueue,
+  IConsultationSegment,
+  QueueStatus,
+  HoldReason,
+  QueuePositionChange,
+  QUEUED_STATUSES,
+  stageFilter
+} from '../models/Queue';
+import QueueHistory from '../models/QueueHistory';
 import Visit from '../models/Visit';
 import Staff from '../models/Staff';
+import { IRoom } from '../models/Room';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
+import { QueueStreamService } from './queueStream.service';
+import { QueueEventService } from './queueEvent.service';
+import { TicketService } from './ticket.service';
+import { WaitTimeService } from './waitTime.service';
+import { RoomService } from './room.service';
+import { QueueAlertService, BreachStatistics } from './queueAlert.service';
+import { NotificationService } from './notification.service';
+import { ClinicService } from './clinic.service';
+import {
+  QueuePriority,
+  OrderableQueueEntry,
+  createQueueComparator,
+  getEffectivePriority
+} from '../utils/queueOrdering';
+import { QueueEventType } from '../models/QueueEvent';
+import { STAGE_ROLES, VISIT_STAGES, VisitStage } from '../config/visitStages';
+import {
+  AnalyticsArrival,
+  AnalyticsBucket,
+  AnalyticsStep,
+  QueueAnalytics,
+  buildQueueAnalytics
+} from '../utils/queueAnalytics';
 
 /**
  * Queue status update data interface
  */
 export interface QueueStatusUpdate {
-  status: 'waiting' | 'in-progress' | 'completed' | 'cancelled';
+  status: QueueStatus;
   doctorId?: string;
-  assignedRoom?: string;
+  roomId?: string;          // A free consultation room is picked when omitted
   notes?: string;
+  holdReason?: HoldReason;  // Required when putting on hold
+  holdMinutes?: number;     // Resume automatically after this many minutes
+  nextStage?: VisitStage;   // On completion, route here instead of the next planned stage
 }
 
 /**
@@ -26,7 +64,50 @@ export interface QueueStatusUpdate {
  */
 export interface NextPatientCall {
   doctorId: string;
-  assignedRoom?: string;
+  roomId?: string;    // A free consultation room is picked when omitted
+  clinicId?: string;  // Needed when the doctor works at several clinics
+}
+
+/**
+ * Current queue entry with its effective (aged) priority
+ */
+export interface CurrentQueueEntry {
+  [key: string]: any;
+  effectivePriority: QueuePriority;
+  agingReason: string | null;
+}
+
+/**
+ * Transfer request interface
+ * 
+ * Either hands the patient to another doctor and/or room, or sends them
+ * back to the waiting list for doctors of a given specialty.
+ */
+export interface TransferRequest {
+  toDoctorId?: string;
+  toRoomId?: string;
+  toSpecialty?: string;
+  reason: string;
+}
+
+/**
+ * Stage completion result interface
+ */
+export interface StageCompletionResult {
+  queueEntry: IQueue;
+  nextEntry: IQueue | null;  // Entry in the next stage's queue, null when the visit is finished
+}
+
+/**
+ * Waiting and service figures for one stage
+ */
+export interface StageStatistics {
+  stage: VisitStage;
+  waiting: number;
+  inProgress: number;
+  completedToday: number;
+  averageWaitTime: number;     // Minutes from entering the stage to being called, today
+  longestCurrentWait: number;  // Minutes the longest-waiting patient has waited so far
 }
 
 /**
@@ -46,8 +127,89 @@ export interface QueueStatistics {
   }>;
   averageWaitTime: number;
   longestWaitTime: number;
+  leftWithoutBeingSeen: {
+    today: number;
+    rate: number; // % of today's closed queue entries
+  };
+  byStage: StageStatistics[];
+  slaBreaches: BreachStatistics;
+}
+
+/**
+ * Missed call outcome interface
+ */
+export interface MissedCallResult {
+  queueEntry: IQueue;
+  missedCalls: number;
+  maxMissedCalls: number;
+  outcome: 'returned-to-waiting' | 'left-without-being-seen';
 }
 
+/**
+ * Call-next configuration
+ */
+const CALL_NEXT_CONFIG = {
+  // Candidates tried before reporting a conflict to the caller
+  maxClaimAttempts: parseInt(process.env.QUEUE_MAX_CLAIM_ATTEMPTS || '5', 10),
+  // Unanswered calls before a patient is marked left without being seen
+  maxMissedCalls: parseInt(process.env.QUEUE_MAX_MISSED_CALLS || '3', 10)
+};
+
+/**
+ * Analytics configuration
+ */
+const ANALYTICS_CONFIG = {
+  // Longest period a single analytics request may cover, by bucket size
+  maxDays: { hour: 31, day: 366 } as Record<AnalyticsBucket, number>
+};
+
+/**
+ * Whole minutes elapsed between two timestamps
+ */
+const minutesBetween = (from: Date, to: Date): number =>
+  Math.max(Math.round((to.getTime() - new Date(from).getTime()) / 60000), 0);
+
+/**
+ * Consultation segments of an entry as plain objects
+ */
+const segmentsOf = (entry: IQueue): IConsultationSegment[] =>
+  (entry.toObject().consultationSegments || []) as IConsultationSegment[];
+
+/**
+ * Closes the ongoing consultation segment, if any
+ */
+const closeOpenSegments = (segments: IConsultationSegment[], now: Date): IConsultationSegment[] =>
+  segments.map(segment => segment.endedAt
+    ? segment
+    : { ...segment, endedAt: now, durationMinutes: minutesBetween(segment.startedAt, now) });
+
+/**
+ * What a claim sets besides the call itself: the doctor and room for
+ * the doctor stage, nothing for the other stations
+ */
+interface CallClaim {
+  doctorId?: string;
+  doctorsOnDuty?: number;
+  room: IRoom | null;
+}
+
+/**
+ * Statuses of patients who left without finishing the stage: their visit ends
+ */
+const ENDED_STATUSES: QueueStatus[] = ['cancelled', 'left-without-being-seen'];
+
+/**
+ * Event logged for each target status of a manual status update
+ */
+const STATUS_EVENT_TYPES: Record<QueueStatus, QueueEventType> = {
+  'waiting': 'returned-to-waiting',
+  'on-hold': 'put-on-hold',
+  'in-progress': 'called',
+  'completed': 'completed',
+  'cancelled': 'cancelled',
+  'left-without-being-seen': 'left-without-being-seen'
+};
+
 /**
  * Queue Service Class
  * 
@@ -55,25 +217,58 @@ export interface QueueStatistics {
  */
 export class QueueService {
   /**
-   * Gets the current active queue
+   * Gets the current active queue of a stage
+   * 
+   * Waiting patients age between queue changes, so positions are brought
+   * up to date before reading. Each entry reports the priority it is
+   * currently treated with and why it differs from its triage priority.
+   * Positions are numbered within each clinic's queue.
    * 
-   * @returns Current queue with patient details
+   * @param stage - Stage whose queue to read (defaults to the doctor's queue)
+   * @param clinicIds - Clinics to include (undefined for every clinic)
+   * @returns Current queue with patient details and effective priorities
    */
-  static async getCurrentQueue(): Promise<IQueue[]> {
-    return await Queue.getCurrentQueue();
+  static async getCurrentQueue(
+    stage: VisitStage = 'doctor',
+    clinicIds?: ClinicScope
+  ): Promise<CurrentQueueEntry[]> {
+    await this.resumeExpiredHolds();
+    await this.refreshQueue();
+
+    const queue = await Queue.getCurrentQueue(stage, clinicIds);
+    const now = new Date();
+
+    return queue.map(entry => {
+      const effective = QUEUED_STATUSES.includes(entry.status)
+        ? getEffectivePriority(entry, now)
+        : { priority: entry.priority, agingReason: null };
+
+      return {
+        ...entry.toObject(),
+        effectivePriority: effective.priority,
+        agingReason: effective.agingReason
+      };
+    });
   }
 
   /**
    * Updates queue entry status
    * 
+   * Completing an entry routes the visit on to its next stage, which is
+   * either the next planned stage or the one given in `nextStage`.
+   * 
    * @param queueId - Queue entry ID
    * @param updateData - Status update data
+   * @param actorId - Staff member making the change
+   * @param eventDetails - Extra details for the recorded event (e.g. who asked for the change)
    * @returns Updated queue entry
-   * @throws {Error} If queue entry not found or invalid status transition
+   * @throws {Error} If queue entry not found, invalid status transition or changed meanwhile
    */
   static async updateQueueStatus(
     queueId: string,
-    updateData: QueueStatusUpdate
+    updateData: QueueStatusUpdate,
+    actorId?: string,
+    eventDetails: Record<string, unknown> = {}
   ): Promise<IQueue> {
     const queueEntry = await Queue.findById(queueId);
     
@@ -86,21 +281,121 @@ export class QueueService {
       throw new Error(`Invalid status transition from ${queueEntry.status} to ${updateData.status}`);
     }
 
+    if (updateData.status === 'on-hold' && !updateData.holdReason) {
+      throw new Error('Hold reason is required to put a patient on hold');
+    }
+
+    if (updateData.doctorId) {
+      const doctor = await Staff.findOne({ _id: updateData.doctorId, role: 'doctor', isActive: true });
+      if (!doctor) {
+        throw new Error('Doctor not found or inactive');
+      }
+
+      if (!ClinicService.worksAt(doctor, queueEntry.clinic)) {
+        throw new Error('Invalid doctor: the doctor does not work at this clinic');
+      }
+    }
+
     // Set timing information based on status changes
-    const updateWithTiming = { ...updateData };
+    const { holdMinutes, roomId, nextStage, doctorId, ...fields } = updateData;
+    const $set: Partial<IQueue> = {
+      ...fields,
+      ...(doctorId && { doctor: new Types.ObjectId(doctorId) })
+    };
+    const $unset: Partial<Record<keyof IQueue, 1>> = {};
+    const $inc: Partial<Record<keyof IQueue, number>> = {};
     
+    const now = new Date();
+    const wasInProgress = queueEntry.status === 'in-progress';
+    const willBeInProgress = updateData.status === 'in-progress';
+    const atDoctorStage = !queueEntry.stage || queueEntry.stage === 'doctor';
+
+    // Take a room when the patient goes into consultation or changes room
+    let reservedRoom: IRoom | null = null;
+    const changesRoom = wasInProgress && willBeInProgress && !!roomId && roomId !== String(queueEntry.room);
+    if (atDoctorStage && ((willBeInProgress && !wasInProgress) || changesRoom)) {
+      reservedRoom = await RoomService.reserveRoom(
+        queueEntry.clinic,
+        roomId,
+        doctorId || queueEntry.doctor,
+        queueEntry._id as Types.ObjectId
+      );
+
+      if (reservedRoom) {
+        $set.room = reservedRoom._id as Types.ObjectId;
+        $set.assignedRoom = reservedRoom.name;
+      }
+    }
+
+    if (updateData.status === 'on-hold') {
+      $set.holdStartedAt = now;
+      if (holdMinutes) {
+        $set.holdUntil = new Date(now.getTime() + holdMinutes * 60000);
+      }
+    }
+
+    // Leaving hold: bank the time held so it is not counted as waiting
+    let heldMinutes = 0;
+    if (queueEntry.status === 'on-hold' && updateData.status !== 'on-hold') {
+      heldMinutes = queueEntry.holdStartedAt ? minutesBetween(queueEntry.holdStartedAt, now) : 0;
+      $set.totalHoldMinutes = (queueEntry.totalHoldMinutes || 0) + heldMinutes;
+      Object.assign($unset, { holdReason: 1, holdStartedAt: 1, holdUntil: 1 });
+    }
+
+    // Track time with each doctor so consultations can be attributed per doctor
+    let segments = segmentsOf(queueEntry);
+
+    if (wasInProgress && !willBeInProgress) {
+      segments = closeOpenSegments(segments, now);
+    }
+
+    if (!wasInProgress && willBeInProgress) {
+      segments.push({
+        doctor: doctorId ? new Types.ObjectId(doctorId) : queueEntry.doctor,
+        room: reservedRoom ? reservedRoom.name : queueEntry.assignedRoom,
+        startedAt: now
+      });
+    }
+
+    if (wasInProgress !== willBeInProgress) {
+      $set.consultationSegments = segments;
+    }
+
     if (updateData.status === 'in-progress' && queueEntry.status !== 'in-progress') {
-      (updateWithTiming as any).calledTime = new Date();
-      (updateWithTiming as any).consultationStartTime = new Date();
+      $set.calledTime = now;
+      $set.consultationStartTime = now;
+      // Wait until first seen: a patient sent back to the queue keeps their original wait
+      if (queueEntry.actualWaitTime == null) {
+        $set.actualWaitTime = Math.max(
+          minutesBetween(queueEntry.checkInTime, now) - (queueEntry.totalHoldMinutes || 0),
+          0
+        );
+      }
+      $set.lastCallAttemptAt = now;
+      $inc.callAttempts = 1;
     }
 
     if (updateData.status === 'completed' && queueEntry.status !== 'completed') {
-      (updateWithTiming as any).consultationEndTime = new Date();
+      $set.consultationEndTime = now;
+      if (segments.length > 0) {
+        $set.consultationDuration = segments
+          .reduce((total, segment) => total + (segment.durationMinutes || 0), 0);
+      } else if (queueEntry.consultationStartTime) {
+        $set.consultationDuration = minutesBetween(queueEntry.consultationStartTime, now);
+      }
     }
 
-    const updatedQueue = await Queue.findByIdAndUpdate(
-      queueId,
-      updateWithTiming,
+    const update: UpdateQuery<IQueue> = {
+      $set,
+      ...(Object.keys($unset).length > 0 && { $unset }),
+      ...(Object.keys($inc).length > 0 && { $inc })
+    };
+
+    // Guarded on the status read above, so a patient claimed by call-next
+    // meanwhile is not overwritten
+    const updatedQueue = await Queue.findOneAndUpdate(
+      { _id: queueId, status: queueEntry.status },
+      update,
       { new: true, runValidators: true }
     )
     .populate('patient', 'firstName lastName dateOfBirth gender')
@@ -108,26 +403,258 @@ export class QueueService {
     .populate('doctor', 'firstName lastName specialty');
 
     if (!updatedQueue) {
-      throw new Error('Failed to update queue entry');
+      if (reservedRoom) {
+        await RoomService.releaseRoom(reservedRoom._id as Types.ObjectId);
+      }
+      throw new Error('Queue conflict: entry changed while updating it, please retry');
+    }
+
+    if (changesRoom && reservedRoom && queueEntry.room) {
+      await RoomService.releaseRoom(queueEntry.room);
+    } else if (wasInProgress && !willBeInProgress) {
+      await RoomService.releaseForEntry(queueEntry._id as Types.ObjectId);
+    }
+
+    const eventType = queueEntry.status === 'on-hold' && updateData.status === 'waiting'
+      ? 'resumed'
+      : STATUS_EVENT_TYPES[updateData.status];
+
+    await QueueEventService.record(updatedQueue, eventType, {
+      actorId,
+      fromStatus: queueEntry.status,
+      toStatus: updateData.status,
+      occurredAt: now,
+      details: {
+        ...(doctorId && { doctorId }),
+        ...(updateData.notes && { notes: updateData.notes }),
+        ...(updateData.status === 'on-hold' && {
+          holdReason: updateData.holdReason,
+          holdUntil: updatedQueue.holdUntil
+        }),
+        ...(queueEntry.status === 'on-hold' && { heldMinutes }),
+        ...eventDetails
+      }
+    });
+
+    if (reservedRoom) {
+      await QueueEventService.record(updatedQueue, 'room-assigned', {
+        actorId,
+        occurredAt: now,
+        details: {
+          room: reservedRoom.name,
+          roomId: String(reservedRoom._id),
+          ...(queueEntry.assignedRoom && { previousRoom: queueEntry.assignedRoom })
+        }
+      });
     }
 
-    // Recalculate positions if status changed to waiting
-    if (updateData.status === 'waiting') {
-      await Queue.recalculatePositions();
+    // Recalculate positions if the waiting list gained or lost a patient
+    const wasQueued = QUEUED_STATUSES.includes(queueEntry.status);
+    const isQueued = QUEUED_STATUSES.includes(updateData.status);
+    if (wasQueued !== isQueued || updateData.status === 'waiting') {
+      await this.refreshQueue();
+    }
+
+    QueueStreamService.publishEntry('queue.status-changed', updatedQueue, {
+      previousStatus: queueEntry.status
+    });
+
+    if (updateData.status === 'completed') {
+      await this.routeToNextStage(updatedQueue, nextStage, actorId);
+    } else if (ENDED_STATUSES.includes(updateData.status)) {
+      await this.endVisit(updatedQueue, now);
+    } else if (ENDED_STATUSES.includes(queueEntry.status)) {
+      // A patient re-added to the queue carries on with their visit
+      await this.reopenVisit(updatedQueue);
     }
 
     return updatedQueue;
   }
 
+  /**
+   * Ends the visit of a patient who left the queue, closing the entry's stage
+   *
+   * The visit is completed as the close-out would complete it, so it no
+   * longer shows as in progress and the patient's status page reports it
+   * as finished. A visit still open at another stage is left alone.
+   */
+  private static async endVisit(entry: IQueue, now: Date): Promise<void> {
+    const visitId = (entry.visit as any)?._id || entry.visit;
+
+    const openElsewhere = await Queue.exists({
+      visit: visitId,
+      _id: { $ne: entry._id },
+      status: { $in: [...QUEUED_STATUSES, 'in-progress'] }
+    });
+    if (openElsewhere) return;
+
+    await Visit.updateOne(
+      { _id: visitId, completedAt: null },
+      {
+        $set: { completedAt: now, 'stageHistory.$[open].completedAt': now },
+        $unset: { currentStage: 1 }
+      },
+      { arrayFilters: [{ 'open.queueEntry': entry._id, 'open.completedAt': null }] }
+    );
+  }
+
+  /**
+   * Reopens the visit of a patient returned to the queue after leaving
+   */
+  private static async reopenVisit(entry: IQueue): Promise<void> {
+    const visitId = (entry.visit as any)?._id || entry.visit;
+
+    await Visit.updateOne(
+      { _id: visitId },
+      {
+        $set: { currentStage: entry.stage || 'doctor' },
+        $unset: { completedAt: 1, 'stageHistory.$[entry].completedAt': 1 }
+      },
+      { arrayFilters: [{ 'entry.queueEntry': entry._id }] }
+    );
+  }
+
+  /**
+   * Completes a patient's current stage and routes them to the next one
+   * 
+   * @param queueId - Queue entry ID
+   * @param completion - Stage to route to instead of the next planned one, and notes
+   * @param actorId - Staff member completing the stage
+   * @returns Completed entry and the entry now waiting at the next stage
+   * @throws {Error} If queue entry not found or the patient is not in progress
+   */
+  static async completeStage(
+    queueId: string,
+    completion: { nextStage?: VisitStage; notes?: string },
+    actorId?: string
+  ): Promise<StageCompletionResult> {
+    const queueEntry = await this.updateQueueStatus(
+      queueId,
+      { status: 'completed', ...completion },
+      actorId
+    );
+
+    const visitId = (queueEntry.visit as any)?._id || queueEntry.visit;
+    const nextEntry = await Queue.findOne({
+      visit: visitId,
+      status: { $in: QUEUED_STATUSES }
+    });
+
+    return { queueEntry, nextEntry };
+  }
+
+  /**
+   * Moves a visit on from a completed stage
+   * 
+   * The next stage is the planned one after those already entered; a
+   * requested stage is inserted into the plan at that point. The patient
+   * joins the back of the next stage's waiting list at the same clinic with
+   * their ticket and priority. With no stage left the visit is complete.
+   * 
+   * @returns Entry created for the next stage, or null when the visit is complete
+   */
+  private static async routeToNextStage(
+    completedEntry: IQueue,
+    requestedStage: VisitStage | undefined,
+    actorId?: string
+  ): Promise<IQueue | null> {
+    const visitId = (completedEntry.visit as any)?._id || completedEntry.visit;
+    const visit = await Visit.findById(visitId);
+
+    if (!visit) {
+      return null;
+    }
+
+    const now = new Date();
+    const fromStage = completedEntry.stage || 'doctor';
+
+    const historyItem = visit.stageHistory
+      .find(item => String(item.queueEntry) === String(completedEntry._id));
+    if (historyItem) {
+      historyItem.completedAt = now;
+    } else {
+      // Visits checked in before stages existed have no history for their entry
+      visit.stageHistory.push({
+        stage: fromStage,
+        queueEntry: completedEntry._id as Types.ObjectId,
+        enteredAt: completedEntry.checkInTime,
+        completedAt: now
+      });
+    }
+
+    const nextIndex = visit.stageHistory.length;
+    if (requestedStage && visit.plannedStages[nextIndex] !== requestedStage) {
+      visit.plannedStages.splice(nextIndex, 0, requestedStage);
+    }
+
+    const nextStage = visit.plannedStages[nextIndex];
+
+    if (!nextStage) {
+      visit.currentStage = undefined;
+      visit.completedAt = now;
+      await visit.save();
+      return null;
+    }
+
+    const patientId = (completedEntry.patient as any)?._id || completedEntry.patient;
+    const position = await Queue.getNextPosition(nextStage, completedEntry.clinic);
+
+    const nextEntry = await Queue.create({
+      visit: visit._id,
+      patient: patientId,
+      clinic: completedEntry.clinic,
+      stage: nextStage,
+      position,
+      ticketNumber: completedEntry.ticketNumber,
+      status: 'waiting',
+      priority: completedEntry.priority,
+      estimatedWaitTime: 0,
+      checkInTime: now
+    });
+
+    visit.stageHistory.push({
+      stage: nextStage,
+      queueEntry: nextEntry._id as Types.ObjectId,
+      enteredAt: now
+    });
+    visit.currentStage = nextStage;
+    await visit.save();
+
+    await QueueEventService.record(nextEntry, 'checked-in', {
+      actorId,
+      toStatus: 'waiting',
+      occurredAt: now,
+      details: { source: 'stage-routing', fromStage, stage: nextStage, position }
+    });
+
+    await this.refreshQueue();
+
+    QueueStreamService.publishEntry('queue.stage-routed', nextEntry, { fromStage });
+
+    return nextEntry;
+  }
+
   /**
    * Calls the next patient for consultation
    * 
+   * The doctor calls from the queue of a clinic they work at: the one
+   * requested, or their only clinic. The room is taken before a patient is
+   * claimed: a requested room that is in use refuses the call, and without
+   * one the clinic's first free consultation room is picked. The room is
+   * freed again if no patient could be claimed.
+   * 
    * @param callData - Next patient call data
+   * @param actorId - Staff member making the call (defaults to the doctor)
+   * @param clinicIds - Clinics the caller may act at (undefined for every clinic)
    * @returns Called patient queue entry
-   * @throws {Error} If no patients waiting
+   * @throws {Error} If the clinic is not the doctor's or the caller's, no patients waiting, no room is available, or every candidate was claimed concurrently
    */
-  static async callNextPatient(callData: NextPatientCall): Promise<IQueue> {
-    const { doctorId, assignedRoom } = callData;
+  static async callNextPatient(
+    callData: NextPatientCall,
+    actorId?: string,
+    clinicIds?: ClinicScope
+  ): Promise<IQueue> {
+    const { doctorId, roomId, clinicId } = callData;
 
     // Verify doctor exists and is active
     const doctor = await Staff.findOne({
@@ -140,69 +667,627 @@ export class QueueService {
       throw new Error('Doctor not found or inactive');
     }
 
-    // Find the next patient based on priority and position
-    const nextPatient = await Queue.findOne({
-      status: 'waiting'
-    })
-    .sort({ 
-      priority: -1, 
-      position: 1, 
-      checkInTime: 1 
-    })
-    .populate('patient', 'firstName lastName dateOfBirth gender')
-    .populate('visit', 'symptoms triageLevel triageScore vitals');
+    const clinic = await ClinicService.resolveClinic(await ClinicService.getScope(doctorId, doctor.role), clinicId);
+    if (clinicIds && !clinicIds.includes(String(clinic._id))) {
+      throw new Error('Not permitted: no access to this clinic');
+    }
+
+    // Recorded on the entry so the wait time model can learn per staffing level
+    const doctorsOnDuty = await WaitTimeService.countDoctorsOnDuty(clinic._id as Types.ObjectId, doctorId);
 
-    if (!nextPatient) {
+    // Patients whose hold has run out become callable again
+    await this.resumeExpiredHolds();
+
+    // Order the waiting list with aging applied at call time, the same
+    // ordering position recalculation uses, so a long-waiting patient is
+    // called even if positions have not been refreshed since they aged.
+    // Patients transferred to a specialty list are only offered to doctors
+    // of that specialty.
+    const waitingEntries = await Queue.find(
+      {
+        ...stageFilter('doctor'),
+        clinic: clinic._id,
+        status: 'waiting',
+        requiredSpecialty: { $in: doctor.specialty ? [null, doctor.specialty] : [null] }
+      },
+      { priority: 1, checkInTime: 1, position: 1 }
+    ).lean<OrderableQueueEntry[]>();
+
+    // Claim candidates in queue order. Each claim is a conditional update on
+    // `status: 'waiting'`, so a concurrent call can never take the same patient;
+    // when a claim loses we move on to the next candidate.
+    const candidates = waitingEntries
+      .sort(createQueueComparator())
+      .slice(0, CALL_NEXT_CONFIG.maxClaimAttempts);
+
+    if (candidates.length === 0) {
       throw new Error('No patients waiting in queue');
     }
 
-    // Update the queue entry
-    nextPatient.status = 'in-progress';
-    nextPatient.doctor = doctorId as any;
-    nextPatient.calledTime = new Date();
-    nextPatient.consultationStartTime = new Date();
-    
-    if (assignedRoom) {
-      nextPatient.assignedRoom = assignedRoom;
+    const room = await RoomService.reserveRoom(clinic._id as Types.ObjectId, roomId, doctorId);
+
+    try {
+      const claimedPatient = await this.claimCandidate(candidates, { doctorId, doctorsOnDuty, room }, actorId);
+
+      if (claimedPatient) {
+        return claimedPatient;
+      }
+    } catch (error) {
+      if (room) {
+        await RoomService.releaseRoom(room._id as Types.ObjectId);
+      }
+      throw error;
+    }
+
+    if (room) {
+      await RoomService.releaseRoom(room._id as Types.ObjectId);
+    }
+
+    throw new Error('Queue conflict: waiting patients were claimed by other doctors, please retry');
+  }
+
+  /**
+   * Calls the next patient waiting at a stage
+   * 
+   * The doctor stage is called as by call-next, for the given doctor or the
+   * caller. Other stations have no doctor or room; whoever calls is recorded
+   * in the event log. Patients are called from one clinic's queue: the one
+   * requested, or the caller's only clinic.
+   * 
+   * @param stage - Stage to call from
+   * @param callData - Doctor and room, used for the doctor stage only, and clinic
+   * @param staffId - Staff member making the call
+   * @param staffRole - Role of the staff member
+   * @param clinicIds - Clinics the caller may act at (undefined for every clinic)
+   * @returns Called patient queue entry
+   * @throws {Error} If the role may not serve the stage or the clinic is out of scope, nobody is waiting, or every candidate was claimed concurrently
+   */
+  static async callNextAtStage(
+    stage: VisitStage,
+    callData: Partial<NextPatientCall>,
+    staffId: string,
+    staffRole: string,
+    clinicIds?: ClinicScope
+  ): Promise<IQueue> {
+    if (!STAGE_ROLES[stage].includes(staffRole)) {
+      throw new Error(`Not permitted: ${staffRole} staff cannot call patients at the ${stage} stage`);
+    }
+
+    if (stage === 'doctor') {
+      return this.callNextPatient(
+        { doctorId: callData.doctorId || staffId, roomId: callData.roomId, clinicId: callData.clinicId },
+        staffId,
+        clinicIds
+      );
+    }
+
+    const clinic = await ClinicService.resolveClinic(clinicIds, callData.clinicId);
+
+    await this.resumeExpiredHolds();
+
+    const waitingEntries = await Queue.find(
+      { ...stageFilter(stage), clinic: clinic._id, status: 'waiting' },
+      { priority: 1, checkInTime: 1, position: 1 }
+    ).lean<OrderableQueueEntry[]>();
+
+    const candidates = waitingEntries
+      .sort(createQueueComparator())
+      .slice(0, CALL_NEXT_CONFIG.maxClaimAttempts);
+
+    if (candidates.length === 0) {
+      throw new Error(`No patients waiting at the ${stage} stage`);
     }
 
-    await nextPatient.save();
+    const claimedPatient = await this.claimCandidate(candidates, { room: null }, staffId);
 
-    // Recalculate positions for remaining waiting patients
-    await Queue.recalculatePositions();
+    if (!claimedPatient) {
+      throw new Error('Queue conflict: waiting patients were claimed by other staff, please retry');
+    }
 
-    return nextPatient;
+    return claimedPatient;
+  }
+
+  /**
+   * Claims the first candidate that is still waiting
+   * 
+   * @returns Called patient, or null if every candidate was claimed concurrently
+   */
+  private static async claimCandidate(
+    candidates: OrderableQueueEntry[],
+    claim: CallClaim,
+    actorId?: string
+  ): Promise<IQueue | null> {
+    const { doctorId, doctorsOnDuty, room } = claim;
+    const assignedRoom = room ? room.name : undefined;
+
+    for (const candidate of candidates) {
+      const calledTime = new Date();
+
+      const claimedPatient = await Queue.findOneAndUpdate(
+        { _id: candidate._id, status: 'waiting' },
+        [
+          {
+            $set: {
+              status: 'in-progress',
+              calledTime,
+              consultationStartTime: calledTime,
+              // Minutes since check-in, less any time spent on hold. Kept from
+              // the first call when a patient was sent back to the queue.
+              actualWaitTime: {
+                $ifNull: [
+                  '$actualWaitTime',
+                  {
+                    $max: [
+                      {
+                        $subtract: [
+                          { $round: [{ $divide: [{ $subtract: [calledTime, '$checkInTime'] }, 60000] }, 0] },
+                          { $ifNull: ['$totalHoldMinutes', 0] }
+                        ]
+                      },
+                      0
+                    ]
+                  }
+                ]
+              },
+              ...(doctorId && {
+                doctor: new Types.ObjectId(doctorId),
+                consultationSegments: {
+                  $concatArrays: [
+                    { $ifNull: ['$consultationSegments', []] },
+                    [{
+                      doctor: new Types.ObjectId(doctorId),
+                      startedAt: calledTime,
+                      ...(assignedRoom && { room: { $literal: assignedRoom } })
+                    }]
+                  ]
+                },
+                doctorsOnDutyAtCall: doctorsOnDuty
+              }),
+              callAttempts: { $add: [{ $ifNull: ['$callAttempts', 0] }, 1] },
+              lastCallAttemptAt: calledTime,
+              ...(room && { room: room._id, assignedRoom: { $literal: assignedRoom } })
+            }
+          }
+        ],
+        { new: true }
+      )
+      .populate('patient', 'firstName lastName dateOfBirth gender')
+      .populate('visit', 'symptoms triageLevel triageScore vitals');
+
+      if (!claimedPatient) {
+        continue; // Claimed by another caller in the meantime
+      }
+
+      await QueueEventService.record(claimedPatient, 'called', {
+        actorId: actorId || doctorId,
+        fromStatus: 'waiting',
+        toStatus: 'in-progress',
+        occurredAt: calledTime,
+        details: {
+          ...(doctorId && { doctorId }),
+          stage: claimedPatient.stage,
+          position: claimedPatient.position
+        }
+      });
+
+      if (room) {
+        await RoomService.assignOccupant(room._id as Types.ObjectId, claimedPatient._id as Types.ObjectId);
+
+        await QueueEventService.record(claimedPatient, 'room-assigned', {
+          actorId: actorId || doctorId,
+          occurredAt: calledTime,
+          details: { room: room.name, roomId: String(room._id) }
+        });
+      }
+
+      // Recalculate positions and estimates for remaining waiting patients
+      await this.refreshQueue();
+
+      QueueStreamService.publishEntry('queue.called', claimedPatient);
+
+      NotificationService.dispatch(() => NotificationService.notifyCalled(claimedPatient));
+
+      return claimedPatient;
+    }
+
+    return null;
+  }
+
+  /**
+   * Records that a called patient did not answer
+   * 
+   * The patient goes back to the waiting list at their original place, or
+   * is marked left without being seen once they have missed
+   * QUEUE_MAX_MISSED_CALLS calls.
+   * 
+   * @param queueId - Queue entry ID
+   * @param actorId - Staff member recording the missed call
+   * @param notes - Optional notes
+   * @returns Updated entry and the outcome applied
+   * @throws {Error} If queue entry not found or the patient is not currently called
+   */
+  static async recordMissedCall(
+    queueId: string,
+    actorId?: string,
+    notes?: string
+  ): Promise<MissedCallResult> {
+    const queueEntry = await Queue.findById(queueId);
+
+    if (!queueEntry) {
+      throw new Error('Queue entry not found');
+    }
+
+    if (queueEntry.status !== 'in-progress') {
+      throw new Error(`Invalid missed call: patient is ${queueEntry.status}, not called`);
+    }
+
+    const missedCalls = (queueEntry.missedCalls || 0) + 1;
+    const maxMissedCalls = CALL_NEXT_CONFIG.maxMissedCalls;
+    const outcome: MissedCallResult['outcome'] = missedCalls >= maxMissedCalls
+      ? 'left-without-being-seen'
+      : 'returned-to-waiting';
+    const now = new Date();
+
+    // Returned patients keep their check-in time, and so their place in the queue
+    // The consultation opened by the unanswered call never happened
+    const segments = segmentsOf(queueEntry).filter(segment => segment.endedAt);
+    const hasBeenSeen = segments.length > 0;
+
+    const update = outcome === 'left-without-being-seen'
+      ? { $set: { status: 'left-without-being-seen', missedCalls, consultationSegments: segments, ...(notes && { notes }) } }
+      : {
+          $set: { status: 'waiting', missedCalls, consultationSegments: segments, ...(notes && { notes }) },
+          $unset: {
+            doctor: 1,
+            room: 1,
+            assignedRoom: 1,
+            consultationStartTime: 1,
+            ...(!hasBeenSeen && { actualWaitTime: 1 })
+          }
+        };
+
+    const updatedEntry = await Queue.findOneAndUpdate(
+      { _id: queueEntry._id, status: 'in-progress' },
+      update,
+      { new: true }
+    );
+
+    if (!updatedEntry) {
+      throw new Error('Queue conflict: entry changed while recording the missed call, please retry');
+    }
+
+    await RoomService.releaseForEntry(updatedEntry._id as Types.ObjectId);
+
+    if (outcome === 'left-without-being-seen') {
+      await this.endVisit(updatedEntry, now);
+    }
+
+    await QueueEventService.record(updatedEntry, 'missed-call', {
+      actorId,
+      occurredAt: now,
+      details: {
+        missedCalls,
+        maxMissedCalls,
+        doctorId: queueEntry.doctor ? String(queueEntry.doctor) : undefined,
+        ...(notes && { notes })
+      }
+    });
+
+    await QueueEventService.record(updatedEntry, outcome, {
+      actorId,
+      fromStatus: 'in-progress',
+      toStatus: updatedEntry.status,
+      occurredAt: now
+    });
+
+    if (outcome === 'returned-to-waiting') {
+      await this.refreshQueue();
+    }
+
+    QueueStreamService.publishEntry('queue.missed-call', updatedEntry, {
+      missedCalls,
+      maxMissedCalls,
+      outcome
+    });
+
+    return { queueEntry: updatedEntry, missedCalls, maxMissedCalls, outcome };
+  }
+
+  /**
+   * Transfers an in-progress patient to another doctor, room or specialty list
+   * 
+   * Closes the current doctor's consultation segment and records the handoff.
+   * A doctor or room transfer keeps the patient in consultation; a specialty
+   * transfer sends them back to the waiting list at their original place,
+   * where only doctors of that specialty can call them. Patients stay at
+   * their clinic: target doctors, rooms and specialties must be there.
+   * 
+   * @param queueId - Queue entry ID
+   * @param transfer - Target doctor, room or specialty and reason
+   * @param actorId - Staff member performing the transfer
+   * @returns Updated queue entry
+   * @throws {Error} If entry not found, not in consultation, or the target is invalid
+   */
+  static async transferPatient(
+    queueId: string,
+    transfer: TransferRequest,
+    actorId?: string
+  ): Promise<IQueue> {
+    const { toDoctorId, toRoomId, toSpecialty, reason } = transfer;
+
+    if (!toDoctorId && !toRoomId && !toSpecialty) {
+      throw new Error('Invalid transfer: a target doctor, room or specialty is required');
+    }
+
+    if (toSpecialty && (toDoctorId || toRoomId)) {
+      throw new Error('Invalid transfer: a specialty transfer cannot also name a doctor or room');
+    }
+
+    const queueEntry = await Queue.findById(queueId);
+
+    if (!queueEntry) {
+      throw new Error('Queue entry not found');
+    }
+
+    if (queueEntry.status !== 'in-progress') {
+      throw new Error(`Cannot transfer: patient is ${queueEntry.status}, not in consultation`);
+    }
+
+    if (toDoctorId) {
+      const targetDoctor = await Staff.findOne({ _id: toDoctorId, role: 'doctor', isActive: true });
+      if (!targetDoctor) {
+        throw new Error('Target doctor not found or inactive');
+      }
+
+      if (!ClinicService.worksAt(targetDoctor, queueEntry.clinic)) {
+        throw new Error('Invalid transfer: target doctor does not work at this clinic');
+      }
+
+      if (String(queueEntry.doctor) === toDoctorId && (!toRoomId || toRoomId === String(queueEntry.room))) {
+        throw new Error('Invalid transfer: patient is already with this doctor');
+      }
+    }
+
+    const changesRoom = !!toRoomId && toRoomId !== String(queueEntry.room);
+    if (toRoomId && !changesRoom && !toDoctorId) {
+      throw new Error('Invalid transfer: patient is already in this room');
+    }
+
+    if (toSpecialty) {
+      const specialtyAvailable = await Staff.exists({
+        role: 'doctor',
+        isActive: true,
+        specialty: toSpecialty,
+        clinics: queueEntry.clinic
+      });
+      if (!specialtyAvailable) {
+        throw new Error(`Invalid transfer: no active doctor with specialty ${toSpecialty} at this clinic`);
+      }
+    }
+
+    // Take the new room before moving the patient, the transfer is refused if it is in use
+    const newRoom = changesRoom
+      ? await RoomService.reserveRoom(
+          queueEntry.clinic,
+          toRoomId,
+          toDoctorId || queueEntry.doctor,
+          queueEntry._id as Types.ObjectId
+        )
+      : null;
+
+    const now = new Date();
+    const segments = closeOpenSegments(segmentsOf(queueEntry), now);
+    const handoff = {
+      fromDoctor: queueEntry.doctor,
+      toDoctor: toDoctorId ? new Types.ObjectId(toDoctorId) : undefined,
+      fromRoom: queueEntry.assignedRoom,
+      toRoom: newRoom ? newRoom.name : undefined,
+      toSpecialty,
+      reason,
+      transferredBy: actorId ? new Types.ObjectId(actorId) : undefined,
+      transferredAt: now
+    };
+
+    let update;
+    if (toSpecialty) {
+      update = {
+        $set: { status: 'waiting', requiredSpecialty: toSpecialty, consultationSegments: segments },
+        $unset: { doctor: 1, room: 1, assignedRoom: 1, consultationStartTime: 1 },
+        $push: { handoffs: handoff }
+      };
+    } else {
+      const doctor = handoff.toDoctor || queueEntry.doctor;
+      const room = newRoom ? newRoom.name : queueEntry.assignedRoom;
+      segments.push({ doctor, room, startedAt: now });
+
+      update = {
+        $set: {
+          consultationSegments: segments,
+          ...(doctor && { doctor }),
+          ...(newRoom && { room: newRoom._id, assignedRoom: newRoom.name })
+        },
+        $push: { handoffs: handoff }
+      };
+    }
+
+    const transferredEntry = await Queue.findOneAndUpdate(
+      { _id: queueEntry._id, status: 'in-progress' },
+      update,
+      { new: true }
+    )
+    .populate('patient', 'firstName lastName dateOfBirth gender')
+    .populate('doctor', 'firstName lastName specialty');
+
+    if (!transferredEntry) {
+      if (newRoom) {
+        await RoomService.releaseRoom(newRoom._id as Types.ObjectId);
+      }
+      throw new Error('Queue conflict: entry changed during the transfer, please retry');
+    }
+
+    if (toSpecialty) {
+      await RoomService.releaseForEntry(queueEntry._id as Types.ObjectId);
+    } else if (newRoom && queueEntry.room) {
+      await RoomService.releaseRoom(queueEntry.room);
+    } else if (toDoctorId) {
+      await RoomService.handOver(queueEntry._id as Types.ObjectId, new Types.ObjectId(toDoctorId));
+    }
+
+    await QueueEventService.record(transferredEntry, 'transferred', {
+      actorId,
+      fromStatus: 'in-progress',
+      toStatus: transferredEntry.status,
+      occurredAt: now,
+      details: {
+        fromDoctorId: queueEntry.doctor ? String(queueEntry.doctor) : undefined,
+        toDoctorId,
+        fromRoom: queueEntry.assignedRoom,
+        toRoom: newRoom ? newRoom.name : undefined,
+        toSpecialty,
+        reason
+      }
+    });
+
+    if (toSpecialty) {
+      await this.refreshQueue();
+    }
+
+    QueueStreamService.publishEntry('queue.transferred', transferredEntry, {
+      fromDoctorId: queueEntry.doctor ? String(queueEntry.doctor) : undefined,
+      toSpecialty
+    });
+
+    return transferredEntry;
+  }
+
+  /**
+   * Returns patients whose automatic resume time has passed to the waiting list
+   * 
+   * Runs lazily before the queue is read or called. The hold is treated as
+   * ending at its scheduled resume time, however late this runs.
+   * 
+   * @returns Number of patients resumed
+   */
+  static async resumeExpiredHolds(): Promise<number> {
+    const now = new Date();
+    const expired = await Queue.find(
+      { status: 'on-hold', holdUntil: { $lte: now } },
+      { _id: 1 }
+    );
+
+    let resumedCount = 0;
+
+    for (const { _id } of expired) {
+      const resumed = await Queue.findOneAndUpdate(
+        { _id, status: 'on-hold' },
+        [
+          {
+            $set: {
+              status: 'waiting',
+              totalHoldMinutes: {
+                $add: [
+                  { $ifNull: ['$totalHoldMinutes', 0] },
+                  {
+                    $max: [
+                      { $round: [{ $divide: [{ $subtract: ['$holdUntil', { $ifNull: ['$holdStartedAt', '$holdUntil'] }] }, 60000] }, 0] },
+                      0
+                    ]
+                  }
+                ]
+              }
+            }
+          },
+          { $unset: ['holdReason', 'holdStartedAt', 'holdUntil'] }
+        ],
+        { new: false } // Keep the hold details for the event log
+      );
+
+      if (!resumed) {
+        continue; // Resumed by staff or another reader in the meantime
+      }
+
+      resumedCount++;
+
+      await QueueEventService.record(resumed, 'resumed', {
+        fromStatus: 'on-hold',
+        toStatus: 'waiting',
+        occurredAt: resumed.holdUntil,
+        details: { automatic: true, holdReason: resumed.holdReason }
+      });
+
+      resumed.status = 'waiting';
+      QueueStreamService.publishEntry('queue.status-changed', resumed, {
+        previousStatus: 'on-hold'
+      });
+    }
+
+    if (resumedCount > 0) {
+      await this.refreshQueue();
+    }
+
+    return resumedCount;
   }
 
   /**
    * Recalculates queue positions based on priority and check-in time
+   *
+   * The result is announced per clinic, with that clinic's own counts.
    * 
-   * @returns Recalculation result
+   * @returns Recalculation result with the number of entries that moved
    */
   static async recalculatePositions(): Promise<{
     success: boolean;
     message: string;
     updatedCount: number;
   }> {
-    await Queue.recalculatePositions();
+    const changes = await this.refreshQueue();
 
-    const waitingCount = await Queue.countDocuments({ status: 'waiting' });
+    const waitingByClinic = await Queue.aggregate<{ _id: Types.ObjectId; count: number }>([
+      { $match: { status: 'waiting' } },
+      { $group: { _id: '$clinic', count: { $sum: 1 } } }
+    ]);
+
+    const countsByClinic = new Map<string, { waitingCount: number; changedCount: number }>();
+    const countsOf = (clinicId: string) => {
+      let counts = countsByClinic.get(clinicId);
+      if (!counts) {
+        counts = { waitingCount: 0, changedCount: 0 };
+        countsByClinic.set(clinicId, counts);
+      }
+      return counts;
+    };
+
+    for (const { _id, count } of waitingByClinic) {
+      countsOf(String(_id)).waitingCount = count;
+    }
+    for (const change of changes) {
+      countsOf(change.clinicId).changedCount++;
+    }
+
+    for (const [clinicId, counts] of countsByClinic) {
+      QueueStreamService.publish('queue.positions-recalculated', { clinicId, ...counts });
+    }
+
+    const waitingCount = waitingByClinic.reduce((total, { count }) => total + count, 0);
 
     return {
       success: true,
-      message: `Queue positions recalculated for ${waitingCount} waiting patients`,
-      updatedCount: waitingCount
+      message: `Queue positions recalculated for ${waitingCount} waiting patients (${changes.length} moved)`,
+      updatedCount: changes.length
     };
   }
 
   /**
    * Gets comprehensive queue statistics
    * 
+   * @param clinicIds - Clinics to include (undefined for every clinic)
    * @returns Queue statistics
    */
-  static async getQueueStatistics(): Promise<QueueStatistics> {
+  static async getQueueStatistics(clinicIds?: ClinicScope): Promise<QueueStatistics> {
+    const inClinics = clinicFilter(clinicIds);
+
     // Get basic queue stats
-    const queueStats = await Queue.getQueueStats();
+    const queueStats = await Queue.getQueueStats(clinicIds);
     const baseStats = queueStats[0] || { total: 0, byStatus: [] };
 
     // Get today's visits count
@@ -210,6 +1295,7 @@ export class QueueService {
     today.setHours(0, 0, 0, 0);
 
     const visitsToday = await Visit.countDocuments({
+      ...inClinics,
       checkInTime: { $gte: today }
     });
 
@@ -217,6 +1303,7 @@ export class QueueService {
     const triageStats = await Visit.aggregate([
       {
         $match: {
+          ...inClinics,
           checkInTime: { $gte: today }
         }
       },
@@ -232,6 +1319,7 @@ export class QueueService {
     const waitTimeStats = await Queue.aggregate([
       {
         $match: {
+          ...inClinics,
           status: 'completed',
           actualWaitTime: { $exists: true, $gt: 0 }
         }
@@ -247,18 +1335,192 @@ export class QueueService {
 
     const waitTimeResult = waitTimeStats[0] || { averageWaitTime: 0, longestWaitTime: 0 };
 
+    // Left-without-being-seen rate among today's entries that reached an outcome
+    const [closedToday, lwbsToday] = await Promise.all([
+      Queue.countDocuments({
+        ...inClinics,
+        checkInTime: { $gte: today },
+        status: { $in: ['completed', 'cancelled', 'left-without-being-seen'] }
+      }),
+      Queue.countDocuments({
+        ...inClinics,
+        checkInTime: { $gte: today },
+        status: 'left-without-being-seen'
+      })
+    ]);
+
     return {
       ...baseStats,
       visitsToday,
       triageStats,
       averageWaitTime: waitTimeResult.averageWaitTime,
-      longestWaitTime: waitTimeResult.longestWaitTime
+      longestWaitTime: waitTimeResult.longestWaitTime,
+      leftWithoutBeingSeen: {
+        today: lwbsToday,
+        rate: closedToday > 0 ? Math.round((lwbsToday / closedToday) * 1000) / 10 : 0
+      },
+      byStage: await this.getStageStatistics(today, clinicIds),
+      slaBreaches: await QueueAlertService.getBreachStatistics(today, clinicIds)
     };
   }
 
   /**
-   * Gets doctor-specific queue
+   * Gets waiting and service figures for each stage
    * 
+   * @param today - Start of the current day
+   * @param clinicIds - Clinics to include (undefined for every clinic)
+   * @returns Figures for every stage, in route order
+   */
+  private static async getStageStatistics(today: Date, clinicIds?: ClinicScope): Promise<StageStatistics[]> {
+    const now = new Date();
+
+    const rows = await Queue.aggregate([
+      {
+        $match: {
+          ...clinicFilter(clinicIds),
+          $or: [
+            { status: { $in: [...QUEUED_STATUSES, 'in-progress'] } },
+            { calledTime: { $gte: today } },
+            { consultationEndTime: { $gte: today } }
+          ]
+        }
+      },
+      {
+        $group: {
+          _id: { $ifNull: ['$stage', 'doctor'] },
+          waiting: { $sum: { $cond: [{ $in: ['$status', QUEUED_STATUSES] }, 1, 0] } },
+          inProgress: { $sum: { $cond: [{ $eq: ['$status', 'in-progress'] }, 1, 0] } },
+          completedToday: {
+            $sum: {
+              $cond: [
+                { $and: [{ $eq: ['$status', 'completed'] }, { $gte: ['$consultationEndTime', today] }] },
+                1,
+                0
+              ]
+            }
+          },
+          averageWaitTime: {
+            $avg: { $cond: [{ $gte: ['$calledTime', today] }, '$actualWaitTime', null] }
+          },
+          oldestWaitingCheckIn: {
+            $min: { $cond: [{ $eq: ['$status', 'waiting'] }, '$checkInTime', null] }
+          }
+        }
+      }
+    ]);
+
+    const byStage = new Map(rows.map(row => [row._id as VisitStage, row]));
+
+    return VISIT_STAGES.map(stage => {
+      const row = byStage.get(stage);
+      return {
+        stage,
+        waiting: row?.waiting || 0,
+        inProgress: row?.inProgress || 0,
+        completedToday: row?.completedToday || 0,
+        averageWaitTime: row?.averageWaitTime ? Math.round(row.averageWaitTime) : 0,
+        longestCurrentWait: row?.oldestWaitingCheckIn ? minutesBetween(row.oldestWaitingCheckIn, now) : 0
+      };
+    });
+  }
+
+  /**
+   * Gets arrivals, calls, completions and waits over time
+   * 
+   * Arrivals come from visit check-ins. Calls, completions and waits come
+   * from the doctor-stage queue entries, live and archived; door-to-doctor
+   * time runs from check-in to the first doctor call, across every earlier
+   * stage.
+   * 
+   * @param from - Start of the period
+   * @param to - End of the period (exclusive)
+   * @param bucket - Hourly or daily buckets
+   * @param clinicIds - Clinics to include (undefined for every clinic)
+   * @returns Figures per bucket and per triage level, with totals
+   * @throws {Error} If the period is reversed or too long for the bucket size
+   */
+  static async getQueueAnalytics(
+    from: Date,
+    to: Date,
+    bucket: AnalyticsBucket,
+    clinicIds?: ClinicScope
+  ): Promise<QueueAnalytics> {
+    if (from >= to) {
+      throw new Error('Invalid analytics period: from must be before to');
+    }
+
+    const maxDays = ANALYTICS_CONFIG.maxDays[bucket];
+    if (to.getTime() - from.getTime() > maxDays * 24 * 60 * 60 * 1000) {
+      throw new Error(`Invalid analytics period: ${bucket} buckets cover at most ${maxDays} days`);
+    }
+
+    const inPeriod = { $gte: from, $lt: to };
+
+    // Closed-out days are in the queue history
+    const inClinics = clinicFilter(clinicIds);
+    const doctorFilter = {
+      ...stageFilter('doctor'),
+      ...inClinics,
+      $or: [
+        { checkInTime: inPeriod },
+        { calledTime: inPeriod },
+        { consultationEndTime: inPeriod }
+      ]
+    };
+    const doctorFields = { visit: 1, priority: 1, status: 1, calledTime: 1, consultationEndTime: 1, actualWaitTime: 1 };
+
+    const [visits, liveEntries, archivedEntries] = await Promise.all([
+      Visit.find({ ...inClinics, checkInTime: inPeriod }, { checkInTime: 1, triageLevel: 1 }).lean(),
+      Queue.find(doctorFilter, doctorFields).lean(),
+      QueueHistory.find(doctorFilter, doctorFields).lean()
+    ]);
+
+    const doctorEntries = [...liveEntries, ...archivedEntries]
+      .sort((a, b) => (a.calledTime?.getTime() ?? 0) - (b.calledTime?.getTime() ?? 0));
+
+    // First doctor call of each visit (a visit can be routed back to the doctor)
+    const firstCalls = new Map<string, { calledTime: Date; actualWaitTime?: number }>();
+    const calls: AnalyticsStep[] = [];
+    const completions: AnalyticsStep[] = [];
+
+    for (const entry of doctorEntries) {
+      if (entry.calledTime) {
+        calls.push({ at: entry.calledTime, triageLevel: entry.priority });
+
+        const visitId = entry.visit?.toString();
+        if (visitId && !firstCalls.has(visitId)) {
+          firstCalls.set(visitId, { calledTime: entry.calledTime, actualWaitTime: entry.actualWaitTime });
+        }
+      }
+
+      if (entry.status === 'completed' && entry.consultationEndTime) {
+        completions.push({ at: entry.consultationEndTime, triageLevel: entry.priority });
+      }
+    }
+
+    const arrivals: AnalyticsArrival[] = visits.map(visit => {
+      const firstCall = firstCalls.get(visit._id.toString());
+
+      return {
+        arrivedAt: visit.checkInTime,
+        triageLevel: visit.triageLevel,
+        ...(firstCall && {
+          waitMinutes: firstCall.actualWaitTime ?? minutesBetween(visit.checkInTime, firstCall.calledTime),
+          doorToDoctorMinutes: minutesBetween(visit.checkInTime, firstCall.calledTime)
+        })
+      };
+    });
+
+    return buildQueueAnalytics({ arrivals, calls, completions }, { from, to, bucket });
+  }
+
+  /**
+   * Gets doctor-specific queue
+   *
+   * Patients in consultation come first, then waiting patients in the order
+   * call-next would take them (aged priority, then check-in time). Priorities
+   * are strings, so they are ranked here rather than sorted by the database.
+   *
    * @param doctorId - Doctor ID
    * @returns Doctor's current queue
    */
@@ -268,52 +1530,89 @@ export class QueueService {
       status: { $in: ['waiting', 'in-progress'] }
     })
     .populate('patient', 'firstName lastName dateOfBirth gender')
-    .populate('visit', 'symptoms triageLevel triageScore vitals')
-    .sort({ 
-      status: -1, // in-progress first
-      priority: -1,
-      position: 1 
-    });
+    .populate('visit', 'symptoms triageLevel triageScore vitals');
 
-    return doctorQueue;
+    const compareEntries = createQueueComparator();
+    const inProgressFirst = (entry: IQueue) => (entry.status === 'in-progress' ? 0 : 1);
+
+    return doctorQueue.sort((a, b) =>
+      inProgressFirst(a) - inProgressFirst(b) || compareEntries(a, b)
+    );
   }
 
   /**
-   * Adds a patient to the queue
+   * Adds a patient to the queue of their visit's clinic
+   *
+   * The patient is placed by priority like a patient checking in, and the
+   * patients now behind them are moved back.
    * 
    * @param visitId - Visit ID
    * @param patientId - Patient ID
    * @param priority - Priority level
    * @param estimatedWaitTime - Estimated wait time
+   * @param actorId - Staff member adding the patient
    * @returns Created queue entry
-   * @throws {Error} If visit already in queue
+   * @throws {Error} If visit not found or already in queue
    */
   static async addToQueue(
     visitId: string,
     patientId: string,
     priority: 'high' | 'medium' | 'low',
-    estimatedWaitTime: number
+    estimatedWaitTime: number,
+    actorId?: string
   ): Promise<IQueue> {
-    // Check if visit is already in queue
-    const existingEntry = await Queue.findOne({ visit: visitId });
+    // Check if visit is already in queue (entries of completed stages do not count)
+    const existingEntry = await Queue.findOne({
+      visit: visitId,
+      status: { $in: [...QUEUED_STATUSES, 'in-progress'] }
+    });
     if (existingEntry) {
       throw new Error('Visit already exists in queue');
     }
 
-    const nextPosition = await Queue.getNextPosition();
+    const visit = await Visit.findById(visitId, { clinic: 1 });
+    if (!visit) {
+      throw new Error('Visit not found');
+    }
+
+    // Same ordering as check-in and position recalculation
+    const checkInTime = new Date();
+    const waitingEntries = await Queue.find(
+      { ...stageFilter('doctor'), clinic: visit.clinic, status: { $in: QUEUED_STATUSES } },
+      { priority: 1, checkInTime: 1 }
+    ).lean<OrderableQueueEntry[]>();
+
+    const compareEntries = createQueueComparator(checkInTime);
+    const arrival = { _id: 'arrival', priority, checkInTime };
+    const position = waitingEntries.filter(entry => compareEntries(entry, arrival) < 0).length + 1;
+    const ticketNumber = await TicketService.issueTicket(visit.clinic, priority);
 
     const queueEntry = new Queue({
       visit: visitId,
       patient: patientId,
-      position: nextPosition,
+      clinic: visit.clinic,
+      position,
+      ticketNumber,
       status: 'waiting',
       priority,
       estimatedWaitTime,
-      checkInTime: new Date()
+      checkInTime
     });
 
     await queueEntry.save();
 
+    await QueueEventService.record(queueEntry, 'checked-in', {
+      actorId,
+      toStatus: 'waiting',
+      occurredAt: checkInTime,
+      details: { source: 'staff', priority, position }
+    });
+
+    // Move back the patients now behind the new entry
+    await this.refreshQueue();
+
+    QueueStreamService.publishEntry('queue.added', queueEntry);
+
     return queueEntry;
   }
 
@@ -322,32 +1621,67 @@ export class QueueService {
    * 
    * @param queueId - Queue entry ID
    * @param reason - Reason for removal
+   * @param actorId - Staff member removing the patient
    * @returns Removal result
-   * @throws {Error} If queue entry not found
+   * @throws {Error} If queue entry not found, already finished or changed meanwhile
    */
   static async removeFromQueue(
     queueId: string,
-    reason: string = 'Manual removal'
+    reason: string = 'Manual removal',
+    actorId?: string
   ): Promise<{
     success: boolean;
     message: string;
     removedEntry: IQueue;
   }> {
-    const queueEntry = await Queue.findByIdAndUpdate(
-      queueId,
-      { 
-        status: 'cancelled',
-        notes: reason
+    const previousEntry = await Queue.findById(queueId);
+
+    if (!previousEntry) {
+      throw new Error('Queue entry not found');
+    }
+
+    if (!this.isValidStatusTransition(previousEntry.status, 'cancelled')) {
+      throw new Error(`Invalid status transition from ${previousEntry.status} to cancelled`);
+    }
+
+    const now = new Date();
+    const wasInProgress = previousEntry.status === 'in-progress';
+
+    // Guarded on the status read above, so a patient called meanwhile is not removed
+    const queueEntry = await Queue.findOneAndUpdate(
+      { _id: queueId, status: previousEntry.status },
+      {
+        $set: {
+          status: 'cancelled',
+          notes: reason,
+          ...(wasInProgress && { consultationSegments: closeOpenSegments(segmentsOf(previousEntry), now) })
+        },
+        $unset: { holdUntil: 1, holdStartedAt: 1 }
       },
       { new: true }
     );
 
     if (!queueEntry) {
-      throw new Error('Queue entry not found');
+      throw new Error('Queue conflict: entry changed while removing it, please retry');
+    }
+
+    if (wasInProgress) {
+      await RoomService.releaseForEntry(queueEntry._id as Types.ObjectId);
     }
 
+    await this.endVisit(queueEntry, now);
+
+    await QueueEventService.record(queueEntry, 'cancelled', {
+      actorId,
+      fromStatus: previousEntry.status,
+      toStatus: 'cancelled',
+      details: { reason }
+    });
+
     // Recalculate positions
-    await Queue.recalculatePositions();
+    await this.refreshQueue();
+
+    QueueStreamService.publishEntry('queue.removed', queueEntry, { reason });
 
     return {
       success: true,
@@ -356,6 +1690,69 @@ export class QueueService {
     };
   }
 
+  /**
+   * Recalculates positions and refreshes wait estimates after a queue change
+   * 
+   * Patients pushed further back (e.g. by a higher-priority arrival) are
+   * announced on the queue stream, per clinic, so their displays can be updated, and
+   * patients who moved up to the front are told their turn is near (in the
+   * background).
+   * 
+   * @returns Position changes applied
+   */
+  static async refreshQueue(): Promise<QueuePositionChange[]> {
+    const changes = await Queue.recalculatePositions();
+    await WaitTimeService.refreshWaitingEstimates();
+
+    // One event per clinic, so each is only seen by that clinic's subscribers
+    const movedBackByClinic = new Map<string, QueuePositionChange[]>();
+    for (const change of changes) {
+      if (change.from !== undefined && change.to > change.from) {
+        const movedBack = movedBackByClinic.get(change.clinicId);
+        if (movedBack) {
+          movedBack.push(change);
+        } else {
+          movedBackByClinic.set(change.clinicId, [change]);
+        }
+      }
+    }
+
+    for (const [clinicId, movedBack] of movedBackByClinic) {
+      QueueStreamService.publish('queue.positions-changed', {
+        clinicId,
+        movedBack: movedBack.map(change => ({
+          queueId: change.id,
+          previousPosition: change.from,
+          position: change.to
+        }))
+      });
+    }
+
+    NotificationService.dispatch(() => NotificationService.notifyTurnNear());
+
+    return changes;
+  }
+
+  /**
+   * Drops the unique visit index of databases created before visits had stages
+   *
+   * A visit now has one entry per stage, which the old index refuses, so
+   * routing a patient to a second stage would fail. The plain index is
+   * created in its place. Safe to run on every startup.
+   *
+   * @returns Whether the old index was found and dropped
+   */
+  static async dropLegacyVisitIndex(): Promise<boolean> {
+    const indexes = await Queue.collection.indexes();
+    if (!indexes.some(index => index.name === 'visit_1' && index.unique)) {
+      return false;
+    }
+
+    await Queue.collection.dropIndex('visit_1');
+    await Queue.collection.createIndex({ visit: 1 });
+    return true;
+  }
+
   /**
    * Validates status transitions
    * 
@@ -368,10 +1765,12 @@ export class QueueService {
     toStatus: string
   ): boolean {
     const validTransitions: { [key: string]: string[] } = {
-      'waiting': ['in-progress', 'cancelled'],
-      'in-progress': ['completed', 'cancelled', 'waiting'],
+      'waiting': ['in-progress', 'on-hold', 'cancelled', 'left-without-being-seen'],
+      'on-hold': ['waiting', 'cancelled', 'left-without-being-seen'], // Not callable until resumed
+      'in-progress': ['completed', 'cancelled', 'waiting', 'left-without-being-seen'],
       'completed': [], // No transitions from completed
-      'cancelled': ['waiting'] // Allow re-adding cancelled patients
+      'cancelled': ['waiting'], // Allow re-adding cancelled patients
+      'left-without-being-seen': ['waiting'] // Patient came back
     };
 
     return validTransitions[fromStatus]?.includes(toStatus) || false;
@@ -0,0 +1,278 @@
+// backend/src/services/queueAlert.service.ts
+/**
+ * Queue Alert Service
+ *
+ * Checks waiting patients against the waiting targets for their triage
+ * level and raises alerts when a target is about to be, or has been,
+ * breached. New alerts are stored as in-app notifications, pushed on the
+ * queue stream and passed to registered listeners.
+ */
+
+import { Types } from 'mongoose';
+import Queue, { QUEUED_STATUSES, stageFilter } from '../models/Queue';
+import QueueAlert, { IQueueAlert } from '../models/QueueAlert';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
+import { QueueStreamService } from './queueStream.service';
+import { QueuePriority } from '../utils/queueOrdering';
+import {
+  WaitAlertLevel,
+  WaitAssessment,
+  assessWait,
+  earliestAlertMinutes
+} from '../utils/waitTargets';
+
+/**
+ * Cron schedule of the check of the waiting list against targets
+ */
+export const ALERT_CHECK_SCHEDULE = process.env.SLA_CHECK_SCHEDULE || '* * * * *';
+
+/**
+ * Duplicate key error code: the entry already has an alert of that level
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Listener called for every new alert
+ */
+export type QueueAlertListener = (alert: IQueueAlert) => void | Promise<void>;
+
+/**
+ * Alert list criteria interface
+ */
+export interface AlertCriteria {
+  status?: 'open' | 'active' | 'all';  // open: unacknowledged and unresolved; active: unresolved
+  level?: WaitAlertLevel;
+  clinicIds?: ClinicScope;
+  limit?: number;
+}
+
+/**
+ * Waiting target breach figures
+ */
+export interface BreachStatistics {
+  waitingOverTarget: number;  // Patients still waiting past their target
+  today: number;              // Breaches raised today
+}
+
+/**
+ * Minimal waiting entry shape needed for an alert
+ */
+interface AlertableEntry {
+  _id: Types.ObjectId;
+  visit: Types.ObjectId;
+  patient: Types.ObjectId;
+  clinic: Types.ObjectId;
+  ticketNumber?: string;
+  priority: QueuePriority;
+  checkInTime: Date;
+  totalHoldMinutes?: number;
+}
+
+/**
+ * Queue Alert Service Class
+ *
+ * Encapsulates target checks, alert storage and alert listeners
+ */
+export class QueueAlertService {
+  private static listeners = new Set<QueueAlertListener>();
+
+  /**
+   * Registers a listener for new alerts
+   *
+   * @param listener - Called with each alert as it is raised
+   * @returns Function that removes the listener
+   */
+  static onAlert(listener: QueueAlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Checks the doctor's waiting list against the waiting targets
+   *
+   * Time on hold does not count towards the wait. Alerts of patients who
+   * are no longer in the queue are marked resolved.
+   *
+   * @param now - Time of the check
+   * @returns Alerts raised by this check
+   */
+  static async checkWaitingEntries(now: Date = new Date()): Promise<IQueueAlert[]> {
+    const alertableSince = new Date(now.getTime() - earliestAlertMinutes() * 60000);
+
+    const waitingEntries = await Queue.find(
+      {
+        ...stageFilter('doctor'),
+        status: 'waiting',
+        checkInTime: { $lte: alertableSince }
+      },
+      { visit: 1, patient: 1, clinic: 1, ticketNumber: 1, priority: 1, checkInTime: 1, totalHoldMinutes: 1 }
+    ).lean<AlertableEntry[]>();
+
+    const raised: IQueueAlert[] = [];
+
+    for (const entry of waitingEntries) {
+      const waitedMinutes = Math.max(
+        Math.floor((now.getTime() - entry.checkInTime.getTime()) / 60000) - (entry.totalHoldMinutes || 0),
+        0
+      );
+
+      const assessment = assessWait(entry.priority, waitedMinutes);
+      if (!assessment.level) continue;
+
+      const alert = await this.raise(entry, assessment, now);
+      if (alert) {
+        raised.push(alert);
+      }
+    }
+
+    await this.resolveFinishedAlerts(now);
+
+    return raised;
+  }
+
+  /**
+   * Lists alerts, newest first
+   *
+   * @param criteria - Status, level, clinics and limit
+   * @returns Alerts with patient names
+   */
+  static async getAlerts(criteria: AlertCriteria = {}): Promise<IQueueAlert[]> {
+    const filter: any = { ...clinicFilter(criteria.clinicIds) };
+    const status = criteria.status || 'open';
+
+    if (status !== 'all') filter.resolvedAt = null;
+    if (status === 'open') filter.acknowledgedAt = null;
+    if (criteria.level) filter.level = criteria.level;
+
+    return QueueAlert.find(filter)
+      .populate('patient', 'firstName lastName')
+      .populate('acknowledgedBy', 'firstName lastName')
+      .sort({ triggeredAt: -1 })
+      .limit(criteria.limit || 100);
+  }
+
+  /**
+   * Marks an alert as seen
+   *
+   * @param alertId - Alert ID
+   * @param staffId - Staff member acknowledging
+   * @returns Acknowledged alert
+   * @throws {Error} If not found or already acknowledged
+   */
+  static async acknowledgeAlert(alertId: string, staffId?: string): Promise<IQueueAlert> {
+    const alert = await QueueAlert.findOneAndUpdate(
+      { _id: alertId, acknowledgedAt: null },
+      {
+        $set: {
+          acknowledgedAt: new Date(),
+          ...(staffId && { acknowledgedBy: staffId })
+        }
+      },
+      { new: true }
+    );
+
+    if (alert) {
+      return alert;
+    }
+
+    const existing = await QueueAlert.exists({ _id: alertId });
+    throw new Error(existing ? 'Alert already acknowledged' : 'Alert not found');
+  }
+
+  /**
+   * Counts waiting target breaches
+   *
+   * @param today - Start of the current day
+   * @param clinicIds - Clinics to include (undefined for every clinic)
+   * @returns Breaches still waiting and raised today
+   */
+  static async getBreachStatistics(today: Date, clinicIds?: ClinicScope): Promise<BreachStatistics> {
+    const inClinics = clinicFilter(clinicIds);
+
+    const [waitingOverTarget, breachesToday] = await Promise.all([
+      QueueAlert.countDocuments({ ...inClinics, level: 'breach', resolvedAt: null }),
+      QueueAlert.countDocuments({ ...inClinics, level: 'breach', triggeredAt: { $gte: today } })
+    ]);
+
+    return { waitingOverTarget, today: breachesToday };
+  }
+
+  /**
+   * Stores an alert and notifies the stream and listeners
+   *
+   * @returns New alert, or null if the entry already had one of this level
+   */
+  private static async raise(
+    entry: AlertableEntry,
+    assessment: WaitAssessment,
+    now: Date
+  ): Promise<IQueueAlert | null> {
+    let alert: IQueueAlert;
+
+    try {
+      alert = await QueueAlert.create({
+        queueEntry: entry._id,
+        visit: entry.visit,
+        patient: entry.patient,
+        clinic: entry.clinic,
+        ticketNumber: entry.ticketNumber,
+        priority: entry.priority,
+        level: assessment.level,
+        targetMinutes: assessment.targetMinutes,
+        waitedMinutes: assessment.waitedMinutes,
+        triggeredAt: now
+      });
+    } catch (error: any) {
+      if (error.code === DUPLICATE_KEY_ERROR) return null;
+      throw error;
+    }
+
+    QueueStreamService.publish(
+      assessment.level === 'breach' ? 'queue.sla-breached' : 'queue.sla-warning',
+      {
+        alertId: String(alert._id),
+        queueId: String(entry._id),
+        clinicId: String(entry.clinic),
+        ticketNumber: entry.ticketNumber || null,
+        priority: entry.priority,
+        targetMinutes: assessment.targetMinutes,
+        waitedMinutes: assessment.waitedMinutes
+      }
+    );
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(alert);
+      } catch (error: any) {
+        console.error('❌ Queue alert listener failed:', error.message);
+      }
+    }
+
+    return alert;
+  }
+
+  /**
+   * Resolves the open alerts of patients who have left the waiting list
+   */
+  private static async resolveFinishedAlerts(now: Date): Promise<void> {
+    const alertedEntries = await QueueAlert.distinct('queueEntry', { resolvedAt: null });
+    if (alertedEntries.length === 0) return;
+
+    const stillQueued = await Queue.distinct('_id', {
+      _id: { $in: alertedEntries },
+      status: { $in: QUEUED_STATUSES }
+    });
+
+    const queued = new Set(stillQueued.map(id => String(id)));
+    const finished = alertedEntries.filter(id => !queued.has(String(id)));
+
+    if (finished.length > 0) {
+      await QueueAlert.updateMany(
+        { queueEntry: { $in: finished }, resolvedAt: null },
+        { $set: { resolvedAt: now } }
+      );
+    }
+  }
+}
\ No newline at end of file
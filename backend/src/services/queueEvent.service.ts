@@ -0,0 +1,239 @@
+// backend/src/services/queueEvent.service.ts
+/**
+ * Queue Event Service
+ *
+ * Records queue events with the acting staff member and reconstructs
+ * the timeline of a queue entry from the event log.
+ */
+
+import { ClientSession, Types } from 'mongoose';
+import Queue, { IQueue } from '../models/Queue';
+import QueueHistory from '../models/QueueHistory';
+import QueueEvent, { IQueueEvent, QueueEventType } from '../models/QueueEvent';
+
+/**
+ * Options for recording a queue event
+ */
+export interface RecordEventOptions {
+  actorId?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  details?: Record<string, any>;
+  occurredAt?: Date;
+  session?: ClientSession;
+}
+
+/**
+ * Single step in a queue entry's timeline
+ */
+export interface TimelineEvent {
+  type: QueueEventType;
+  occurredAt: Date;
+  actor: {
+    id: string;
+    name: string;
+    role: string;
+  } | null;
+  fromStatus?: string;
+  toStatus?: string;
+  details?: Record<string, any>;
+  derived: boolean; // Reconstructed from entry timestamps, not logged
+}
+
+/**
+ * Queue entry timeline interface
+ */
+export interface QueueTimeline {
+  queueId: string;
+  visitId: string;
+  patientId: string;
+  status: string;
+  priority: string;
+  events: TimelineEvent[];
+  summary: {
+    waitTime?: number;
+    consultationDuration?: number;
+    timesReturnedToWaiting: number;
+    totalMinutes: number;
+    consultationByDoctor: Array<{
+      doctorId: string | null;
+      minutes: number;
+      ongoing: boolean;
+    }>;
+  };
+}
+
+/**
+ * Queue Event Service Class
+ *
+ * Encapsulates event recording and timeline reconstruction
+ */
+export class QueueEventService {
+  /**
+   * Appends an event to the log of a queue entry
+   *
+   * @param entry - Queue entry the event belongs to
+   * @param type - Event type
+   * @param options - Acting staff member, status change and details
+   * @returns Recorded event
+   */
+  static async record(
+    entry: Pick<IQueue, '_id' | 'visit' | 'patient'>,
+    type: QueueEventType,
+    options: RecordEventOptions = {}
+  ): Promise<IQueueEvent> {
+    const { actorId, fromStatus, toStatus, details, occurredAt, session } = options;
+
+    const event = new QueueEvent({
+      queueEntry: entry._id,
+      visit: refId(entry.visit),
+      patient: refId(entry.patient),
+      type,
+      actor: actorId,
+      fromStatus,
+      toStatus,
+      details,
+      occurredAt: occurredAt || new Date()
+    });
+
+    await event.save({ session });
+
+    return event;
+  }
+
+  /**
+   * Reconstructs the full journey of a queue entry
+   *
+   * Entries created before the event log existed have their main steps
+   * derived from the timestamps stored on the entry. Entries of closed-out
+   * days are read from the queue history.
+   *
+   * @param queueId - Queue entry ID
+   * @returns Ordered timeline with summary durations
+   * @throws {Error} If queue entry not found
+   */
+  static async getTimeline(queueId: string): Promise<QueueTimeline> {
+    const queueEntry = await Queue.findById(queueId) || await QueueHistory.findById(queueId);
+
+    if (!queueEntry) {
+      throw new Error('Queue entry not found');
+    }
+
+    const loggedEvents = await QueueEvent.findTimeline(queueEntry._id as Types.ObjectId);
+
+    const events: TimelineEvent[] = loggedEvents.length > 0
+      ? loggedEvents.map(toTimelineEvent)
+      : deriveEvents(queueEntry);
+
+    const lastEventTime = events.length > 0
+      ? events[events.length - 1].occurredAt
+      : queueEntry.checkInTime;
+    const isActive = ['waiting', 'in-progress'].includes(queueEntry.status);
+    const endTime = isActive ? new Date() : new Date(lastEventTime);
+
+    return {
+      queueId: String(queueEntry._id),
+      visitId: String(queueEntry.visit),
+      patientId: String(queueEntry.patient),
+      status: queueEntry.status,
+      priority: queueEntry.priority,
+      events,
+      summary: {
+        waitTime: queueEntry.actualWaitTime,
+        consultationDuration: queueEntry.consultationDuration,
+        timesReturnedToWaiting: events.filter(event => event.type === 'returned-to-waiting').length,
+        totalMinutes: Math.max(
+          Math.round((endTime.getTime() - new Date(queueEntry.checkInTime).getTime()) / 60000),
+          0
+        ),
+        consultationByDoctor: consultationByDoctor(queueEntry)
+      }
+    };
+  }
+}
+
+/**
+ * Extracts the ObjectId from a possibly populated reference
+ */
+const refId = (value: any): Types.ObjectId => (value && value._id) || value;
+
+/**
+ * Maps a logged event to its timeline representation
+ */
+const toTimelineEvent = (event: IQueueEvent): TimelineEvent => {
+  const actor = event.actor as any;
+
+  return {
+    type: event.type,
+    occurredAt: event.occurredAt,
+    actor: actor && actor._id
+      ? {
+          id: String(actor._id),
+          name: `${actor.firstName} ${actor.lastName}`,
+          role: actor.role
+        }
+      : null,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    details: event.details,
+    derived: false
+  };
+};
+
+/**
+ * Attributes consultation time to each doctor from the entry's segments
+ */
+const consultationByDoctor = (entry: IQueue): QueueTimeline['summary']['consultationByDoctor'] => {
+  const totals = new Map<string, { doctorId: string | null; minutes: number; ongoing: boolean }>();
+  const now = Date.now();
+
+  for (const segment of entry.consultationSegments || []) {
+    const doctorId = segment.doctor ? String(segment.doctor) : null;
+    const key = doctorId || 'unassigned';
+    const total = totals.get(key) || { doctorId, minutes: 0, ongoing: false };
+
+    if (segment.endedAt) {
+      total.minutes += segment.durationMinutes || 0;
+    } else {
+      total.minutes += Math.max(Math.round((now - new Date(segment.startedAt).getTime()) / 60000), 0);
+      total.ongoing = true;
+    }
+
+    totals.set(key, total);
+  }
+
+  return Array.from(totals.values());
+};
+
+/**
+ * Derives the main steps of a queue entry from its stored timestamps
+ */
+const deriveEvents = (entry: IQueue): TimelineEvent[] => {
+  const derived = (
+    type: QueueEventType,
+    occurredAt: Date,
+    toStatus: string,
+    details?: Record<string, any>
+  ): TimelineEvent => ({ type, occurredAt, actor: null, toStatus, details, derived: true });
+
+  const events: TimelineEvent[] = [derived('checked-in', entry.checkInTime, 'waiting')];
+
+  if (entry.calledTime) {
+    events.push(derived('called', entry.calledTime, 'in-progress', {
+      doctorId: entry.doctor ? String(entry.doctor) : undefined,
+      assignedRoom: entry.assignedRoom
+    }));
+  }
+
+  if (entry.status === 'completed') {
+    events.push(derived('completed', entry.consultationEndTime || entry.updatedAt, 'completed'));
+  } else if (entry.status === 'cancelled') {
+    events.push(derived('cancelled', entry.updatedAt, 'cancelled', { reason: entry.notes }));
+  } else if (entry.status === 'left-without-being-seen') {
+    events.push(derived('left-without-being-seen', entry.updatedAt, 'left-without-being-seen', {
+      missedCalls: entry.missedCalls
+    }));
+  }
+
+  return events;
+};
\ No newline at end of file
@@ -0,0 +1,255 @@
+// backend/src/services/queueStream.service.ts
+/**
+ * Queue Stream Service
+ *
+ * Pushes queue changes to connected staff dashboards over Server-Sent Events
+ * so they no longer need to poll the current queue. Keeps a bounded buffer
+ * of recent events so reconnecting clients can resume from their last
+ * received event ID instead of missing updates. Subscribers only receive
+ * events of the clinics they may see.
+ */
+
+import { Request, Response } from 'express';
+import { IQueue } from '../models/Queue';
+import { ClinicScope } from '../models/Clinic';
+
+/**
+ * Queue event types pushed to subscribers
+ */
+export type QueueStreamEventType =
+  | 'queue.checked-in'
+  | 'queue.added'
+  | 'queue.called'
+  | 'queue.status-changed'
+  | 'queue.removed'
+  | 'queue.positions-recalculated'
+  | 'queue.positions-changed'
+  | 'queue.re-triaged'
+  | 'queue.retriage-requested'
+  | 'queue.missed-call'
+  | 'queue.transferred'
+  | 'queue.stage-routed'
+  | 'queue.sla-warning'
+  | 'queue.sla-breached'
+  | 'queue.closed-out'
+  | 'queue.resync';
+
+/**
+ * Queue stream event interface
+ */
+export interface QueueStreamEvent {
+  id: string;
+  type: QueueStreamEventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * Stream configuration
+ *
+ * The epoch changes on every server start, so event IDs issued by a previous
+ * process are recognised as stale and the client is told to resync.
+ */
+const STREAM_CONFIG = {
+  epoch: Date.now().toString(36),
+  bufferSize: parseInt(process.env.QUEUE_STREAM_BUFFER_SIZE || '500', 10),
+  heartbeatMs: parseInt(process.env.QUEUE_STREAM_HEARTBEAT_MS || '25000', 10),
+  retryMs: 5000
+};
+
+/**
+ * Queue Stream Service Class
+ *
+ * Encapsulates subscriber management, event buffering and replay
+ */
+export class QueueStreamService {
+  private static sequence = 0;
+  private static buffer: QueueStreamEvent[] = [];
+  private static subscribers = new Map<Response, ClinicScope>();
+
+  /**
+   * Publishes a queue event to all connected subscribers
+   *
+   * @param type - Event type
+   * @param data - Event payload
+   * @returns The published event
+   */
+  static publish(type: QueueStreamEventType, data: Record<string, unknown>): QueueStreamEvent {
+    const event: QueueStreamEvent = {
+      id: `${STREAM_CONFIG.epoch}-${++this.sequence}`,
+      type,
+      data,
+      timestamp: new Date().toISOString()
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > STREAM_CONFIG.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - STREAM_CONFIG.bufferSize);
+    }
+
+    for (const [subscriber, clinicIds] of this.subscribers) {
+      if (this.isVisible(event, clinicIds)) {
+        this.write(subscriber, event);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Publishes a queue entry change using the standard entry payload
+   *
+   * @param type - Event type
+   * @param entry - Changed queue entry
+   * @param extra - Additional payload fields
+   */
+  static publishEntry(
+    type: QueueStreamEventType,
+    entry: IQueue,
+    extra: Record<string, unknown> = {}
+  ): QueueStreamEvent {
+    return this.publish(type, { ...this.toEntryPayload(entry), ...extra });
+  }
+
+  /**
+   * Opens an SSE stream for an authenticated staff member
+   *
+   * Replays buffered events after the client's Last-Event-ID (header or
+   * `lastEventId` query parameter), or asks the client to resync when the
+   * ID is no longer available. Events of clinics outside the request's
+   * `clinicIds` are not sent.
+   *
+   * @param req - Express request
+   * @param res - Express response kept open for the stream
+   */
+  static subscribe(req: Request, res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+    res.flushHeaders();
+    res.write(`retry: ${STREAM_CONFIG.retryMs}\n\n`);
+
+    const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+
+    if (lastEventId) {
+      const missed = this.getEventsSince(lastEventId);
+
+      if (missed) {
+        missed
+          .filter(event => this.isVisible(event, req.clinicIds))
+          .forEach(event => this.write(res, event));
+      } else {
+        this.write(res, this.createResyncEvent());
+      }
+    }
+
+    this.subscribers.set(res, req.clinicIds);
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, STREAM_CONFIG.heartbeatMs);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.subscribers.delete(res);
+    });
+  }
+
+  /**
+   * Gets buffered events published after the given event ID
+   *
+   * @param lastEventId - Last event ID received by the client
+   * @returns Missed events, or null if they can no longer be replayed
+   */
+  static getEventsSince(lastEventId: string): QueueStreamEvent[] | null {
+    const [epoch, sequenceText] = lastEventId.split('-');
+    const lastSequence = parseInt(sequenceText, 10);
+
+    if (epoch !== STREAM_CONFIG.epoch || isNaN(lastSequence) || lastSequence > this.sequence) {
+      return null;
+    }
+
+    const oldestSequence = this.buffer.length > 0
+      ? this.sequence - this.buffer.length + 1
+      : this.sequence + 1;
+
+    // Events between the client's last ID and the buffer start were dropped
+    if (lastSequence < oldestSequence - 1) {
+      return null;
+    }
+
+    return this.buffer.slice(lastSequence - oldestSequence + 1);
+  }
+
+  /**
+   * Gets number of connected subscribers
+   */
+  static getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Clears buffered events and subscribers (useful for testing)
+   */
+  static reset(): void {
+    this.sequence = 0;
+    this.buffer = [];
+    this.subscribers.clear();
+  }
+
+  /**
+   * Builds the standard payload for a queue entry event
+   */
+  private static toEntryPayload(entry: IQueue): Record<string, unknown> {
+    return {
+      queueId: entry._id?.toString(),
+      visitId: this.refId(entry.visit),
+      clinicId: this.refId(entry.clinic),
+      stage: entry.stage,
+      status: entry.status,
+      priority: entry.priority,
+      position: entry.position,
+      ticketNumber: entry.ticketNumber,
+      doctorId: this.refId(entry.doctor),
+      assignedRoom: entry.assignedRoom,
+      estimatedWaitTime: entry.estimatedWaitTime
+    };
+  }
+
+  /**
+   * Resolves a reference that may or may not be populated
+   */
+  private static refId(ref: unknown): string | undefined {
+    if (!ref) return undefined;
+    const populated = ref as { _id?: unknown };
+    return String(populated._id ?? ref);
+  }
+
+  /**
+   * Whether a subscriber may see an event; events without a clinic are for everyone
+   */
+  private static isVisible(event: QueueStreamEvent, clinicIds: ClinicScope): boolean {
+    return !clinicIds || !event.data.clinicId || clinicIds.includes(String(event.data.clinicId));
+  }
+
+  /**
+   * Creates a resync event telling the client to refetch the full queue
+   */
+  private static createResyncEvent(): QueueStreamEvent {
+    return {
+      id: `${STREAM_CONFIG.epoch}-${this.sequence}`,
+      type: 'queue.resync',
+      data: { reason: 'Missed events are no longer available, refetch the current queue' },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Writes an event in SSE wire format
+   */
+  private static write(res: Response, event: QueueStreamEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,226 @@
+// backend/src/services/room.service.ts
+/**
+ * Room Management Service
+ *
+ * Handles each clinic's room directory and room occupancy. Rooms are taken
+ * and freed by queue transitions (call, transfer, completion, missed call),
+ * never directly by staff, so occupancy always matches who is in consultation.
+ */
+
+import { Types } from 'mongoose';
+import Room, { IRoom, RoomType } from '../models/Room';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
+
+/**
+ * Room creation data interface
+ */
+export interface RoomData {
+  name: string;
+  clinic?: Types.ObjectId | string;
+  type?: RoomType;
+  equipment?: string[];
+  isActive?: boolean;
+}
+
+/**
+ * Room search criteria interface
+ */
+export interface RoomSearchCriteria {
+  type?: RoomType;
+  isActive?: boolean;
+  clinicIds?: ClinicScope;
+}
+
+/**
+ * Room Service Class
+ *
+ * Encapsulates room directory and occupancy logic
+ */
+export class RoomService {
+  /**
+   * Lists rooms with their current occupant
+   *
+   * @param criteria - Optional type, active and clinic filters
+   * @returns Rooms sorted by name
+   */
+  static async getRooms(criteria: RoomSearchCriteria = {}): Promise<IRoom[]> {
+    const filter: any = clinicFilter(criteria.clinicIds);
+    if (criteria.type) filter.type = criteria.type;
+    if (criteria.isActive !== undefined) filter.isActive = criteria.isActive;
+
+    return Room.find(filter)
+      .populate('occupiedBy', 'ticketNumber status priority')
+      .populate('occupiedDoctor', 'firstName lastName specialty')
+      .sort({ name: 1 });
+  }
+
+  /**
+   * Lists active rooms that are currently free
+   *
+   * @param type - Optional room type
+   * @param clinicIds - Clinics to include (undefined for every clinic)
+   * @returns Free rooms sorted by name
+   */
+  static async getAvailableRooms(type?: RoomType, clinicIds?: ClinicScope): Promise<IRoom[]> {
+    return Room.findAvailable(type, clinicIds);
+  }
+
+  /**
+   * Creates a room
+   *
+   * @param data - Room details and clinic
+   * @returns Created room
+   * @throws {Error} If the clinic already has a room with the same name
+   */
+  static async createRoom(data: RoomData): Promise<IRoom> {
+    const existing = await Room.findOne({ name: data.name.trim(), clinic: data.clinic });
+    if (existing) {
+      throw new Error('Room name already exists');
+    }
+
+    return Room.create(data);
+  }
+
+  /**
+   * Updates a room's details
+   *
+   * @param roomId - Room ID
+   * @param data - Fields to change
+   * @returns Updated room
+   * @throws {Error} If not found, the name is taken, or an occupied room is deactivated
+   */
+  static async updateRoom(roomId: string, data: Partial<RoomData>): Promise<IRoom> {
+    const room = await Room.findById(roomId);
+
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    if (data.name && data.name.trim() !== room.name) {
+      const existing = await Room.findOne({ name: data.name.trim(), clinic: room.clinic });
+      if (existing) {
+        throw new Error('Room name already exists');
+      }
+    }
+
+    if (data.isActive === false && room.occupiedSince) {
+      throw new Error('Cannot deactivate an occupied room');
+    }
+
+    room.set(data);
+    await room.save();
+
+    return room;
+  }
+
+  /**
+   * Takes a room for a doctor about to see a patient
+   *
+   * With a room ID, that room is taken or the call is refused if it is in
+   * use. Without one, the clinic's first free consultation room is picked.
+   * Clinics that have not set up any consultation rooms carry on without one.
+   *
+   * @param clinic - Clinic the patient is seen at; only its rooms can be taken
+   * @param roomId - Requested room, if any
+   * @param doctorId - Doctor who will use the room
+   * @param queueId - Queue entry moving into the room, when already known
+   * @returns Room taken, or null when the clinic has no consultation rooms
+   * @throws {Error} If the room does not exist at the clinic, is occupied, or none are free
+   */
+  static async reserveRoom(
+    clinic: Types.ObjectId | string,
+    roomId: string | undefined,
+    doctorId: string | Types.ObjectId | undefined,
+    queueId?: string | Types.ObjectId
+  ): Promise<IRoom | null> {
+    const occupancy = {
+      occupiedSince: new Date(),
+      ...(doctorId && { occupiedDoctor: doctorId }),
+      ...(queueId && { occupiedBy: queueId })
+    };
+
+    if (roomId) {
+      const room = await Room.findOneAndUpdate(
+        { _id: roomId, clinic, isActive: true, occupiedSince: null },
+        { $set: occupancy },
+        { new: true }
+      );
+
+      if (room) {
+        return room;
+      }
+
+      const existing = await Room.findOne({ _id: roomId, clinic });
+      if (!existing || !existing.isActive) {
+        throw new Error('Room not found or inactive');
+      }
+      throw new Error(`Room unavailable: ${existing.name} is occupied`);
+    }
+
+    // Auto-pick: try free rooms in name order, another caller may take one first
+    const candidates = await Room.findAvailable('consultation', [String(clinic)]);
+
+    for (const candidate of candidates) {
+      const room = await Room.findOneAndUpdate(
+        { _id: candidate._id, isActive: true, occupiedSince: null },
+        { $set: occupancy },
+        { new: true }
+      );
+
+      if (room) {
+        return room;
+      }
+    }
+
+    const hasRooms = await Room.exists({ clinic, type: 'consultation', isActive: true });
+    if (hasRooms) {
+      throw new Error('Room unavailable: all consultation rooms are occupied');
+    }
+
+    return null;
+  }
+
+  /**
+   * Records which queue entry is using a reserved room
+   *
+   * @param roomId - Reserved room
+   * @param queueId - Queue entry now in the room
+   */
+  static async assignOccupant(roomId: Types.ObjectId, queueId: Types.ObjectId): Promise<void> {
+    await Room.updateOne({ _id: roomId }, { $set: { occupiedBy: queueId } });
+  }
+
+  /**
+   * Records the doctor now seeing the patient in a room
+   *
+   * @param queueId - Queue entry in the room
+   * @param doctorId - Doctor taking over
+   */
+  static async handOver(queueId: Types.ObjectId, doctorId: Types.ObjectId): Promise<void> {
+    await Room.updateOne({ occupiedBy: queueId }, { $set: { occupiedDoctor: doctorId } });
+  }
+
+  /**
+   * Frees a room
+   *
+   * @param roomId - Room to free
+   */
+  static async releaseRoom(roomId: Types.ObjectId): Promise<void> {
+    await Room.updateOne(
+      { _id: roomId },
+      { $unset: { occupiedBy: 1, occupiedDoctor: 1, occupiedSince: 1 } }
+    );
+  }
+
+  /**
+   * Frees whichever room a queue entry is in
+   *
+   * @param queueId - Queue entry leaving its room
+   */
+  static async releaseForEntry(queueId: Types.ObjectId): Promise<void> {
+    await Room.updateMany(
+      { occupiedBy: queueId },
+      { $unset: { occupiedBy: 1, occupiedDoctor: 1, occupiedSince: 1 } }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,293 @@
+// backend/src/services/simulation.service.ts
+/**
+ * Clinic Flow Simulation Service
+ *
+ * Prepares simulation runs from the clinic's data: replays the arrivals
+ * (check-in times and triage levels) of a past period, or generates
+ * arrivals at a given rate, and fills in consultation times learned from
+ * completed consultations wherever they are not given explicitly.
+ * Small runs are answered straight away; larger ones are queued as
+ * simulation runs for the simulation-runs background job.
+ */
+
+import Visit from '../models/Visit';
+import SimulationRun, { ISimulationRun } from '../models/SimulationRun';
+import { WaitTimeService } from './waitTime.service';
+import { QueuePriority } from '../utils/queueOrdering';
+import {
+  ConsultDistribution,
+  ConsultTimeConfig,
+  SimulationArrival,
+  SimulationResult,
+  StaffingPlan,
+  SyntheticArrivalOptions,
+  createRandom,
+  generateSyntheticArrivals,
+  simulateClinicFlow
+} from '../utils/clinicSimulation';
+
+/**
+ * Simulation limits
+ */
+export const SIMULATION_CONFIG = {
+  maxHistoricalDays: 31,
+  maxArrivals: 20000,
+  // Runs with more (expected) arrivals are queued rather than run in the request
+  maxInlineArrivals: parseInt(process.env.SIMULATION_MAX_INLINE_ARRIVALS || '2000', 10),
+  minModelSamples: 5  // Consultations needed before a learned mean is used
+};
+
+/**
+ * How often queued simulation runs are picked up
+ */
+export const SIMULATION_RUN_SCHEDULE = process.env.SIMULATION_RUN_SCHEDULE || '* * * * *';
+
+/**
+ * Simulation request interface
+ */
+export interface SimulationRequest {
+  source: 'historical' | 'synthetic';
+  from?: Date;  // Historical: replay check-ins from this time...
+  to?: Date;    // ...until this time
+  synthetic?: SyntheticArrivalOptions;
+  staffing: StaffingPlan;
+  consultTimes?: {
+    distribution?: ConsultDistribution;
+    meanMinutes?: Partial<Record<QueuePriority, number>>;
+    spread?: number;
+  };
+  seed?: number;
+}
+
+/**
+ * Simulation report interface
+ */
+export interface SimulationReport extends SimulationResult {
+  source: SimulationRequest['source'];
+  arrivals: number;
+  staffing: StaffingPlan;
+  consultTimes: ConsultTimeConfig;
+}
+
+/**
+ * Outcome of submitting a simulation: the report, or the queued run
+ */
+export type SimulationSubmission =
+  | { report: SimulationReport }
+  | { run: ISimulationRun };
+
+/**
+ * Simulation Service Class
+ *
+ * Encapsulates loading simulation inputs and running the simulation
+ */
+export class SimulationService {
+  /**
+   * Runs a small simulation now, or queues a large one
+   *
+   * @param request - Arrival source, staffing plan and consultation times
+   * @param requestedBy - Admin submitting the simulation
+   * @returns The report, or the queued run to poll for it
+   * @throws {Error} If the period is missing, too long, or has too many arrivals
+   */
+  static async submit(request: SimulationRequest, requestedBy?: string): Promise<SimulationSubmission> {
+    const estimatedArrivals = await this.estimateArrivals(request);
+
+    if (estimatedArrivals > SIMULATION_CONFIG.maxArrivals) {
+      throw new Error(`Invalid simulation: more than ${SIMULATION_CONFIG.maxArrivals} arrivals`);
+    }
+
+    if (estimatedArrivals <= SIMULATION_CONFIG.maxInlineArrivals) {
+      return { report: await this.run(request) };
+    }
+
+    const run = await SimulationRun.create({ request, requestedBy, estimatedArrivals });
+    return { run };
+  }
+
+  /**
+   * Gets a queued simulation run with its report once completed
+   *
+   * @param id - Simulation run ID
+   * @throws {Error} If the run does not exist
+   */
+  static async getRun(id: string): Promise<ISimulationRun> {
+    const run = await SimulationRun.findById(id).lean<ISimulationRun>();
+
+    if (!run) {
+      throw new Error('Simulation run not found');
+    }
+
+    return run;
+  }
+
+  /**
+   * Runs queued simulations, oldest first (the simulation-runs job)
+   *
+   * The job's lock means runs still marked running were interrupted.
+   *
+   * @returns Runs completed and failed
+   */
+  static async runQueued(): Promise<{ completed: number; failed: number }> {
+    await SimulationRun.updateMany(
+      { status: 'running' },
+      { $set: { status: 'failed', error: 'Interrupted', finishedAt: new Date() } }
+    );
+
+    let completed = 0;
+    let failed = 0;
+    let run: ISimulationRun | null;
+
+    while ((run = await SimulationRun.findOneAndUpdate(
+      { status: 'queued' },
+      { $set: { status: 'running', startedAt: new Date() } },
+      { sort: { createdAt: 1 }, new: true }
+    ))) {
+      try {
+        run.report = await this.run(run.request as SimulationRequest);
+        run.status = 'completed';
+        completed++;
+      } catch (error: any) {
+        run.status = 'failed';
+        run.error = error.message;
+        failed++;
+      }
+
+      run.finishedAt = new Date();
+      await run.save();
+    }
+
+    return { completed, failed };
+  }
+
+  /**
+   * Estimates how many arrivals a simulation will replay or generate
+   *
+   * @throws {Error} If a historical period is missing, reversed or too long
+   */
+  private static async estimateArrivals(request: SimulationRequest): Promise<number> {
+    if (request.source === 'historical') {
+      const { from, to } = this.requireHistoricalPeriod(request.from, request.to);
+      return Visit.countDocuments({ checkInTime: { $gte: from, $lt: to } });
+    }
+
+    const options = this.requireSyntheticOptions(request.synthetic);
+    return Math.ceil(options.arrivalsPerHour * options.hours * (options.days || 1));
+  }
+
+  /**
+   * Runs a staffing simulation
+   *
+   * @param request - Arrival source, staffing plan and consultation times
+   * @returns Predicted waits per triage level with the inputs used
+   * @throws {Error} If the period is missing, too long, or has too many arrivals
+   */
+  static async run(request: SimulationRequest): Promise<SimulationReport> {
+    const random = createRandom(request.seed ?? 1);
+
+    const arrivals = request.source === 'historical'
+      ? await this.loadHistoricalArrivals(request.from, request.to)
+      : generateSyntheticArrivals(this.requireSyntheticOptions(request.synthetic), random);
+
+    if (arrivals.length > SIMULATION_CONFIG.maxArrivals) {
+      throw new Error(`Invalid simulation: more than ${SIMULATION_CONFIG.maxArrivals} arrivals`);
+    }
+
+    const consultTimes = await this.resolveConsultTimes(request.consultTimes);
+
+    const result = simulateClinicFlow({
+      arrivals,
+      staffing: request.staffing,
+      consultTimes,
+      seed: request.seed
+    });
+
+    return {
+      source: request.source,
+      arrivals: arrivals.length,
+      staffing: request.staffing,
+      consultTimes,
+      ...result
+    };
+  }
+
+  /**
+   * Loads the check-ins of a past period as arrivals
+   *
+   * @param from - Start of the period
+   * @param to - End of the period (exclusive)
+   * @returns Arrivals in check-in order
+   * @throws {Error} If the period is missing, reversed or too long
+   */
+  static async loadHistoricalArrivals(from?: Date, to?: Date): Promise<SimulationArrival[]> {
+    this.requireHistoricalPeriod(from, to);
+
+    const visits = await Visit.find(
+      { checkInTime: { $gte: from, $lt: to } },
+      { checkInTime: 1, triageLevel: 1 }
+    )
+    .sort({ checkInTime: 1 })
+    .lean();
+
+    return visits.map(visit => ({
+      arrivalTime: visit.checkInTime,
+      triageLevel: visit.triageLevel
+    }));
+  }
+
+  /**
+   * Fills in consultation times not given with those learned from history
+   *
+   * @param requested - Distribution and means given by the caller
+   * @returns Complete consultation time configuration
+   */
+  static async resolveConsultTimes(requested: SimulationRequest['consultTimes'] = {}): Promise<ConsultTimeConfig> {
+    const levels: QueuePriority[] = ['high', 'medium', 'low'];
+    const given = requested.meanMinutes || {};
+    const meanMinutes = { ...given } as Record<QueuePriority, number>;
+
+    if (levels.some(level => !given[level])) {
+      const model = await WaitTimeService.getModel();
+
+      for (const level of levels.filter(candidate => !given[candidate])) {
+        const learned = model.groups[level];
+        meanMinutes[level] = learned && learned.count >= SIMULATION_CONFIG.minModelSamples
+          ? Math.round(learned.mean * 10) / 10
+          : model.defaultMinutes;
+      }
+    }
+
+    return {
+      distribution: requested.distribution || 'lognormal',
+      meanMinutes,
+      ...(requested.spread !== undefined && { spread: requested.spread })
+    };
+  }
+
+  /**
+   * Checks a historical period is given, in order and not too long
+   */
+  private static requireHistoricalPeriod(from?: Date, to?: Date): { from: Date; to: Date } {
+    if (!from || !to || from >= to) {
+      throw new Error('Invalid simulation: a historical run needs a from date before its to date');
+    }
+
+    const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000);
+    if (days > SIMULATION_CONFIG.maxHistoricalDays) {
+      throw new Error(`Invalid simulation: historical period cannot exceed ${SIMULATION_CONFIG.maxHistoricalDays} days`);
+    }
+
+    return { from, to };
+  }
+
+  /**
+   * Checks synthetic arrival options are present
+   */
+  private static requireSyntheticOptions(options?: SyntheticArrivalOptions): SyntheticArrivalOptions {
+    if (!options) {
+      throw new Error('Invalid simulation: a synthetic run needs an arrival rate');
+    }
+
+    return options;
+  }
+}
\ No newline at end of file
@@ -8,7 +8,9 @@
  */
 
 import Staff, { IStaff } from '../models/Staff';
+import Clinic, { ClinicScope } from '../models/Clinic';
 import bcrypt from 'bcryptjs';
+import { Types } from 'mongoose';
 
 /**
  * Staff registration data interface
@@ -40,6 +42,7 @@ export interface StaffProfileUpdate {
   phone?: string;
   specialty?: string;
   department?: string;
+  clinics?: string[];  // Clinics the staff member works at (admin only)
   emergencyContact?: {
     name: string;
     relationship: string;
@@ -147,6 +150,14 @@ export class StaffService {
     if (!isAdmin) {
       delete (updateData as any).role;
       delete (updateData as any).isActive;
+      delete updateData.clinics;
+    }
+
+    if (updateData.clinics) {
+      const found = await Clinic.countDocuments({ _id: { $in: updateData.clinics } });
+      if (found !== new Set(updateData.clinics).size) {
+        throw new Error('Clinic not found');
+      }
     }
 
     const staff = await Staff.findByIdAndUpdate(
@@ -294,14 +305,16 @@ export class StaffService {
   /**
    * Gets all active doctors
    * 
+   * @param clinicIds - Only doctors working at these clinics (undefined for every clinic)
    * @returns List of active doctors
    */
-  static async getDoctors(): Promise<Array<Omit<IStaff, 'password'>>> {
+  static async getDoctors(clinicIds?: ClinicScope): Promise<Array<Omit<IStaff, 'password'>>> {
     const doctors = await Staff.find({ 
       role: 'doctor',
-      isActive: true 
+      isActive: true,
+      ...(clinicIds && { clinics: { $in: clinicIds.map(id => new Types.ObjectId(id)) } })
     })
-    .select('firstName lastName specialty email phone department licenseNumber')
+    .select('firstName lastName specialty email phone department licenseNumber clinics')
     .sort({ lastName: 1, firstName: 1 });
 
     return doctors;
@@ -0,0 +1,84 @@
+// backend/src/services/ticket.service.ts
+/**
+ * Queue Ticket Service
+ *
+ * Issues the anonymised daily ticket numbers shown on the waiting room
+ * display instead of patient names. Tickets are prefixed by priority
+ * (H, M, L) and each clinic's tickets restart from 001 every day.
+ */
+
+import { Types } from 'mongoose';
+import TicketCounter from '../models/TicketCounter';
+import { QueuePriority } from '../utils/queueOrdering';
+
+/**
+ * Ticket prefix for each priority level
+ */
+export const TICKET_PREFIXES: Record<QueuePriority, string> = {
+  high: 'H',
+  medium: 'M',
+  low: 'L'
+};
+
+/**
+ * Duplicate key error code raised when two first-of-the-day upserts race
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Ticket Service Class
+ *
+ * Encapsulates ticket number generation
+ */
+export class TicketService {
+  /**
+   * Issues a clinic's next ticket number for a priority level
+   *
+   * @param clinic - Clinic issuing the ticket
+   * @param priority - Triage priority of the patient
+   * @param issuedAt - Issue time, determines the ticket day
+   * @returns Ticket number (e.g. "H-007")
+   */
+  static async issueTicket(
+    clinic: Types.ObjectId | string,
+    priority: QueuePriority,
+    issuedAt: Date = new Date()
+  ): Promise<string> {
+    const prefix = TICKET_PREFIXES[priority];
+    const date = this.getTicketDate(issuedAt);
+
+    let sequence: number;
+    try {
+      sequence = await TicketCounter.nextSequence(clinic, date, prefix);
+    } catch (error: any) {
+      // The concurrent upsert created the counter first; increment it instead
+      if (error.code !== DUPLICATE_KEY_ERROR) throw error;
+      sequence = await TicketCounter.nextSequence(clinic, date, prefix);
+    }
+
+    return this.formatTicketNumber(prefix, sequence);
+  }
+
+  /**
+   * Formats a ticket number with a zero-padded sequence
+   *
+   * @param prefix - Ticket prefix
+   * @param sequence - Daily sequence number
+   * @returns Ticket number (e.g. "M-042")
+   */
+  static formatTicketNumber(prefix: string, sequence: number): string {
+    return `${prefix}-${String(sequence).padStart(3, '0')}`;
+  }
+
+  /**
+   * Gets the local clinic date a ticket belongs to
+   *
+   * @param date - Issue time
+   * @returns Date key in YYYY-MM-DD format
+   */
+  static getTicketDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
\ No newline at end of file
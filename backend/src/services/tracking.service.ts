@@ -0,0 +1,269 @@
+// backend/src/services/tracking.service.ts
+/**
+ * Patient Tracking Service
+ *
+ * Tells a checked-in patient where they stand, using the tracking token
+ * issued at check-in. Only the patient's own queue status is returned:
+ * no names, clinical details or other patients' information.
+ *
+ * Patients can also act on their own entry without going to the desk:
+ * leave, step away for a while, or report that their symptoms changed.
+ * Actions are recorded against the queue entry with `source: 'patient'`.
+ */
+
+import Queue, { IQueue, HoldReason, QueueStatus } from '../models/Queue';
+import QueueHistory from '../models/QueueHistory';
+import QueueEvent from '../models/QueueEvent';
+import Visit from '../models/Visit';
+import { VisitStage } from '../config/visitStages';
+import { QueueService } from './queue.service';
+import { QueueEventService } from './queueEvent.service';
+import { QueueStreamService } from './queueStream.service';
+
+/**
+ * Limits on patients holding their place, per stage, so a place cannot be
+ * kept indefinitely by holding again after each hold
+ */
+const HOLD_LIMITS = {
+  maxHolds: parseInt(process.env.TRACKING_MAX_HOLDS || '2', 10),
+  maxTotalMinutes: parseInt(process.env.TRACKING_MAX_HOLD_MINUTES || '60', 10)
+};
+
+/**
+ * Tracking status interface
+ */
+export interface TrackingStatus {
+  visitId: string;
+  ticketNumber?: string;
+  stage: VisitStage | null;         // Stage the patient is at, null once the visit is finished
+  status: string;                   // Queue status at that stage
+  position: number | null;          // Place in the stage's waiting list while waiting
+  estimatedWaitTime: number | null; // Minutes, while waiting
+  estimatedWaitRange: { low: number; high: number } | null;
+  assignedRoom: string | null;      // Room to go to once called
+  visitCompleted: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Symptom update sent by a patient
+ */
+export interface SymptomReport {
+  symptoms: string;
+  painLevel?: number;  // 0-10 scale
+}
+
+/**
+ * Patient Tracking Service Class
+ *
+ * Encapsulates the patient-facing view of a visit
+ */
+export class TrackingService {
+  /**
+   * Gets the tracking status of a visit
+   *
+   * @param visitId - Visit ID from the tracking token
+   * @returns The patient's own queue status
+   * @throws {Error} If the visit or its queue entry is not found
+   */
+  static async getTrackingStatus(visitId: string): Promise<TrackingStatus> {
+    const visit = await Visit.findById(visitId, { completedAt: 1 }).lean();
+
+    if (!visit) {
+      throw new Error('Visit not found');
+    }
+
+    // Latest entry: the stage the patient is at; closed-out days are archived
+    const fields = {
+      ticketNumber: 1,
+      stage: 1,
+      status: 1,
+      position: 1,
+      estimatedWaitTime: 1,
+      estimatedWaitRange: 1,
+      assignedRoom: 1,
+      updatedAt: 1
+    };
+
+    const queueEntry =
+      await Queue.findOne({ visit: visit._id }, fields).sort({ checkInTime: -1 }).lean() ||
+      await QueueHistory.findOne({ visit: visit._id }, fields).sort({ checkInTime: -1 }).lean();
+
+    if (!queueEntry) {
+      throw new Error('Queue entry not found for visit');
+    }
+
+    const waiting = queueEntry.status === 'waiting' || queueEntry.status === 'on-hold';
+    const visitCompleted = !!visit.completedAt;
+
+    return {
+      visitId: String(visit._id),
+      ticketNumber: queueEntry.ticketNumber,
+      stage: visitCompleted ? null : queueEntry.stage || 'doctor',
+      status: queueEntry.status,
+      position: waiting ? queueEntry.position : null,
+      estimatedWaitTime: waiting ? queueEntry.estimatedWaitTime : null,
+      estimatedWaitRange: waiting && queueEntry.estimatedWaitRange?.high != null
+        ? { low: queueEntry.estimatedWaitRange.low, high: queueEntry.estimatedWaitRange.high }
+        : null,
+      assignedRoom: queueEntry.status === 'in-progress' ? queueEntry.assignedRoom || null : null,
+      visitCompleted,
+      updatedAt: queueEntry.updatedAt
+    };
+  }
+
+  /**
+   * Cancels the visit at the patient's request ("I'm leaving")
+   *
+   * @param visitId - Visit ID from the tracking token
+   * @param reason - Reason given by the patient
+   * @returns The patient's updated status
+   * @throws {Error} If no queue entry is found or the patient is no longer waiting
+   */
+  static async cancelVisit(visitId: string, reason?: string): Promise<TrackingStatus> {
+    const queueEntry = await this.findCurrentEntry(visitId, ['waiting', 'on-hold'], 'cancel');
+
+    await QueueService.updateQueueStatus(
+      String(queueEntry._id),
+      { status: 'cancelled' },
+      undefined,
+      { source: 'patient', ...(reason && { reason }) }
+    );
+
+    return this.getTrackingStatus(visitId);
+  }
+
+  /**
+   * Holds the patient's place while they step away ("back in 10 minutes")
+   *
+   * The entry is not callable while on hold and returns to the waiting
+   * list automatically when the time is up. A patient may hold their place
+   * a limited number of times and minutes in total at each stage.
+   *
+   * @param visitId - Visit ID from the tracking token
+   * @param minutes - Minutes the patient expects to be away
+   * @param holdReason - Reason for stepping away
+   * @returns The patient's updated status
+   * @throws {Error} If no queue entry is found, the patient is not waiting or the hold limit is reached
+   */
+  static async holdPlace(
+    visitId: string,
+    minutes: number,
+    holdReason: HoldReason = 'other'
+  ): Promise<TrackingStatus> {
+    const queueEntry = await this.findCurrentEntry(visitId, ['waiting'], 'hold place');
+
+    const holds = await QueueEvent.countDocuments({
+      queueEntry: queueEntry._id,
+      type: 'put-on-hold',
+      'details.source': 'patient'
+    });
+    if (holds >= HOLD_LIMITS.maxHolds) {
+      throw new Error(`Cannot hold place: a place can be held at most ${HOLD_LIMITS.maxHolds} times`);
+    }
+
+    const minutesLeft = HOLD_LIMITS.maxTotalMinutes - (queueEntry.totalHoldMinutes || 0);
+    if (minutes > minutesLeft) {
+      throw new Error(`Cannot hold place: ${Math.max(minutesLeft, 0)} minutes of holding left`);
+    }
+
+    await QueueService.updateQueueStatus(
+      String(queueEntry._id),
+      { status: 'on-hold', holdReason, holdMinutes: minutes },
+      undefined,
+      { source: 'patient' }
+    );
+
+    return this.getTrackingStatus(visitId);
+  }
+
+  /**
+   * Returns the patient to the waiting list before their hold runs out
+   *
+   * @param visitId - Visit ID from the tracking token
+   * @returns The patient's updated status
+   * @throws {Error} If no queue entry is found or the patient is not on hold
+   */
+  static async resumePlace(visitId: string): Promise<TrackingStatus> {
+    const queueEntry = await this.findCurrentEntry(visitId, ['on-hold'], 'resume');
+
+    await QueueService.updateQueueStatus(
+      String(queueEntry._id),
+      { status: 'waiting' },
+      undefined,
+      { source: 'patient' }
+    );
+
+    return this.getTrackingStatus(visitId);
+  }
+
+  /**
+   * Records a symptom update and flags the entry for nurse re-triage
+   *
+   * The priority is not changed here: a nurse re-assesses the patient and
+   * the re-triage clears the flag. A newer report replaces an older one.
+   *
+   * @param visitId - Visit ID from the tracking token
+   * @param report - Symptoms as described by the patient
+   * @returns The patient's status
+   * @throws {Error} If no queue entry is found or the patient is not waiting
+   */
+  static async reportSymptoms(visitId: string, report: SymptomReport): Promise<TrackingStatus> {
+    const queueEntry = await this.findCurrentEntry(visitId, ['waiting', 'on-hold'], 'report symptoms');
+    const now = new Date();
+
+    const updatedEntry = await Queue.findByIdAndUpdate(
+      queueEntry._id,
+      {
+        retriageRequest: {
+          symptoms: report.symptoms,
+          ...(report.painLevel != null && { painLevel: report.painLevel }),
+          requestedAt: now
+        }
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedEntry) {
+      throw new Error('Queue entry not found for visit');
+    }
+
+    await QueueEventService.record(updatedEntry, 'symptoms-reported', {
+      occurredAt: now,
+      details: {
+        source: 'patient',
+        symptoms: report.symptoms,
+        ...(report.painLevel != null && { painLevel: report.painLevel })
+      }
+    });
+
+    QueueStreamService.publishEntry('queue.retriage-requested', updatedEntry, {
+      painLevel: report.painLevel ?? null
+    });
+
+    return this.getTrackingStatus(visitId);
+  }
+
+  /**
+   * Finds the entry for the stage the patient is at and checks its status
+   *
+   * @throws {Error} If no queue entry is found or its status does not allow the action
+   */
+  private static async findCurrentEntry(
+    visitId: string,
+    allowed: QueueStatus[],
+    action: string
+  ): Promise<IQueue> {
+    const queueEntry = await Queue.findOne({ visit: visitId }).sort({ checkInTime: -1 });
+
+    if (!queueEntry) {
+      throw new Error('Queue entry not found for visit');
+    }
+
+    if (!allowed.includes(queueEntry.status)) {
+      throw new Error(`Cannot ${action}: patient is ${queueEntry.status}`);
+    }
+
+    return queueEntry;
+  }
+}
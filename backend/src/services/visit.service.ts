@@ -7,11 +7,24 @@
  * Separates visit-related business logic from route handlers.
  */
 
+import { Types, ClientSession } from 'mongoose';
 import Visit from '../models/Visit';
-import Patient from '../models/Patient';
-import Queue from '../models/Queue';
-import { calculateTriageScore, calculateEstimatedWaitTime, validateVitals } from '../utils/triage';
+import Patient, { IPatient } from '../models/Patient';
+import Queue, { QUEUED_STATUSES, stageFilter } from '../models/Queue';
+import { ClinicScope, clinicFilter } from '../models/Clinic';
+import { calculateTriageScore, validateVitals } from '../utils/triage';
 import { generateTrackingToken } from '../utils/jwt';
+import { QueueStreamService } from './queueStream.service';
+import { WaitTimeService } from './waitTime.service';
+import { QueueService } from './queue.service';
+import { QueueEventService } from './queueEvent.service';
+import { TicketService } from './ticket.service';
+import { NotificationService, NOTIFICATION_CONFIG } from './notification.service';
+import { ClinicService } from './clinic.service';
+import { createQueueComparator } from '../utils/queueOrdering';
+import { matchIdentity, decideMatch, birthDateKey } from '../utils/patientMatching';
+import { phonesMatch } from '../utils/phone';
+import { DEFAULT_VISIT_STAGES } from '../config/visitStages';
 
 /**
  * Patient check-in data interface
@@ -36,6 +49,21 @@ export interface CheckInData {
   // Optional medical history
   allergies?: string;
   medications?: string;
+
+  // Clinic checked in at (defaults to the default clinic)
+  clinicId?: string;
+
+  // Answer to a request for more details: none of the existing records is the patient's
+  newPatient?: boolean;
+}
+
+/**
+ * Check-in response when an existing record may be the patient's but the
+ * details typed do not identify them; nothing about the record is disclosed
+ */
+export interface CheckInConfirmation {
+  success: false;
+  requiresConfirmation: true;
 }
 
 /**
@@ -49,7 +77,17 @@ export interface CheckInResponse {
     triageLevel: string;
     triageScore: number;
     estimatedWaitTime: number;
+    estimatedWaitRange: {
+      low: number;
+      high: number;
+    };
+    waitEstimateConfidence: 'high' | 'medium' | 'low';
     position: number;
+    ticketNumber: string;
+  };
+  clinic: {
+    id: string;
+    name: string;
   };
   patient: {
     id: string;
@@ -58,6 +96,41 @@ export interface CheckInResponse {
   };
 }
 
+/**
+ * Re-triage data interface
+ */
+export interface RetriageData {
+  temperature: number;
+  heartRate: number;
+  bloodPressureSystolic: number;
+  bloodPressureDiastolic: number;
+  painLevel: number;
+  symptoms?: string; // Keeps the current symptoms when omitted
+  notes?: string;
+}
+
+/**
+ * Re-triage response interface
+ */
+export interface RetriageResponse {
+  visit: {
+    id: string;
+    triageLevel: string;
+    triageScore: number;
+    triageFactors: string[];
+    previousTriageLevel: string;
+    previousTriageScore: number;
+    triageHistoryCount: number;
+  };
+  queue: {
+    id: string;
+    priority: string;
+    position: number;
+    previousPosition: number;
+    estimatedWaitTime: number;
+  };
+}
+
 /**
  * Visit Service Class
  * 
@@ -67,11 +140,16 @@ export class VisitService {
   /**
    * Processes patient check-in and creates visit record
    * 
+   * The patient joins the queue of the clinic they check in at. Returning
+   * patients are recognised by name, date of birth and phone or email (see
+   * identifyPatient); when a record only partly matches, the patient is
+   * asked for the details they gave before and no visit is created.
+   * 
    * @param data - Patient check-in data
-   * @returns Check-in response with tracking token and visit details
-   * @throws {Error} If validation fails or database operation fails
+   * @returns Check-in response with tracking token and visit details, or a request for more details
+   * @throws {Error} If validation fails, the clinic is not found or database operation fails
    */
-  static async processCheckIn(data: CheckInData): Promise<CheckInResponse> {
+  static async processCheckIn(data: CheckInData): Promise<CheckInResponse | CheckInConfirmation> {
     const {
       firstName,
       lastName,
@@ -86,7 +164,8 @@ export class VisitService {
       bloodPressureDiastolic,
       painLevel,
       allergies,
-      medications
+      medications,
+      clinicId
     } = data;
 
     // Validate vital signs for clinical reasonableness
@@ -102,14 +181,24 @@ export class VisitService {
       throw new Error(`Vital sign validation failed: ${vitalsValidation.warnings.join(', ')}`);
     }
 
+    const clinic = await ClinicService.resolveClinic(undefined, clinicId);
+    const clinicRef = clinic._id as Types.ObjectId;
+
+    const identity = await this.identifyPatient(data);
+    if (!('patient' in identity)) {
+      return { success: false, requiresConfirmation: true };
+    }
+
     // Start database transaction (simulated with session)
     const session = await Visit.startSession();
     session.startTransaction();
 
     try {
-      // Find existing patient or create new one
-      let patient = await Patient.findOne({ email }).session(session);
-      
+      // Reuse the returning patient's record or create a new one
+      let patient = identity.patient
+        ? await Patient.findById(identity.patient._id).session(session)
+        : null;
+
       if (!patient) {
         patient = new Patient({
           firstName,
@@ -145,18 +234,30 @@ export class VisitService {
         symptoms
       });
 
-      // Get number of patients ahead for wait time calculation
-      const patientsAhead = await Queue.countDocuments({
-        status: { $in: ['waiting', 'in-progress'] }
-      }).session(session);
-
-      // Calculate estimated wait time
-      const avgConsultTime = parseInt(process.env.AVG_CONSULT_MINUTES || '15', 10);
-      const estimatedWaitTime = calculateEstimatedWaitTime(patientsAhead, avgConsultTime);
+      // Place the new arrival with the same ordering used for queue positions,
+      // so higher-priority patients who checked in later are not counted twice
+      // and lower-priority patients already waiting are not counted as ahead
+      const checkInTime = new Date();
+      const firstStage = DEFAULT_VISIT_STAGES[0];
+      const waitingEntries = await Queue.find(
+        { ...stageFilter(firstStage), clinic: clinicRef, status: { $in: QUEUED_STATUSES } }, // Patients on hold keep their place ahead
+        { priority: 1, checkInTime: 1 }
+      ).session(session);
+
+      const arrival = { _id: 'arrival', priority: triageResult.level, checkInTime };
+      const compareEntries = createQueueComparator(checkInTime);
+      const queueAhead = waitingEntries
+        .filter(entry => compareEntries(entry, arrival) < 0)
+        .sort(compareEntries);
+
+      // Estimate wait from historical consultation times of the patients ahead
+      const waitEstimate = await WaitTimeService.estimate(clinicRef, queueAhead.map(entry => entry.priority));
+      const estimatedWaitTime = waitEstimate.estimatedWaitTime;
 
       // Create visit record
       const visit = new Visit({
         patient: patient._id,
+        clinic: clinicRef,
         symptoms,
         vitals: {
           temperature,
@@ -168,23 +269,54 @@ export class VisitService {
         triageLevel: triageResult.level,
         triageScore: triageResult.score,
         estimatedWaitTime,
-        checkInTime: new Date()
+        triagedAt: checkInTime,
+        checkInTime
       });
 
-      await visit.save({ session });
+      // Contact details that changed go to staff review, never onto the record
+      if (identity.patient) {
+        await this.recordContactChanges(patient, { phone, email }, visit._id as Types.ObjectId, session);
+      }
 
-      // Add patient to queue
-      const queuePosition = patientsAhead + 1;
+      // Add patient to the first stage's queue at their priority position
+      const queuePosition = queueAhead.length + 1;
+      // Issued outside the transaction so the shared daily counter is never
+      // held by a pending check-in; an aborted check-in just skips a number
+      const ticketNumber = await TicketService.issueTicket(clinicRef, triageResult.level, checkInTime);
       const queueEntry = new Queue({
         visit: visit._id,
         patient: patient._id,
+        clinic: clinicRef,
+        stage: firstStage,
         position: queuePosition,
+        ticketNumber,
         status: 'waiting',
-        checkInTime: new Date()
+        priority: triageResult.level,
+        estimatedWaitTime,
+        estimatedWaitRange: waitEstimate.range,
+        estimatedWaitAtCheckIn: estimatedWaitTime,
+        checkInTime,
+        // Checked in at the front: the check-in message already says so
+        ...(queuePosition <= NOTIFICATION_CONFIG.turnNearPosition && { turnNearNotifiedAt: checkInTime })
+      });
+
+      visit.currentStage = firstStage;
+      visit.stageHistory.push({
+        stage: firstStage,
+        queueEntry: queueEntry._id as Types.ObjectId,
+        enteredAt: checkInTime
       });
 
+      await visit.save({ session });
       await queueEntry.save({ session });
 
+      await QueueEventService.record(queueEntry, 'checked-in', {
+        toStatus: 'waiting',
+        occurredAt: checkInTime,
+        details: { source: 'self-check-in', priority: triageResult.level, position: queuePosition },
+        session
+      });
+
       // Generate tracking token for patient
       const trackingToken = generateTrackingToken(
         visit._id.toString(),
@@ -195,6 +327,15 @@ export class VisitService {
       // Commit transaction
       await session.commitTransaction();
 
+      QueueStreamService.publishEntry('queue.checked-in', queueEntry, {
+        triageLevel: triageResult.level
+      });
+
+      NotificationService.dispatch(() => NotificationService.notifyCheckedIn(queueEntry));
+
+      // Shift patients behind the new arrival and notify those who moved back
+      await QueueService.refreshQueue();
+
       // Return check-in response
       return {
         success: true,
@@ -204,7 +345,14 @@ export class VisitService {
           triageLevel: triageResult.level,
           triageScore: triageResult.score,
           estimatedWaitTime,
-          position: queuePosition
+          estimatedWaitRange: waitEstimate.range,
+          waitEstimateConfidence: waitEstimate.confidence,
+          position: queuePosition,
+          ticketNumber
+        },
+        clinic: {
+          id: clinicRef.toString(),
+          name: clinic.name
         },
         patient: {
           id: patient._id.toString(),
@@ -223,6 +371,223 @@ export class VisitService {
     }
   }
 
+  /**
+   * Finds the existing record of the patient checking in
+   *
+   * Check-in is public, so a record is only reused when the details typed
+   * identify the patient: name, date of birth and the phone or email on
+   * file (see matchIdentity). When a record shares the date of birth and
+   * the name or phone but is not identified, the patient is asked to check
+   * in again with the details they gave before, or with `newPatient` if
+   * none of the records is theirs. Nothing about the records is returned.
+   *
+   * @param data - Patient check-in data
+   * @returns Record to reuse (none for a new patient), or a request for more details
+   * @throws {Error} If a new record is needed but the email belongs to another patient
+   */
+  static async identifyPatient(
+    data: CheckInData
+  ): Promise<{ patient: IPatient | null } | { requiresConfirmation: true }> {
+    const dateOfBirth = birthDateKey(data.dateOfBirth);
+    const dayStart = new Date(`${dateOfBirth}T00:00:00.000Z`);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const records = await Patient.find({ dateOfBirth: { $gte: dayStart, $lt: dayEnd } });
+    const matches = records.map(patient => ({ patient, match: matchIdentity(data, patient) }));
+
+    const decision = data.newPatient ? { action: 'create' as const } : decideMatch(matches.map(({ match }) => match));
+
+    if (decision.action === 'reuse') {
+      return { patient: matches[decision.index].patient };
+    }
+
+    if (decision.action === 'confirm') {
+      return { requiresConfirmation: true };
+    }
+
+    // Emails are unique, so a new record cannot take another patient's
+    const emailTaken = await Patient.exists({ email: data.email.trim().toLowerCase() });
+    if (emailTaken) {
+      throw new Error('Email is already registered; please ask at the front desk');
+    }
+
+    return { patient: null };
+  }
+
+  /**
+   * Records contact details typed at check-in that differ from a returning
+   * patient's record, for staff to review
+   *
+   * The record itself is left unchanged: check-in is public, so contact
+   * details on file only change once staff apply the update.
+   *
+   * @param patient - Returning patient's record
+   * @param contact - Phone and email typed at check-in
+   * @param visitId - Visit the details were typed for
+   * @param session - Check-in transaction
+   */
+  private static async recordContactChanges(
+    patient: IPatient,
+    contact: { phone: string; email: string },
+    visitId: Types.ObjectId,
+    session: ClientSession
+  ): Promise<void> {
+    const email = contact.email.trim().toLowerCase();
+    const phoneChanged = !!contact.phone && !phonesMatch(contact.phone, patient.phone);
+    const emailChanged = !!email && email !== patient.email;
+
+    if (!phoneChanged && !emailChanged) {
+      return;
+    }
+
+    patient.pendingContactUpdate = {
+      ...(phoneChanged && { phone: contact.phone }),
+      ...(emailChanged && { email }),
+      submittedAt: new Date(),
+      visit: visitId
+    };
+    await patient.save({ session });
+  }
+
+  /**
+   * Re-triages a waiting patient with a new set of vitals
+   * 
+   * The current assessment is kept in the visit's triage history, the queue
+   * entry takes the new priority and the waiting list is repositioned.
+   * 
+   * @param visitId - Visit ID to re-triage
+   * @param data - New vitals and optional updated symptoms
+   * @param actorId - Staff member performing the assessment
+   * @returns New assessment and the patient's updated queue placement
+   * @throws {Error} If visit not found, vitals invalid or patient no longer waiting
+   */
+  static async retriageVisit(
+    visitId: string,
+    data: RetriageData,
+    actorId?: string
+  ): Promise<RetriageResponse> {
+    const { symptoms, notes, ...vitals } = data;
+
+    const vitalsValidation = validateVitals(vitals);
+    if (!vitalsValidation.isValid) {
+      throw new Error(`Vital sign validation failed: ${vitalsValidation.warnings.join(', ')}`);
+    }
+
+    const session = await Visit.startSession();
+    session.startTransaction();
+
+    try {
+      const visit = await Visit.findById(visitId).session(session);
+      if (!visit) {
+        throw new Error('Visit not found');
+      }
+
+      // Latest entry: the stage the patient is currently waiting for
+      const queueEntry = await Queue.findOne({ visit: visit._id })
+        .sort({ checkInTime: -1 })
+        .session(session);
+      if (!queueEntry) {
+        throw new Error('Queue entry not found for visit');
+      }
+
+      if (!QUEUED_STATUSES.includes(queueEntry.status)) {
+        throw new Error(`Cannot re-triage: patient is ${queueEntry.status}, not waiting`);
+      }
+
+      const now = new Date();
+      const previous = {
+        triageLevel: visit.triageLevel,
+        triageScore: visit.triageScore,
+        position: queueEntry.position
+      };
+
+      const triageResult = calculateTriageScore({
+        ...vitals,
+        symptoms: symptoms || visit.symptoms
+      });
+
+      // Keep the superseded assessment before overwriting it
+      visit.triageHistory.push({
+        symptoms: visit.symptoms,
+        vitals: visit.vitals,
+        triageLevel: visit.triageLevel,
+        triageScore: visit.triageScore,
+        assessedAt: visit.triagedAt || visit.checkInTime,
+        assessedBy: visit.triagedBy,
+        supersededAt: now
+      });
+
+      if (symptoms) visit.symptoms = symptoms;
+      visit.vitals = vitals;
+      visit.triageLevel = triageResult.level;
+      visit.triageScore = triageResult.score;
+      visit.triagedAt = now;
+      visit.triagedBy = actorId ? new Types.ObjectId(actorId) : undefined;
+
+      await visit.save({ session });
+
+      // A symptom update sent by the patient is answered by this assessment
+      const patientReported = !!queueEntry.retriageRequest;
+      queueEntry.priority = triageResult.level;
+      queueEntry.retriageRequest = undefined;
+      await queueEntry.save({ session });
+
+      await QueueEventService.record(queueEntry, 're-triaged', {
+        actorId,
+        occurredAt: now,
+        details: {
+          previousLevel: previous.triageLevel,
+          previousScore: previous.triageScore,
+          triageLevel: triageResult.level,
+          triageScore: triageResult.score,
+          ...(patientReported && { patientReported }),
+          ...(notes && { notes })
+        },
+        session
+      });
+
+      await session.commitTransaction();
+
+      // Move the patient to their new place and re-estimate everyone's wait
+      await QueueService.refreshQueue();
+
+      const repositioned = await Queue.findById(queueEntry._id);
+      const updatedEntry = repositioned || queueEntry;
+
+      QueueStreamService.publishEntry('queue.re-triaged', updatedEntry, {
+        previousPriority: previous.triageLevel,
+        previousPosition: previous.position
+      });
+
+      return {
+        visit: {
+          id: visit._id.toString(),
+          triageLevel: triageResult.level,
+          triageScore: triageResult.score,
+          triageFactors: triageResult.factors,
+          previousTriageLevel: previous.triageLevel,
+          previousTriageScore: previous.triageScore,
+          triageHistoryCount: visit.triageHistory.length
+        },
+        queue: {
+          id: String(updatedEntry._id),
+          priority: updatedEntry.priority,
+          position: updatedEntry.position,
+          previousPosition: previous.position,
+          estimatedWaitTime: updatedEntry.estimatedWaitTime
+        }
+      };
+
+    } catch (error) {
+      if (session.inTransaction()) {
+        await session.abortTransaction();
+      }
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
   /**
    * Gets visit details by ID with related data
    * 
@@ -239,8 +604,9 @@ export class VisitService {
       throw new Error('Visit not found');
     }
 
-    // Get queue information
+    // Get queue information for the current stage
     const queueEntry = await Queue.findOne({ visit: visitId })
+      .sort({ checkInTime: -1 })
       .populate('doctor', 'firstName lastName specialty');
 
     return {
@@ -256,10 +622,11 @@ export class VisitService {
    * 
    * @param patientId - Patient ID
    * @param limit - Maximum number of visits to return (default: 10)
+   * @param clinicIds - Clinics whose visits are included (undefined for every clinic)
    * @returns Array of patient's previous visits
    */
-  static async getPatientVisits(patientId: string, limit: number = 10): Promise<any[]> {
-    const visits = await Visit.find({ patient: patientId })
+  static async getPatientVisits(patientId: string, limit: number = 10, clinicIds?: ClinicScope): Promise<any[]> {
+    const visits = await Visit.find({ ...clinicFilter(clinicIds), patient: patientId })
       .populate('patient', 'firstName lastName')
       .sort({ checkInTime: -1 })
       .limit(limit);
@@ -295,9 +662,10 @@ export class VisitService {
   /**
    * Gets statistics for visits and triage distribution
    * 
+   * @param clinicIds - Clinics to include (undefined for every clinic)
    * @returns Visit statistics for dashboard display
    */
-  static async getVisitStatistics(): Promise<{
+  static async getVisitStatistics(clinicIds?: ClinicScope): Promise<{
     totalVisits: number;
     visitsToday: number;
     byTriageLevel: { [key: string]: number };
@@ -309,16 +677,20 @@ export class VisitService {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
+    const inClinics = clinicFilter(clinicIds);
+
     // Get total visits count
-    const totalVisits = await Visit.countDocuments();
+    const totalVisits = await Visit.countDocuments(inClinics);
 
     // Get today's visits count
     const visitsToday = await Visit.countDocuments({
+      ...inClinics,
       checkInTime: { $gte: today, $lt: tomorrow }
     });
 
     // Get distribution by triage level
     const triageDistribution = await Visit.aggregate([
+      { $match: inClinics },
       {
         $group: {
           _id: '$triageLevel',
@@ -329,6 +701,7 @@ export class VisitService {
 
     // Calculate average wait time (simplified)
     const averageWaitTime = await Visit.aggregate([
+      { $match: inClinics },
       {
         $group: {
           _id: null,
@@ -0,0 +1,282 @@
+// backend/src/services/waitTime.service.ts
+/**
+ * Wait Time Estimation Service
+ *
+ * Trains the wait time model from completed queue entries and the waits
+ * patients actually had, and keeps the estimated wait of every waiting
+ * patient up to date as the queue moves.
+ * The model is shared by every clinic; staffing is counted per clinic.
+ * Replaces the fixed AVG_CONSULT_MINUTES multiplication used at check-in.
+ */
+
+import { Types } from 'mongoose';
+import Queue, { QUEUED_STATUSES, stageFilter } from '../models/Queue';
+import QueueHistory from '../models/QueueHistory';
+import {
+  buildWaitTimeModel,
+  estimateWaitTime,
+  ConsultationSample,
+  OngoingConsultation,
+  WaitSample,
+  WaitTimeEstimate,
+  WaitTimeModel
+} from '../utils/waitTimeModel';
+import { QueuePriority } from '../utils/queueOrdering';
+
+/**
+ * Estimator configuration
+ */
+const ESTIMATOR_CONFIG = {
+  defaultConsultMinutes: parseInt(process.env.AVG_CONSULT_MINUTES || '15', 10),
+  lookbackDays: parseInt(process.env.WAIT_MODEL_LOOKBACK_DAYS || '30', 10),
+  maxSamples: 5000,
+  cacheTtlMs: 10 * 60 * 1000,    // Retrain at most every 10 minutes
+  dutyWindowMs: 60 * 60 * 1000   // Doctors who called a patient in the last hour are on duty
+};
+
+/**
+ * Wait Time Service Class
+ *
+ * Encapsulates model training, caching and queue-wide estimate refresh
+ */
+export class WaitTimeService {
+  private static cachedModel: WaitTimeModel | null = null;
+
+  /**
+   * Gets the trained model, retraining when the cache has expired
+   *
+   * @returns Wait time model
+   */
+  static async getModel(): Promise<WaitTimeModel> {
+    const isFresh = this.cachedModel &&
+      Date.now() - this.cachedModel.trainedAt.getTime() < ESTIMATOR_CONFIG.cacheTtlMs;
+
+    if (!isFresh) {
+      this.cachedModel = await this.trainModel();
+    }
+
+    return this.cachedModel as WaitTimeModel;
+  }
+
+  /**
+   * Trains the model from recently completed consultations, calibrated
+   * with the recent waits of patients who were estimated at check-in
+   *
+   * Reads both the live queue and the queue history, as closed-out days
+   * are moved to the history.
+   *
+   * @returns Freshly trained model
+   */
+  static async trainModel(): Promise<WaitTimeModel> {
+    const since = new Date(Date.now() - ESTIMATOR_CONFIG.lookbackDays * 24 * 60 * 60 * 1000);
+
+    const filter = {
+      ...stageFilter('doctor'),
+      status: 'completed',
+      consultationStartTime: { $gte: since },
+      consultationDuration: { $gt: 0 }
+    };
+    const fields = { consultationDuration: 1, consultationStartTime: 1, priority: 1, doctorsOnDutyAtCall: 1 };
+
+    const [live, archived] = await Promise.all([
+      Queue.find(filter, fields)
+        .sort({ consultationStartTime: -1 })
+        .limit(ESTIMATOR_CONFIG.maxSamples)
+        .lean(),
+      QueueHistory.find(filter, fields)
+        .sort({ consultationStartTime: -1 })
+        .limit(ESTIMATOR_CONFIG.maxSamples)
+        .lean()
+    ]);
+
+    const completed = [...live, ...archived]
+      .sort((a, b) => new Date(b.consultationStartTime as Date).getTime() - new Date(a.consultationStartTime as Date).getTime())
+      .slice(0, ESTIMATOR_CONFIG.maxSamples);
+
+    const samples: ConsultationSample[] = completed.map(entry => ({
+      consultationDuration: entry.consultationDuration as number,
+      hour: new Date(entry.consultationStartTime as Date).getHours(),
+      triageLevel: entry.priority,
+      doctorsOnDuty: entry.doctorsOnDutyAtCall || 1
+    }));
+
+    return buildWaitTimeModel(samples, ESTIMATOR_CONFIG.defaultConsultMinutes, await this.findWaitSamples(since));
+  }
+
+  /**
+   * Estimated and actual waits of patients called since a given time
+   */
+  private static async findWaitSamples(since: Date): Promise<WaitSample[]> {
+    const filter = {
+      ...stageFilter('doctor'),
+      calledTime: { $gte: since },
+      actualWaitTime: { $ne: null },
+      estimatedWaitAtCheckIn: { $ne: null }
+    };
+    const fields = { actualWaitTime: 1, estimatedWaitAtCheckIn: 1, calledTime: 1 };
+
+    const [live, archived] = await Promise.all([
+      Queue.find(filter, fields).sort({ calledTime: -1 }).limit(ESTIMATOR_CONFIG.maxSamples).lean(),
+      QueueHistory.find(filter, fields).sort({ calledTime: -1 }).limit(ESTIMATOR_CONFIG.maxSamples).lean()
+    ]);
+
+    return [...live, ...archived]
+      .sort((a, b) => new Date(b.calledTime as Date).getTime() - new Date(a.calledTime as Date).getTime())
+      .slice(0, ESTIMATOR_CONFIG.maxSamples)
+      .map(entry => ({
+        estimatedWaitTime: entry.estimatedWaitAtCheckIn as number,
+        actualWaitTime: entry.actualWaitTime as number
+      }));
+  }
+
+  /**
+   * Consultations under way at a clinic, with the minutes they have run
+   *
+   * @param clinic - Clinic whose consultation rooms to look at
+   * @param now - Time of the estimate
+   */
+  static async findOngoingConsultations(
+    clinic: Types.ObjectId | string,
+    now: Date = new Date()
+  ): Promise<OngoingConsultation[]> {
+    const inProgress = await Queue.find(
+      { ...stageFilter('doctor'), clinic, status: 'in-progress' },
+      { priority: 1, consultationStartTime: 1, calledTime: 1 }
+    ).lean();
+
+    return inProgress.map(entry => ({
+      triageLevel: entry.priority,
+      elapsedMinutes: Math.max(
+        (now.getTime() - new Date(entry.consultationStartTime || entry.calledTime || now).getTime()) / 60000,
+        0
+      )
+    }));
+  }
+
+  /**
+   * Counts a clinic's doctors currently seeing patients or active within the last hour
+   *
+   * @param clinic - Clinic whose doctors to count
+   * @param includeDoctorId - Doctor known to be on duty (e.g. the one calling next)
+   * @returns Number of doctors on duty (at least 1)
+   */
+  static async countDoctorsOnDuty(clinic: Types.ObjectId | string, includeDoctorId?: string): Promise<number> {
+    const activeSince = new Date(Date.now() - ESTIMATOR_CONFIG.dutyWindowMs);
+
+    const doctors = await Queue.distinct('doctor', {
+      clinic,
+      doctor: { $exists: true },
+      $or: [
+        { status: 'in-progress' },
+        { calledTime: { $gte: activeSince } }
+      ]
+    });
+
+    const onDuty = new Set(doctors.map(doctorId => String(doctorId)));
+    if (includeDoctorId) {
+      onDuty.add(includeDoctorId);
+    }
+
+    return Math.max(onDuty.size, 1);
+  }
+
+  /**
+   * Estimates the wait for a patient with the given patients ahead
+   *
+   * @param clinic - Clinic the patient waits at
+   * @param ahead - Triage levels of patients ahead, in queue order
+   * @returns Wait estimate with confidence range
+   */
+  static async estimate(clinic: Types.ObjectId | string, ahead: QueuePriority[]): Promise<WaitTimeEstimate> {
+    const now = new Date();
+    const [model, doctorsOnDuty, inConsultation] = await Promise.all([
+      this.getModel(),
+      this.countDoctorsOnDuty(clinic),
+      this.findOngoingConsultations(clinic, now)
+    ]);
+
+    return estimateWaitTime(model, {
+      ahead,
+      inConsultation,
+      doctorsOnDuty,
+      hour: now.getHours()
+    });
+  }
+
+  /**
+   * Re-estimates the wait of every waiting patient in queue order
+   *
+   * Patients on hold keep their place, so they are estimated and counted
+   * ahead of those behind them like everyone else. Only the doctor's queue
+   * is estimated, as the model is trained on doctor consultations. Each
+   * clinic's queue is estimated with that clinic's doctors on duty and
+   * consultations under way.
+   *
+   * @returns Number of entries whose estimate changed
+   */
+  static async refreshWaitingEstimates(): Promise<number> {
+    const [model, waitingEntries] = await Promise.all([
+      this.getModel(),
+      Queue.find(
+        { ...stageFilter('doctor'), status: { $in: QUEUED_STATUSES } },
+        { priority: 1, position: 1, estimatedWaitTime: 1, estimatedWaitRange: 1, clinic: 1 }
+      )
+      .sort({ position: 1 })
+      .lean()
+    ]);
+
+    const now = new Date();
+    const hour = now.getHours();
+    const aheadByClinic = new Map<string, QueuePriority[]>();
+    const staffingByClinic = new Map<string, { doctorsOnDuty: number; inConsultation: OngoingConsultation[] }>();
+    const updates = [];
+
+    for (const entry of waitingEntries) {
+      const clinic = String(entry.clinic);
+      if (!staffingByClinic.has(clinic)) {
+        staffingByClinic.set(clinic, {
+          doctorsOnDuty: await this.countDoctorsOnDuty(entry.clinic),
+          inConsultation: await this.findOngoingConsultations(entry.clinic, now)
+        });
+        aheadByClinic.set(clinic, []);
+      }
+
+      const ahead = aheadByClinic.get(clinic) as QueuePriority[];
+      const staffing = staffingByClinic.get(clinic) as { doctorsOnDuty: number; inConsultation: OngoingConsultation[] };
+      const estimate = estimateWaitTime(model, { ahead, hour, ...staffing });
+
+      const changed = entry.estimatedWaitTime !== estimate.estimatedWaitTime ||
+        entry.estimatedWaitRange?.low !== estimate.range.low ||
+        entry.estimatedWaitRange?.high !== estimate.range.high;
+
+      if (changed) {
+        updates.push({
+          updateOne: {
+            filter: { _id: entry._id, status: { $in: QUEUED_STATUSES } },
+            update: {
+              $set: {
+                estimatedWaitTime: estimate.estimatedWaitTime,
+                estimatedWaitRange: estimate.range
+              }
+            }
+          }
+        });
+      }
+
+      ahead.push(entry.priority);
+    }
+
+    if (updates.length > 0) {
+      await Queue.bulkWrite(updates, { ordered: false });
+    }
+
+    return updates.length;
+  }
+
+  /**
+   * Clears the cached model (useful for testing)
+   */
+  static resetCache(): void {
+    this.cachedModel = null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+// backend/src/simulate.ts
+/**
+ * Clinic Flow Simulation Script
+ *
+ * Answers staffing questions offline by simulating the doctor's queue.
+ * Replays a past period or generates arrivals at a given rate, then prints
+ * predicted waits per triage level.
+ *
+ * Usage:
+ *   npm run simulate:dev -- --from=2024-01-01 --to=2024-01-08 --doctors=2
+ *   npm run simulate:dev -- --rate=6 --hours=10 --days=5 --doctors=1 --shift=1:8-12:2
+ *
+ * Options:
+ *   --from, --to        Replay check-ins from this period (historical run)
+ *   --rate              Arrivals per hour (synthetic run)
+ *   --open, --hours     Opening hour (default 8) and opening hours per day (default 10)
+ *   --days              Days to generate (default 1)
+ *   --doctors           Doctors on duty (default 1)
+ *   --shift             days:start-end:doctors, e.g. 1,2:8-12:3 or *:14-18:2 (repeatable)
+ *   --distribution      fixed, exponential or lognormal (default lognormal)
+ *   --mean-high, --mean-medium, --mean-low
+ *                       Mean consultation minutes; learned from history when omitted
+ *   --spread            Coefficient of variation for lognormal times
+ *   --seed              Random seed (default 1)
+ *
+ * The database is only used for historical runs and learned consultation times.
+ */
+
+import { connectDB, disconnectDB } from './config/database';
+import { SimulationService, SimulationRequest } from './services/simulation.service';
+import { StaffingShift, ConsultDistribution, CONSULT_DISTRIBUTIONS } from './utils/clinicSimulation';
+
+/**
+ * Parses --key=value arguments, collecting repeated keys
+ */
+function parseArguments(argv: string[]): Record<string, string[]> {
+  const options: Record<string, string[]> = {};
+
+  for (const argument of argv) {
+    const match = argument.match(/^--([a-z-]+)=(.*)$/);
+    if (!match) {
+      throw new Error(`Unrecognised argument: ${argument}`);
+    }
+    (options[match[1]] = options[match[1]] || []).push(match[2]);
+  }
+
+  return options;
+}
+
+/**
+ * Parses a shift such as "1,2:8-12:3" (Monday and Tuesday, 08:00-12:00, 3 doctors)
+ */
+function parseShift(value: string): StaffingShift {
+  const match = value.match(/^(\*|[0-6](?:,[0-6])*):(\d{1,2})-(\d{1,2}):(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid shift "${value}", expected days:start-end:doctors`);
+  }
+
+  return {
+    ...(match[1] !== '*' && { days: match[1].split(',').map(Number) }),
+    startHour: Number(match[2]),
+    endHour: Number(match[3]),
+    doctors: Number(match[4])
+  };
+}
+
+/**
+ * Builds the simulation request from command line options
+ */
+function buildRequest(options: Record<string, string[]>): SimulationRequest {
+  const first = (key: string) => options[key]?.[0];
+  const number = (key: string) => (first(key) !== undefined ? Number(first(key)) : undefined);
+
+  const distribution = first('distribution');
+  if (distribution && !(CONSULT_DISTRIBUTIONS as readonly string[]).includes(distribution)) {
+    throw new Error(`Distribution must be one of: ${CONSULT_DISTRIBUTIONS.join(', ')}`);
+  }
+
+  const start = new Date();
+  start.setHours(number('open') ?? 8, 0, 0, 0);
+
+  const meanMinutes = {
+    ...(number('mean-high') && { high: number('mean-high') }),
+    ...(number('mean-medium') && { medium: number('mean-medium') }),
+    ...(number('mean-low') && { low: number('mean-low') })
+  };
+
+  return {
+    source: first('from') ? 'historical' : 'synthetic',
+    ...(first('from') && { from: new Date(first('from') as string) }),
+    ...(first('to') && { to: new Date(first('to') as string) }),
+    ...(!first('from') && {
+      synthetic: {
+        start,
+        hours: number('hours') ?? 10,
+        days: number('days') ?? 1,
+        arrivalsPerHour: number('rate') ?? 0
+      }
+    }),
+    staffing: {
+      doctors: number('doctors') ?? 1,
+      shifts: (options.shift || []).map(parseShift)
+    },
+    consultTimes: {
+      distribution: distribution as ConsultDistribution | undefined,
+      meanMinutes,
+      spread: number('spread')
+    },
+    seed: number('seed') ?? 1
+  };
+}
+
+/**
+ * Main simulation function
+ */
+async function runSimulation(): Promise<void> {
+  const request = buildRequest(parseArguments(process.argv.slice(2)));
+
+  const meansGiven = Object.keys(request.consultTimes?.meanMinutes || {}).length === 3;
+  const needsDatabase = request.source === 'historical' || !meansGiven;
+
+  if (needsDatabase) {
+    await connectDB();
+  }
+
+  try {
+    const report = await SimulationService.run(request);
+
+    console.log(`\n🩺 Simulated ${report.arrivals} arrivals (${report.source})`);
+    console.log(`   Consultation times: ${report.consultTimes.distribution}, means ` +
+      `high ${report.consultTimes.meanMinutes.high} / medium ${report.consultTimes.meanMinutes.medium} / ` +
+      `low ${report.consultTimes.meanMinutes.low} min`);
+
+    console.log('\n⏱️  Predicted waits (minutes):');
+    console.table({ ...report.byTriageLevel, overall: report.overall });
+
+    console.log(`   Doctor utilisation: ${report.doctorUtilisation}%`);
+    if (report.unserved > 0) {
+      console.log(`   ⚠️  ${report.unserved} patients were still waiting when the simulation stopped`);
+    }
+  } finally {
+    if (needsDatabase) {
+      await disconnectDB();
+    }
+  }
+}
+
+// Run simulation if this file is executed directly
+if (require.main === module) {
+  runSimulation().catch(error => {
+    console.error('❌ Simulation failed:', error.message);
+    process.exit(1);
+  });
+}
+
+export { runSimulation };
\ No newline at end of file
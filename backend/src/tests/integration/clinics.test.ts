@@ -0,0 +1,335 @@
+// src/tests/integration/clinics.test.ts
+/**
+ * Clinics Integration Tests
+ *
+ * Tests per-clinic queues and tickets at check-in, staff seeing only the
+ * clinics they work at (queues, visit history, doctors), and managing the
+ * clinic directory.
+ */
+
+import { describe, beforeEach, test, expect, jest } from '@jest/globals';
+import request from 'supertest';
+import app from '../../app';
+import Clinic from '../../models/Clinic';
+import Patient from '../../models/Patient';
+import Visit from '../../models/Visit';
+import Queue from '../../models/Queue';
+import Staff from '../../models/Staff';
+import TicketCounter from '../../models/TicketCounter';
+import Room from '../../models/Room';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
+import { QueueService } from '../../services/queue.service';
+import { QueueStreamService } from '../../services/queueStream.service';
+
+describe('Clinics Integration', () => {
+  const createStaff = async (role: 'admin' | 'receptionist' | 'doctor', clinics: unknown[] = []) => {
+    const staff = await Staff.create({
+      firstName: role.charAt(0).toUpperCase() + role.slice(1),
+      lastName: 'Clinics',
+      email: `${role}.clinics@clinic.com`,
+      phone: '5551234567',
+      role,
+      ...(role === 'doctor' && { specialty: 'General Medicine' }),
+      clinics,
+      password: await hashPassword('password123')
+    });
+
+    return {
+      staff,
+      token: signToken({ id: staff._id.toString(), email: staff.email, role: staff.role })
+    };
+  };
+
+  const checkIn = (index: number, clinicId: string) =>
+    request(app)
+      .post('/api/visits/check-in')
+      .send({
+        clinicId,
+        firstName: `Site${index}`,
+        lastName: 'Patient',
+        email: `site${index}@example.com`,
+        phone: '5551234567',
+        dateOfBirth: '1990-01-01',
+        gender: 'female',
+        symptoms: 'Mild cough for two days',
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 1
+      })
+      .expect(201);
+
+  const createClinics = async () => {
+    const main = await Clinic.getDefault();
+    const north = await Clinic.create({ name: 'North Clinic', code: 'NORTH' });
+    return { mainId: main._id.toString(), northId: north._id.toString() };
+  };
+
+  beforeEach(async () => {
+    await Clinic.deleteMany({});
+    await Patient.deleteMany({});
+    await Visit.deleteMany({});
+    await Queue.deleteMany({});
+    await Staff.deleteMany({});
+    await TicketCounter.deleteMany({});
+    await Room.deleteMany({});
+  });
+
+  test('should keep separate queue positions and tickets per clinic', async () => {
+    const { mainId, northId } = await createClinics();
+
+    const first = await checkIn(1, mainId);
+    const second = await checkIn(2, northId);
+
+    expect(first.body.clinic).toEqual({ id: mainId, name: 'Main Clinic' });
+    expect(second.body.clinic).toEqual({ id: northId, name: 'North Clinic' });
+
+    // Each clinic starts its own queue and ticket sequence
+    expect(first.body.visit.position).toBe(1);
+    expect(second.body.visit.position).toBe(1);
+    expect(second.body.visit.ticketNumber).toBe(first.body.visit.ticketNumber);
+
+    const entry = await Queue.findOne({ visit: second.body.visit.id });
+    expect(String(entry?.clinic)).toBe(northId);
+  });
+
+  test('should reject check-in at a closed clinic', async () => {
+    const { northId } = await createClinics();
+    await Clinic.updateOne({ _id: northId }, { isActive: false });
+
+    const response = await request(app)
+      .post('/api/visits/check-in')
+      .send({
+        clinicId: northId,
+        firstName: 'Closed',
+        lastName: 'Site',
+        phone: '5551234567',
+        dateOfBirth: '1990-01-01',
+        gender: 'female',
+        symptoms: 'Mild cough for two days',
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 1
+      });
+
+    expect(response.status).toBe(404);
+  });
+
+  test('should show staff only the queues of their clinics', async () => {
+    const { mainId, northId } = await createClinics();
+    const { token } = await createStaff('receptionist', [mainId]);
+
+    await checkIn(1, mainId);
+    const other = await checkIn(2, northId);
+    const otherEntry = await Queue.findOne({ visit: other.body.visit.id });
+
+    const queue = await request(app)
+      .get('/api/queue')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(queue.body.count).toBe(1);
+
+    const stats = await request(app)
+      .get('/api/queue/stats')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(stats.body.data.visitsToday).toBe(1);
+
+    await request(app)
+      .get(`/api/queue?clinicId=${northId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+
+    await request(app)
+      .get(`/api/queue/${otherEntry?._id}/timeline`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    await request(app)
+      .get(`/api/visits/${other.body.visit.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+  });
+
+  test('should show staff only the visit history and doctors of their clinics', async () => {
+    const { mainId, northId } = await createClinics();
+    const { token } = await createStaff('receptionist', [mainId]);
+    await createStaff('doctor', [northId]);
+
+    // The same patient checks in at both clinics
+    await checkIn(1, mainId);
+    await checkIn(1, northId);
+    const patient = await Patient.findOne({ email: 'site1@example.com' });
+
+    const visits = await request(app)
+      .get(`/api/visits/patient/${patient?._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(visits.body.count).toBe(1);
+    expect(String(visits.body.data[0].clinic)).toBe(mainId);
+
+    const history = await request(app)
+      .get(`/api/patients/${patient?._id}/visits`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(history.body.count).toBe(1);
+
+    const doctors = await request(app)
+      .get('/api/staff/doctors')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(doctors.body.count).toBe(0);
+
+    await request(app)
+      .get(`/api/staff/doctors?clinicId=${northId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+
+  test('should announce patients moved back only to their own clinic', async () => {
+    const { mainId, northId } = await createClinics();
+
+    await checkIn(1, mainId);
+    const first = await checkIn(2, northId);
+    const second = await checkIn(3, northId);
+
+    // Re-triaged to the front of the North queue
+    await Queue.updateOne({ visit: second.body.visit.id }, { priority: 'high' });
+
+    const publish = jest.spyOn(QueueStreamService, 'publish');
+    try {
+      await QueueService.refreshQueue();
+
+      const events = publish.mock.calls.filter(([type]) => type === 'queue.positions-changed');
+      const firstEntry = await Queue.findOne({ visit: first.body.visit.id });
+
+      expect(events).toHaveLength(1);
+      expect(events[0][1]).toEqual({
+        clinicId: northId,
+        movedBack: [{ queueId: firstEntry?._id.toString(), previousPosition: 1, position: 2 }]
+      });
+    } finally {
+      publish.mockRestore();
+    }
+  });
+
+  test('should announce recalculated positions with each clinic\'s own counts', async () => {
+    const { mainId, northId } = await createClinics();
+
+    await checkIn(1, mainId);
+    await checkIn(2, northId);
+    await checkIn(3, northId);
+
+    const publish = jest.spyOn(QueueStreamService, 'publish');
+    try {
+      await QueueService.recalculatePositions();
+
+      const events = publish.mock.calls
+        .filter(([type]) => type === 'queue.positions-recalculated')
+        .map(([, data]) => data);
+
+      expect(events).toHaveLength(2);
+      expect(events).toEqual(expect.arrayContaining([
+        { clinicId: mainId, waitingCount: 1, changedCount: 0 },
+        { clinicId: northId, waitingCount: 2, changedCount: 0 }
+      ]));
+    } finally {
+      publish.mockRestore();
+    }
+  });
+
+  test('should let admins see every clinic or narrow to one', async () => {
+    const { mainId, northId } = await createClinics();
+    const { token } = await createStaff('admin');
+
+    await checkIn(1, mainId);
+    await checkIn(2, northId);
+
+    const all = await request(app)
+      .get('/api/queue')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(all.body.count).toBe(2);
+
+    const north = await request(app)
+      .get(`/api/queue?clinicId=${northId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(north.body.count).toBe(1);
+  });
+
+  test('should call only patients waiting at the doctor\'s clinic', async () => {
+    const { mainId, northId } = await createClinics();
+    const { staff: doctor, token } = await createStaff('doctor', [northId]);
+
+    await Room.create({ name: 'North-1', clinic: northId });
+    await checkIn(1, mainId);
+    const northVisit = await checkIn(2, northId);
+
+    const response = await request(app)
+      .post('/api/queue/call-next')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctorId: doctor._id.toString() })
+      .expect(200);
+
+    const northEntry = await Queue.findOne({ visit: northVisit.body.visit.id });
+    expect(response.body.data._id).toBe(northEntry?._id.toString());
+
+    await request(app)
+      .post('/api/queue/call-next')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctorId: doctor._id.toString(), clinicId: mainId })
+      .expect(403);
+  });
+
+  test('should let admins manage the clinic directory', async () => {
+    const { token } = await createStaff('admin');
+    const { token: receptionistToken } = await createStaff('receptionist');
+
+    await request(app)
+      .post('/api/clinics')
+      .set('Authorization', `Bearer ${receptionistToken}`)
+      .send({ name: 'South Clinic', code: 'SOUTH' })
+      .expect(403);
+
+    const created = await request(app)
+      .post('/api/clinics')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'South Clinic', code: 'south' })
+      .expect(201);
+
+    expect(created.body.data).toMatchObject({ name: 'South Clinic', code: 'SOUTH', isActive: true });
+
+    await request(app)
+      .post('/api/clinics')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Another South', code: 'SOUTH' })
+      .expect(409);
+
+    const list = await request(app)
+      .get('/api/clinics')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(list.body.data.map((clinic: any) => clinic.code)).toEqual(['MAIN', 'SOUTH']);
+
+    // Staff not yet assigned work at the default clinic
+    const scoped = await request(app)
+      .get('/api/clinics')
+      .set('Authorization', `Bearer ${receptionistToken}`)
+      .expect(200);
+
+    expect(scoped.body.data.map((clinic: any) => clinic.code)).toEqual(['MAIN']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+// src/tests/integration/display.test.ts
+/**
+ * Waiting Room Display Integration Tests
+ *
+ * Tests daily ticket issuance at check-in and the public display board,
+ * which must never expose patient names.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import request from 'supertest';
+import app from '../../app';
+import Patient from '../../models/Patient';
+import Visit from '../../models/Visit';
+import Queue from '../../models/Queue';
+import Staff from '../../models/Staff';
+import TicketCounter from '../../models/TicketCounter';
+import Room from '../../models/Room';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
+
+describe('Waiting Room Display Integration', () => {
+  const checkIn = (index: number) =>
+    request(app)
+      .post('/api/visits/check-in')
+      .send({
+        firstName: `Display${index}`,
+        lastName: 'Patient',
+        email: `display${index}@example.com`,
+        phone: '5551234567',
+        dateOfBirth: '1990-01-01',
+        gender: 'female',
+        symptoms: 'Mild cough for two days',
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 1
+      })
+      .expect(201);
+
+  beforeEach(async () => {
+    await Patient.deleteMany({});
+    await Visit.deleteMany({});
+    await Queue.deleteMany({});
+    await Staff.deleteMany({});
+    await TicketCounter.deleteMany({});
+    await Room.deleteMany({});
+  });
+
+  test('should issue sequential daily tickets by priority at check-in', async () => {
+    const first = await checkIn(1);
+    const second = await checkIn(2);
+
+    const prefix = first.body.visit.triageLevel.charAt(0).toUpperCase();
+    expect(first.body.visit.ticketNumber).toBe(`${prefix}-001`);
+    expect(second.body.visit.ticketNumber).toBe(`${prefix}-002`);
+
+    const queue = await Queue.findOne({ visit: first.body.visit.id });
+    expect(queue?.ticketNumber).toBe(`${prefix}-001`);
+  });
+
+  test('should show called and waiting tickets without patient names', async () => {
+    const first = await checkIn(1);
+    const second = await checkIn(2);
+    const third = await checkIn(3);
+
+    // Waiting for the lab, not the doctor: counted but not shown as up next
+    await Queue.updateOne({ visit: third.body.visit.id }, { stage: 'lab', position: 1 });
+
+    const doctor = await Staff.create({
+      firstName: 'Display',
+      lastName: 'Doctor',
+      email: 'display.doctor@clinic.com',
+      phone: '5551234567',
+      role: 'doctor',
+      specialty: 'General Medicine',
+      password: await hashPassword('password123')
+    });
+    const token = signToken({ id: doctor._id.toString(), email: doctor.email, role: doctor.role });
+    await Room.create({ name: 'Exam-2' });
+
+    // The only free consultation room is picked automatically
+    await request(app)
+      .post('/api/queue/call-next')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctorId: doctor._id.toString() })
+      .expect(200);
+
+    // No authentication required
+    const response = await request(app)
+      .get('/api/display/board')
+      .expect(200);
+
+    const board = response.body.data;
+    expect(board.nowCalling).toEqual([
+      { ticketNumber: first.body.visit.ticketNumber, room: 'Exam-2', calledAt: expect.any(String) }
+    ]);
+    expect(board.upNext).toEqual([second.body.visit.ticketNumber]);
+    expect(board.waitingCount).toBe(2);
+
+    const body = JSON.stringify(response.body);
+    expect(body).not.toContain('Display1');
+    expect(body).not.toContain('Display2');
+    expect(body).not.toContain('Display3');
+    expect(body).not.toContain('cough');
+  });
+});
\ No newline at end of file
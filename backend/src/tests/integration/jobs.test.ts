@@ -0,0 +1,172 @@
+// src/tests/integration/jobs.test.ts
+/**
+ * Background Jobs Integration Tests
+ *
+ * Tests listing the scheduled jobs, queuing a run on demand and reading
+ * its run history through the admin endpoints, and large staffing
+ * simulations queued for the simulation-runs job.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import request from 'supertest';
+import app from '../../app';
+import Staff from '../../models/Staff';
+import Job from '../../models/Job';
+import JobRun from '../../models/JobRun';
+import SimulationRun from '../../models/SimulationRun';
+import { JobRunner } from '../../services/jobRunner.service';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
+
+describe('Background Jobs Integration', () => {
+  const createStaff = async (role: 'admin' | 'receptionist') => {
+    const staff = await Staff.create({
+      firstName: role === 'admin' ? 'Admin' : 'Front',
+      lastName: 'Jobs',
+      email: `${role}.jobs@clinic.com`,
+      phone: '5551234567',
+      role,
+      password: await hashPassword('password123')
+    });
+
+    return {
+      staff,
+      token: signToken({ id: staff._id.toString(), email: staff.email, role: staff.role })
+    };
+  };
+
+  beforeEach(async () => {
+    await Job.deleteMany({});
+    await JobRun.deleteMany({});
+    await SimulationRun.deleteMany({});
+    await Staff.deleteMany({});
+  });
+
+  test('should list the scheduled jobs to admins only', async () => {
+    const { token } = await createStaff('admin');
+    const { token: receptionistToken } = await createStaff('receptionist');
+
+    await request(app)
+      .get('/api/admin/jobs')
+      .set('Authorization', `Bearer ${receptionistToken}`)
+      .expect(403);
+
+    const response = await request(app)
+      .get('/api/admin/jobs')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.data.map((job: any) => job.name)).toEqual([
+      'appointment-reminders',
+      'end-of-day-close-out',
+      'resume-expired-holds',
+      'simulation-runs',
+      'wait-target-check'
+    ]);
+    expect(response.body.data[0]).toMatchObject({ schedule: '*/5 * * * *', enabled: true, running: false });
+  });
+
+  test('should queue a job run on demand and record the run', async () => {
+    const { staff, token } = await createStaff('admin');
+
+    const response = await request(app)
+      .post('/api/admin/jobs/resume-expired-holds/run')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(202);
+
+    expect(response.body.data).toMatchObject({
+      name: 'resume-expired-holds',
+      runRequestedBy: staff._id.toString()
+    });
+    expect(response.body.data.runRequestedAt).toBeTruthy();
+
+    await request(app)
+      .post('/api/admin/jobs/resume-expired-holds/run')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(409);
+
+    // Next poll
+    const [run] = await JobRunner.runDueJobs();
+    expect(run).toMatchObject({
+      job: 'resume-expired-holds',
+      trigger: 'manual',
+      status: 'succeeded',
+      result: { resumed: 0 }
+    });
+
+    const job = await Job.findOne({ name: 'resume-expired-holds' });
+    expect(job).toMatchObject({ lastStatus: 'succeeded', lockedBy: null, runRequestedAt: null });
+
+    const runs = await request(app)
+      .get('/api/admin/jobs/resume-expired-holds/runs')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(runs.body.count).toBe(1);
+    expect(runs.body.data[0].triggeredBy._id).toBe(staff._id.toString());
+  });
+
+  test('should refuse unknown jobs and jobs already running', async () => {
+    const { token } = await createStaff('admin');
+
+    await request(app)
+      .post('/api/admin/jobs/no-such-job/run')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    await request(app)
+      .get('/api/admin/jobs/no-such-job/runs')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    // Another instance holds the lock
+    await request(app).get('/api/admin/jobs').set('Authorization', `Bearer ${token}`).expect(200);
+    await Job.updateOne(
+      { name: 'wait-target-check' },
+      { $set: { lockedBy: 'other-host:1', lockedUntil: new Date(Date.now() + 60000) } }
+    );
+
+    await request(app)
+      .post('/api/admin/jobs/wait-target-check/run')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(409);
+  });
+
+  test('should queue a large simulation and run it in the background', async () => {
+    const { token } = await createStaff('admin');
+    const simulation = (days: number) => ({
+      source: 'synthetic',
+      synthetic: { start: '2024-01-15T08:00:00.000Z', hours: 10, days, arrivalsPerHour: 100 },
+      staffing: { doctors: 10 },
+      consultTimes: { distribution: 'fixed', meanMinutes: { high: 6, medium: 6, low: 6 } }
+    });
+
+    await request(app)
+      .post('/api/admin/simulation')
+      .set('Authorization', `Bearer ${token}`)
+      .send(simulation(31))
+      .expect(400);
+
+    const queued = await request(app)
+      .post('/api/admin/simulation')
+      .set('Authorization', `Bearer ${token}`)
+      .send(simulation(3))
+      .expect(202);
+
+    expect(queued.body.data).toMatchObject({ status: 'queued', estimatedArrivals: 3000 });
+
+    await request(app)
+      .post('/api/admin/jobs/simulation-runs/run')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(202);
+    await JobRunner.runDueJobs();
+
+    const run = await request(app)
+      .get(`/api/admin/simulation/runs/${queued.body.data._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(run.body.data.status).toBe('completed');
+    expect(run.body.data.report.arrivals).toBeGreaterThan(0);
+  });
+});
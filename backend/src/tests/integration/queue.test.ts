@@ -0,0 +1,1028 @@
+// src/tests/integration/queue.test.ts
+/**
+ * Queue Management Integration Tests
+ *
+ * Tests call-next behaviour when several doctors call patients
+ * at the same moment, room occupancy, missed calls, holds, transfers,
+ * stage routing, waiting target alerts, patient notifications,
+ * analytics, a doctor's own queue, the end-of-day close-out, the
+ * per-entry event timeline and queue stream tokens.
+ */
+
+import { describe, beforeEach, test, expect, jest } from '@jest/globals';
+import request from 'supertest';
+import app from '../../app';
+import Patient from '../../models/Patient';
+import Visit from '../../models/Visit';
+import Queue from '../../models/Queue';
+import Staff from '../../models/Staff';
+import QueueEvent from '../../models/QueueEvent';
+import Room from '../../models/Room';
+import QueueAlert from '../../models/QueueAlert';
+import QueueHistory from '../../models/QueueHistory';
+import DailyQueueSummary from '../../models/DailyQueueSummary';
+import Notification from '../../models/Notification';
+import { QueueAlertService } from '../../services/queueAlert.service';
+import { QueueService } from '../../services/queue.service';
+import { CloseOutService } from '../../services/closeOut.service';
+import { NotificationService } from '../../services/notification.service';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
+
+describe('Queue Management Integration', () => {
+  const createDoctor = async (index: number) => {
+    const doctor = await Staff.create({
+      firstName: `Doctor${index}`,
+      lastName: 'Queue',
+      email: `doctor${index}.queue@clinic.com`,
+      phone: '5551234567',
+      role: 'doctor',
+      specialty: 'General Medicine',
+      password: await hashPassword('password123')
+    });
+
+    const token = signToken({
+      id: doctor._id.toString(),
+      email: doctor.email,
+      role: doctor.role
+    });
+
+    return { doctor, token };
+  };
+
+  const createWaitingEntry = async (index: number) => {
+    const patient = await Patient.create({
+      firstName: `Patient${index}`,
+      lastName: 'Queue',
+      email: `patient${index}.queue@example.com`,
+      phone: '5559876543',
+      dateOfBirth: new Date('1990-01-01'),
+      gender: 'female',
+      address: '123 Test St',
+      city: 'Test City',
+      state: 'TS',
+      zipCode: '12345',
+      emergencyContact: {
+        name: 'Test Contact',
+        relationship: 'Friend',
+        phone: '5559999999'
+      }
+    });
+
+    const visit = await Visit.create({
+      patient: patient._id,
+      symptoms: 'Routine check-up',
+      vitals: {
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 1
+      },
+      triageLevel: 'low',
+      triageScore: 3,
+      estimatedWaitTime: 15
+    });
+
+    return Queue.create({
+      visit: visit._id,
+      patient: patient._id,
+      position: index,
+      priority: 'low',
+      estimatedWaitTime: 15 * index,
+      checkInTime: new Date(Date.now() - (10 - index) * 60000)
+    });
+  };
+
+  beforeEach(async () => {
+    await Queue.deleteMany({});
+    await QueueEvent.deleteMany({});
+    await QueueAlert.deleteMany({});
+    await QueueHistory.deleteMany({});
+    await DailyQueueSummary.deleteMany({});
+    await Notification.deleteMany({});
+    await Room.deleteMany({});
+    await Visit.deleteMany({});
+    await Patient.deleteMany({});
+    await Staff.deleteMany({});
+  });
+
+  describe('POST /api/queue/call-next', () => {
+    test('should claim each waiting patient exactly once under parallel calls', async () => {
+      const doctors = await Promise.all([1, 2, 3, 4, 5].map(createDoctor));
+      const entries = await Promise.all([1, 2, 3].map(createWaitingEntry));
+
+      const responses = await Promise.all(
+        doctors.map(({ doctor, token }) =>
+          request(app)
+            .post('/api/queue/call-next')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ doctorId: doctor._id.toString() })
+        )
+      );
+
+      const successes = responses.filter(response => response.status === 200);
+      const failures = responses.filter(response => response.status !== 200);
+
+      // Every patient is called once, by exactly one doctor
+      expect(successes).toHaveLength(entries.length);
+      const claimedIds = successes.map(response => response.body.data._id);
+      expect(new Set(claimedIds).size).toBe(entries.length);
+
+      // Doctors who lost every claim get a conflict or an empty queue
+      failures.forEach(response => {
+        expect([404, 409]).toContain(response.status);
+        expect(response.body.success).toBe(false);
+      });
+
+      const inProgress = await Queue.find({ status: 'in-progress' });
+      expect(inProgress).toHaveLength(entries.length);
+      const assignedDoctors = inProgress.map(entry => entry.doctor?.toString());
+      expect(new Set(assignedDoctors).size).toBe(entries.length);
+    });
+
+    test('should return 404 when nobody is waiting', async () => {
+      const { doctor, token } = await createDoctor(1);
+
+      const response = await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(404);
+
+      expect(response.body.error).toBe('No patients waiting in queue');
+    });
+  });
+
+  describe('Queue stream tokens', () => {
+    test('should only open the stream with a stream token in the URL', async () => {
+      const { token } = await createDoctor(1);
+
+      const issued = await request(app)
+        .post('/api/queue/stream-token')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const streamToken = issued.body.data.token;
+      expect(typeof streamToken).toBe('string');
+
+      // A stream token grants nothing else
+      await request(app)
+        .get('/api/queue')
+        .set('Authorization', `Bearer ${streamToken}`)
+        .expect(401);
+
+      // Staff JWTs are never accepted in the URL
+      const response = await request(app)
+        .get(`/api/queue/stream?token=${token}`)
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid or expired stream token');
+
+      await request(app).post('/api/queue/stream-token').expect(401);
+    });
+  });
+
+  describe('GET /api/queue/:id/timeline', () => {
+    test('should record who called, returned and completed a patient', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      const room = await Room.create({ name: 'Exam-1' });
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString(), roomId: room._id.toString() })
+        .expect(200);
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'waiting', notes: 'Sent for lab work' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'completed' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/queue/${entry._id}/timeline`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const { events, summary } = response.body.data;
+      expect(events.map((event: any) => event.type)).toEqual([
+        'called',
+        'room-assigned',
+        'returned-to-waiting',
+        'called',
+        'room-assigned', // Freed when sent back, then picked again automatically
+        'completed'
+      ]);
+      events.forEach((event: any) => {
+        expect(event.actor.id).toBe(doctor._id.toString());
+        expect(event.derived).toBe(false);
+      });
+      expect(events[2]).toMatchObject({ fromStatus: 'in-progress', toStatus: 'waiting' });
+      expect(summary.timesReturnedToWaiting).toBe(1);
+    });
+
+    test('should derive the journey of entries without logged events', async () => {
+      const { token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+
+      const response = await request(app)
+        .get(`/api/queue/${entry._id}/timeline`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data.events).toHaveLength(1);
+      expect(response.body.data.events[0]).toMatchObject({ type: 'checked-in', derived: true });
+    });
+
+    test('should return 404 for an unknown entry', async () => {
+      const { token } = await createDoctor(1);
+
+      await request(app)
+        .get('/api/queue/507f1f77bcf86cd799439011/timeline')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/queue/:id/missed-call', () => {
+    test('should return the patient to waiting, then mark them left after repeated misses', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+
+      const callAndMiss = async () => {
+        await request(app)
+          .post('/api/queue/call-next')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ doctorId: doctor._id.toString() })
+          .expect(200);
+
+        return request(app)
+          .post(`/api/queue/${entry._id}/missed-call`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({})
+          .expect(200);
+      };
+
+      const first = await callAndMiss();
+      expect(first.body.data).toMatchObject({ missedCalls: 1, outcome: 'returned-to-waiting' });
+      expect(first.body.data.queueEntry.status).toBe('waiting');
+
+      await callAndMiss();
+      const third = await callAndMiss();
+      expect(third.body.data).toMatchObject({ missedCalls: 3, outcome: 'left-without-being-seen' });
+
+      const stored = await Queue.findById(entry._id);
+      expect(stored?.status).toBe('left-without-being-seen');
+      expect(stored?.callAttempts).toBe(3);
+      expect(stored?.lastCallAttemptAt).toBeDefined();
+
+      const stats = await request(app)
+        .get('/api/queue/stats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(stats.body.data.leftWithoutBeingSeen).toEqual({ today: 1, rate: 100 });
+    });
+
+    test('should reject a missed call for a patient who was not called', async () => {
+      const { token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+
+      await request(app)
+        .post(`/api/queue/${entry._id}/missed-call`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(409);
+    });
+  });
+
+  describe('On-hold status', () => {
+    test('should keep the place of a patient on hold without calling them', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const first = await createWaitingEntry(1);
+      const second = await createWaitingEntry(2);
+
+      await request(app)
+        .patch(`/api/queue/${first._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'on-hold', holdReason: 'restroom' })
+        .expect(200);
+
+      const called = await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      expect(called.body.data._id).toBe(second._id.toString());
+
+      const held = await Queue.findById(first._id);
+      expect(held?.status).toBe('on-hold');
+      expect(held?.position).toBe(1);
+    });
+
+    test('should require a hold reason', async () => {
+      const { token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'on-hold' })
+        .expect(400);
+    });
+
+    test('should resume expired holds and exclude hold time from the wait', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1); // Checked in 9 minutes ago
+
+      const holdUntil = new Date(Date.now() - 60000);
+      await Queue.updateOne(
+        { _id: entry._id },
+        {
+          status: 'on-hold',
+          holdReason: 'test-result',
+          holdStartedAt: new Date(holdUntil.getTime() - 5 * 60000),
+          holdUntil
+        }
+      );
+
+      const called = await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      expect(called.body.data._id).toBe(entry._id.toString());
+      expect(called.body.data.totalHoldMinutes).toBe(5);
+      expect(called.body.data.actualWaitTime).toBe(4);
+      expect(called.body.data.holdUntil).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/queue/:id/transfer', () => {
+    const callPatient = async (doctorId: string, token: string, roomId?: string) => {
+      const response = await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId, roomId })
+        .expect(200);
+
+      return response.body.data;
+    };
+
+    test('should hand an in-progress patient to another doctor and room', async () => {
+      const first = await createDoctor(1);
+      const second = await createDoctor(2);
+      await createWaitingEntry(1);
+      const [fromRoom, toRoom] = await Room.create([{ name: 'Exam-1' }, { name: 'Exam-4' }]);
+
+      const called = await callPatient(first.doctor._id.toString(), first.token, fromRoom._id.toString());
+
+      const response = await request(app)
+        .post(`/api/queue/${called._id}/transfer`)
+        .set('Authorization', `Bearer ${first.token}`)
+        .send({
+          toDoctorId: second.doctor._id.toString(),
+          toRoomId: toRoom._id.toString(),
+          reason: 'Handover at end of shift'
+        })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('in-progress');
+      expect(response.body.data.doctor._id).toBe(second.doctor._id.toString());
+      expect(response.body.data.assignedRoom).toBe('Exam-4');
+      expect(response.body.data.handoffs).toHaveLength(1);
+      expect(response.body.data.consultationSegments).toHaveLength(2);
+      expect(response.body.data.consultationSegments[0].endedAt).toBeDefined();
+
+      // The first room is freed and the new one is taken by the patient and doctor
+      const [freed, taken] = await Promise.all([Room.findById(fromRoom._id), Room.findById(toRoom._id)]);
+      expect(freed?.occupiedSince).toBeUndefined();
+      expect(taken?.occupiedBy?.toString()).toBe(called._id);
+      expect(taken?.occupiedDoctor?.toString()).toBe(second.doctor._id.toString());
+
+      const timeline = await request(app)
+        .get(`/api/queue/${called._id}/timeline`)
+        .set('Authorization', `Bearer ${first.token}`)
+        .expect(200);
+
+      const transferred = timeline.body.data.events.find((event: any) => event.type === 'transferred');
+      expect(transferred.details.reason).toBe('Handover at end of shift');
+      expect(timeline.body.data.summary.consultationByDoctor).toHaveLength(2);
+    });
+
+    test('should return a patient to the waiting list of a specialty', async () => {
+      const general = await createDoctor(1);
+      const cardiologist = await createDoctor(2);
+      await Staff.updateOne({ _id: cardiologist.doctor._id }, { specialty: 'Cardiology' });
+      await createWaitingEntry(1);
+
+      const called = await callPatient(general.doctor._id.toString(), general.token);
+
+      const response = await request(app)
+        .post(`/api/queue/${called._id}/transfer`)
+        .set('Authorization', `Bearer ${general.token}`)
+        .send({ toSpecialty: 'Cardiology', reason: 'Abnormal ECG' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('waiting');
+      expect(response.body.data.requiredSpecialty).toBe('Cardiology');
+
+      // Only a doctor of the required specialty can call the patient
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${general.token}`)
+        .send({ doctorId: general.doctor._id.toString() })
+        .expect(404);
+
+      const recalled = await callPatient(cardiologist.doctor._id.toString(), cardiologist.token);
+      expect(recalled._id).toBe(called._id);
+      expect(recalled.consultationSegments).toHaveLength(2);
+    });
+
+    test('should reject transferring a patient who is not in consultation', async () => {
+      const { token } = await createDoctor(1);
+      const second = await createDoctor(2);
+      const entry = await createWaitingEntry(1);
+
+      await request(app)
+        .post(`/api/queue/${entry._id}/transfer`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ toDoctorId: second.doctor._id.toString(), reason: 'Handover' })
+        .expect(409);
+    });
+  });
+
+  describe('Stage routing', () => {
+    const createStaffToken = async (role: 'nurse' | 'receptionist') => {
+      const staff = await Staff.create({
+        firstName: role,
+        lastName: 'Queue',
+        email: `${role}.queue@clinic.com`,
+        phone: '5551234567',
+        role,
+        password: await hashPassword('password123')
+      });
+
+      return signToken({ id: staff._id.toString(), email: staff.email, role: staff.role });
+    };
+
+    const completeStage = (queueId: string, token: string, body: Record<string, unknown> = {}) =>
+      request(app)
+        .post(`/api/queue/${queueId}/complete`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(body)
+        .expect(200);
+
+    test('should replace the unique visit index of older databases', async () => {
+      await Queue.collection.dropIndex('visit_1');
+      await Queue.collection.createIndex({ visit: 1 }, { unique: true });
+
+      expect(await QueueService.dropLegacyVisitIndex()).toBe(true);
+      expect(await QueueService.dropLegacyVisitIndex()).toBe(false);
+
+      const indexes = await Queue.collection.indexes();
+      expect(indexes.find(index => index.name === 'visit_1')).not.toHaveProperty('unique');
+    });
+
+    test('should route a visit through its planned stages', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const nurseToken = await createStaffToken('nurse');
+      const receptionistToken = await createStaffToken('receptionist');
+      const entry = await createWaitingEntry(1);
+      await Visit.updateOne({ _id: entry.visit }, { plannedStages: ['doctor', 'pharmacy', 'checkout'] });
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      const afterDoctor = await completeStage(entry._id.toString(), token);
+      const pharmacyEntry = afterDoctor.body.data.nextEntry;
+
+      expect(afterDoctor.body.data.queueEntry.status).toBe('completed');
+      expect(pharmacyEntry).toMatchObject({ stage: 'pharmacy', status: 'waiting', position: 1 });
+
+      // Receptionists do not serve the pharmacy
+      await request(app)
+        .post('/api/queue/stages/pharmacy/call-next')
+        .set('Authorization', `Bearer ${receptionistToken}`)
+        .send({})
+        .expect(403);
+
+      const called = await request(app)
+        .post('/api/queue/stages/pharmacy/call-next')
+        .set('Authorization', `Bearer ${nurseToken}`)
+        .send({})
+        .expect(200);
+
+      expect(called.body.data._id).toBe(pharmacyEntry._id);
+      expect(called.body.data.status).toBe('in-progress');
+
+      const afterPharmacy = await completeStage(pharmacyEntry._id, nurseToken);
+      const checkoutEntry = afterPharmacy.body.data.nextEntry;
+      expect(checkoutEntry.stage).toBe('checkout');
+
+      await request(app)
+        .post('/api/queue/stages/checkout/call-next')
+        .set('Authorization', `Bearer ${receptionistToken}`)
+        .send({})
+        .expect(200);
+
+      const finished = await completeStage(checkoutEntry._id, receptionistToken);
+      expect(finished.body.data.nextEntry).toBeNull();
+
+      const visit = await Visit.findById(entry.visit);
+      expect(visit?.completedAt).toBeDefined();
+      expect(visit?.currentStage).toBeUndefined();
+      expect(visit?.stageHistory.map(item => item.stage)).toEqual(['doctor', 'pharmacy', 'checkout']);
+    });
+
+    test('should only end the visit when removing the patient from their open stage', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      await Visit.updateOne({ _id: entry.visit }, { plannedStages: ['doctor', 'pharmacy'] });
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      const afterDoctor = await completeStage(entry._id.toString(), token);
+      const pharmacyEntry = afterDoctor.body.data.nextEntry;
+
+      // The finished doctor stage cannot be removed while the patient waits at the pharmacy
+      await expect(QueueService.removeFromQueue(entry._id.toString())).rejects.toThrow('Invalid status transition');
+      expect((await Visit.findById(entry.visit))?.completedAt).toBeUndefined();
+
+      await Queue.updateOne({ _id: pharmacyEntry._id }, { status: 'in-progress', consultationSegments: [{ startedAt: new Date() }] });
+      const { removedEntry } = await QueueService.removeFromQueue(pharmacyEntry._id);
+
+      expect(removedEntry.status).toBe('cancelled');
+      expect(removedEntry.consultationSegments[0].endedAt).toBeDefined();
+
+      const visit = await Visit.findById(entry.visit);
+      expect(visit?.completedAt).toBeDefined();
+      expect(visit?.currentStage).toBeUndefined();
+    });
+
+    test('should send a patient to a requested stage and report per-stage waits', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      await createWaitingEntry(2);
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      const response = await completeStage(entry._id.toString(), token, { nextStage: 'lab' });
+      expect(response.body.data.nextEntry.stage).toBe('lab');
+
+      // The lab queue is separate from the doctor's
+      const labQueue = await request(app)
+        .get('/api/queue?stage=lab')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(labQueue.body.count).toBe(1);
+
+      await request(app)
+        .get('/api/queue?stage=radiology')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+
+      const stats = await request(app)
+        .get('/api/queue/stats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const byStage = Object.fromEntries(
+        stats.body.data.byStage.map((row: any) => [row.stage, row])
+      );
+      expect(byStage.doctor).toMatchObject({ waiting: 1, inProgress: 0, completedToday: 1 });
+      expect(byStage.lab).toMatchObject({ waiting: 1, inProgress: 0 });
+      expect(byStage.pharmacy.waiting).toBe(0);
+    });
+  });
+
+  describe('Waiting target alerts', () => {
+    test('should raise one breach alert per entry and resolve it once the patient is called', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      await Queue.updateOne(
+        { _id: entry._id },
+        { priority: 'high', checkInTime: new Date(Date.now() - 20 * 60000) }
+      );
+
+      const received: string[] = [];
+      const stopListening = QueueAlertService.onAlert(alert => {
+        received.push(alert.level);
+      });
+
+      try {
+        const raised = await QueueAlertService.checkWaitingEntries();
+        expect(raised).toHaveLength(1);
+        expect(raised[0]).toMatchObject({ level: 'breach', priority: 'high', targetMinutes: 15 });
+        expect(received).toEqual(['breach']);
+
+        // Checking again does not repeat the alert
+        expect(await QueueAlertService.checkWaitingEntries()).toHaveLength(0);
+      } finally {
+        stopListening();
+      }
+
+      const stats = await request(app)
+        .get('/api/queue/stats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(stats.body.data.slaBreaches).toEqual({ waitingOverTarget: 1, today: 1 });
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      await QueueAlertService.checkWaitingEntries();
+
+      const after = await request(app)
+        .get('/api/queue/stats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(after.body.data.slaBreaches).toEqual({ waitingOverTarget: 0, today: 1 });
+    });
+
+    test('should list open alerts until they are acknowledged', async () => {
+      const { token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      await Queue.updateOne({ _id: entry._id }, { checkInTime: new Date(Date.now() - 100 * 60000) });
+
+      await QueueAlertService.checkWaitingEntries();
+
+      const open = await request(app)
+        .get('/api/queue/alerts')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(open.body.count).toBe(1);
+      expect(open.body.data[0].level).toBe('warning');
+
+      await request(app)
+        .post(`/api/queue/alerts/${open.body.data[0]._id}/acknowledge`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .post(`/api/queue/alerts/${open.body.data[0]._id}/acknowledge`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+
+      const remaining = await request(app)
+        .get('/api/queue/alerts')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(remaining.body.count).toBe(0);
+
+      const active = await request(app)
+        .get('/api/queue/alerts?status=active')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(active.body.count).toBe(1);
+    });
+  });
+
+  describe('Patient notifications', () => {
+    test('should tell the called patient and those who reach the front of the line', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entries = [];
+      for (const index of [1, 2, 3, 4]) {
+        entries.push(await createWaitingEntry(index));
+      }
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      // Notifications go out after the response
+      await NotificationService.settle();
+
+      const called = await Notification.find({ queueEntry: entries[0]._id, template: 'called' });
+      expect(called.map(notification => notification.channel).sort()).toEqual(['email', 'sms']);
+      expect(called.every(notification => notification.status === 'sent')).toBe(true);
+      expect(called.find(notification => notification.channel === 'sms')?.recipient).toBe('5559876543');
+
+      // The fourth patient moved up to third and is told once
+      const turnNear = await Notification.find({ queueEntry: entries[3]._id, template: 'turn-near' });
+      expect(turnNear).toHaveLength(2);
+      expect(turnNear[0].body).toContain('3rd in line');
+
+      await QueueService.refreshQueue();
+      await NotificationService.settle();
+      expect(await Notification.countDocuments({ queueEntry: entries[3]._id, template: 'turn-near' })).toBe(2);
+    });
+
+    test('should list the delivery log for reception only', async () => {
+      const { doctor, token } = await createDoctor(1);
+      await createWaitingEntry(1);
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+      await NotificationService.settle();
+
+      await request(app)
+        .get('/api/notifications')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      const receptionistToken = signToken({ id: doctor._id.toString(), email: 'reception@clinic.com', role: 'receptionist' });
+      const response = await request(app)
+        .get('/api/notifications?template=called&channel=sms')
+        .set('Authorization', `Bearer ${receptionistToken}`)
+        .expect(200);
+
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0]).toMatchObject({ channel: 'sms', template: 'called', status: 'sent', provider: 'local' });
+    });
+  });
+
+  describe('GET /api/queue/analytics', () => {
+    test('should report arrivals, calls and waits per bucket', async () => {
+      const { doctor, token } = await createDoctor(1);
+      await createWaitingEntry(1);
+      await createWaitingEntry(2);
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      const from = new Date(Date.now() - 2 * 60 * 60000).toISOString();
+      const to = new Date(Date.now() + 60000).toISOString();
+
+      const response = await request(app)
+        .get(`/api/queue/analytics?from=${from}&to=${to}&bucket=hour`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data.buckets.length).toBeGreaterThanOrEqual(3);
+      expect(response.body.data.totals).toMatchObject({ arrivals: 2, calls: 1, completions: 0 });
+      expect(response.body.data.totals.byTriageLevel.low.medianDoorToDoctor).not.toBeNull();
+      expect(response.body.data.totals.byTriageLevel.high.arrivals).toBe(0);
+    });
+
+    test('should reject a reversed or oversized period', async () => {
+      const { token } = await createDoctor(1);
+
+      await request(app)
+        .get('/api/queue/analytics?from=2024-02-01T00:00:00Z&to=2024-01-01T00:00:00Z')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+
+      await request(app)
+        .get('/api/queue/analytics?from=2024-01-01T00:00:00Z&to=2024-03-01T00:00:00Z&bucket=hour')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+  });
+
+  describe('PATCH /api/queue/:id', () => {
+    test('should record the doctor who takes the patient in', async () => {
+      const { token } = await createDoctor(1);
+      const { doctor: other } = await createDoctor(2);
+      const entry = await createWaitingEntry(1);
+      await Room.create({ name: 'Exam-1' });
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'in-progress', doctorId: 'not-a-doctor' })
+        .expect(400);
+
+      const response = await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'in-progress', doctorId: other._id.toString() })
+        .expect(200);
+
+      expect(response.body.data.doctor._id).toBe(other._id.toString());
+      expect(response.body.data.consultationSegments[0].doctor).toBe(other._id.toString());
+
+      const doctorQueue = await QueueService.getDoctorQueue(other._id.toString());
+      expect(doctorQueue).toHaveLength(1);
+    });
+
+    test('should not overwrite a patient called meanwhile', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const entry = await createWaitingEntry(1);
+      await Room.create({ name: 'Exam-1' });
+
+      await request(app)
+        .patch('/api/queue/not-an-id')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'cancelled' })
+        .expect(400);
+
+      // call-next claims the patient between the read and the write of a staff update
+      const staleEntry = await Queue.findById(entry._id);
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      const findById = jest.spyOn(Queue, 'findById').mockResolvedValueOnce(staleEntry as never);
+      try {
+        await expect(QueueService.updateQueueStatus(entry._id.toString(), { status: 'cancelled' }))
+          .rejects.toThrow('Queue conflict');
+      } finally {
+        findById.mockRestore();
+      }
+
+      const claimed = await Queue.findById(entry._id);
+      expect(claimed?.status).toBe('in-progress');
+    });
+
+    test('should reject a doctor who is inactive', async () => {
+      const { token } = await createDoctor(1);
+      const { doctor: inactive } = await createDoctor(2);
+      const entry = await createWaitingEntry(1);
+      await Staff.updateOne({ _id: inactive._id }, { isActive: false });
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'in-progress', doctorId: inactive._id.toString() })
+        .expect(404);
+    });
+  });
+
+  describe('Adding patients to the queue', () => {
+    test('should place a staff-added patient by priority and move the others back', async () => {
+      const first = await createWaitingEntry(1);
+      const second = await createWaitingEntry(2);
+      await QueueService.refreshQueue();
+
+      const patient = await Patient.findById(first.patient);
+      const visit = await Visit.create({
+        patient: patient?._id,
+        symptoms: 'Chest pain',
+        vitals: {
+          temperature: 98.6,
+          heartRate: 110,
+          bloodPressureSystolic: 150,
+          bloodPressureDiastolic: 95,
+          painLevel: 8
+        },
+        triageLevel: 'high',
+        triageScore: 80,
+        estimatedWaitTime: 0
+      });
+
+      const added = await QueueService.addToQueue(visit._id.toString(), String(patient?._id), 'high', 0);
+      expect(added.position).toBe(1);
+
+      const positions = await Promise.all([first, second].map(entry => Queue.findById(entry._id)));
+      expect(positions.map(entry => entry?.position)).toEqual([2, 3]);
+    });
+  });
+
+  describe('Doctor queue', () => {
+    test('should list the patient in consultation first, then waiting patients by priority', async () => {
+      const { doctor } = await createDoctor(1);
+      const [low, high, inProgress] = await Promise.all([1, 2, 3].map(createWaitingEntry));
+      await Queue.updateMany({}, { doctor: doctor._id });
+      await Queue.updateOne({ _id: high._id }, { priority: 'high' });
+      await Queue.updateOne({ _id: inProgress._id }, { priority: 'medium', status: 'in-progress' });
+
+      const doctorQueue = await QueueService.getDoctorQueue(doctor._id.toString());
+
+      expect(doctorQueue.map(entry => entry._id.toString())).toEqual([
+        inProgress._id.toString(),
+        high._id.toString(),
+        low._id.toString()
+      ]);
+    });
+  });
+
+  describe('POST /api/admin/close-out', () => {
+    test('should resolve open entries, summarise the day and archive the queue', async () => {
+      const { doctor, token } = await createDoctor(1);
+      const seen = await createWaitingEntry(1);
+      const unseen = await createWaitingEntry(2);
+
+      const admin = await Staff.create({
+        firstName: 'Admin',
+        lastName: 'Queue',
+        email: 'admin.queue@clinic.com',
+        phone: '5551234567',
+        role: 'admin',
+        password: await hashPassword('password123')
+      });
+      const adminToken = signToken({ id: admin._id.toString(), email: admin.email, role: admin.role });
+
+      await request(app)
+        .post('/api/queue/call-next')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ doctorId: doctor._id.toString() })
+        .expect(200);
+
+      // Only admins can close out
+      await request(app)
+        .post('/api/admin/close-out')
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(403);
+
+      const response = await request(app)
+        .post('/api/admin/close-out')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        visits: 2,
+        entries: 2,
+        completed: 0,
+        resolvedAtClose: { notSeen: 1, consultationNotClosed: 1 },
+        archivedEntries: 2,
+        trigger: 'manual'
+      });
+
+      expect(await Queue.countDocuments()).toBe(0);
+      const archived = await QueueHistory.findById(unseen._id);
+      expect(archived).toMatchObject({ status: 'cancelled', closeOutReason: 'not-seen-by-close' });
+
+      const visit = await Visit.findById(seen.visit);
+      expect(visit?.completedAt).toBeDefined();
+
+      // Archived entries keep their timeline
+      const timeline = await request(app)
+        .get(`/api/queue/${seen._id}/timeline`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(timeline.body.data.status).toBe('completed');
+
+      await request(app)
+        .post('/api/admin/close-out')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(409);
+
+      const summaries = await request(app)
+        .get('/api/admin/daily-summaries')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(summaries.body.count).toBe(1);
+    });
+
+    test('should finish a close-out interrupted after archiving part of the day', async () => {
+      const archivedEarlier = await createWaitingEntry(1);
+      const stillOpen = await createWaitingEntry(2);
+
+      // An earlier run cancelled and archived the first entry, then stopped
+      const dayStart = new Date();
+      dayStart.setHours(0, 0, 0, 0);
+      await QueueHistory.create({
+        ...archivedEarlier.toObject(),
+        status: 'cancelled',
+        closeOutReason: 'not-seen-by-close',
+        serviceDate: dayStart
+      });
+      await Queue.deleteOne({ _id: archivedEarlier._id });
+
+      const summary = await CloseOutService.closeOutDay(new Date());
+
+      expect(summary).toMatchObject({
+        entries: 2,
+        resolvedAtClose: { notSeen: 2, consultationNotClosed: 0 },
+        archivedEntries: 2
+      });
+      expect(await Queue.countDocuments()).toBe(0);
+      expect(await QueueHistory.findById(stillOpen._id)).toMatchObject({ status: 'cancelled' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,251 @@
+// src/tests/integration/rooms.test.ts
+/**
+ * Room Management Integration Tests
+ *
+ * Tests the room directory, room availability, and room occupancy
+ * as patients are called into, and leave, consultation.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import request from 'supertest';
+import app from '../../app';
+import Patient from '../../models/Patient';
+import Visit from '../../models/Visit';
+import Queue from '../../models/Queue';
+import Staff from '../../models/Staff';
+import Room from '../../models/Room';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
+
+describe('Room Management Integration', () => {
+  const createStaff = async (role: 'doctor' | 'admin', index: number = 1) => {
+    const staff = await Staff.create({
+      firstName: `${role}${index}`,
+      lastName: 'Rooms',
+      email: `${role}${index}.rooms@clinic.com`,
+      phone: '5551234567',
+      role,
+      ...(role === 'doctor' && { specialty: 'General Medicine' }),
+      password: await hashPassword('password123')
+    });
+
+    const token = signToken({
+      id: staff._id.toString(),
+      email: staff.email,
+      role: staff.role
+    });
+
+    return { staff, token };
+  };
+
+  const createWaitingEntry = async (index: number) => {
+    const patient = await Patient.create({
+      firstName: `Patient${index}`,
+      lastName: 'Rooms',
+      email: `patient${index}.rooms@example.com`,
+      phone: '5559876543',
+      dateOfBirth: new Date('1990-01-01'),
+      gender: 'male',
+      address: '123 Test St',
+      city: 'Test City',
+      state: 'TS',
+      zipCode: '12345',
+      emergencyContact: {
+        name: 'Test Contact',
+        relationship: 'Friend',
+        phone: '5559999999'
+      }
+    });
+
+    const visit = await Visit.create({
+      patient: patient._id,
+      symptoms: 'Routine check-up',
+      vitals: {
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 1
+      },
+      triageLevel: 'low',
+      triageScore: 3,
+      estimatedWaitTime: 15
+    });
+
+    return Queue.create({
+      visit: visit._id,
+      patient: patient._id,
+      position: index,
+      priority: 'low',
+      estimatedWaitTime: 15 * index,
+      checkInTime: new Date(Date.now() - (10 - index) * 60000)
+    });
+  };
+
+  const callNext = (doctorId: string, token: string, roomId?: string) =>
+    request(app)
+      .post('/api/queue/call-next')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctorId, roomId });
+
+  beforeEach(async () => {
+    await Queue.deleteMany({});
+    await Room.deleteMany({});
+    await Visit.deleteMany({});
+    await Patient.deleteMany({});
+    await Staff.deleteMany({});
+  });
+
+  describe('Room directory', () => {
+    test('should let admins create rooms and reject duplicate names', async () => {
+      const { token } = await createStaff('admin');
+
+      const response = await request(app)
+        .post('/api/rooms')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Exam-1', type: 'consultation', equipment: ['ECG'] })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({ name: 'Exam-1', type: 'consultation', isActive: true });
+
+      await request(app)
+        .post('/api/rooms')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Exam-1' })
+        .expect(409);
+    });
+
+    test('should not let doctors create rooms', async () => {
+      const { token } = await createStaff('doctor');
+
+      await request(app)
+        .post('/api/rooms')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Exam-1' })
+        .expect(403);
+    });
+
+    test('should list only active free rooms as available', async () => {
+      const { token } = await createStaff('doctor');
+      await Room.create([
+        { name: 'Exam-1' },
+        { name: 'Exam-2', occupiedSince: new Date() },
+        { name: 'Exam-3', isActive: false },
+        { name: 'Proc-1', type: 'procedure' }
+      ]);
+
+      const all = await request(app)
+        .get('/api/rooms/available')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(all.body.data.map((room: any) => room.name)).toEqual(['Exam-1', 'Proc-1']);
+
+      const consultation = await request(app)
+        .get('/api/rooms/available?type=consultation')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(consultation.body.data.map((room: any) => room.name)).toEqual(['Exam-1']);
+    });
+  });
+
+  describe('Occupancy', () => {
+    test('should take a free room on call-next and free it on completion', async () => {
+      const { staff: doctor, token } = await createStaff('doctor');
+      const entry = await createWaitingEntry(1);
+      const room = await Room.create({ name: 'Exam-1' });
+
+      const called = await callNext(doctor._id.toString(), token).expect(200);
+
+      expect(called.body.data.room).toBe(room._id.toString());
+      expect(called.body.data.assignedRoom).toBe('Exam-1');
+
+      const occupied = await Room.findById(room._id);
+      expect(occupied?.occupiedBy?.toString()).toBe(entry._id.toString());
+      expect(occupied?.occupiedDoctor?.toString()).toBe(doctor._id.toString());
+
+      await request(app)
+        .patch(`/api/queue/${entry._id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'completed' })
+        .expect(200);
+
+      const freed = await Room.findById(room._id);
+      expect(freed?.occupiedSince).toBeUndefined();
+      expect(freed?.occupiedBy).toBeUndefined();
+    });
+
+    test('should refuse to call a patient into an occupied room', async () => {
+      const first = await createStaff('doctor', 1);
+      const second = await createStaff('doctor', 2);
+      await createWaitingEntry(1);
+      const waiting = await createWaitingEntry(2);
+      const room = await Room.create({ name: 'Exam-1' });
+
+      await callNext(first.staff._id.toString(), first.token, room._id.toString()).expect(200);
+
+      const response = await callNext(second.staff._id.toString(), second.token, room._id.toString()).expect(409);
+      expect(response.body.error).toBe('Room unavailable: Exam-1 is occupied');
+
+      // Nobody was claimed for the refused call
+      const stillWaiting = await Queue.findById(waiting._id);
+      expect(stillWaiting?.status).toBe('waiting');
+    });
+
+    test('should refuse call-next when every consultation room is occupied', async () => {
+      const first = await createStaff('doctor', 1);
+      const second = await createStaff('doctor', 2);
+      await createWaitingEntry(1);
+      await createWaitingEntry(2);
+      await Room.create({ name: 'Exam-1' });
+
+      await callNext(first.staff._id.toString(), first.token).expect(200);
+
+      const response = await callNext(second.staff._id.toString(), second.token).expect(409);
+      expect(response.body.error).toBe('Room unavailable: all consultation rooms are occupied');
+    });
+
+    test('should call patients without a room when the clinic has no rooms', async () => {
+      const { staff: doctor, token } = await createStaff('doctor');
+      await createWaitingEntry(1);
+
+      const called = await callNext(doctor._id.toString(), token).expect(200);
+
+      expect(called.body.data.room).toBeUndefined();
+      expect(called.body.data.status).toBe('in-progress');
+    });
+
+    test('should free the room when a called patient does not answer', async () => {
+      const { staff: doctor, token } = await createStaff('doctor');
+      const entry = await createWaitingEntry(1);
+      const room = await Room.create({ name: 'Exam-1' });
+
+      await callNext(doctor._id.toString(), token).expect(200);
+
+      await request(app)
+        .post(`/api/queue/${entry._id}/missed-call`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(200);
+
+      const freed = await Room.findById(room._id);
+      expect(freed?.occupiedSince).toBeUndefined();
+    });
+
+    test('should not deactivate an occupied room', async () => {
+      const { staff: doctor, token } = await createStaff('doctor');
+      const { token: adminToken } = await createStaff('admin');
+      await createWaitingEntry(1);
+      const room = await Room.create({ name: 'Exam-1' });
+
+      await callNext(doctor._id.toString(), token).expect(200);
+
+      await request(app)
+        .patch(`/api/rooms/${room._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ isActive: false })
+        .expect(409);
+    });
+  });
+});
\ No newline at end of file
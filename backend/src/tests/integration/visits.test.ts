@@ -3,7 +3,8 @@
  * Patient Check-in Integration Tests
  * 
  * Tests the complete patient check-in flow including triage scoring,
- * queue management, and visit creation.
+ * queue management, visit creation, patient self-tracking and the
+ * actions patients can take with their tracking token.
  */
 
 import { describe, beforeEach, test, expect } from '@jest/globals';
@@ -12,6 +13,11 @@ import app from '../../app';
 import Patient from '../../models/Patient';
 import Visit from '../../models/Visit';
 import Queue from '../../models/Queue';
+import Staff from '../../models/Staff';
+import Notification from '../../models/Notification';
+import { NotificationService } from '../../services/notification.service';
+import { hashPassword } from '../../utils/password';
+import { signToken } from '../../utils/jwt';
 
 describe('Patient Check-in Integration', () => {
   beforeEach(async () => {
@@ -72,6 +78,41 @@ describe('Patient Check-in Integration', () => {
       expect(queue?.position).toBe(1);
     });
 
+    test('should confirm the check-in by SMS and email', async () => {
+      const response = await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Notified',
+          lastName: 'Patient',
+          email: 'notified@example.com',
+          phone: '5552223333',
+          dateOfBirth: '1990-01-01',
+          gender: 'female',
+          symptoms: 'Sore throat',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 2
+        })
+        .expect(201);
+
+      await NotificationService.settle();
+
+      const notifications = await Notification.find({ visit: response.body.visit.id });
+      expect(notifications.map(notification => `${notification.template}:${notification.channel}`).sort())
+        .toEqual(['checked-in:email', 'checked-in:sms']);
+
+      const sms = notifications.find(notification => notification.channel === 'sms');
+      expect(sms).toMatchObject({ recipient: '5552223333', status: 'sent' });
+      expect(sms?.body).toContain(`ticket ${response.body.visit.ticketNumber}`);
+      expect(sms?.body).toContain('1st in line');
+
+      // Checked in at the front, so not told again that the turn is near
+      const queueEntry = await Queue.findOne({ visit: response.body.visit.id });
+      expect(queueEntry?.turnNearNotifiedAt).toBeDefined();
+    });
+
     test('should handle existing patient check-in', async () => {
       // Create existing patient
       const existingPatient = await Patient.create({
@@ -94,7 +135,7 @@ describe('Patient Check-in Integration', () => {
         firstName: 'Existing', // Same first name
         lastName: 'Patient',   // Same last name  
         email: 'existing@example.com', // Same email
-        phone: '5559999999', // Different phone (should update)
+        phone: '5559999999', // Different phone (sent to staff review)
         dateOfBirth: '1985-05-15',
         gender: 'female',
         symptoms: 'Follow-up visit',
@@ -112,9 +153,233 @@ describe('Patient Check-in Integration', () => {
 
       expect(response.body.success).toBe(true);
 
-      // Verify patient was updated
+      // Contact details on file are never changed from the kiosk
+      const updatedPatient = await Patient.findById(existingPatient._id);
+      expect(updatedPatient?.phone).toBe('5551111111');
+      expect(updatedPatient?.pendingContactUpdate).toMatchObject({ phone: '5559999999' });
+      expect(updatedPatient?.pendingContactUpdate?.email).toBeUndefined();
+    });
+
+    test('should recognise a returning patient by name, date of birth and phone', async () => {
+      const existingPatient = await Patient.create({
+        firstName: 'Returning',
+        lastName: 'Patient',
+        email: 'returning@example.com',
+        phone: '555-222-3333',
+        dateOfBirth: new Date('1980-03-10'),
+        gender: 'male',
+        address: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        emergencyContact: { name: 'Test Contact', relationship: 'Friend', phone: '5559999999' }
+      });
+
+      const checkInData = {
+        firstName: 'returning',
+        lastName: 'PATIENT',
+        email: 'returning.new@example.com', // Different email
+        phone: '+1 (555) 222-3333',         // Same number, different format
+        dateOfBirth: '1980-03-10',
+        gender: 'male',
+        symptoms: 'Follow-up visit',
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 2
+      };
+
+      const response = await request(app)
+        .post('/api/visits/check-in')
+        .send(checkInData)
+        .expect(201);
+
+      expect(response.body.patient.id).toBe(existingPatient._id.toString());
+      expect(await Patient.countDocuments()).toBe(1);
+
+      const updatedPatient = await Patient.findById(existingPatient._id);
+      expect(updatedPatient?.email).toBe('returning@example.com');
+      expect(updatedPatient?.pendingContactUpdate).toMatchObject({
+        email: 'returning.new@example.com',
+        visit: expect.anything()
+      });
+    });
+
+    test('should ask for earlier details when a record only partly matches', async () => {
+      const existingPatient = await Patient.create({
+        firstName: 'Maybe',
+        lastName: 'Same',
+        email: 'maybe@example.com',
+        phone: '5554445555',
+        dateOfBirth: new Date('1975-11-20'),
+        gender: 'female',
+        address: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        emergencyContact: { name: 'Test Contact', relationship: 'Friend', phone: '5559999999' }
+      });
+
+      const checkInData = {
+        firstName: 'Maybe',
+        lastName: 'Same',
+        email: 'maybe.other@example.com',
+        phone: '5556667777', // New phone and email
+        dateOfBirth: '1975-11-20',
+        gender: 'female',
+        symptoms: 'Persistent cough',
+        temperature: 98.6,
+        heartRate: 72,
+        bloodPressureSystolic: 120,
+        bloodPressureDiastolic: 80,
+        painLevel: 2
+      };
+
+      const confirmation = await request(app)
+        .post('/api/visits/check-in')
+        .send(checkInData)
+        .expect(409);
+
+      // Nothing about the existing record is disclosed
+      expect(confirmation.body.error).toBe('Patient confirmation required');
+      expect(confirmation.body.data).toBeUndefined();
+      expect(JSON.stringify(confirmation.body)).not.toContain(existingPatient._id.toString());
+      expect(await Visit.countDocuments()).toBe(0);
+
+      // The phone number on file identifies the patient
+      const confirmed = await request(app)
+        .post('/api/visits/check-in')
+        .send({ ...checkInData, phone: '(555) 444-5555' })
+        .expect(201);
+
+      expect(confirmed.body.patient.id).toBe(existingPatient._id.toString());
+    });
+
+    test('should not link a check-in to a record by email alone', async () => {
+      const existingPatient = await Patient.create({
+        firstName: 'Email',
+        lastName: 'Owner',
+        email: 'owner@example.com',
+        phone: '5558889999',
+        dateOfBirth: new Date('1960-01-01'),
+        gender: 'female',
+        address: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        emergencyContact: { name: 'Test Contact', relationship: 'Friend', phone: '5559999999' }
+      });
+
+      await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Someone',
+          lastName: 'Else',
+          email: 'owner@example.com',
+          phone: '5551230000',
+          dateOfBirth: '1992-02-02',
+          gender: 'male',
+          symptoms: 'Sore throat',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 2
+        })
+        .expect(409);
+
+      expect(await Visit.countDocuments({ patient: existingPatient._id })).toBe(0);
+      const unchanged = await Patient.findById(existingPatient._id);
+      expect(unchanged?.pendingContactUpdate).toBeUndefined();
+    });
+
+    test('should let staff apply contact details typed at check-in', async () => {
+      const existingPatient = await Patient.create({
+        firstName: 'Review',
+        lastName: 'Patient',
+        email: 'review@example.com',
+        phone: '5551212121',
+        dateOfBirth: new Date('1988-08-08'),
+        gender: 'male',
+        address: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        emergencyContact: { name: 'Test Contact', relationship: 'Friend', phone: '5559999999' },
+        pendingContactUpdate: { email: 'review.new@example.com', submittedAt: new Date() }
+      });
+
+      const staff = await Staff.create({
+        firstName: 'Front',
+        lastName: 'Desk',
+        email: 'front.desk@clinic.com',
+        phone: '5551234567',
+        role: 'receptionist',
+        password: await hashPassword('password123')
+      });
+      const token = signToken({ id: staff._id.toString(), email: staff.email, role: staff.role });
+
+      const pending = await request(app)
+        .get('/api/patients/contact-updates')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(pending.body.count).toBe(1);
+
+      await request(app)
+        .post(`/api/patients/${existingPatient._id}/contact-update`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ action: 'apply' })
+        .expect(200);
+
       const updatedPatient = await Patient.findById(existingPatient._id);
-      expect(updatedPatient?.phone).toBe('5559999999'); // Phone should be updated
+      expect(updatedPatient?.email).toBe('review.new@example.com');
+      expect(updatedPatient?.pendingContactUpdate).toBeUndefined();
+
+      await request(app)
+        .post(`/api/patients/${existingPatient._id}/contact-update`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ action: 'dismiss' })
+        .expect(409);
+    });
+
+    test('should create a new record when the patient declines the matches', async () => {
+      await Patient.create({
+        firstName: 'Common',
+        lastName: 'Name',
+        email: 'common@example.com',
+        phone: '5551112222',
+        dateOfBirth: new Date('1990-06-01'),
+        gender: 'male',
+        address: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        emergencyContact: { name: 'Test Contact', relationship: 'Friend', phone: '5559999999' }
+      });
+
+      const response = await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Common',
+          lastName: 'Name',
+          email: 'common.two@example.com',
+          phone: '5553334444',
+          dateOfBirth: '1990-06-01',
+          gender: 'male',
+          symptoms: 'Sprained ankle',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 4,
+          newPatient: true
+        })
+        .expect(201);
+
+      expect(await Patient.countDocuments()).toBe(2);
+      expect(response.body.patient.firstName).toBe('Common');
     });
 
     test('should reject check-in with invalid vital signs', async () => {
@@ -182,12 +447,56 @@ describe('Patient Check-in Integration', () => {
 
       expect(response.body.visit.position).toBe(2);
     });
+
+    test('should place high-priority arrival ahead of waiting low-priority patients', async () => {
+      const lowPriorityResponse = await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Routine',
+          lastName: 'Patient',
+          email: 'routine@example.com',
+          phone: '5551111111',
+          dateOfBirth: '1990-01-01',
+          gender: 'male',
+          symptoms: 'Routine check-up',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 1
+        })
+        .expect(201);
+
+      const highPriorityResponse = await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Urgent',
+          lastName: 'Patient',
+          email: 'urgent@example.com',
+          phone: '5552222222',
+          dateOfBirth: '1970-01-01',
+          gender: 'female',
+          symptoms: 'Severe chest pain and difficulty breathing',
+          temperature: 99.8,
+          heartRate: 135,
+          bloodPressureSystolic: 180,
+          bloodPressureDiastolic: 110,
+          painLevel: 10
+        })
+        .expect(201);
+
+      expect(highPriorityResponse.body.visit.triageLevel).toBe('high');
+      expect(highPriorityResponse.body.visit.position).toBe(1);
+
+      // The routine patient already waiting moved back behind the arrival
+      const routineEntry = await Queue.findOne({ visit: lowPriorityResponse.body.visit.id });
+      expect(routineEntry?.position).toBe(2);
+    });
   });
 
   describe('GET /api/visits/:id', () => {
-    test('should retrieve visit details by ID', async () => {
-      // First create a visit
-      const checkInResponse = await request(app)
+    const checkInTestPatient = () =>
+      request(app)
         .post('/api/visits/check-in')
         .send({
           firstName: 'Test',
@@ -204,11 +513,30 @@ describe('Patient Check-in Integration', () => {
           painLevel: 3
         });
 
+    const createStaffToken = async () => {
+      await Staff.deleteMany({});
+      const receptionist = await Staff.create({
+        firstName: 'Front',
+        lastName: 'Desk',
+        email: 'front.desk@clinic.com',
+        phone: '5551234567',
+        role: 'receptionist',
+        password: await hashPassword('password123')
+      });
+
+      return signToken({ id: receptionist._id.toString(), email: receptionist.email, role: receptionist.role });
+    };
+
+    test('should retrieve visit details by ID', async () => {
+      // First create a visit
+      const checkInResponse = await checkInTestPatient();
       const visitId = checkInResponse.body.visit.id;
+      const token = await createStaffToken();
 
       // Now retrieve the visit
       const response = await request(app)
         .get(`/api/visits/${visitId}`)
+        .set('Authorization', `Bearer ${token}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -220,14 +548,327 @@ describe('Patient Check-in Integration', () => {
       expect(response.body.data.patient).toBeDefined();
     });
 
+    test('should not disclose visit details without a staff token', async () => {
+      const checkInResponse = await checkInTestPatient();
+      const visitId = checkInResponse.body.visit.id;
+
+      await request(app)
+        .get(`/api/visits/${visitId}`)
+        .expect(401);
+
+      // The patient's own tracking token is not a staff login
+      await request(app)
+        .get(`/api/visits/${visitId}`)
+        .set('Authorization', `Bearer ${checkInResponse.body.trackingToken}`)
+        .expect(401);
+    });
+
     test('should return 404 for non-existent visit', async () => {
       const nonExistentId = '507f1f77bcf86cd799439999';
+      const token = await createStaffToken();
       
       const response = await request(app)
         .get(`/api/visits/${nonExistentId}`)
+        .set('Authorization', `Bearer ${token}`)
         .expect(404);
 
       expect(response.body.error).toBeDefined();
     });
   });
+
+  describe('GET /api/track', () => {
+    test('should return only the patient\'s own queue status', async () => {
+      const checkInResponse = await request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Tracked',
+          lastName: 'Patient',
+          email: 'tracked@example.com',
+          phone: '5551234567',
+          dateOfBirth: '1990-01-01',
+          gender: 'female',
+          symptoms: 'Sore throat',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 2
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get(`/api/track?token=${checkInResponse.body.trackingToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        visitId: checkInResponse.body.visit.id,
+        stage: 'doctor',
+        status: 'waiting',
+        position: 1,
+        assignedRoom: null,
+        visitCompleted: false
+      });
+      expect(response.body.data.estimatedWaitTime).toEqual(expect.any(Number));
+      expect(response.body.data).not.toHaveProperty('symptoms');
+      expect(response.body.data).not.toHaveProperty('patient');
+    });
+
+    test('should reject missing, invalid and staff tokens', async () => {
+      await request(app).get('/api/track').expect(401);
+
+      await request(app)
+        .get('/api/track')
+        .set('Authorization', 'Bearer invalid.token.here')
+        .expect(401);
+
+      const staffToken = signToken({ id: '507f1f77bcf86cd799439011', email: 'doctor@clinic.com', role: 'doctor' });
+      await request(app)
+        .get('/api/track')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('Patient actions via tracking token', () => {
+    const checkInTracked = () =>
+      request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: 'Acting',
+          lastName: 'Patient',
+          email: 'acting@example.com',
+          phone: '5551234567',
+          dateOfBirth: '1990-01-01',
+          gender: 'female',
+          symptoms: 'Mild headache',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 2
+        })
+        .expect(201);
+
+    test('should hold the patient\'s place and resume it', async () => {
+      const checkIn = await checkInTracked();
+      const token = checkIn.body.trackingToken;
+
+      const held = await request(app)
+        .post('/api/track/hold')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ minutes: 10, reason: 'restroom' })
+        .expect(200);
+
+      expect(held.body.data.status).toBe('on-hold');
+      const entry = await Queue.findOne({ visit: checkIn.body.visit.id });
+      expect(entry?.holdReason).toBe('restroom');
+      expect(entry?.holdUntil).toBeDefined();
+
+      const resumed = await request(app)
+        .post('/api/track/resume')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(resumed.body.data.status).toBe('waiting');
+    });
+
+    test('should refuse holds once the limits are used up', async () => {
+      const checkIn = await checkInTracked();
+      const token = checkIn.body.trackingToken;
+
+      const hold = (minutes: number) =>
+        request(app)
+          .post('/api/track/hold')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ minutes });
+      const resume = () =>
+        request(app)
+          .post('/api/track/resume')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+      await hold(10).expect(200);
+      await resume();
+
+      // Time already held counts towards the total
+      await Queue.updateOne({ visit: checkIn.body.visit.id }, { totalHoldMinutes: 55 });
+      const tooLong = await hold(10).expect(409);
+      expect(tooLong.body.error).toContain('5 minutes of holding left');
+
+      await hold(5).expect(200);
+      await resume();
+
+      await hold(1).expect(409);
+    });
+
+    test('should cancel the visit and refuse further actions', async () => {
+      const checkIn = await checkInTracked();
+      const token = checkIn.body.trackingToken;
+
+      const response = await request(app)
+        .post('/api/track/cancel')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ reason: 'Feeling better' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('cancelled');
+      expect(response.body.data.visitCompleted).toBe(true);
+
+      // The visit ends as it does when staff cancel
+      const visit = await Visit.findById(checkIn.body.visit.id);
+      expect(visit?.completedAt).toBeDefined();
+      expect(visit?.currentStage).toBeUndefined();
+      expect(visit?.stageHistory[0].completedAt).toBeDefined();
+
+      await request(app)
+        .post('/api/track/hold')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ minutes: 10 })
+        .expect(409);
+    });
+
+    test('should flag the entry for re-triage without changing priority', async () => {
+      const checkIn = await checkInTracked();
+
+      await request(app)
+        .post('/api/track/symptoms')
+        .set('Authorization', `Bearer ${checkIn.body.trackingToken}`)
+        .send({ symptoms: 'Headache much worse, blurred vision', painLevel: 8 })
+        .expect(200);
+
+      const entry = await Queue.findOne({ visit: checkIn.body.visit.id });
+      expect(entry?.retriageRequest).toMatchObject({ symptoms: 'Headache much worse, blurred vision', painLevel: 8 });
+      expect(entry?.priority).toBe('low');
+    });
+
+    test('should validate input and require a tracking token', async () => {
+      const checkIn = await checkInTracked();
+
+      await request(app)
+        .post('/api/track/hold')
+        .set('Authorization', `Bearer ${checkIn.body.trackingToken}`)
+        .send({ minutes: 120 })
+        .expect(400);
+
+      const staffToken = signToken({ id: '507f1f77bcf86cd799439011', email: 'nurse@clinic.com', role: 'nurse' });
+      await request(app)
+        .post('/api/track/cancel')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/visits/:id/retriage', () => {
+    const routineCheckIn = (index: number) =>
+      request(app)
+        .post('/api/visits/check-in')
+        .send({
+          firstName: `Routine${index}`,
+          lastName: 'Patient',
+          email: `routine${index}@example.com`,
+          phone: '5551111111',
+          dateOfBirth: '1990-01-01',
+          gender: 'male',
+          symptoms: 'Routine check-up',
+          temperature: 98.6,
+          heartRate: 72,
+          bloodPressureSystolic: 120,
+          bloodPressureDiastolic: 80,
+          painLevel: 1
+        })
+        .expect(201);
+
+    const createNurseToken = async () => {
+      await Staff.deleteMany({});
+      const nurse = await Staff.create({
+        firstName: 'Triage',
+        lastName: 'Nurse',
+        email: 'triage.nurse@clinic.com',
+        phone: '5551234567',
+        role: 'nurse',
+        password: await hashPassword('password123')
+      });
+
+      return signToken({ id: nurse._id.toString(), email: nurse.email, role: nurse.role });
+    };
+
+    const deterioratedVitals = {
+      temperature: 103.5,
+      heartRate: 130,
+      bloodPressureSystolic: 170,
+      bloodPressureDiastolic: 105,
+      painLevel: 8,
+      symptoms: 'Routine check-up, now with chest pain and confusion'
+    };
+
+    test('should raise priority, keep history and move the patient forward', async () => {
+      const token = await createNurseToken();
+      await routineCheckIn(1);
+      const second = await routineCheckIn(2);
+      expect(second.body.visit.position).toBe(2);
+
+      const response = await request(app)
+        .post(`/api/visits/${second.body.visit.id}/retriage`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(deterioratedVitals)
+        .expect(200);
+
+      expect(response.body.data.visit).toMatchObject({
+        triageLevel: 'high',
+        previousTriageLevel: 'low',
+        triageHistoryCount: 1
+      });
+      expect(response.body.data.queue).toMatchObject({
+        priority: 'high',
+        position: 1,
+        previousPosition: 2
+      });
+
+      const visit = await Visit.findById(second.body.visit.id);
+      expect(visit?.triageHistory).toHaveLength(1);
+      expect(visit?.triageHistory[0]).toMatchObject({ triageLevel: 'low', symptoms: 'Routine check-up' });
+      expect(visit?.vitals.heartRate).toBe(130);
+    });
+
+    test('should clear a symptom update sent by the patient', async () => {
+      const token = await createNurseToken();
+      const checkIn = await routineCheckIn(1);
+
+      await request(app)
+        .post('/api/track/symptoms')
+        .set('Authorization', `Bearer ${checkIn.body.trackingToken}`)
+        .send({ symptoms: 'Chest pain started', painLevel: 7 })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/visits/${checkIn.body.visit.id}/retriage`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(deterioratedVitals)
+        .expect(200);
+
+      const entry = await Queue.findOne({ visit: checkIn.body.visit.id });
+      expect(entry?.retriageRequest).toBeUndefined();
+    });
+
+    test('should reject re-triage of a patient no longer waiting', async () => {
+      const token = await createNurseToken();
+      const checkIn = await routineCheckIn(1);
+      await Queue.updateOne({ visit: checkIn.body.visit.id }, { status: 'completed' });
+
+      await request(app)
+        .post(`/api/visits/${checkIn.body.visit.id}/retriage`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(deterioratedVitals)
+        .expect(409);
+    });
+
+    test('should require authentication', async () => {
+      const checkIn = await routineCheckIn(1);
+
+      await request(app)
+        .post(`/api/visits/${checkIn.body.visit.id}/retriage`)
+        .send(deterioratedVitals)
+        .expect(401);
+    });
+  });
 });
\ No newline at end of file
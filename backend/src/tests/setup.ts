@@ -6,6 +6,7 @@
 import { beforeAll, afterEach, afterAll, jest } from '@jest/globals';
 import mongoose from 'mongoose';
 import { connectDB, disconnectDB } from '../config/database';
+import { NotificationService } from '../services/notification.service';
 
 // Extend Jest timeout for long DB operations
 jest.setTimeout(30000);
@@ -31,6 +32,9 @@ beforeAll(async () => {
 });
 
 afterEach(async () => {
+  // Let background notifications finish before their records are cleared
+  await NotificationService.settle();
+
   // Only clear collections if connected to database
   if (mongoose.connection.readyState === 1) {
     const collections = mongoose.connection.collections;
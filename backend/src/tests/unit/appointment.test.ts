@@ -3,13 +3,15 @@
  * Appointment Model Unit Tests
  * 
  * Tests Appointment model validation, business logic,
- * and relationship integrity.
+ * relationship integrity and appointment reminders.
  */
 
 import { describe, beforeEach, test, expect } from '@jest/globals';
 import Appointment from '../../models/Appointment';
 import Staff from '../../models/Staff';
 import Patient from '../../models/Patient';
+import Notification from '../../models/Notification';
+import { AppointmentReminderService } from '../../services/appointmentReminder.service';
 import { hashPassword } from '../../utils/password';
 
 describe('Appointment Model', () => {
@@ -133,4 +135,47 @@ describe('Appointment Model', () => {
 
     expect(appointment.isUpcoming).toBe(true);
   });
-});
\ No newline at end of file
+
+  describe('Reminders', () => {
+    const createAppointment = (minutesAhead: number) =>
+      Appointment.create({
+        patient: testPatient._id,
+        doctor: testDoctor._id,
+        scheduledTime: new Date(Date.now() + minutesAhead * 60 * 1000),
+        reasonForVisit: 'Follow-up',
+        createdBy: testStaff._id
+      });
+
+    test('should send the closest due reminder once', async () => {
+      await Notification.deleteMany({});
+      const appointment = await createAppointment(90);
+
+      const first = await AppointmentReminderService.sendDueReminders();
+      expect(first.sent).toBe(1);
+
+      const reminded = await Appointment.findById(appointment._id);
+      expect(reminded?.reminderSent).toBe(true);
+      expect(reminded?.reminders).toHaveLength(1);
+      expect(reminded?.reminders[0]).toMatchObject({ leadMinutes: 120, channels: ['sms', 'email'] });
+
+      const notifications = await Notification.find({ appointment: appointment._id });
+      expect(notifications).toHaveLength(2);
+      expect(notifications[0].body).toContain('Dr. Doctor');
+
+      // A second run, or a restarted server, does not send it again
+      const second = await AppointmentReminderService.sendDueReminders();
+      expect(second.sent).toBe(0);
+      expect(await Notification.countDocuments({ appointment: appointment._id })).toBe(2);
+    });
+
+    test('should not remind of appointments beyond the longest lead time or cancelled', async () => {
+      await createAppointment(30 * 60);
+      const cancelled = await createAppointment(60);
+      await Appointment.updateOne({ _id: cancelled._id }, { status: 'cancelled', cancellationReason: 'Patient request' });
+
+      const result = await AppointmentReminderService.sendDueReminders();
+
+      expect(result).toEqual({ checked: 0, sent: 0, failed: 0 });
+    });
+  });
+});
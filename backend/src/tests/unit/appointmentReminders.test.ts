@@ -0,0 +1,51 @@
+// src/tests/unit/appointmentReminders.test.ts
+/**
+ * Appointment Reminder Unit Tests
+ *
+ * Tests lead time parsing and which reminder an appointment is due for.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { dueReminderLead, parseLeadTimes } from '../../utils/appointmentReminders';
+import { renderNotification } from '../../utils/notificationTemplates';
+
+const now = new Date('2025-03-04T09:00:00');
+const inMinutes = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+const leads = [1440, 120];
+
+describe('Appointment Reminders', () => {
+  test('should parse lead hours into minutes, longest first', () => {
+    expect(parseLeadTimes('2, 24')).toEqual([1440, 120]);
+    expect(parseLeadTimes('48,24,0.5,24')).toEqual([2880, 1440, 30]);
+    expect(parseLeadTimes(undefined)).toEqual([1440, 120]);
+    expect(parseLeadTimes('soon,-1')).toEqual([1440, 120]);
+  });
+
+  test('should be due for the shortest lead time reached', () => {
+    expect(dueReminderLead(inMinutes(1500), now, leads, [])).toBeNull();
+    expect(dueReminderLead(inMinutes(1440), now, leads, [])).toBe(1440);
+    expect(dueReminderLead(inMinutes(600), now, leads, [1440])).toBeNull();
+    expect(dueReminderLead(inMinutes(100), now, leads, [1440])).toBe(120);
+  });
+
+  test('should send only the closest reminder for a late booking', () => {
+    expect(dueReminderLead(inMinutes(60), now, leads, [])).toBe(120);
+    expect(dueReminderLead(inMinutes(60), now, leads, [120])).toBeNull();
+  });
+
+  test('should not remind of appointments that have started', () => {
+    expect(dueReminderLead(inMinutes(0), now, leads, [])).toBeNull();
+    expect(dueReminderLead(inMinutes(-10), now, leads, [])).toBeNull();
+  });
+
+  test('should name the doctor and time in the reminder', () => {
+    const { body } = renderNotification('appointment-reminder', 'sms', {
+      clinicName: 'Riverside Clinic',
+      firstName: 'Jane',
+      doctorName: 'Dr. Smith',
+      appointmentTime: new Date('2025-03-04T14:30:00')
+    });
+
+    expect(body).toBe('Riverside Clinic: Hi Jane, a reminder of your appointment with Dr. Smith on Tue, Mar 4, 2:30 PM.');
+  });
+});
\ No newline at end of file
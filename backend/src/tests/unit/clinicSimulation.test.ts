@@ -0,0 +1,138 @@
+// src/tests/unit/clinicSimulation.test.ts
+/**
+ * Clinic Flow Simulation Unit Tests
+ *
+ * Tests the discrete-event simulation: waits under a fixed consultation
+ * time, priority ordering and aging, staffing shifts and reproducible runs.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  simulateClinicFlow,
+  generateSyntheticArrivals,
+  doctorsOnDutyAt,
+  createRandom,
+  ConsultTimeConfig,
+  SimulationArrival
+} from '../../utils/clinicSimulation';
+
+// Monday 15 January 2024, local time
+const mondayAt = (hour: number, minute: number = 0) => new Date(2024, 0, 15, hour, minute);
+
+const fixedTenMinutes: ConsultTimeConfig = {
+  distribution: 'fixed',
+  meanMinutes: { high: 10, medium: 10, low: 10 }
+};
+
+const noAging = { lowMinutes: 0, mediumMinutes: 0 };
+
+describe('Clinic Flow Simulation', () => {
+  test('should queue patients behind a single doctor', () => {
+    const arrivals: SimulationArrival[] = [0, 0, 0].map(() => ({
+      arrivalTime: mondayAt(9),
+      triageLevel: 'low'
+    }));
+
+    const result = simulateClinicFlow({
+      arrivals,
+      staffing: { doctors: 1 },
+      consultTimes: fixedTenMinutes,
+      agingPolicy: noAging
+    });
+
+    expect(result.byTriageLevel.low).toMatchObject({ patients: 3, averageWait: 10, maxWait: 20 });
+    expect(result.overall.patients).toBe(3);
+    expect(result.doctorUtilisation).toBe(100);
+    expect(result.unserved).toBe(0);
+  });
+
+  test('should call higher-priority patients first', () => {
+    const result = simulateClinicFlow({
+      arrivals: [
+        { arrivalTime: mondayAt(9, 0), triageLevel: 'low' },
+        { arrivalTime: mondayAt(9, 1), triageLevel: 'low' },
+        { arrivalTime: mondayAt(9, 2), triageLevel: 'high' }
+      ],
+      staffing: { doctors: 1 },
+      consultTimes: fixedTenMinutes,
+      agingPolicy: noAging
+    });
+
+    // The high-priority patient goes in when the first consultation ends
+    expect(result.byTriageLevel.high.maxWait).toBe(8);
+    expect(result.byTriageLevel.low.maxWait).toBe(19);
+  });
+
+  test('should call a patient raised by aging before later higher-priority arrivals', () => {
+    const result = simulateClinicFlow({
+      arrivals: [
+        { arrivalTime: mondayAt(9, 0), triageLevel: 'high' },
+        { arrivalTime: mondayAt(9, 1), triageLevel: 'low' },
+        { arrivalTime: mondayAt(9, 5), triageLevel: 'medium' }
+      ],
+      staffing: { doctors: 1 },
+      consultTimes: { distribution: 'fixed', meanMinutes: { high: 30, medium: 10, low: 10 } },
+      agingPolicy: { lowMinutes: 20, mediumMinutes: 0 }
+    });
+
+    // At 09:30 the low-priority patient has waited 29 minutes and counts as medium
+    expect(result.byTriageLevel.low.maxWait).toBe(29);
+    expect(result.byTriageLevel.medium.maxWait).toBe(35);
+  });
+
+  test('should apply staffing shifts by day and hour', () => {
+    const plan = { doctors: 1, shifts: [{ days: [1], startHour: 8, endHour: 12, doctors: 2 }] };
+
+    expect(doctorsOnDutyAt(plan, mondayAt(9))).toBe(2);
+    expect(doctorsOnDutyAt(plan, mondayAt(12))).toBe(1);
+    expect(doctorsOnDutyAt(plan, new Date(2024, 0, 16, 9))).toBe(1);
+
+    const arrivals: SimulationArrival[] = [
+      { arrivalTime: mondayAt(9), triageLevel: 'low' },
+      { arrivalTime: mondayAt(9), triageLevel: 'low' }
+    ];
+
+    const withSecondDoctor = simulateClinicFlow({ arrivals, staffing: plan, consultTimes: fixedTenMinutes });
+    const alone = simulateClinicFlow({ arrivals, staffing: { doctors: 1 }, consultTimes: fixedTenMinutes });
+
+    expect(withSecondDoctor.overall.maxWait).toBe(0);
+    expect(alone.overall.maxWait).toBe(10);
+  });
+
+  test('should bring in a doctor whose shift starts while patients wait', () => {
+    const result = simulateClinicFlow({
+      arrivals: [{ arrivalTime: mondayAt(7, 30), triageLevel: 'medium' }],
+      staffing: { doctors: 0, shifts: [{ startHour: 8, endHour: 17, doctors: 1 }] },
+      consultTimes: fixedTenMinutes
+    });
+
+    expect(result.overall.maxWait).toBe(30);
+  });
+
+  test('should give the same result for the same seed', () => {
+    const options = { start: mondayAt(8), hours: 8, arrivalsPerHour: 5 };
+    const consultTimes: ConsultTimeConfig = {
+      distribution: 'lognormal',
+      meanMinutes: { high: 25, medium: 18, low: 12 }
+    };
+
+    const run = () => simulateClinicFlow({
+      arrivals: generateSyntheticArrivals(options, createRandom(42)),
+      staffing: { doctors: 2 },
+      consultTimes,
+      seed: 42
+    });
+
+    const first = run();
+    expect(first.overall.patients).toBeGreaterThan(0);
+    expect(run()).toEqual(first);
+  });
+
+  test('should reject a staffing plan without doctors', () => {
+    expect(() => simulateClinicFlow({
+      arrivals: [{ arrivalTime: mondayAt(9), triageLevel: 'low' }],
+      staffing: { doctors: 0 },
+      consultTimes: fixedTenMinutes
+    })).toThrow('Invalid staffing');
+  });
+});
\ No newline at end of file
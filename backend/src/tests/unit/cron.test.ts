@@ -0,0 +1,68 @@
+// src/tests/unit/cron.test.ts
+/**
+ * Cron Schedule Unit Tests
+ *
+ * Tests parsing cron expressions and finding the next time they fire.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { isValidCron, nextCronTime, parseCron } from '../../utils/cron';
+
+describe('Cron Schedules', () => {
+  test('should parse values, ranges, steps and lists', () => {
+    const schedule = parseCron('*/15 8-18/5 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([8, 13, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('should accept shorthands and Sunday as 7', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  test('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('Invalid cron expression');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron minute');
+    expect(() => parseCron('* 5-2 * * *')).toThrow('Invalid cron hour');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron minute');
+    expect(isValidCron('every minute')).toBe(false);
+    expect(isValidCron('*/5 * * * *')).toBe(true);
+  });
+
+  test('should find the next matching minute after a time', () => {
+    const after = new Date('2025-03-04T09:07:30');
+
+    expect(nextCronTime('* * * * *', after)).toEqual(new Date('2025-03-04T09:08:00'));
+    expect(nextCronTime('*/15 * * * *', after)).toEqual(new Date('2025-03-04T09:15:00'));
+    expect(nextCronTime('0 23 * * *', after)).toEqual(new Date('2025-03-04T23:00:00'));
+    expect(nextCronTime('30 8 * * *', after)).toEqual(new Date('2025-03-05T08:30:00'));
+  });
+
+  test('should always move past the given time', () => {
+    const onTheMinute = new Date('2025-03-04T09:15:00');
+    expect(nextCronTime('*/15 * * * *', onTheMinute)).toEqual(new Date('2025-03-04T09:30:00'));
+  });
+
+  test('should roll over days, months and years', () => {
+    // 2025-03-04 is a Tuesday
+    expect(nextCronTime('0 6 * * 1', new Date('2025-03-04T09:00:00'))).toEqual(new Date('2025-03-10T06:00:00'));
+    expect(nextCronTime('@monthly', new Date('2025-03-04T09:00:00'))).toEqual(new Date('2025-04-01T00:00:00'));
+    expect(nextCronTime('0 0 1 1 *', new Date('2025-03-04T09:00:00'))).toEqual(new Date('2026-01-01T00:00:00'));
+    expect(nextCronTime('0 12 29 2 *', new Date('2025-03-04T09:00:00'))).toEqual(new Date('2028-02-29T12:00:00'));
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // The 15th, or any Monday
+    const after = new Date('2025-03-04T09:00:00');
+    expect(nextCronTime('0 9 15 * 1', after)).toEqual(new Date('2025-03-10T09:00:00'));
+    expect(nextCronTime('0 9 5 * 1', after)).toEqual(new Date('2025-03-05T09:00:00'));
+  });
+
+  test('should fail for schedules that never fire', () => {
+    expect(() => nextCronTime('0 0 31 2 *', new Date('2025-03-04T09:00:00'))).toThrow('never fires');
+  });
+});
\ No newline at end of file
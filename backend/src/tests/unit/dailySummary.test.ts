@@ -0,0 +1,65 @@
+// src/tests/unit/dailySummary.test.ts
+/**
+ * Daily Queue Summary Unit Tests
+ *
+ * Tests outcome counts and waits of the end-of-day summary.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { summariseQueueDay, SummaryEntry } from '../../utils/dailySummary';
+
+const entries: SummaryEntry[] = [
+  { status: 'completed', priority: 'high', actualWaitTime: 4 },
+  { stage: 'doctor', status: 'completed', priority: 'low', actualWaitTime: 30 },
+  { stage: 'doctor', status: 'left-without-being-seen', priority: 'low' },
+  { stage: 'doctor', status: 'cancelled', priority: 'low', closeOutReason: 'not-seen-by-close' },
+  { stage: 'doctor', status: 'completed', priority: 'medium', actualWaitTime: 20, closeOutReason: 'consultation-not-closed' },
+  { stage: 'pharmacy', status: 'completed', priority: 'low', actualWaitTime: 6 },
+  { stage: 'pharmacy', status: 'cancelled', priority: 'low' }
+];
+
+const visits = [{ triageLevel: 'high' as const }, { triageLevel: 'medium' as const }, { triageLevel: 'low' as const }];
+
+describe('Daily Queue Summary', () => {
+  test('should count close-out resolutions apart from clinic outcomes', () => {
+    const summary = summariseQueueDay(entries, visits);
+
+    expect(summary).toMatchObject({
+      visits: 3,
+      entries: 7,
+      completed: 3,
+      cancelled: 1,
+      leftWithoutBeingSeen: 1,
+      resolvedAtClose: { notSeen: 1, consultationNotClosed: 1 }
+    });
+
+    const { completed, cancelled, leftWithoutBeingSeen, resolvedAtClose } = summary;
+    expect(completed + cancelled + leftWithoutBeingSeen + resolvedAtClose.notSeen + resolvedAtClose.consultationNotClosed)
+      .toBe(summary.entries);
+  });
+
+  test('should report doctor waits overall and per triage level', () => {
+    const summary = summariseQueueDay(entries, visits);
+
+    expect(summary.averageWaitTime).toBe(18);
+    expect(summary.longestWaitTime).toBe(30);
+    expect(summary.byTriageLevel.high).toEqual({ visits: 1, completed: 1, averageWaitTime: 4 });
+    expect(summary.byTriageLevel.medium).toEqual({ visits: 1, completed: 0, averageWaitTime: 20 });
+  });
+
+  test('should report every stage, treating entries without a stage as the doctor stage', () => {
+    const byStage = Object.fromEntries(summariseQueueDay(entries, visits).byStage.map(row => [row.stage, row]));
+
+    expect(byStage.doctor).toMatchObject({ entries: 5, completed: 2 });
+    expect(byStage.pharmacy).toEqual({ stage: 'pharmacy', entries: 2, completed: 1, averageWaitTime: 6 });
+    expect(byStage.lab).toEqual({ stage: 'lab', entries: 0, completed: 0, averageWaitTime: 0 });
+  });
+
+  test('should report zero waits for an empty day', () => {
+    const summary = summariseQueueDay([], []);
+
+    expect(summary.entries).toBe(0);
+    expect(summary.averageWaitTime).toBe(0);
+    expect(summary.longestWaitTime).toBe(0);
+  });
+});
\ No newline at end of file
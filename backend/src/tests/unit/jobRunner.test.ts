@@ -0,0 +1,213 @@
+// src/tests/unit/jobRunner.test.ts
+/**
+ * Job Runner Unit Tests
+ *
+ * Tests scheduled runs, locking between instances, lock renewal,
+ * retries with backoff and queued manual runs of background jobs.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import Job from '../../models/Job';
+import JobRun, { IJobRun } from '../../models/JobRun';
+import { JobRunner } from '../../services/jobRunner.service';
+
+const calls: Record<string, number> = { counter: 0, flaky: 0, slow: 0 };
+let flakyFailures = 0;
+
+JobRunner.register({
+  name: 'test-counter',
+  schedule: '*/10 * * * *',
+  handler: async () => ({ count: ++calls.counter })
+});
+
+JobRunner.register({
+  name: 'test-flaky',
+  schedule: '0 * * * *',
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+  handler: async () => {
+    calls.flaky++;
+    if (flakyFailures > 0) {
+      flakyFailures--;
+      throw new Error('Upstream unavailable');
+    }
+    return { ok: true };
+  }
+});
+
+JobRunner.register({
+  name: 'test-slow',
+  schedule: '0 0 1 1 *',
+  lockMs: 300,
+  handler: async () => {
+    calls.slow++;
+    const lockedAt = (await Job.findOne({ name: 'test-slow' }))!.lockedUntil!;
+    await new Promise(resolve => setTimeout(resolve, 450));
+    const renewedTo = (await Job.findOne({ name: 'test-slow' }))!.lockedUntil!;
+    return { renewedBy: renewedTo.getTime() - lockedAt.getTime() };
+  }
+});
+
+describe('Job Runner', () => {
+  const now = new Date();
+
+  // Only look at one job's runs; the other may fall due at the same time
+  const runOf = (runs: IJobRun[], name: string) => runs.find(run => run.job === name)!;
+
+  const makeDue = (name: string) => Job.updateOne({ name }, { $set: { nextRunAt: new Date(now.getTime() - 1000) } });
+
+  beforeEach(async () => {
+    await Job.deleteMany({});
+    await JobRun.deleteMany({});
+    calls.counter = 0;
+    calls.flaky = 0;
+    calls.slow = 0;
+    flakyFailures = 0;
+  });
+
+  test('should create job records on their next scheduled time', async () => {
+    const runs = await JobRunner.runDueJobs(now);
+    expect(runs).toHaveLength(0);
+
+    const job = await Job.findOne({ name: 'test-counter' });
+    expect(job).toMatchObject({ schedule: '*/10 * * * *', enabled: true, attempt: 0 });
+    expect(job!.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+    expect(job!.nextRunAt.getMinutes() % 10).toBe(0);
+  });
+
+  test('should run due jobs once and schedule the next run', async () => {
+    await JobRunner.runDueJobs(now);
+    await makeDue('test-counter');
+
+    const runs = await JobRunner.runDueJobs(now);
+
+    expect(runs).toHaveLength(1);
+    expect(runOf(runs, 'test-counter')).toMatchObject({
+      trigger: 'schedule',
+      status: 'succeeded',
+      result: { count: 1 }
+    });
+
+    const job = await Job.findOne({ name: 'test-counter' });
+    expect(job).toMatchObject({ lastStatus: 'succeeded', lockedBy: null, lockedUntil: null });
+    expect(job!.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+
+    // Not due again until the next scheduled time
+    expect(await JobRunner.runDueJobs(now)).toHaveLength(0);
+    expect(calls.counter).toBe(1);
+  });
+
+  test('should skip jobs locked by another instance until the lock expires', async () => {
+    await JobRunner.runDueJobs(now);
+    await Job.updateOne(
+      { name: 'test-counter' },
+      {
+        $set: {
+          nextRunAt: new Date(now.getTime() - 1000),
+          lockedBy: 'other-host:1',
+          lockedUntil: new Date(now.getTime() + 60000)
+        }
+      }
+    );
+    await JobRun.create({ job: 'test-counter', trigger: 'schedule', instance: 'other-host:1', startedAt: now });
+
+    expect(await JobRunner.runDueJobs(now)).toHaveLength(0);
+    await expect(JobRunner.trigger('test-counter')).rejects.toThrow('already running');
+
+    // The other instance stopped without releasing its lock
+    const runs = await JobRunner.runDueJobs(new Date(now.getTime() + 61000));
+    expect(runOf(runs, 'test-counter')).toMatchObject({ status: 'succeeded', instance: JobRunner.instanceId });
+    expect(calls.counter).toBe(1);
+
+    const interrupted = await JobRun.findOne({ instance: 'other-host:1' });
+    expect(interrupted).toMatchObject({ status: 'failed', error: 'Interrupted: lock expired' });
+  });
+
+  test('should retry failed runs with backoff up to the attempt limit', async () => {
+    await JobRunner.runDueJobs(now);
+    await makeDue('test-flaky');
+    flakyFailures = 5;
+
+    const first = runOf(await JobRunner.runDueJobs(now), 'test-flaky');
+    expect(first).toMatchObject({ trigger: 'schedule', attempt: 1, status: 'failed', error: 'Upstream unavailable' });
+
+    let job = await Job.findOne({ name: 'test-flaky' });
+    expect(job).toMatchObject({ attempt: 1, lastStatus: 'failed', lastError: 'Upstream unavailable' });
+    expect(job!.nextRunAt.getTime() - first.finishedAt!.getTime()).toBe(1000);
+
+    const second = runOf(await JobRunner.runDueJobs(new Date(job!.nextRunAt.getTime())), 'test-flaky');
+    expect(second).toMatchObject({ trigger: 'retry', attempt: 2, status: 'failed' });
+
+    job = await Job.findOne({ name: 'test-flaky' });
+    expect(job!.nextRunAt.getTime() - second.finishedAt!.getTime()).toBe(2000);
+
+    // Last attempt fails: wait for the next scheduled time
+    const third = runOf(await JobRunner.runDueJobs(new Date(job!.nextRunAt.getTime())), 'test-flaky');
+    expect(third).toMatchObject({ trigger: 'retry', attempt: 3, status: 'failed' });
+
+    job = await Job.findOne({ name: 'test-flaky' });
+    expect(job!.attempt).toBe(0);
+    expect(job!.nextRunAt.getMinutes()).toBe(0);
+    expect(calls.flaky).toBe(3);
+  });
+
+  test('should reset attempts once a retry succeeds', async () => {
+    await JobRunner.runDueJobs(now);
+    await makeDue('test-flaky');
+    flakyFailures = 1;
+
+    await JobRunner.runDueJobs(now);
+    const job = await Job.findOne({ name: 'test-flaky' });
+    const retry = runOf(await JobRunner.runDueJobs(new Date(job!.nextRunAt.getTime())), 'test-flaky');
+
+    expect(retry).toMatchObject({ trigger: 'retry', attempt: 2, status: 'succeeded' });
+    expect(await Job.findOne({ name: 'test-flaky' }))
+      .toMatchObject({ attempt: 0, lastStatus: 'succeeded', lastError: null });
+  });
+
+  test('should renew the lock while a job runs past its lock time', async () => {
+    await JobRunner.runDueJobs(now);
+    await JobRunner.trigger('test-slow');
+
+    const run = runOf(await JobRunner.runDueJobs(now), 'test-slow');
+
+    expect(run.status).toBe('succeeded');
+    expect((run.result as { renewedBy: number }).renewedBy).toBeGreaterThan(0);
+    expect(calls.slow).toBe(1);
+    expect(await Job.findOne({ name: 'test-slow' })).toMatchObject({ lockedBy: null, lockedUntil: null });
+  });
+
+  test('should queue a manual run for the next poll without moving the schedule', async () => {
+    await JobRunner.runDueJobs(now);
+    const before = await Job.findOne({ name: 'test-counter' });
+
+    const queued = await JobRunner.trigger('test-counter');
+
+    expect(queued.runRequestedAt).toBeInstanceOf(Date);
+    expect(calls.counter).toBe(0);
+    await expect(JobRunner.trigger('test-counter')).rejects.toThrow('already has a run queued');
+
+    const run = runOf(await JobRunner.runDueJobs(now), 'test-counter');
+
+    expect(run).toMatchObject({ trigger: 'manual', attempt: 1, status: 'succeeded' });
+    const after = await Job.findOne({ name: 'test-counter' });
+    expect(after!.nextRunAt).toEqual(before!.nextRunAt);
+    expect(after).toMatchObject({ lockedBy: null, runRequestedAt: null });
+
+    // Ran once: the request was cleared with the lock
+    expect(await JobRunner.runDueJobs(now)).toHaveLength(0);
+    expect(calls.counter).toBe(1);
+
+    await expect(JobRunner.trigger('no-such-job')).rejects.toThrow('Job not found');
+
+    const history = await JobRunner.getRuns('test-counter');
+    expect(history).toHaveLength(1);
+  });
+
+  test('should reject invalid schedules and duplicate names', () => {
+    expect(() => JobRunner.register({ name: 'test-bad', schedule: 'often', handler: async () => null }))
+      .toThrow('Invalid cron expression');
+    expect(() => JobRunner.register({ name: 'test-counter', schedule: '* * * * *', handler: async () => null }))
+      .toThrow('already registered');
+  });
+});
\ No newline at end of file
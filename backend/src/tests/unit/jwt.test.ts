@@ -3,15 +3,19 @@
  * JWT Utility Tests
  * 
  * Tests JSON Web Token generation, verification, and security features
- * used for staff authentication and patient tracking.
+ * used for staff authentication, patient tracking and the queue stream.
  */
 
 import { describe, test, expect } from '@jest/globals';
+import jwt from 'jsonwebtoken';
 import { 
   signToken, 
   verifyToken, 
   decodeToken,
-  generateTrackingToken 
+  generateTrackingToken,
+  verifyTrackingToken,
+  generateStreamToken,
+  verifyStreamToken
 } from '../../utils/jwt';
 
 describe('JWT Utilities', () => {
@@ -77,7 +81,6 @@ describe('JWT Utilities', () => {
     test('should reject expired tokens', () => {
       // Create a token that expired 1 second ago
       const expiredPayload = { ...testPayload, exp: Math.floor(Date.now() / 1000) - 1 };
-      const jwt = require('jsonwebtoken');
       const expiredToken = jwt.sign(expiredPayload, process.env.JWT_SECRET || 'test-secret');
       
       const verified = verifyToken(expiredToken);
@@ -122,4 +125,33 @@ describe('JWT Utilities', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('verifyTrackingToken', () => {
+    test('should accept tracking tokens only', () => {
+      const trackingToken = generateTrackingToken('507f1f77bcf86cd799439012', '507f1f77bcf86cd799439013', 'low');
+
+      expect(verifyTrackingToken(trackingToken)).toMatchObject({ visitId: '507f1f77bcf86cd799439012' });
+      expect(verifyTrackingToken(signToken(testPayload))).toBeNull();
+      expect(verifyTrackingToken('invalid.token.here')).toBeNull();
+    });
+  });
+
+  describe('generateStreamToken', () => {
+    test('should generate a stream token that expires within a minute', () => {
+      const decoded = decodeToken(generateStreamToken(testPayload));
+
+      expect(decoded).toMatchObject({ ...testPayload, type: 'queue-stream' });
+      expect(decoded!.exp - decoded!.iat).toBe(60);
+    });
+  });
+
+  describe('verifyStreamToken', () => {
+    test('should accept stream tokens only', () => {
+      const streamToken = generateStreamToken(testPayload);
+
+      expect(verifyStreamToken(streamToken)).toMatchObject({ id: testPayload.id, role: 'doctor' });
+      expect(verifyStreamToken(signToken(testPayload))).toBeNull();
+      expect(verifyStreamToken(generateTrackingToken('507f1f77bcf86cd799439012', '507f1f77bcf86cd799439013', 'low'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// src/tests/unit/patientMatching.test.ts
+/**
+ * Patient Identity Matching Unit Tests
+ *
+ * Tests phone number normalisation and how check-in details are compared
+ * with existing patient records.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { normalizePhone, phonesMatch } from '../../utils/phone';
+import {
+  matchIdentity,
+  decideMatch,
+  normalizeName,
+  PatientIdentity
+} from '../../utils/patientMatching';
+
+describe('Patient Identity Matching', () => {
+  const record: PatientIdentity = {
+    firstName: 'José',
+    lastName: 'García',
+    dateOfBirth: new Date('1985-05-15'),
+    phone: '(555) 123-4567',
+    email: 'jose@example.com'
+  };
+
+  describe('normalizePhone', () => {
+    test('should ignore formatting and the North American country code', () => {
+      expect(normalizePhone('(555) 123-4567')).toBe('5551234567');
+      expect(normalizePhone('555.123.4567')).toBe('5551234567');
+      expect(normalizePhone('+1 555 123 4567')).toBe('5551234567');
+      expect(normalizePhone('1-555-123-4567')).toBe('5551234567');
+    });
+
+    test('should keep other international numbers whole', () => {
+      expect(normalizePhone('+44 20 7946 0958')).toBe('442079460958');
+      expect(normalizePhone('0044 20 7946 0958')).toBe('442079460958');
+    });
+
+    test('should never match numbers without digits', () => {
+      expect(normalizePhone('To be collected')).toBe('');
+      expect(phonesMatch('To be collected', 'n/a')).toBe(false);
+      expect(phonesMatch('555 123 4567', '+15551234567')).toBe(true);
+    });
+  });
+
+  describe('matchIdentity', () => {
+    test('should ignore case, accents and spacing in names', () => {
+      expect(normalizeName('  José   GARCÍA ')).toBe('jose garcia');
+    });
+
+    test('should recognise a returning patient with a different email', () => {
+      const match = matchIdentity({
+        firstName: 'jose',
+        lastName: 'garcia',
+        dateOfBirth: '1985-05-15',
+        phone: '555-123-4567',
+        email: 'jgarcia@work.example.com'
+      }, record);
+
+      expect(match.fields).toEqual(['name', 'dateOfBirth', 'phone']);
+      expect(match.confident).toBe(true);
+    });
+
+    test('should treat a partial match as a candidate to confirm', () => {
+      const newPhone = matchIdentity({ ...record, dateOfBirth: '1985-05-15', phone: '5559999999', email: 'new@example.com' }, record);
+      expect(newPhone).toMatchObject({ fields: ['name', 'dateOfBirth'], confident: false, candidate: true });
+
+    });
+
+    test('should never treat an email alone as a match', () => {
+      const emailOnly = matchIdentity({ ...record, firstName: 'Maria', dateOfBirth: '1990-01-01', phone: '5559999999' }, record);
+      expect(emailOnly).toEqual({ fields: ['email'], confident: false, candidate: false });
+    });
+
+    test('should not match a different person sharing a birthday', () => {
+      const match = matchIdentity({
+        firstName: 'Ana',
+        lastName: 'Lopez',
+        dateOfBirth: '1985-05-15',
+        phone: '5550000000',
+        email: 'ana@example.com'
+      }, record);
+
+      expect(match).toEqual({ fields: ['dateOfBirth'], confident: false, candidate: false });
+    });
+  });
+
+  describe('decideMatch', () => {
+    const confident = { fields: [], confident: true, candidate: true };
+    const candidate = { fields: [], confident: false, candidate: true };
+    const unrelated = { fields: [], confident: false, candidate: false };
+
+    test('should reuse a single confident match', () => {
+      expect(decideMatch([unrelated, candidate, confident])).toEqual({ action: 'reuse', index: 2 });
+    });
+
+    test('should ask for confirmation on partial or ambiguous matches', () => {
+      expect(decideMatch([candidate])).toEqual({ action: 'confirm' });
+      expect(decideMatch([confident, confident])).toEqual({ action: 'confirm' });
+    });
+
+    test('should create a record when nothing matches', () => {
+      expect(decideMatch([])).toEqual({ action: 'create' });
+      expect(decideMatch([unrelated])).toEqual({ action: 'create' });
+    });
+  });
+});
\ No newline at end of file
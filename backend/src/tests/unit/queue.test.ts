@@ -10,8 +10,6 @@ import { describe, beforeEach, test, expect } from '@jest/globals';
 import Queue from '../../models/Queue';
 import Patient from '../../models/Patient';
 import Visit from '../../models/Visit';
-import Staff from '../../models/Staff';
-import { hashPassword } from '../../utils/password';
 
 describe('Queue Model', () => {
   let testPatient: any;
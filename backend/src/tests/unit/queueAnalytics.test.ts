@@ -0,0 +1,78 @@
+// src/tests/unit/queueAnalytics.test.ts
+/**
+ * Queue Analytics Unit Tests
+ *
+ * Tests bucketing, percentiles and per-triage-level figures.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildQueueAnalytics, bucketStart, percentile } from '../../utils/queueAnalytics';
+
+const at = (hour: number, minute = 0) => new Date(2024, 0, 15, hour, minute);
+
+describe('Queue Analytics', () => {
+  test('should compute nearest-rank percentiles', () => {
+    expect(percentile([], 0.5)).toBeNull();
+    expect(percentile([30, 10, 20], 0.5)).toBe(20);
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 0.9)).toBe(9);
+    expect(percentile([7], 0.9)).toBe(7);
+  });
+
+  test('should place times in their local hour or day', () => {
+    expect(bucketStart(at(9, 45), 'hour')).toEqual(at(9));
+    expect(bucketStart(at(9, 45), 'day')).toEqual(at(0));
+  });
+
+  test('should list every bucket in the period, including empty ones', () => {
+    const analytics = buildQueueAnalytics(
+      { arrivals: [{ arrivedAt: at(10, 30), triageLevel: 'low' }], calls: [], completions: [] },
+      { from: at(8), to: at(12), bucket: 'hour' }
+    );
+
+    expect(analytics.buckets.map(bucket => bucket.start)).toEqual([at(8), at(9), at(10), at(11)]);
+    expect(analytics.buckets.map(bucket => bucket.arrivals)).toEqual([0, 0, 1, 0]);
+    expect(analytics.buckets[0].medianWait).toBeNull();
+  });
+
+  test('should attribute waits to the arrival bucket and steps to when they happened', () => {
+    const analytics = buildQueueAnalytics(
+      {
+        arrivals: [
+          { arrivedAt: at(9, 5), triageLevel: 'high', waitMinutes: 5, doorToDoctorMinutes: 12 },
+          { arrivedAt: at(9, 20), triageLevel: 'low', waitMinutes: 50, doorToDoctorMinutes: 60 },
+          { arrivedAt: at(9, 40), triageLevel: 'low' }
+        ],
+        calls: [
+          { at: at(9, 17), triageLevel: 'high' },
+          { at: at(10, 20), triageLevel: 'low' }
+        ],
+        completions: [{ at: at(10, 5), triageLevel: 'high' }]
+      },
+      { from: at(9), to: at(11), bucket: 'hour' }
+    );
+
+    const [nine, ten] = analytics.buckets;
+
+    expect(nine).toMatchObject({ arrivals: 3, calls: 1, completions: 0, medianWait: 5, p90Wait: 50 });
+    expect(nine.byTriageLevel.low).toMatchObject({ arrivals: 2, medianWait: 50, medianDoorToDoctor: 60 });
+    expect(nine.byTriageLevel.medium.arrivals).toBe(0);
+    expect(ten).toMatchObject({ arrivals: 0, calls: 1, completions: 1, medianWait: null });
+    expect(analytics.totals).toMatchObject({ arrivals: 3, calls: 2, completions: 1, medianDoorToDoctor: 12 });
+    expect(analytics.totals.byTriageLevel.high.completions).toBe(1);
+  });
+
+  test('should ignore activity outside the period', () => {
+    const analytics = buildQueueAnalytics(
+      {
+        arrivals: [{ arrivedAt: at(7, 59), triageLevel: 'medium' }],
+        calls: [{ at: at(10), triageLevel: 'medium' }],
+        completions: []
+      },
+      { from: at(8), to: at(10), bucket: 'day' }
+    );
+
+    expect(analytics.buckets).toHaveLength(1);
+    expect(analytics.totals.arrivals).toBe(0);
+    expect(analytics.totals.calls).toBe(0);
+  });
+});
\ No newline at end of file
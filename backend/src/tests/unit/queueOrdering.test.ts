@@ -0,0 +1,123 @@
+// src/tests/unit/queueOrdering.test.ts
+/**
+ * Queue Ordering Unit Tests
+ *
+ * Tests priority ordering, aging and incremental position planning
+ * used by queue position recalculation.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  compareQueueEntries,
+  createQueueComparator,
+  getEffectivePriority,
+  planPositionUpdates,
+  OrderableQueueEntry
+} from '../../utils/queueOrdering';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000);
+
+const policy = { lowMinutes: 60, mediumMinutes: 90 };
+
+describe('Queue Ordering', () => {
+  describe('compareQueueEntries', () => {
+    test('should order high before medium before low regardless of spelling', () => {
+      const entries: OrderableQueueEntry[] = [
+        { _id: 'low', priority: 'low', checkInTime: minutesAgo(30) },
+        { _id: 'high', priority: 'high', checkInTime: minutesAgo(5) },
+        { _id: 'medium', priority: 'medium', checkInTime: minutesAgo(20) }
+      ];
+
+      const ordered = [...entries].sort(compareQueueEntries).map(entry => entry._id);
+
+      expect(ordered).toEqual(['high', 'medium', 'low']);
+    });
+
+    test('should order same priority by check-in time', () => {
+      const earlier = { _id: 'a', priority: 'medium' as const, checkInTime: minutesAgo(20) };
+      const later = { _id: 'b', priority: 'medium' as const, checkInTime: minutesAgo(10) };
+
+      expect(compareQueueEntries(earlier, later)).toBeLessThan(0);
+    });
+  });
+
+  describe('getEffectivePriority', () => {
+    test('should keep triage priority before the first threshold', () => {
+      const effective = getEffectivePriority({ priority: 'low', checkInTime: minutesAgo(59) }, new Date(), policy);
+
+      expect(effective).toEqual({ priority: 'low', agingReason: null });
+    });
+
+    test('should raise low to medium, then to high after a further threshold', () => {
+      const medium = getEffectivePriority({ priority: 'low', checkInTime: minutesAgo(75) }, new Date(), policy);
+      const high = getEffectivePriority({ priority: 'low', checkInTime: minutesAgo(150) }, new Date(), policy);
+
+      expect(medium.priority).toBe('medium');
+      expect(medium.agingReason).toBe('Waited 75 min, raised from low to medium');
+      expect(high.priority).toBe('high');
+    });
+
+    test('should not age when the threshold is disabled', () => {
+      const effective = getEffectivePriority(
+        { priority: 'low', checkInTime: minutesAgo(500) },
+        new Date(),
+        { lowMinutes: 0, mediumMinutes: 90 }
+      );
+
+      expect(effective.priority).toBe('low');
+    });
+  });
+
+  describe('createQueueComparator', () => {
+    test('should put an aged low-priority patient ahead of later medium arrivals', () => {
+      const entries: OrderableQueueEntry[] = [
+        { _id: 'medium-1', priority: 'medium', checkInTime: minutesAgo(40) },
+        { _id: 'low', priority: 'low', checkInTime: minutesAgo(70) },
+        { _id: 'medium-2', priority: 'medium', checkInTime: minutesAgo(10) }
+      ];
+
+      const ordered = [...entries].sort(createQueueComparator(new Date(), policy)).map(entry => entry._id);
+
+      expect(ordered).toEqual(['low', 'medium-1', 'medium-2']);
+    });
+  });
+
+  describe('planPositionUpdates', () => {
+    test('should only touch entries whose position changed', () => {
+      const entries: OrderableQueueEntry[] = [
+        { _id: 'a', priority: 'medium', checkInTime: minutesAgo(30), position: 1 },
+        { _id: 'b', priority: 'low', checkInTime: minutesAgo(25), position: 2 },
+        { _id: 'c', priority: 'low', checkInTime: minutesAgo(1) } // New low-priority arrival
+      ];
+
+      const changes = planPositionUpdates(entries);
+
+      expect(changes).toEqual([{ id: 'c', from: undefined, to: 3 }]);
+    });
+
+    test('should move entries back when a high-priority patient arrives', () => {
+      const entries: OrderableQueueEntry[] = [
+        { _id: 'a', priority: 'medium', checkInTime: minutesAgo(30), position: 1 },
+        { _id: 'b', priority: 'low', checkInTime: minutesAgo(25), position: 2 },
+        { _id: 'c', priority: 'high', checkInTime: minutesAgo(1), position: 3 }
+      ];
+
+      const changes = planPositionUpdates(entries);
+
+      expect(changes).toEqual([
+        { id: 'c', from: 3, to: 1 },
+        { id: 'a', from: 1, to: 2 },
+        { id: 'b', from: 2, to: 3 }
+      ]);
+    });
+
+    test('should return no changes for an already ordered queue', () => {
+      const entries: OrderableQueueEntry[] = [
+        { _id: 'a', priority: 'high', checkInTime: minutesAgo(5), position: 1 },
+        { _id: 'b', priority: 'low', checkInTime: minutesAgo(50), position: 2 }
+      ];
+
+      expect(planPositionUpdates(entries)).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
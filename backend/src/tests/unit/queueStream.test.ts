@@ -0,0 +1,80 @@
+// src/tests/unit/queueStream.test.ts
+/**
+ * Queue Stream Service Unit Tests
+ *
+ * Tests event publishing, buffered replay for reconnecting clients,
+ * and resync handling for stale event IDs.
+ */
+
+import { describe, beforeEach, test, expect } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { QueueStreamService } from '../../services/queueStream.service';
+
+/**
+ * Minimal request/response doubles for an SSE subscription
+ */
+const createConnection = (lastEventId?: string) => {
+  const req: any = new EventEmitter();
+  req.query = {};
+  req.get = (header: string) => (header === 'Last-Event-ID' ? lastEventId : undefined);
+
+  const chunks: string[] = [];
+  const res: any = {
+    status: () => res,
+    setHeader: () => res,
+    flushHeaders: () => undefined,
+    write: (chunk: string) => chunks.push(chunk)
+  };
+
+  return { req, res, chunks };
+};
+
+describe('Queue Stream Service', () => {
+  beforeEach(() => {
+    QueueStreamService.reset();
+  });
+
+  test('should push published events to connected subscribers', () => {
+    const { req, res, chunks } = createConnection();
+    QueueStreamService.subscribe(req, res);
+
+    const event = QueueStreamService.publish('queue.called', { queueId: 'abc' });
+
+    const written = chunks.join('');
+    expect(written).toContain(`id: ${event.id}`);
+    expect(written).toContain('event: queue.called');
+    expect(written).toContain('"queueId":"abc"');
+
+    req.emit('close');
+    expect(QueueStreamService.getSubscriberCount()).toBe(0);
+  });
+
+  test('should replay events missed since the last event ID', () => {
+    const first = QueueStreamService.publish('queue.added', { queueId: '1' });
+    QueueStreamService.publish('queue.added', { queueId: '2' });
+    QueueStreamService.publish('queue.removed', { queueId: '1' });
+
+    const missed = QueueStreamService.getEventsSince(first.id);
+
+    expect(missed).toHaveLength(2);
+    expect(missed?.map(event => event.type)).toEqual(['queue.added', 'queue.removed']);
+  });
+
+  test('should return no events when the client is up to date', () => {
+    const latest = QueueStreamService.publish('queue.added', { queueId: '1' });
+
+    expect(QueueStreamService.getEventsSince(latest.id)).toEqual([]);
+  });
+
+  test('should ask reconnecting clients with unknown IDs to resync', () => {
+    QueueStreamService.publish('queue.added', { queueId: '1' });
+
+    const { req, res, chunks } = createConnection('stale-epoch-7');
+    QueueStreamService.subscribe(req, res);
+
+    expect(QueueStreamService.getEventsSince('stale-epoch-7')).toBeNull();
+    expect(chunks.join('')).toContain('event: queue.resync');
+
+    req.emit('close');
+  });
+});
\ No newline at end of file
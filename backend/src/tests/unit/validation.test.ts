@@ -7,7 +7,7 @@
  */
 
 import { describe, beforeEach, test, expect, jest } from '@jest/globals';
-import { validate, formatValidationError, commonValidators } from '../../utils/validation';
+import { validate } from '../../utils/validation';
 import { z } from 'zod';
 
 // Mock Express objects
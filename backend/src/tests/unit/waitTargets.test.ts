@@ -0,0 +1,36 @@
+// src/tests/unit/waitTargets.test.ts
+/**
+ * Waiting Target Unit Tests
+ *
+ * Tests warning and breach levels per triage level.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { assessWait, earliestAlertMinutes, WaitTargets } from '../../utils/waitTargets';
+
+const targets: WaitTargets = {
+  minutes: { high: 15, medium: 60, low: 120 },
+  warningRatio: 0.8
+};
+
+describe('Waiting Targets', () => {
+  test('should not alert while a wait is comfortably within target', () => {
+    expect(assessWait('high', 11, targets).level).toBeNull();
+    expect(assessWait('low', 90, targets).level).toBeNull();
+  });
+
+  test('should warn once the warning share of the target is reached', () => {
+    expect(assessWait('high', 12, targets)).toEqual({ level: 'warning', targetMinutes: 15, waitedMinutes: 12 });
+    expect(assessWait('high', 15, targets).level).toBe('warning');
+  });
+
+  test('should report a breach once the target is passed', () => {
+    expect(assessWait('high', 16, targets).level).toBe('breach');
+    expect(assessWait('medium', 61, targets).level).toBe('breach');
+    expect(assessWait('low', 61, targets).level).toBeNull();
+  });
+
+  test('should use the shortest target for the earliest possible alert', () => {
+    expect(earliestAlertMinutes(targets)).toBe(12);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+// src/tests/unit/waitTimeModel.test.ts
+/**
+ * Wait Time Model Unit Tests
+ *
+ * Tests training from completed consultations, group fallback,
+ * staffing adjustments, consultations under way, calibration against
+ * actual waits and confidence ranges.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildWaitTimeModel, estimateWaitTime, ConsultationSample } from '../../utils/waitTimeModel';
+
+const samplesOf = (count: number, sample: Omit<ConsultationSample, 'consultationDuration'>, durations: number[]) =>
+  Array.from({ length: count }, (_, index) => ({
+    ...sample,
+    consultationDuration: durations[index % durations.length]
+  }));
+
+describe('Wait Time Model', () => {
+  test('should fall back to the default consultation time without history', () => {
+    const model = buildWaitTimeModel([], 15);
+
+    const estimate = estimateWaitTime(model, { ahead: ['low', 'low'], doctorsOnDuty: 1, hour: 10 });
+
+    expect(estimate.estimatedWaitTime).toBe(30);
+    expect(estimate.basis).toBe('default');
+    expect(estimate.confidence).toBe('low');
+    expect(estimate.range.low).toBeLessThan(30);
+    expect(estimate.range.high).toBeGreaterThan(30);
+  });
+
+  test('should learn consultation times per triage level', () => {
+    const model = buildWaitTimeModel([
+      ...samplesOf(40, { hour: 10, triageLevel: 'high', doctorsOnDuty: 1 }, [28, 32]),
+      ...samplesOf(40, { hour: 10, triageLevel: 'low', doctorsOnDuty: 1 }, [8, 12])
+    ], 15);
+
+    const behindHigh = estimateWaitTime(model, { ahead: ['high'], doctorsOnDuty: 1, hour: 10 });
+    const behindLow = estimateWaitTime(model, { ahead: ['low'], doctorsOnDuty: 1, hour: 10 });
+
+    expect(behindHigh.estimatedWaitTime).toBe(30);
+    expect(behindLow.estimatedWaitTime).toBe(10);
+    expect(behindHigh.basis).toBe('historical');
+    expect(behindHigh.confidence).toBe('high');
+  });
+
+  test('should share the queue between doctors on duty', () => {
+    const model = buildWaitTimeModel(samplesOf(10, { hour: 9, triageLevel: 'medium', doctorsOnDuty: 2 }, [20]), 15);
+
+    const estimate = estimateWaitTime(model, {
+      ahead: ['medium', 'medium', 'medium', 'medium'],
+      doctorsOnDuty: 2,
+      hour: 9
+    });
+
+    expect(estimate.estimatedWaitTime).toBe(40);
+    expect(estimate.confidence).toBe('medium');
+  });
+
+  test('should use broader groups when the exact hour has too few samples', () => {
+    const model = buildWaitTimeModel([
+      ...samplesOf(20, { hour: 14, triageLevel: 'medium', doctorsOnDuty: 1 }, [25]),
+      ...samplesOf(2, { hour: 8, triageLevel: 'medium', doctorsOnDuty: 1 }, [5])
+    ], 15);
+
+    const estimate = estimateWaitTime(model, { ahead: ['medium'], doctorsOnDuty: 1, hour: 8 });
+
+    // Falls back to all medium consultations: (20 × 25 + 2 × 5) / 22
+    expect(estimate.estimatedWaitTime).toBe(23);
+  });
+
+  test('should estimate no wait when nobody is ahead', () => {
+    const model = buildWaitTimeModel([], 15);
+
+    const estimate = estimateWaitTime(model, { ahead: [], doctorsOnDuty: 1, hour: 12 });
+
+    expect(estimate.estimatedWaitTime).toBe(0);
+    expect(estimate.range).toEqual({ low: 0, high: 0 });
+  });
+
+  test('should wait for a consultation to finish at the front of the queue when every doctor is busy', () => {
+    const model = buildWaitTimeModel(samplesOf(10, { hour: 9, triageLevel: 'medium', doctorsOnDuty: 1 }, [20]), 15);
+
+    const busy = estimateWaitTime(model, {
+      ahead: [],
+      inConsultation: [{ triageLevel: 'medium', elapsedMinutes: 5 }],
+      doctorsOnDuty: 1,
+      hour: 9
+    });
+    expect(busy.estimatedWaitTime).toBe(15);
+
+    // A consultation running over is still expected to take a while
+    const overdue = estimateWaitTime(model, {
+      ahead: [],
+      inConsultation: [{ triageLevel: 'medium', elapsedMinutes: 30 }],
+      doctorsOnDuty: 1,
+      hour: 9
+    });
+    expect(overdue.estimatedWaitTime).toBe(5);
+
+    // A second doctor is free
+    const free = estimateWaitTime(model, {
+      ahead: [],
+      inConsultation: [{ triageLevel: 'medium', elapsedMinutes: 5 }],
+      doctorsOnDuty: 2,
+      hour: 9
+    });
+    expect(free.estimatedWaitTime).toBe(0);
+  });
+
+  test('should calibrate estimates against the waits patients actually had', () => {
+    const consultations = samplesOf(10, { hour: 9, triageLevel: 'medium', doctorsOnDuty: 1 }, [20]);
+    const waits = Array.from({ length: 10 }, () => ({ estimatedWaitTime: 20, actualWaitTime: 30 }));
+
+    const calibrated = buildWaitTimeModel(consultations, 15, waits);
+    expect(calibrated.waitCalibration).toBe(1.5);
+    expect(estimateWaitTime(calibrated, { ahead: ['medium'], doctorsOnDuty: 1, hour: 9 }).estimatedWaitTime).toBe(30);
+
+    // Too few waits to correct anything
+    expect(buildWaitTimeModel(consultations, 15, waits.slice(0, 2)).waitCalibration).toBe(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+// backend/src/utils/appointmentReminders.ts
+/**
+ * Appointment Reminder Utility
+ *
+ * Decides which reminder an upcoming appointment is due for. Reminders are
+ * sent at configurable lead times before the appointment (e.g. 24h and
+ * 2h); an appointment booked or checked late only gets the reminder for
+ * the closest lead time, never a burst of them.
+ */
+
+/**
+ * Lead times used when none are configured, in hours
+ */
+const DEFAULT_LEAD_HOURS = [24, 2];
+
+/**
+ * Parses lead times given in hours
+ *
+ * @param value - Comma-separated hours, e.g. "24,2" or "48,24,0.5"
+ * @returns Lead times in minutes, longest first; the defaults if none are valid
+ */
+export function parseLeadTimes(value: string | undefined): number[] {
+  const hours = (value || '')
+    .split(',')
+    .map(item => parseFloat(item.trim()))
+    .filter(item => Number.isFinite(item) && item > 0);
+
+  const minutes = (hours.length > 0 ? hours : DEFAULT_LEAD_HOURS).map(item => Math.round(item * 60));
+
+  return [...new Set(minutes)].sort((a, b) => b - a);
+}
+
+/**
+ * Finds the reminder an appointment is due for
+ *
+ * The due lead time is the shortest one that the time left before the
+ * appointment has already reached.
+ *
+ * @param scheduledTime - Appointment start
+ * @param now - Current time
+ * @param leadMinutes - Configured lead times in minutes
+ * @param sentLeadMinutes - Lead times already reminded for
+ * @returns Lead time to remind for, or null if no reminder is due
+ */
+export function dueReminderLead(
+  scheduledTime: Date,
+  now: Date,
+  leadMinutes: number[],
+  sentLeadMinutes: number[]
+): number | null {
+  const minutesLeft = (scheduledTime.getTime() - now.getTime()) / 60000;
+
+  if (minutesLeft <= 0) {
+    return null;
+  }
+
+  const reached = leadMinutes.filter(lead => minutesLeft <= lead);
+  if (reached.length === 0) {
+    return null;
+  }
+
+  const lead = Math.min(...reached);
+  return sentLeadMinutes.includes(lead) ? null : lead;
+}
\ No newline at end of file
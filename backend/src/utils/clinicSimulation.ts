@@ -0,0 +1,389 @@
+// backend/src/utils/clinicSimulation.ts
+/**
+ * Clinic Flow Simulation
+ *
+ * Discrete-event simulation of the doctor's waiting list for staffing
+ * decisions ("what if we add a second doctor on Monday mornings?").
+ * Arrivals are replayed from history or generated at a given rate, and
+ * free doctors always take the patient the live queue would call next,
+ * using the same aged-priority ordering as call-next. Runs without a
+ * database so it can be used offline and in tests.
+ */
+
+import {
+  AGING_POLICY,
+  AgingPolicy,
+  OrderableQueueEntry,
+  QueuePriority,
+  createQueueComparator
+} from './queueOrdering';
+
+/**
+ * Triage levels reported on, highest first
+ */
+const TRIAGE_LEVELS: QueuePriority[] = ['high', 'medium', 'low'];
+
+/**
+ * Consultation time distributions
+ */
+export const CONSULT_DISTRIBUTIONS = ['fixed', 'exponential', 'lognormal'] as const;
+
+export type ConsultDistribution = typeof CONSULT_DISTRIBUTIONS[number];
+
+/**
+ * Patient arriving at the clinic
+ */
+export interface SimulationArrival {
+  arrivalTime: Date;
+  triageLevel: QueuePriority;
+}
+
+/**
+ * Doctors on duty during part of the day
+ *
+ * Hours are local and end-exclusive; days are 0 (Sunday) to 6, all days when omitted.
+ */
+export interface StaffingShift {
+  days?: number[];
+  startHour: number;
+  endHour: number;
+  doctors: number;
+}
+
+/**
+ * Doctors on duty: a default count, overridden by the first matching shift
+ */
+export interface StaffingPlan {
+  doctors: number;
+  shifts?: StaffingShift[];
+}
+
+/**
+ * Consultation time configuration
+ */
+export interface ConsultTimeConfig {
+  distribution: ConsultDistribution;
+  meanMinutes: Record<QueuePriority, number>;
+  spread?: number;  // Coefficient of variation for lognormal times (default 0.5)
+}
+
+/**
+ * Simulation input
+ */
+export interface SimulationConfig {
+  arrivals: SimulationArrival[];
+  staffing: StaffingPlan;
+  consultTimes: ConsultTimeConfig;
+  agingPolicy?: AgingPolicy;
+  seed?: number;          // Same seed, same result
+  maxOverrunHours?: number; // Stop this long after the last arrival (default 48)
+}
+
+/**
+ * Synthetic arrival generation options
+ */
+export interface SyntheticArrivalOptions {
+  start: Date;             // Opening time of the first day
+  hours: number;           // Opening hours per day
+  days?: number;           // Consecutive days (default 1)
+  arrivalsPerHour: number;
+  triageMix?: Record<QueuePriority, number>; // Relative share of each level
+}
+
+/**
+ * Predicted waits for a group of patients, in minutes
+ */
+export interface WaitSummary {
+  patients: number;
+  averageWait: number;
+  medianWait: number;
+  p90Wait: number;
+  maxWait: number;
+}
+
+/**
+ * Simulation outcome
+ */
+export interface SimulationResult {
+  byTriageLevel: Record<QueuePriority, WaitSummary>;
+  overall: WaitSummary;
+  doctorUtilisation: number;  // % of on-duty doctor time spent in consultation while patients were in the clinic
+  unserved: number;           // Still waiting when the simulation stopped
+  simulatedFrom: Date | null;
+  simulatedUntil: Date | null;
+}
+
+/**
+ * Default triage mix for synthetic arrivals
+ */
+export const DEFAULT_TRIAGE_MIX: Record<QueuePriority, number> = {
+  high: 0.1,
+  medium: 0.3,
+  low: 0.6
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32)
+ *
+ * @param seed - Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number = 1): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Counts the doctors on duty at a point in time
+ *
+ * @param plan - Staffing plan
+ * @param time - Time to check
+ * @returns Doctors on duty
+ */
+export function doctorsOnDutyAt(plan: StaffingPlan, time: Date): number {
+  const hour = time.getHours();
+  const day = time.getDay();
+
+  const shift = (plan.shifts || []).find(candidate =>
+    (!candidate.days || candidate.days.includes(day)) &&
+    hour >= candidate.startHour &&
+    hour < candidate.endHour
+  );
+
+  return shift ? shift.doctors : plan.doctors;
+}
+
+/**
+ * Draws a consultation time
+ *
+ * @param config - Consultation time configuration
+ * @param triageLevel - Triage level of the patient
+ * @param random - Random generator
+ * @returns Consultation minutes (at least 1)
+ */
+export function sampleConsultMinutes(
+  config: ConsultTimeConfig,
+  triageLevel: QueuePriority,
+  random: () => number
+): number {
+  const mean = config.meanMinutes[triageLevel];
+  let minutes = mean;
+
+  if (config.distribution === 'exponential') {
+    minutes = -mean * Math.log(1 - random());
+  } else if (config.distribution === 'lognormal') {
+    const spread = config.spread ?? 0.5;
+    const sigma = Math.sqrt(Math.log(1 + spread ** 2));
+    const mu = Math.log(mean) - sigma ** 2 / 2;
+    // Box-Muller transform for a standard normal draw
+    const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    minutes = Math.exp(mu + sigma * normal);
+  }
+
+  return Math.max(minutes, 1);
+}
+
+/**
+ * Generates arrivals at a steady average rate (Poisson process)
+ *
+ * @param options - Opening hours, rate and triage mix
+ * @param random - Random generator
+ * @returns Arrivals in time order
+ */
+export function generateSyntheticArrivals(
+  options: SyntheticArrivalOptions,
+  random: () => number
+): SimulationArrival[] {
+  const mix = options.triageMix || DEFAULT_TRIAGE_MIX;
+  const mixTotal = TRIAGE_LEVELS.reduce((total, level) => total + (mix[level] || 0), 0) || 1;
+  const arrivals: SimulationArrival[] = [];
+
+  if (!(options.arrivalsPerHour > 0)) {
+    return arrivals;
+  }
+
+  for (let day = 0; day < (options.days || 1); day++) {
+    const opensAt = options.start.getTime() + day * 24 * HOUR_MS;
+    const closesAt = opensAt + options.hours * HOUR_MS;
+    let time = opensAt;
+
+    while (true) {
+      time += (-Math.log(1 - random()) / options.arrivalsPerHour) * HOUR_MS;
+      if (time >= closesAt) break;
+
+      let pick = random() * mixTotal;
+      const triageLevel = TRIAGE_LEVELS.find(level => (pick -= mix[level] || 0) < 0) || 'low';
+
+      arrivals.push({ arrivalTime: new Date(time), triageLevel });
+    }
+  }
+
+  return arrivals;
+}
+
+/**
+ * Summarises a list of waits
+ */
+const summariseWaits = (waits: number[]): WaitSummary => {
+  if (waits.length === 0) {
+    return { patients: 0, averageWait: 0, medianWait: 0, p90Wait: 0, maxWait: 0 };
+  }
+
+  const sorted = [...waits].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(Math.ceil(p * sorted.length) - 1, sorted.length - 1)];
+  const round = (minutes: number) => Math.round(minutes * 10) / 10;
+
+  return {
+    patients: sorted.length,
+    averageWait: round(sorted.reduce((total, wait) => total + wait, 0) / sorted.length),
+    medianWait: round(percentile(0.5)),
+    p90Wait: round(percentile(0.9)),
+    maxWait: round(sorted[sorted.length - 1])
+  };
+};
+
+/**
+ * Runs the simulation
+ *
+ * Events are arrivals, consultation ends and hour boundaries (where shifts
+ * change). After each event every free doctor on duty calls the next
+ * patient in aged-priority order. A doctor whose shift ends finishes their
+ * current patient first.
+ *
+ * Waiting patients are kept in one first-come line per triage level. Aging
+ * depends only on how long a patient has waited, so it never reorders
+ * patients of the same level: the next patient is always at the front of
+ * one of the lines, and only those fronts are compared.
+ *
+ * @param config - Arrivals, staffing, consultation times and aging policy
+ * @returns Predicted waits per triage level and doctor utilisation
+ * @throws {Error} If the staffing plan never has a doctor on duty
+ *
+ * @example
+ * simulateClinicFlow({
+ *   arrivals,
+ *   staffing: { doctors: 1, shifts: [{ days: [1], startHour: 8, endHour: 12, doctors: 2 }] },
+ *   consultTimes: { distribution: 'lognormal', meanMinutes: { high: 25, medium: 18, low: 12 } }
+ * });
+ */
+export function simulateClinicFlow(config: SimulationConfig): SimulationResult {
+  const { staffing, consultTimes } = config;
+  const policy = config.agingPolicy || AGING_POLICY;
+  const random = createRandom(config.seed ?? 1);
+
+  const maxDoctors = Math.max(staffing.doctors, ...(staffing.shifts || []).map(shift => shift.doctors));
+  if (!(maxDoctors > 0)) {
+    throw new Error('Invalid staffing: at least one doctor must be on duty');
+  }
+
+  const arrivals = [...config.arrivals]
+    .sort((a, b) => a.arrivalTime.getTime() - b.arrivalTime.getTime());
+
+  const waits: Record<QueuePriority, number[]> = { high: [], medium: [], low: [] };
+
+  if (arrivals.length === 0) {
+    return {
+      byTriageLevel: { high: summariseWaits([]), medium: summariseWaits([]), low: summariseWaits([]) },
+      overall: summariseWaits([]),
+      doctorUtilisation: 0,
+      unserved: 0,
+      simulatedFrom: null,
+      simulatedUntil: null
+    };
+  }
+
+  const startedAt = arrivals[0].arrivalTime.getTime();
+  const stopAt = arrivals[arrivals.length - 1].arrivalTime.getTime() +
+    (config.maxOverrunHours ?? 48) * HOUR_MS;
+
+  const doctorsBusyUntil: Array<number | null> = Array.from({ length: maxDoctors }, () => null);
+  const waiting: Record<QueuePriority, OrderableQueueEntry[]> = { high: [], medium: [], low: [] };
+  const called: Record<QueuePriority, number> = { high: 0, medium: 0, low: 0 };
+  let waitingCount = 0;
+  let nextArrival = 0;
+  let busyMinutes = 0;
+  let onDutyMinutes = 0;
+  let now = startedAt;
+
+  while (now <= stopAt) {
+    doctorsBusyUntil.forEach((busyUntil, index) => {
+      if (busyUntil !== null && busyUntil <= now) doctorsBusyUntil[index] = null;
+    });
+
+    while (nextArrival < arrivals.length && arrivals[nextArrival].arrivalTime.getTime() <= now) {
+      const arrival = arrivals[nextArrival];
+      waiting[arrival.triageLevel].push({ _id: String(nextArrival), priority: arrival.triageLevel, checkInTime: arrival.arrivalTime });
+      waitingCount++;
+      nextArrival++;
+    }
+
+    const onDuty = Math.min(doctorsOnDutyAt(staffing, new Date(now)), maxDoctors);
+    const compare = createQueueComparator(new Date(now), policy);
+
+    for (let doctor = 0; doctor < onDuty && waitingCount > 0; doctor++) {
+      if (doctorsBusyUntil[doctor] !== null) continue;
+
+      // Front of each line; ties go to the earlier arrival
+      const level = TRIAGE_LEVELS
+        .filter(candidate => called[candidate] < waiting[candidate].length)
+        .reduce((best, candidate) => {
+          const front = waiting[candidate][called[candidate]];
+          const bestFront = waiting[best][called[best]];
+          const order = compare(front, bestFront) || Number(front._id) - Number(bestFront._id);
+          return order < 0 ? candidate : best;
+        });
+
+      const patient = waiting[level][called[level]++];
+      waitingCount--;
+      const consultMinutes = sampleConsultMinutes(consultTimes, patient.priority, random);
+
+      waits[patient.priority].push((now - patient.checkInTime.getTime()) / MINUTE_MS);
+      doctorsBusyUntil[doctor] = now + consultMinutes * MINUTE_MS;
+      busyMinutes += consultMinutes;
+    }
+
+    const busyDoctors = doctorsBusyUntil.filter((busyUntil): busyUntil is number => busyUntil !== null);
+    if (nextArrival >= arrivals.length && waitingCount === 0 && busyDoctors.length === 0) {
+      break;
+    }
+
+    const nextEvent = Math.min(
+      nextArrival < arrivals.length ? arrivals[nextArrival].arrivalTime.getTime() : Infinity,
+      ...busyDoctors,
+      new Date(now).setMinutes(60, 0, 0) // Next local hour, where shifts change
+    );
+
+    // Empty clinic (e.g. overnight between replayed days) does not count as idle time
+    if (waitingCount > 0 || busyDoctors.length > 0) {
+      onDutyMinutes += onDuty * (nextEvent - now) / MINUTE_MS;
+    }
+    now = nextEvent;
+  }
+
+  const allWaits = TRIAGE_LEVELS.flatMap(level => waits[level]);
+
+  return {
+    byTriageLevel: {
+      high: summariseWaits(waits.high),
+      medium: summariseWaits(waits.medium),
+      low: summariseWaits(waits.low)
+    },
+    overall: summariseWaits(allWaits),
+    doctorUtilisation: onDutyMinutes > 0
+      ? Math.round(Math.min(busyMinutes / onDutyMinutes, 1) * 1000) / 10
+      : 0,
+    unserved: waitingCount + (arrivals.length - nextArrival),
+    simulatedFrom: new Date(startedAt),
+    simulatedUntil: new Date(Math.min(now, stopAt))
+  };
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+// backend/src/utils/cron.ts
+/**
+ * Cron Schedule Utility
+ *
+ * Parses standard five-field cron expressions (minute, hour, day of month,
+ * month, day of week) and finds the next time a schedule fires. Fields
+ * accept `*`, single values, ranges (`1-5`), steps (`*\/15`, `8-18/2`) and
+ * comma-separated lists; `@hourly`, `@daily`, `@weekly` and `@monthly` are
+ * accepted as shorthands. Times are in the server's local time zone.
+ */
+
+/**
+ * Parsed cron schedule: the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;      // 1-12
+  daysOfWeek: Set<number>;  // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+/**
+ * How far ahead to look for a matching time before giving up
+ */
+const SEARCH_LIMIT_YEARS = 5;
+
+/**
+ * Parses one field into its allowed values
+ */
+function parseField(field: string, range: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${range.name}: ${part}`);
+    }
+
+    const [, all, from, to, step] = match;
+    let start = range.min;
+    let end = range.max;
+
+    if (all !== '*') {
+      start = parseInt(from, 10);
+      // A single value with a step runs from the value to the end of the range
+      end = to !== undefined ? parseInt(to, 10) : step !== undefined ? range.max : start;
+    }
+
+    const increment = step !== undefined ? parseInt(step, 10) : 1;
+
+    if (start < range.min || end > range.max || start > end || increment < 1) {
+      throw new Error(`Invalid cron ${range.name}: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression
+ *
+ * @param expression - Five-field expression or shorthand, e.g. "*\/5 * * * *" or "@daily"
+ * @returns Parsed schedule
+ * @throws {Error} If the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = (expression || '').trim();
+  const fields = (ALIASES[trimmed] || trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  );
+
+  // Sunday may be written as 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+/**
+ * Checks whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a schedule runs on a date
+ *
+ * As in cron, when both day of month and day of week are restricted a day
+ * matching either one is a match.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Finds the next time a schedule fires
+ *
+ * @param expression - Cron expression or parsed schedule
+ * @param after - Time to search from; the result is strictly later
+ * @returns Start of the next matching minute
+ * @throws {Error} If the expression is invalid or never fires
+ */
+export function nextCronTime(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+  while (next <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return next;
+  }
+
+  throw new Error(`Cron expression never fires: ${typeof expression === 'string' ? expression : 'schedule'}`);
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+// backend/src/utils/dailySummary.ts
+/**
+ * Daily Queue Summary Utility
+ *
+ * Summarises one day's queue entries for the end-of-day close-out:
+ * outcomes, waits per triage level and per stage. Entries the close-out
+ * had to resolve are counted apart from real completions and staff
+ * cancellations, so the outcome counts add up to the number of entries.
+ */
+
+import { QueuePriority } from './queueOrdering';
+import { VISIT_STAGES, VisitStage } from '../config/visitStages';
+
+/**
+ * Queue entry fields used by the summary
+ */
+export interface SummaryEntry {
+  stage?: VisitStage;  // Missing on entries created before stages (doctor)
+  status: string;
+  priority: QueuePriority;
+  actualWaitTime?: number;
+  closeOutReason?: string;
+}
+
+/**
+ * Summary figures for one day
+ */
+export interface DailySummaryFigures {
+  visits: number;
+  entries: number;
+  completed: number;
+  cancelled: number;
+  leftWithoutBeingSeen: number;
+  resolvedAtClose: {
+    notSeen: number;
+    consultationNotClosed: number;
+  };
+  averageWaitTime: number;
+  longestWaitTime: number;
+  byTriageLevel: Record<QueuePriority, { visits: number; completed: number; averageWaitTime: number }>;
+  byStage: Array<{ stage: VisitStage; entries: number; completed: number; averageWaitTime: number }>;
+}
+
+/**
+ * Rounded average, 0 without values
+ */
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+/**
+ * Summarises a day's queue entries
+ *
+ * @param entries - Entries checked in that day, all stages
+ * @param visits - Visits checked in that day
+ * @returns Outcomes and waits; wait figures are for the doctor stage unless per stage
+ */
+export function summariseQueueDay(
+  entries: SummaryEntry[],
+  visits: Array<{ triageLevel: QueuePriority }>
+): DailySummaryFigures {
+  const completedByClinic = (entry: SummaryEntry) => entry.status === 'completed' && !entry.closeOutReason;
+  const waitOf = (list: SummaryEntry[]) =>
+    list.filter(entry => entry.actualWaitTime != null).map(entry => entry.actualWaitTime as number);
+
+  const doctorEntries = entries.filter(entry => (entry.stage || 'doctor') === 'doctor');
+  const doctorWaits = waitOf(doctorEntries);
+
+  const triageSummary = (level: QueuePriority) => {
+    const levelEntries = doctorEntries.filter(entry => entry.priority === level);
+    return {
+      visits: visits.filter(visit => visit.triageLevel === level).length,
+      completed: levelEntries.filter(completedByClinic).length,
+      averageWaitTime: average(waitOf(levelEntries))
+    };
+  };
+
+  return {
+    visits: visits.length,
+    entries: entries.length,
+    completed: entries.filter(completedByClinic).length,
+    cancelled: entries.filter(entry => entry.status === 'cancelled' && !entry.closeOutReason).length,
+    leftWithoutBeingSeen: entries.filter(entry => entry.status === 'left-without-being-seen').length,
+    resolvedAtClose: {
+      notSeen: entries.filter(entry => entry.closeOutReason === 'not-seen-by-close').length,
+      consultationNotClosed: entries.filter(entry => entry.closeOutReason === 'consultation-not-closed').length
+    },
+    averageWaitTime: average(doctorWaits),
+    longestWaitTime: doctorWaits.length > 0 ? Math.max(...doctorWaits) : 0,
+    byTriageLevel: {
+      high: triageSummary('high'),
+      medium: triageSummary('medium'),
+      low: triageSummary('low')
+    },
+    byStage: VISIT_STAGES.map(stage => {
+      const stageEntries = entries.filter(entry => (entry.stage || 'doctor') === stage);
+      return {
+        stage,
+        entries: stageEntries.length,
+        completed: stageEntries.filter(completedByClinic).length,
+        averageWaitTime: average(waitOf(stageEntries))
+      };
+    })
+  };
+}
\ No newline at end of file
@@ -5,7 +5,8 @@
  * 
  * Provides secure token generation and verification for authentication.
  * Handles token signing, verification, and decoding with configurable
- * expiration times. Used for staff authentication and patient tracking tokens.
+ * expiration times. Used for staff authentication, patient tracking tokens
+ * and short-lived queue stream tokens.
  */
 
 import jwt from 'jsonwebtoken';
@@ -19,7 +20,8 @@ import jwt from 'jsonwebtoken';
 const JWT_CONFIG = {
   secret: process.env.JWT_SECRET || 'clinic-queue-dev-secret-change-in-production',
   defaultExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
-  trackingTokenExpiresIn: '8h' // Shorter expiry for patient tracking tokens
+  trackingTokenExpiresIn: '8h', // Shorter expiry for patient tracking tokens
+  streamTokenExpiresIn: '60s'   // Only needs to last until the stream connects
 } as const;
 
 /**
@@ -47,6 +49,18 @@ export interface TrackingTokenPayload {
   id: string; // Required by JWTPayload interface
 }
 
+/**
+ * Stream Token Payload Interface
+ * 
+ * Staff identity carried by a queue stream token
+ */
+export interface StreamTokenPayload {
+  id: string;
+  email: string;
+  role: string;
+  type: string;
+}
+
 /**
  * Generates a JWT token with the provided payload
  * 
@@ -170,6 +184,76 @@ export const generateTrackingToken = (
   );
 };
 
+/**
+ * Verifies a patient tracking token
+ * 
+ * @param token - Tracking token issued at check-in
+ * @returns Tracking payload if valid, null if invalid, expired or not a tracking token
+ */
+export const verifyTrackingToken = (token: string): TrackingTokenPayload | null => {
+  const decoded = verifyToken(token);
+
+  if (!decoded || decoded.type !== 'tracking' || !decoded.visitId) {
+    return null;
+  }
+
+  return decoded as TrackingTokenPayload;
+};
+
+/**
+ * Generates a queue stream token for a signed-in staff member
+ * 
+ * Browser EventSource clients cannot send an Authorization header, so the
+ * stream token goes in the URL instead of the staff JWT. It only opens the
+ * queue stream and expires within a minute, so a URL that ends up in a
+ * proxy or access log is of no use.
+ * 
+ * @param staff - Authenticated staff member
+ * @returns JWT token for a single stream connection
+ */
+export const generateStreamToken = (staff: { id: string; email: string; role: string }): string => {
+  const streamPayload: StreamTokenPayload = {
+    id: staff.id,
+    email: staff.email,
+    role: staff.role,
+    type: 'queue-stream'
+  };
+
+  return signToken(streamPayload, JWT_CONFIG.streamTokenExpiresIn);
+};
+
+/**
+ * Verifies a queue stream token
+ * 
+ * @param token - Stream token issued by POST /api/queue/stream-token
+ * @returns Stream payload if valid, null if invalid, expired or not a stream token
+ */
+export const verifyStreamToken = (token: string): StreamTokenPayload | null => {
+  const decoded = verifyToken(token);
+
+  if (!decoded || !isStreamToken(decoded)) {
+    return null;
+  }
+
+  return decoded as StreamTokenPayload;
+};
+
+/**
+ * Checks whether a decoded token is a queue stream token
+ * 
+ * @param payload - Decoded token payload
+ * @returns True for stream tokens, which must not grant staff access
+ */
+export const isStreamToken = (payload: JWTPayload): boolean => payload.type === 'queue-stream';
+
+/**
+ * Checks whether a decoded token is a patient tracking token
+ * 
+ * @param payload - Decoded token payload
+ * @returns True for tracking tokens, which must not grant staff access
+ */
+export const isTrackingToken = (payload: JWTPayload): boolean => payload.type === 'tracking';
+
 /**
  * Extracts token from Authorization header
  * 
@@ -0,0 +1,143 @@
+// backend/src/utils/notificationTemplates.ts
+/**
+ * Patient Notification Templates
+ *
+ * Message templates for the notifications sent to patients while they
+ * wait, and for reminders of upcoming appointments. Templates use `{{name}}` placeholders; SMS bodies are kept short
+ * and emails get a subject line.
+ */
+
+/**
+ * Channels a patient can be notified on
+ */
+export const NOTIFICATION_CHANNELS = ['sms', 'email'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+/**
+ * Moments a patient is notified
+ */
+export const NOTIFICATION_TEMPLATES = ['checked-in', 'turn-near', 'called', 'appointment-reminder'] as const;
+
+export type NotificationTemplate = typeof NOTIFICATION_TEMPLATES[number];
+
+/**
+ * Values available to templates
+ */
+export interface NotificationVariables {
+  clinicName: string;
+  firstName: string;
+  ticketNumber?: string;
+  position?: number;
+  estimatedWaitTime?: number;
+  location?: string;  // Room or desk to go to when called
+  appointmentTime?: Date;
+  doctorName?: string;
+}
+
+/**
+ * Rendered message
+ */
+export interface RenderedNotification {
+  subject?: string;  // Email only
+  body: string;
+}
+
+const TEMPLATES: Record<NotificationTemplate, { sms: string; subject: string; email: string }> = {
+  'checked-in': {
+    sms: '{{clinicName}}: Hi {{firstName}}, you are checked in with ticket {{ticketNumber}}. ' +
+      'You are {{positionOrdinal}} in line, about {{estimatedWaitTime}} min wait. We will text you when your turn is near.',
+    subject: 'You are checked in - ticket {{ticketNumber}}',
+    email: 'Hi {{firstName}},\n\n' +
+      'You are checked in at {{clinicName}} with ticket {{ticketNumber}}.\n' +
+      'You are {{positionOrdinal}} in line and the estimated wait is about {{estimatedWaitTime}} minutes.\n\n' +
+      'We will let you know when your turn is near.\n\n{{clinicName}}'
+  },
+  'turn-near': {
+    sms: '{{clinicName}}: {{firstName}}, you are now {{positionOrdinal}} in line (ticket {{ticketNumber}}). ' +
+      'Please make your way back to the waiting area.',
+    subject: 'Your turn is near - ticket {{ticketNumber}}',
+    email: 'Hi {{firstName}},\n\n' +
+      'You are now {{positionOrdinal}} in line at {{clinicName}} (ticket {{ticketNumber}}).\n' +
+      'Please make your way back to the waiting area.\n\n{{clinicName}}'
+  },
+  'called': {
+    sms: '{{clinicName}}: {{firstName}}, it is your turn (ticket {{ticketNumber}}). Please go to {{location}}.',
+    subject: 'It is your turn - ticket {{ticketNumber}}',
+    email: 'Hi {{firstName}},\n\n' +
+      'It is your turn (ticket {{ticketNumber}}). Please go to {{location}}.\n\n{{clinicName}}'
+  },
+  'appointment-reminder': {
+    sms: '{{clinicName}}: Hi {{firstName}}, a reminder of your appointment with {{doctorName}} on {{appointmentTime}}.',
+    subject: 'Appointment reminder - {{appointmentTime}}',
+    email: 'Hi {{firstName}},\n\n' +
+      'This is a reminder of your appointment with {{doctorName}} at {{clinicName}} on {{appointmentTime}}.\n' +
+      'If you cannot make it, please let us know so we can offer the time to another patient.\n\n{{clinicName}}'
+  }
+};
+
+/**
+ * English ordinal of a position (1st, 2nd, 3rd, 11th, 22nd)
+ */
+export function ordinal(value: number): string {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+
+  switch (value % 10) {
+    case 1: return `${value}st`;
+    case 2: return `${value}nd`;
+    case 3: return `${value}rd`;
+    default: return `${value}th`;
+  }
+}
+
+/**
+ * Date and time for a message, in the server's time zone (e.g. "Tue, Mar 5, 2:30 PM")
+ */
+export function formatDateTime(value: Date): string {
+  return value.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Replaces `{{name}}` placeholders; unknown or missing values become empty
+ */
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Renders a notification for a channel
+ *
+ * @param template - Moment being notified
+ * @param channel - Channel the message is sent on
+ * @param variables - Values for the placeholders
+ * @returns Message body, and a subject for email
+ */
+export function renderNotification(
+  template: NotificationTemplate,
+  channel: NotificationChannel,
+  variables: NotificationVariables
+): RenderedNotification {
+  const values: Record<string, string> = {
+    clinicName: variables.clinicName,
+    firstName: variables.firstName,
+    ticketNumber: variables.ticketNumber || '-',
+    positionOrdinal: variables.position != null ? ordinal(variables.position) : '',
+    estimatedWaitTime: variables.estimatedWaitTime != null ? String(variables.estimatedWaitTime) : '',
+    location: variables.location || 'the front desk',
+    appointmentTime: variables.appointmentTime ? formatDateTime(variables.appointmentTime) : '',
+    doctorName: variables.doctorName || 'your doctor'
+  };
+
+  const definition = TEMPLATES[template];
+
+  return channel === 'email'
+    ? { subject: fill(definition.subject, values), body: fill(definition.email, values) }
+    : { body: fill(definition.sms, values) };
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+// backend/src/utils/patientMatching.ts
+/**
+ * Patient Identity Matching Utility
+ *
+ * Decides whether the details typed at check-in belong to an existing
+ * patient record. Identity is name + date of birth + a contact detail on
+ * file (phone, or email as a fallback). Names are compared ignoring case,
+ * accents and extra spaces and phone numbers in their normalised form.
+ * Check-in is public, so an email alone never identifies a patient.
+ */
+
+import { phonesMatch } from './phone';
+
+/**
+ * Details compared between check-in and a patient record
+ */
+export type MatchField = 'name' | 'dateOfBirth' | 'phone' | 'email';
+
+/**
+ * Identity details of a check-in or a patient record
+ */
+export interface PatientIdentity {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date | string;
+  phone: string;
+  email?: string;
+}
+
+/**
+ * How a patient record compares with the details typed at check-in
+ */
+export interface IdentityMatch {
+  fields: MatchField[];
+  // Same person beyond reasonable doubt: reused without asking
+  confident: boolean;
+  // Possibly the same person: the patient is asked to give the missing detail
+  candidate: boolean;
+}
+
+/**
+ * What check-in does with the compared records
+ */
+export type MatchDecision =
+  | { action: 'reuse'; index: number }
+  | { action: 'confirm' }
+  | { action: 'create' };
+
+/**
+ * Normalises a name for comparison
+ */
+export function normalizeName(name: string | undefined | null): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Calendar date of a date of birth, as YYYY-MM-DD
+ *
+ * Dates of birth are stored as midnight UTC.
+ */
+export function birthDateKey(date: Date | string): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+}
+
+/**
+ * Compares check-in details with a patient record
+ *
+ * A record matching name, date of birth and phone is the same patient, as
+ * is one matching name, date of birth and email. A record sharing the date
+ * of birth and either the name or the phone is a candidate: the patient is
+ * asked for the detail that did not match. An email match alone is neither.
+ *
+ * @param input - Details typed at check-in
+ * @param record - Existing patient record
+ */
+export function matchIdentity(input: PatientIdentity, record: PatientIdentity): IdentityMatch {
+  const fields: MatchField[] = [];
+
+  const inputName = normalizeName(`${input.firstName} ${input.lastName}`);
+  if (inputName && inputName === normalizeName(`${record.firstName} ${record.lastName}`)) {
+    fields.push('name');
+  }
+
+  const dateOfBirth = birthDateKey(input.dateOfBirth);
+  if (dateOfBirth && dateOfBirth === birthDateKey(record.dateOfBirth)) {
+    fields.push('dateOfBirth');
+  }
+
+  if (phonesMatch(input.phone, record.phone)) {
+    fields.push('phone');
+  }
+
+  if (input.email && record.email && input.email.trim().toLowerCase() === record.email.trim().toLowerCase()) {
+    fields.push('email');
+  }
+
+  const has = (field: MatchField) => fields.includes(field);
+  const confident = has('name') && has('dateOfBirth') && (has('phone') || has('email'));
+  const candidate = confident || (has('dateOfBirth') && (has('name') || has('phone')));
+
+  return { fields, confident, candidate };
+}
+
+/**
+ * Decides whether to reuse a record, ask the patient, or create a record
+ *
+ * A single confident match is reused; any other candidate, or several
+ * confident matches, needs more details from the patient.
+ *
+ * @param matches - Comparison with each existing record
+ */
+export function decideMatch(matches: IdentityMatch[]): MatchDecision {
+  const confident = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => match.confident);
+
+  if (confident.length === 1) {
+    return { action: 'reuse', index: confident[0].index };
+  }
+
+  return matches.some(match => match.candidate) ? { action: 'confirm' } : { action: 'create' };
+}
@@ -0,0 +1,54 @@
+// backend/src/utils/phone.ts
+/**
+ * Phone Number Utility
+ *
+ * Normalises phone numbers typed in different formats so they can be
+ * compared: "(555) 123-4567", "555.123.4567" and "+1 555 123 4567" are the
+ * same number. Numbers are assumed to be North American unless they carry
+ * another international prefix.
+ */
+
+/**
+ * Country code dropped from North American numbers
+ */
+const DEFAULT_COUNTRY_CODE = '1';
+
+/**
+ * Digits in a North American number without the country code
+ */
+const NATIONAL_NUMBER_LENGTH = 10;
+
+/**
+ * Reduces a phone number to its digits
+ *
+ * Separators and an international "+" or "00" prefix are removed, as is
+ * the North American country code, so a number written with or without
+ * it normalises the same way.
+ *
+ * @param phone - Phone number as typed
+ * @returns Digits of the number, or an empty string if it has none
+ */
+export function normalizePhone(phone: string | undefined | null): string {
+  let digits = (phone || '').replace(/\D/g, '');
+
+  // "00" is the international prefix written without "+"
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+
+  if (digits.length === NATIONAL_NUMBER_LENGTH + 1 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    digits = digits.slice(1);
+  }
+
+  return digits;
+}
+
+/**
+ * Checks whether two phone numbers are the same number
+ *
+ * Numbers without digits never match.
+ */
+export function phonesMatch(first: string | undefined | null, second: string | undefined | null): boolean {
+  const normalized = normalizePhone(first);
+  return normalized.length > 0 && normalized === normalizePhone(second);
+}
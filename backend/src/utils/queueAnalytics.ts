@@ -0,0 +1,247 @@
+// backend/src/utils/queueAnalytics.ts
+/**
+ * Queue Analytics Utility
+ *
+ * Groups arrivals, calls and completions into hourly or daily buckets, with
+ * wait and door-to-doctor percentiles per bucket and per triage level, so
+ * peak hours can be seen. Every bucket in the range is reported, including
+ * empty ones, so the series can be charted directly.
+ */
+
+import { QueuePriority } from './queueOrdering';
+
+/**
+ * Bucket sizes
+ */
+export const ANALYTICS_BUCKETS = ['hour', 'day'] as const;
+
+export type AnalyticsBucket = typeof ANALYTICS_BUCKETS[number];
+
+/**
+ * Patient arrival with the outcome of their wait
+ */
+export interface AnalyticsArrival {
+  arrivedAt: Date;
+  triageLevel: QueuePriority;
+  waitMinutes?: number;          // Waiting time to be called, excluding holds (once called)
+  doorToDoctorMinutes?: number;  // Check-in to first doctor call, all stages included (once called)
+}
+
+/**
+ * Timestamped queue step (call or completion)
+ */
+export interface AnalyticsStep {
+  at: Date;
+  triageLevel: QueuePriority;
+}
+
+/**
+ * Analytics input
+ */
+export interface AnalyticsInput {
+  arrivals: AnalyticsArrival[];
+  calls: AnalyticsStep[];
+  completions: AnalyticsStep[];
+}
+
+/**
+ * Figures for one bucket or triage level; percentiles are null without data
+ */
+export interface AnalyticsMetrics {
+  arrivals: number;
+  calls: number;
+  completions: number;
+  medianWait: number | null;
+  p90Wait: number | null;
+  medianDoorToDoctor: number | null;
+  p90DoorToDoctor: number | null;
+}
+
+/**
+ * One bucket of the time series
+ */
+export interface AnalyticsBucketResult extends AnalyticsMetrics {
+  start: Date;
+  byTriageLevel: Record<QueuePriority, AnalyticsMetrics>;
+}
+
+/**
+ * Queue analytics result
+ */
+export interface QueueAnalytics {
+  from: Date;
+  to: Date;
+  bucket: AnalyticsBucket;
+  buckets: AnalyticsBucketResult[];
+  totals: AnalyticsMetrics & { byTriageLevel: Record<QueuePriority, AnalyticsMetrics> };
+}
+
+/**
+ * Start of the bucket a time falls in (local time)
+ *
+ * @param time - Time to place
+ * @param bucket - Bucket size
+ * @returns Bucket start
+ */
+export function bucketStart(time: Date, bucket: AnalyticsBucket): Date {
+  const start = new Date(time);
+
+  if (bucket === 'day') {
+    start.setHours(0, 0, 0, 0);
+  } else {
+    start.setMinutes(0, 0, 0);
+  }
+
+  return start;
+}
+
+/**
+ * Start of the bucket after the one starting at `start`
+ */
+const nextBucketStart = (start: Date, bucket: AnalyticsBucket): Date => {
+  const next = new Date(start);
+
+  if (bucket === 'day') {
+    next.setDate(next.getDate() + 1);
+  } else {
+    next.setHours(next.getHours() + 1);
+  }
+
+  return next;
+};
+
+/**
+ * Nearest-rank percentile, rounded to one decimal
+ *
+ * @param values - Values in any order
+ * @param p - Percentile between 0 and 1
+ * @returns Percentile, or null when there are no values
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(Math.max(Math.ceil(p * sorted.length) - 1, 0), sorted.length - 1);
+
+  return Math.round(sorted[index] * 10) / 10;
+}
+
+/**
+ * Accumulates the raw values behind one set of metrics
+ */
+class MetricsAccumulator {
+  arrivals = 0;
+  calls = 0;
+  completions = 0;
+  waits: number[] = [];
+  doorToDoctor: number[] = [];
+
+  addArrival(arrival: AnalyticsArrival): void {
+    this.arrivals++;
+    if (arrival.waitMinutes != null) this.waits.push(arrival.waitMinutes);
+    if (arrival.doorToDoctorMinutes != null) this.doorToDoctor.push(arrival.doorToDoctorMinutes);
+  }
+
+  toMetrics(): AnalyticsMetrics {
+    return {
+      arrivals: this.arrivals,
+      calls: this.calls,
+      completions: this.completions,
+      medianWait: percentile(this.waits, 0.5),
+      p90Wait: percentile(this.waits, 0.9),
+      medianDoorToDoctor: percentile(this.doorToDoctor, 0.5),
+      p90DoorToDoctor: percentile(this.doorToDoctor, 0.9)
+    };
+  }
+}
+
+/**
+ * Accumulators for all patients and for each triage level
+ */
+const createGroup = () => ({
+  all: new MetricsAccumulator(),
+  levels: {
+    high: new MetricsAccumulator(),
+    medium: new MetricsAccumulator(),
+    low: new MetricsAccumulator()
+  } as Record<QueuePriority, MetricsAccumulator>
+});
+
+type MetricsGroup = ReturnType<typeof createGroup>;
+
+const toLevelMetrics = (group: MetricsGroup): Record<QueuePriority, AnalyticsMetrics> => ({
+  high: group.levels.high.toMetrics(),
+  medium: group.levels.medium.toMetrics(),
+  low: group.levels.low.toMetrics()
+});
+
+/**
+ * Builds the analytics time series
+ *
+ * Waits and door-to-doctor times are attributed to the bucket the patient
+ * arrived in; calls and completions to the bucket they happened in. Items
+ * outside [from, to) are ignored.
+ *
+ * @param input - Arrivals, calls and completions
+ * @param range - Period and bucket size
+ * @returns Buckets in time order with overall totals
+ */
+export function buildQueueAnalytics(
+  input: AnalyticsInput,
+  range: { from: Date; to: Date; bucket: AnalyticsBucket }
+): QueueAnalytics {
+  const { from, to, bucket } = range;
+  const groups = new Map<number, MetricsGroup>();
+  const totals = createGroup();
+
+  for (let start = bucketStart(from, bucket); start < to; start = nextBucketStart(start, bucket)) {
+    groups.set(start.getTime(), createGroup());
+  }
+
+  const groupFor = (time: Date): MetricsGroup | undefined =>
+    time >= from && time < to ? groups.get(bucketStart(time, bucket).getTime()) : undefined;
+
+  for (const arrival of input.arrivals) {
+    const group = groupFor(arrival.arrivedAt);
+    if (!group) continue;
+
+    for (const accumulator of [group.all, group.levels[arrival.triageLevel], totals.all, totals.levels[arrival.triageLevel]]) {
+      accumulator.addArrival(arrival);
+    }
+  }
+
+  const countSteps = (steps: AnalyticsStep[], field: 'calls' | 'completions') => {
+    for (const step of steps) {
+      const group = groupFor(step.at);
+      if (!group) continue;
+
+      for (const accumulator of [group.all, group.levels[step.triageLevel], totals.all, totals.levels[step.triageLevel]]) {
+        accumulator[field]++;
+      }
+    }
+  };
+
+  countSteps(input.calls, 'calls');
+  countSteps(input.completions, 'completions');
+
+  const buckets = [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, group]) => ({
+      start: new Date(start),
+      ...group.all.toMetrics(),
+      byTriageLevel: toLevelMetrics(group)
+    }));
+
+  return {
+    from,
+    to,
+    bucket,
+    buckets,
+    totals: {
+      ...totals.all.toMetrics(),
+      byTriageLevel: toLevelMetrics(totals)
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+// backend/src/utils/queueOrdering.ts
+/**
+ * Queue Ordering Utility
+ *
+ * Single source of truth for the order in which waiting patients are seen.
+ * Used by position recalculation and call-next so both agree on who is next,
+ * and to plan the minimal set of position updates after a queue change.
+ * Applies the aging policy so low-priority patients cannot be starved by a
+ * steady stream of higher-priority arrivals.
+ */
+
+import { Types } from 'mongoose';
+
+/**
+ * Numeric rank for each priority level (higher is seen first)
+ *
+ * Priorities are stored as strings, so sorting on the raw field in MongoDB
+ * would order them alphabetically (medium > low > high).
+ */
+export const PRIORITY_RANK = {
+  high: 3,
+  medium: 2,
+  low: 1
+} as const;
+
+export type QueuePriority = keyof typeof PRIORITY_RANK;
+
+/**
+ * Aging policy: minutes of waiting after which an entry is raised one level
+ *
+ * A low-priority patient is treated as medium after `lowMinutes`, and as
+ * high after a further `mediumMinutes`. A threshold of 0 disables that step.
+ */
+export interface AgingPolicy {
+  lowMinutes: number;
+  mediumMinutes: number;
+}
+
+export const AGING_POLICY: AgingPolicy = {
+  lowMinutes: parseInt(process.env.QUEUE_AGING_LOW_MINUTES || '60', 10),
+  mediumMinutes: parseInt(process.env.QUEUE_AGING_MEDIUM_MINUTES || '90', 10)
+};
+
+/**
+ * Effective priority of a waiting entry after aging
+ */
+export interface EffectivePriority {
+  priority: QueuePriority;
+  agingReason: string | null;
+}
+
+/**
+ * Minimal queue entry shape needed for ordering
+ */
+export interface OrderableQueueEntry {
+  _id: Types.ObjectId | string;
+  priority: QueuePriority;
+  checkInTime: Date;
+  position?: number;
+}
+
+/**
+ * Planned position change for a single queue entry
+ */
+export interface PositionChange {
+  id: string;
+  from: number | undefined;
+  to: number;
+}
+
+/**
+ * Works out the priority an entry is treated with after waiting
+ *
+ * @param entry - Queue entry with triage priority and check-in time
+ * @param now - Time the queue is being ordered at
+ * @param policy - Aging thresholds
+ * @returns Effective priority and why it differs from triage, if it does
+ *
+ * @example
+ * getEffectivePriority({ priority: 'low', checkInTime: twoHoursAgo });
+ * // { priority: 'medium', agingReason: 'Waited 120 min, raised from low to medium' }
+ */
+export function getEffectivePriority(
+  entry: Pick<OrderableQueueEntry, 'priority' | 'checkInTime'>,
+  now: Date = new Date(),
+  policy: AgingPolicy = AGING_POLICY
+): EffectivePriority {
+  const waitedMinutes = Math.floor((now.getTime() - new Date(entry.checkInTime).getTime()) / 60000);
+
+  let priority = entry.priority;
+  let threshold = 0;
+
+  if (priority === 'low' && policy.lowMinutes > 0 && waitedMinutes >= policy.lowMinutes) {
+    priority = 'medium';
+    threshold = policy.lowMinutes;
+  }
+
+  if (priority === 'medium' && policy.mediumMinutes > 0 && waitedMinutes >= threshold + policy.mediumMinutes) {
+    priority = 'high';
+  }
+
+  return {
+    priority,
+    agingReason: priority === entry.priority
+      ? null
+      : `Waited ${waitedMinutes} min, raised from ${entry.priority} to ${priority}`
+  };
+}
+
+/**
+ * Compares two queue entries by triage priority, then by check-in time
+ *
+ * Ignores aging; use `createQueueComparator` to order a waiting list.
+ *
+ * @param a - First queue entry
+ * @param b - Second queue entry
+ * @returns Negative if a is seen before b, positive if after
+ */
+export function compareQueueEntries(a: OrderableQueueEntry, b: OrderableQueueEntry): number {
+  const rankDifference = PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority];
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+
+  return new Date(a.checkInTime).getTime() - new Date(b.checkInTime).getTime();
+}
+
+/**
+ * Creates a comparator ordering entries by effective (aged) priority,
+ * then by check-in time
+ *
+ * The time is fixed when the comparator is created so every comparison in
+ * one sort sees the same waiting times.
+ *
+ * @param now - Time the queue is being ordered at
+ * @param policy - Aging thresholds
+ * @returns Comparator, negative if a is seen before b
+ */
+export function createQueueComparator(
+  now: Date = new Date(),
+  policy: AgingPolicy = AGING_POLICY
+): (a: OrderableQueueEntry, b: OrderableQueueEntry) => number {
+  const rankOf = (entry: OrderableQueueEntry) =>
+    PRIORITY_RANK[getEffectivePriority(entry, now, policy).priority];
+
+  return (a, b) => {
+    const rankDifference = rankOf(b) - rankOf(a);
+    if (rankDifference !== 0) {
+      return rankDifference;
+    }
+
+    return new Date(a.checkInTime).getTime() - new Date(b.checkInTime).getTime();
+  };
+}
+
+/**
+ * Plans queue positions and returns only the entries whose position changed
+ *
+ * @param entries - Waiting queue entries in any order
+ * @param now - Time the queue is being ordered at
+ * @param policy - Aging thresholds
+ * @returns Position changes needed to bring the queue in order
+ *
+ * @example
+ * const changes = planPositionUpdates(waitingEntries);
+ * // [{ id: '...', from: 3, to: 1 }, { id: '...', from: 1, to: 2 }, ...]
+ */
+export function planPositionUpdates(
+  entries: OrderableQueueEntry[],
+  now: Date = new Date(),
+  policy: AgingPolicy = AGING_POLICY
+): PositionChange[] {
+  const ordered = [...entries].sort(createQueueComparator(now, policy));
+  const changes: PositionChange[] = [];
+
+  ordered.forEach((entry, index) => {
+    const position = index + 1;
+    if (entry.position !== position) {
+      changes.push({ id: entry._id.toString(), from: entry.position, to: position });
+    }
+  });
+
+  return changes;
+}
\ No newline at end of file
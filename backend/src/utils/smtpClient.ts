@@ -0,0 +1,271 @@
+// backend/src/utils/smtpClient.ts
+/**
+ * Minimal SMTP Client
+ *
+ * Sends plain-text email over SMTP for patient notifications, without a
+ * mail library: implicit TLS or STARTTLS, AUTH PLAIN when credentials are
+ * configured, one recipient per message. Messages carry patient details,
+ * so the client never authenticates or sends over an unencrypted
+ * connection: a server that does not offer STARTTLS fails the delivery.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import crypto from 'crypto';
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;     // Implicit TLS (usually port 465); otherwise STARTTLS, which the server must offer
+  user?: string;
+  pass?: string;
+  from: string;        // "Clinic <no-reply@clinic.example>" or a bare address
+  timeoutMs?: number;
+  ca?: string;         // Extra trusted CA certificate (PEM), for servers with a private CA
+}
+
+/**
+ * Plain-text email
+ */
+export interface SmtpMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Server reply: status code and text lines
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads replies and writes commands on one connection
+ */
+class SmtpSession {
+  private buffer = '';
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  /**
+   * Whether the connection is encrypted
+   */
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket && this.socket.encrypted;
+  }
+
+  /**
+   * Switches the session to TLS after STARTTLS
+   */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+
+    const secureSocket = tls.connect({ ...options, socket: this.socket });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  /**
+   * Waits for the next complete reply
+   */
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.drain();
+    });
+  }
+
+  /**
+   * Sends a command and checks the reply code
+   *
+   * @throws {Error} If the reply code is not one of the expected codes
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /**
+   * Reads a reply and checks its code
+   */
+  async expect(expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.drain();
+    });
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(this.failure);
+    }
+  }
+
+  /**
+   * Resolves the waiting reader once a reply's last line has arrived
+   * (multi-line replies use "250-" on every line but the last)
+   */
+  private drain(): void {
+    if (!this.waiter) return;
+
+    const lines = this.buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        const { resolve } = this.waiter;
+        this.waiter = undefined;
+        resolve({
+          code: parseInt(lines[i].slice(0, 3), 10),
+          lines: lines.slice(0, i + 1).map(line => line.slice(4))
+        });
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * TLS options for a server; IP addresses are checked against the
+ * certificate but cannot be sent as the server name
+ */
+const tlsOptions = (config: SmtpConfig): tls.ConnectionOptions => ({
+  host: config.host,
+  ...(!net.isIP(config.host) && { servername: config.host }),
+  ...(config.ca && { ca: config.ca })
+});
+
+/**
+ * Address part of "Name <address>"
+ */
+const addressOf = (mailbox: string): string => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+/**
+ * Encodes a header value that is not plain ASCII
+ */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Builds the message with headers, CRLF line endings and dot-stuffing
+ */
+export function buildSmtpMessage(from: string, message: SmtpMessage, messageId: string): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+
+  const body = message.text
+    .split(/\r?\n/)
+    .map(line => (line.startsWith('.') ? `.${line}` : line));
+
+  return [...headers, '', ...body].join('\r\n');
+}
+
+/**
+ * Sends an email
+ *
+ * @param config - SMTP server settings
+ * @param message - Email to send
+ * @returns Message-ID of the sent email
+ * @throws {Error} If the connection fails, cannot be encrypted, or the server refuses the message
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<string> {
+  const timeoutMs = config.timeoutMs || 10000;
+  const socket = config.secure
+    ? tls.connect({ port: config.port, ...tlsOptions(config) })
+    : net.connect({ host: config.host, port: config.port });
+
+  const session = new SmtpSession(socket, timeoutMs);
+  const hostname = os.hostname();
+  const senderAddress = addressOf(config.from);
+  const messageId = `<${crypto.randomUUID()}@${senderAddress.split('@')[1] || hostname}>`;
+
+  try {
+    await session.expect([220]);
+    const greeting = await session.command(`EHLO ${hostname}`, [250]);
+
+    if (!config.secure) {
+      if (!greeting.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send without TLS');
+      }
+
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(tlsOptions(config));
+      await session.command(`EHLO ${hostname}`, [250]);
+    }
+
+    // Credentials and patient details only ever go over TLS
+    if (!session.encrypted) {
+      throw new Error('SMTP connection is not encrypted; refusing to send');
+    }
+
+    if (config.user && config.pass) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.pass}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${senderAddress}>`, [250]);
+    await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+
+    session.write(`${buildSmtpMessage(config.from, message, messageId)}\r\n.\r\n`);
+    await session.expect([250]);
+
+    await session.command('QUIT', [221]).catch(() => undefined);
+    return messageId;
+  } finally {
+    session.close();
+  }
+}
\ No newline at end of file
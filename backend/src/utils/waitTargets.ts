@@ -0,0 +1,81 @@
+// backend/src/utils/waitTargets.ts
+/**
+ * Waiting Time Targets
+ *
+ * Per-triage-level targets for how long a patient may wait to be called by
+ * a doctor, and the check of a wait against them. A wait is at risk once it
+ * reaches the warning share of its target and breached once it passes it.
+ */
+
+import { QueuePriority } from './queueOrdering';
+
+/**
+ * Waiting targets in minutes, with the share of a target that triggers a warning
+ */
+export interface WaitTargets {
+  minutes: Record<QueuePriority, number>;
+  warningRatio: number;
+}
+
+export const WAIT_TARGETS: WaitTargets = {
+  minutes: {
+    high: parseInt(process.env.SLA_TARGET_HIGH_MINUTES || '15', 10),
+    medium: parseInt(process.env.SLA_TARGET_MEDIUM_MINUTES || '60', 10),
+    low: parseInt(process.env.SLA_TARGET_LOW_MINUTES || '120', 10)
+  },
+  warningRatio: parseInt(process.env.SLA_WARNING_PERCENT || '80', 10) / 100
+};
+
+/**
+ * Alert levels, from least to most severe
+ */
+export const WAIT_ALERT_LEVELS = ['warning', 'breach'] as const;
+
+export type WaitAlertLevel = typeof WAIT_ALERT_LEVELS[number];
+
+/**
+ * Outcome of checking a wait against its target
+ */
+export interface WaitAssessment {
+  level: WaitAlertLevel | null;  // null while comfortably within target
+  targetMinutes: number;
+  waitedMinutes: number;
+}
+
+/**
+ * Checks a wait against the target for its triage level
+ *
+ * @param priority - Triage level of the patient
+ * @param waitedMinutes - Minutes waited so far
+ * @param targets - Waiting targets
+ * @returns Alert level reached, if any
+ *
+ * @example
+ * assessWait('high', 13); // { level: 'warning', targetMinutes: 15, waitedMinutes: 13 }
+ */
+export function assessWait(
+  priority: QueuePriority,
+  waitedMinutes: number,
+  targets: WaitTargets = WAIT_TARGETS
+): WaitAssessment {
+  const targetMinutes = targets.minutes[priority];
+  let level: WaitAlertLevel | null = null;
+
+  if (waitedMinutes > targetMinutes) {
+    level = 'breach';
+  } else if (waitedMinutes >= targetMinutes * targets.warningRatio) {
+    level = 'warning';
+  }
+
+  return { level, targetMinutes, waitedMinutes };
+}
+
+/**
+ * Shortest wait that can trigger any alert, for narrowing the entries checked
+ *
+ * @param targets - Waiting targets
+ * @returns Minutes
+ */
+export function earliestAlertMinutes(targets: WaitTargets = WAIT_TARGETS): number {
+  return Math.min(...Object.values(targets.minutes)) * targets.warningRatio;
+}
\ No newline at end of file
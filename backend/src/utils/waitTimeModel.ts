@@ -0,0 +1,252 @@
+// backend/src/utils/waitTimeModel.ts
+/**
+ * Wait Time Estimation Model
+ *
+ * Learns consultation durations from completed queue entries, grouped by
+ * doctors on duty, hour of day and triage level, and turns them into a
+ * wait estimate with a confidence range for the patients ahead in the queue
+ * and the consultations still under way. Falls back to broader groups (and
+ * finally the configured average consultation time) when there is not
+ * enough history. Estimates are calibrated against the waits patients
+ * actually had compared with what they were told at check-in.
+ */
+
+import { QueuePriority } from './queueOrdering';
+
+/**
+ * Completed consultation used as training data
+ */
+export interface ConsultationSample {
+  consultationDuration: number; // Minutes
+  hour: number;                 // 0-23, hour the consultation started
+  triageLevel: QueuePriority;
+  doctorsOnDuty: number;
+}
+
+/**
+ * Wait a patient was told at check-in and the wait they actually had,
+ * used to calibrate the estimates
+ */
+export interface WaitSample {
+  estimatedWaitTime: number;  // Minutes, as estimated when the patient joined
+  actualWaitTime: number;     // Minutes until first called
+}
+
+/**
+ * Consultation under way when the estimate is made
+ */
+export interface OngoingConsultation {
+  triageLevel: QueuePriority;
+  elapsedMinutes: number;
+}
+
+/**
+ * Duration statistics for one group of samples
+ */
+export interface DurationStats {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+/**
+ * Trained wait time model
+ */
+export interface WaitTimeModel {
+  groups: Record<string, DurationStats>;
+  defaultMinutes: number;
+  waitCalibration: number;  // Actual waits over estimated waits, 1 without enough history
+  trainedAt: Date;
+}
+
+/**
+ * Estimation input
+ */
+export interface WaitTimeQuery {
+  ahead: QueuePriority[];  // Triage levels of patients ahead, in queue order
+  inConsultation?: OngoingConsultation[];
+  doctorsOnDuty: number;
+  hour: number;
+}
+
+/**
+ * Wait time estimate with confidence range
+ */
+export interface WaitTimeEstimate {
+  estimatedWaitTime: number;
+  range: { low: number; high: number };
+  confidence: 'high' | 'medium' | 'low';
+  basis: 'historical' | 'default';
+  sampleSize: number;
+}
+
+/**
+ * Model configuration
+ */
+const MODEL_CONFIG = {
+  minSamples: 5,           // Minimum samples before a group is trusted
+  highConfidenceSamples: 30,
+  rangeZ: 1.28,            // ~80% confidence interval
+  defaultSpread: 0.5,      // Assumed coefficient of variation without history
+  overdueShare: 0.25,      // Share of its expected length a consultation running over still needs
+  calibrationBounds: { min: 0.5, max: 2 }
+} as const;
+
+/**
+ * Builds the lookup keys for a group, from most to least specific
+ */
+const groupKeys = (doctorsOnDuty: number, hour: number, triageLevel: QueuePriority): string[] => [
+  `doctors:${doctorsOnDuty}|hour:${hour}|${triageLevel}`,
+  `hour:${hour}|${triageLevel}`,
+  triageLevel,
+  'all'
+];
+
+/**
+ * Ratio of actual to estimated waits, within the calibration bounds
+ *
+ * Returns 1 (no correction) until there are enough samples.
+ */
+const calibrationOf = (waits: WaitSample[]): number => {
+  const usable = waits.filter(wait => wait.estimatedWaitTime > 0 && wait.actualWaitTime >= 0);
+  if (usable.length < MODEL_CONFIG.minSamples) {
+    return 1;
+  }
+
+  const estimated = usable.reduce((total, wait) => total + wait.estimatedWaitTime, 0);
+  const actual = usable.reduce((total, wait) => total + wait.actualWaitTime, 0);
+  const { min, max } = MODEL_CONFIG.calibrationBounds;
+
+  return Math.min(Math.max(actual / estimated, min), max);
+};
+
+/**
+ * Trains a wait time model from completed consultations
+ *
+ * @param samples - Completed consultation samples
+ * @param defaultMinutes - Average consultation time used without history
+ * @param waits - Estimated and actual waits of patients already called
+ * @returns Trained model
+ */
+export function buildWaitTimeModel(
+  samples: ConsultationSample[],
+  defaultMinutes: number,
+  waits: WaitSample[] = []
+): WaitTimeModel {
+  const accumulators: Record<string, { count: number; sum: number; sumSquares: number }> = {};
+
+  for (const sample of samples) {
+    if (!(sample.consultationDuration > 0)) continue;
+
+    for (const key of groupKeys(sample.doctorsOnDuty, sample.hour, sample.triageLevel)) {
+      const accumulator = accumulators[key] || (accumulators[key] = { count: 0, sum: 0, sumSquares: 0 });
+      accumulator.count++;
+      accumulator.sum += sample.consultationDuration;
+      accumulator.sumSquares += sample.consultationDuration ** 2;
+    }
+  }
+
+  const groups: Record<string, DurationStats> = {};
+  for (const [key, { count, sum, sumSquares }] of Object.entries(accumulators)) {
+    const mean = sum / count;
+    groups[key] = { count, mean, variance: Math.max(sumSquares / count - mean ** 2, 0) };
+  }
+
+  return { groups, defaultMinutes, waitCalibration: calibrationOf(waits), trainedAt: new Date() };
+}
+
+/**
+ * Expected consultation time for a triage level, from the most specific
+ * group with enough samples, or the default when there is none
+ */
+const durationOf = (
+  model: WaitTimeModel,
+  doctors: number,
+  hour: number,
+  triageLevel: QueuePriority
+): { mean: number; variance: number; count: number | null } => {
+  const stats = groupKeys(doctors, hour, triageLevel)
+    .map(key => model.groups[key])
+    .find(group => group && group.count >= MODEL_CONFIG.minSamples);
+
+  return stats
+    ? { mean: stats.mean, variance: stats.variance, count: stats.count }
+    : { mean: model.defaultMinutes, variance: (model.defaultMinutes * MODEL_CONFIG.defaultSpread) ** 2, count: null };
+};
+
+/**
+ * Estimates the wait for a patient given who is ahead of them
+ *
+ * Expected wait is the remaining time of the consultations under way plus
+ * the expected consultation times of the patients ahead, shared between the
+ * doctors on duty, and corrected by the calibration against actual waits.
+ * A patient is seen at once only while a doctor is free for them. The range
+ * widens with the spread of those consultation times.
+ *
+ * @param model - Trained model
+ * @param query - Patients ahead, consultations under way, doctors on duty and hour of day
+ * @returns Estimate in minutes with confidence range
+ */
+export function estimateWaitTime(model: WaitTimeModel, query: WaitTimeQuery): WaitTimeEstimate {
+  const inConsultation = query.inConsultation || [];
+  const doctors = Math.max(query.doctorsOnDuty, inConsultation.length, 1);
+
+  // A doctor is free for the patient: they are next
+  if (query.ahead.length < doctors - inConsultation.length) {
+    return {
+      estimatedWaitTime: 0,
+      range: { low: 0, high: 0 },
+      confidence: 'high',
+      basis: 'historical',
+      sampleSize: 0
+    };
+  }
+
+  let totalMean = 0;
+  let totalVariance = 0;
+  let minSampleSize = Infinity;
+  let usedDefault = false;
+
+  const add = (duration: ReturnType<typeof durationOf>, minutes: number) => {
+    totalMean += minutes;
+    totalVariance += duration.variance;
+    if (duration.count === null) {
+      usedDefault = true;
+    } else {
+      minSampleSize = Math.min(minSampleSize, duration.count);
+    }
+  };
+
+  for (const { triageLevel, elapsedMinutes } of inConsultation) {
+    const duration = durationOf(model, doctors, query.hour, triageLevel);
+    add(duration, Math.max(duration.mean - elapsedMinutes, duration.mean * MODEL_CONFIG.overdueShare));
+  }
+
+  for (const triageLevel of query.ahead) {
+    const duration = durationOf(model, doctors, query.hour, triageLevel);
+    add(duration, duration.mean);
+  }
+
+  const calibration = model.waitCalibration ?? 1;
+  const estimate = (totalMean / doctors) * calibration;
+  const margin = ((MODEL_CONFIG.rangeZ * Math.sqrt(totalVariance)) / doctors) * calibration;
+  const sampleSize = Number.isFinite(minSampleSize) ? minSampleSize : 0;
+
+  let confidence: WaitTimeEstimate['confidence'] = 'low';
+  if (!usedDefault && sampleSize >= MODEL_CONFIG.highConfidenceSamples) {
+    confidence = 'high';
+  } else if (!usedDefault && sampleSize >= MODEL_CONFIG.minSamples) {
+    confidence = 'medium';
+  }
+
+  return {
+    estimatedWaitTime: Math.round(estimate),
+    range: {
+      low: Math.max(Math.round(estimate - margin), 0),
+      high: Math.round(estimate + margin)
+    },
+    confidence,
+    basis: usedDefault ? 'default' : 'historical',
+    sampleSize
+  };
+}
\ No newline at end of file